@@ -0,0 +1,12 @@
+/** @type {import("jest").Config} */
+module.exports = {
+    testEnvironment: "node",
+    roots: ["<rootDir>/src"],
+    testMatch: ["**/*.test.ts"],
+    transform: {
+        "^.+\\.ts$": ["ts-jest", { tsconfig: "tsconfig.test.json" }],
+    },
+    setupFiles: ["<rootDir>/jest.setup.js"],
+    clearMocks: true,
+    restoreMocks: true,
+};
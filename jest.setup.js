@@ -0,0 +1,20 @@
+// Variables mínimas para cargar la configuración (src/config/env.ts) sin
+// .env; las pruebas no se conectan a MySQL ni envían emails
+process.env.DOTENV_CONFIG_QUIET = "true";
+process.env.MYSQL_DATABASE ??= "test";
+process.env.MYSQL_USER ??= "test";
+process.env.MYSQL_PASSWORD ??= "test";
+process.env.JWT_SECRET ??= "test-jwt-secret-with-at-least-32-characters";
+process.env.PAYMENT_PROVIDER ??= "fake";
+process.env.FAKE_PAYMENT_SECRET ??= "test-fake-payment-secret-32-characters";
+
+// Sin archivos de log ni salida en consola durante las pruebas
+jest.mock("./src/utils/logger", () => ({
+    __esModule: true,
+    default: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
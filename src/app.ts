@@ -18,6 +18,10 @@ import "./models";
 // Importar configuración de base de datos
 import { testDatabaseConnection, syncDatabase } from "./config/database";
 
+// Importar servicios
+import { permissionService } from "./services/permissionService";
+import { healthProfileService } from "./services/healthProfileService";
+
 // Importar middlewares
 import requestLogger from "./utils/requestLogger";
 import customHeader from "./middlewares/customHeader";
@@ -35,7 +39,14 @@ import ResponseHandler from "./utils/responseHandler";
 // Importar rutas
 import rolesRouter from "./routes/roles";
 import campAttendeesRouter from "./routes/campAttendees";
+import campsRouter from "./routes/camps";
 import uploadRouter from "./routes/upload";
+import authRouter from "./routes/auth";
+import adminRouter from "./routes/admin";
+import auditLogsRouter from "./routes/auditLogs";
+import consentsRouter from "./routes/consents";
+import healthProfilesRouter from "./routes/healthProfiles";
+import paymentsRouter from "./routes/payments";
 
 // Importar controllers de health
 import { healthCheck } from "./controllers/health";
@@ -102,8 +113,17 @@ export class App {
         const limiter = rateLimit(rateLimitConfig);
         this.app.use("/api", limiter);
 
-        // Body parsing
-        this.app.use(express.json({ limit: "10mb" }));
+        // Body parsing (el webhook de pagos conserva el cuerpo crudo para verificar la firma)
+        this.app.use(
+            express.json({
+                limit: "10mb",
+                verify: (req, _res, buf) => {
+                    if (req.url?.startsWith("/api/payments/webhook")) {
+                        (req as typeof req & { rawBody?: Buffer }).rawBody = buf;
+                    }
+                },
+            })
+        );
         this.app.use(express.urlencoded({ extended: true }));
     }
 
@@ -168,7 +188,14 @@ export class App {
                     docs: "/api/docs",
                     roles: "/api/roles",
                     campAttendees: "/api/camp-attendees",
+                    camps: "/api/camps",
                     uploadUrl: "/api/upload-url",
+                    auth: "/api/auth",
+                    admin: "/api/admin",
+                    auditLogs: "/api/audit-logs",
+                    consents: "/api/consents",
+                    healthProfiles: "/api/health-profiles",
+                    payments: "/api/payments",
                 },
                 features: ["Gestión Jóvenes con Un Próposito"],
                 documentation: {
@@ -200,12 +227,73 @@ export class App {
                     "GET /api/roles/code/:code - Obtener rol por código",
                     "PUT /api/roles/:id - Actualizar rol",
                     "DELETE /api/roles/:id - Eliminar rol",
+                    "POST /api/roles/:id/restore - Restaurar rol eliminado",
+                    "GET /api/roles/:id/permissions - Permisos de un rol",
+                    "PUT /api/roles/:id/permissions - Reemplazar permisos de un rol",
                     "GET /api/camp-attendees - Lista de asistentes",
                     "POST /api/camp-attendees - Crear asistente",
+                    "POST /api/camp-attendees/import - Importar asistentes desde CSV/XLSX (dryRun opcional)",
+                    "GET /api/camp-attendees/export - Exportar asistentes (csv, xlsx o json)",
+                    "GET /api/camp-attendees/duplicates - Candidatos a duplicado",
+                    "POST /api/camp-attendees/merge - Fusionar dos asistentes",
                     "GET /api/camp-attendees/:id - Obtener asistente por ID",
                     "PUT /api/camp-attendees/:id - Actualizar asistente",
                     "DELETE /api/camp-attendees/:id - Eliminar asistente",
+                    "POST /api/camp-attendees/:id/restore - Restaurar asistente eliminado",
+                    "POST /api/camp-attendees/:id/status - Cambiar estado de inscripción",
+                    "GET /api/camp-attendees/:id/status-history - Historial de estados",
+                    "GET /api/camp-attendees/:id/guardians - Acudientes de un asistente",
+                    "POST /api/camp-attendees/:id/guardians - Agregar acudiente",
+                    "PUT /api/camp-attendees/:id/guardians/:guardianId - Actualizar acudiente",
+                    "DELETE /api/camp-attendees/:id/guardians/:guardianId - Eliminar acudiente",
+                    "GET /api/camp-attendees/:id/consent - Estado del consentimiento del acudiente",
+                    "POST /api/camp-attendees/:id/consent/request - Enviar consentimiento al acudiente",
+                    "GET /api/camp-attendees/:id/health-profile - Perfil de salud del asistente",
+                    "PUT /api/camp-attendees/:id/health-profile - Guardar perfil de salud",
+                    "GET /api/camp-attendees/:id/payments - Pagos y saldo del asistente",
+                    "POST /api/camp-attendees/:id/payments - Registrar pago",
+                    "POST /api/camp-attendees/:id/payments/:paymentId/void - Anular pago",
+                    "GET /api/camp-attendees/:id/payments/:paymentId/receipt - Recibo del pago en PDF",
+                    "POST /api/camp-attendees/:id/payments/:paymentId/receipt - Reemitir y enviar recibo",
+                    "POST /api/camp-attendees/:id/checkout - Generar enlace de pago en línea",
+                    "GET /api/camp-attendees/:id/check-in-qr - Código QR de check-in (PNG)",
+                    "POST /api/camp-attendees/:id/discount-code - Aplicar código de descuento",
+                    "DELETE /api/camp-attendees/:id/discount-code - Retirar código de descuento",
+                    "GET /api/camp-attendees/:id/scholarships - Becas del asistente",
+                    "POST /api/camp-attendees/:id/scholarships - Solicitar beca",
+                    "POST /api/camp-attendees/:id/scholarships/:scholarshipId/review - Aprobar, rechazar o revocar beca",
+                    "GET /api/camps - Lista de camps",
+                    "POST /api/camps - Crear camp",
+                    "GET /api/camps/:id - Obtener camp por ID",
+                    "GET /api/camps/code/:code - Obtener camp por código",
+                    "PUT /api/camps/:id - Actualizar camp",
+                    "DELETE /api/camps/:id - Eliminar camp",
+                    "POST /api/camps/:id/restore - Restaurar camp eliminado",
+                    "GET /api/camps/:id/stats - Estadísticas del camp (dashboard)",
+                    "GET /api/camps/:id/reports/dietary - Informe de alimentación (json, csv o pdf)",
+                    "GET /api/camps/:id/reports/medical - Informe médico (json, csv o pdf)",
+                    "GET /api/camps/:id/payments/summary - Resumen de recaudo del camp",
+                    "GET /api/camps/:id/discount-codes - Códigos de descuento del camp",
+                    "POST /api/camps/:id/discount-codes - Crear código de descuento",
+                    "PUT /api/camps/:id/discount-codes/:codeId - Modificar código de descuento",
+                    "GET /api/camps/:id/scholarships - Becas del camp",
+                    "POST /api/camps/:id/check-in - Check-in con QR o número de identificación",
                     "POST /api/upload-url - Generar URL firmada para R2",
+                    "POST /api/auth/login - Iniciar sesión",
+                    "POST /api/auth/refresh - Renovar access token",
+                    "POST /api/auth/logout - Cerrar sesión",
+                    "POST /api/auth/forgot-password - Solicitar recuperación de contraseña",
+                    "POST /api/auth/reset-password - Restablecer contraseña",
+                    "GET /api/auth/verify-email - Verificar email",
+                    "POST /api/auth/resend-verification - Reenviar verificación de email",
+                    "GET /api/auth/me - Usuario autenticado",
+                    "POST /api/admin/purge - Purgar definitivamente registros eliminados",
+                    "GET /api/audit-logs - Auditoría de cambios (filtros: entity, entityId, actorId, action, from, to)",
+                    "GET /api/consents/form - Formulario de consentimiento (token del email)",
+                    "POST /api/consents/sign - Firmar consentimiento",
+                    "POST /api/payments/webhook - Eventos firmados de la pasarela de pagos",
+                    "POST /api/payments/checkouts/:checkoutId/simulate - Simular evento (pasarela fake)",
+                    "GET /api/health-profiles - Perfiles de salud (filtros: campId, allergen, severity, dietaryRestriction, withMedications)",
                 ],
                 status: "active",
             };
@@ -220,6 +308,13 @@ export class App {
         // API routes
         this.app.use("/api/roles", rolesRouter);
         this.app.use("/api/camp-attendees", campAttendeesRouter);
+        this.app.use("/api/camps", campsRouter);
+        this.app.use("/api/auth", authRouter);
+        this.app.use("/api/admin", adminRouter);
+        this.app.use("/api/audit-logs", auditLogsRouter);
+        this.app.use("/api/consents", consentsRouter);
+        this.app.use("/api/health-profiles", healthProfilesRouter);
+        this.app.use("/api/payments", paymentsRouter);
         this.app.use("/api", uploadRouter);
     }
 
@@ -247,6 +342,8 @@ export class App {
         try {
             await testDatabaseConnection();
             await syncDatabase();
+            await permissionService.syncDefaults();
+            await healthProfileService.backfillLegacyAllergies();
             console.log("✅ Base de datos inicializada correctamente");
         } catch (error) {
             console.error("❌ Error al inicializar la base de datos:", error);
@@ -1,5 +1,5 @@
-import { Sequelize } from "sequelize";
-import { dbConfig } from "./env";
+import { DataTypes, Sequelize } from "sequelize";
+import { dbConfig, serverConfig } from "./env";
 
 // Instancia de Sequelize
 export const sequelize = new Sequelize(
@@ -41,6 +41,11 @@ export async function syncDatabase(): Promise<void> {
 
         // Solo verificar que las tablas existen sin hacer cambios
         await sequelize.sync({ force: false, alter: false });
+        // En producción los cambios de esquema se aplican explícitamente con
+        // `npm run migrate` antes del despliegue, nunca al arrancar
+        if (serverConfig.nodeEnv !== "production") {
+            await migrateDatabase();
+        }
         console.log(
             "✅ Verificación de estructura de base de datos completada"
         );
@@ -53,6 +58,30 @@ export async function syncDatabase(): Promise<void> {
     }
 }
 
+/**
+ * sync no modifica tablas existentes: agrega las columnas nuevas de los
+ * modelos que aún no existan en la base de datos. Nunca elimina ni cambia
+ * columnas; las nuevas deben admitir NULL o tener valor por defecto.
+ * Requiere que los modelos estén cargados (ver src/scripts/migrate.ts).
+ */
+export async function migrateDatabase(): Promise<void> {
+    const queryInterface = sequelize.getQueryInterface();
+    for (const model of Object.values(sequelize.models)) {
+        const table = model.getTableName();
+        const existing = await queryInterface.describeTable(table);
+        for (const [name, attribute] of Object.entries(
+            model.getAttributes()
+        )) {
+            const column = attribute.field ?? name;
+            if (existing[column] || attribute.type instanceof DataTypes.VIRTUAL) {
+                continue;
+            }
+            await queryInterface.addColumn(table, column, attribute);
+            console.log(`✅ Columna ${column} agregada a ${model.tableName}`);
+        }
+    }
+}
+
 // Función para cerrar la conexión
 export async function closeDatabaseConnection(): Promise<void> {
     try {
@@ -48,12 +48,60 @@ const envSchema = z
         // Ej: https://mi-dominio.com o https://<account-id>.r2.cloudflarestorage.com
         R2_PUBLIC_BASE_URL: z.string().optional(),
 
+        // Configuración de autenticación (JWT)
+        JWT_SECRET: z
+            .string()
+            .min(32, "JWT_SECRET debe tener al menos 32 caracteres"),
+        JWT_ACCESS_EXPIRES_IN: z.string().default("15m"),
+        JWT_REFRESH_EXPIRES_DAYS: z.string().transform(Number).default(30),
+        // Rol que recibe todos los permisos al iniciar la aplicación
+        ADMIN_ROLE_CODE: z.string().default("ADMIN"),
+        PASSWORD_RESET_EXPIRES_MINUTES: z
+            .string()
+            .transform(Number)
+            .default(60),
+
+        // Vigencia del enlace de invitación enviado al activar (horas)
+        INVITE_EXPIRES_HOURS: z.string().transform(Number).default(72),
+        EMAIL_VERIFICATION_EXPIRES_IN: z.string().default("48h"),
+        // Exigir email verificado para activar a un asistente
+        REQUIRE_EMAIL_VERIFICATION: z
+            .enum(["true", "false"])
+            .default("false")
+            .transform((value) => value === "true"),
+        // Vigencia del enlace de consentimiento enviado al acudiente (horas)
+        CONSENT_EXPIRES_HOURS: z.string().transform(Number).default(168),
+
+        // URL del frontend para construir enlaces en los correos
+        FRONTEND_URL: z
+            .string()
+            .default("https://www.jovenesconunproposito.org"),
+
         // Configuración de SMTP para envío de correos
         SMTP_HOST: z.string().default("localhost"),
         SMTP_PORT: z.string().transform(Number).default(587),
         SMTP_USER: z.string().optional(),
         SMTP_PASS: z.string().optional(),
         SMTP_FROM: z.string().default("noreply@example.com"),
+
+        // Pasarela de pagos en línea (fake = simulada localmente, sin red)
+        PAYMENT_PROVIDER: z.enum(["fake", "wompi"]).default("fake"),
+        // Vigencia de los enlaces de pago (minutos)
+        PAYMENT_CHECKOUT_EXPIRES_MINUTES: z
+            .string()
+            .transform(Number)
+            .default(60),
+        // URL a la que vuelve el asistente después de pagar
+        // (por defecto FRONTEND_URL/pagos/resultado)
+        PAYMENT_REDIRECT_URL: z.string().optional(),
+        // Secreto con el que el proveedor fake firma sus webhooks
+        // (requerido con PAYMENT_PROVIDER=fake, mínimo 32 caracteres)
+        FAKE_PAYMENT_SECRET: z.string().optional(),
+        WOMPI_API_URL: z.string().default("https://sandbox.wompi.co/v1"),
+        WOMPI_CHECKOUT_URL: z.string().default("https://checkout.wompi.co/l"),
+        WOMPI_PRIVATE_KEY: z.string().optional(),
+        // Secreto de eventos para validar la firma de los webhooks
+        WOMPI_EVENTS_SECRET: z.string().optional(),
     })
     .superRefine((env, ctx) => {
         // Si R2 está habilitado, exigir endpoint y credenciales
@@ -82,6 +130,44 @@ const envSchema = z
                 });
             }
         }
+        // Si se usa Wompi, exigir llave privada y secreto de eventos
+        if (env.PAYMENT_PROVIDER === "wompi") {
+            if (!env.WOMPI_PRIVATE_KEY) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: ["WOMPI_PRIVATE_KEY"],
+                    message:
+                        "WOMPI_PRIVATE_KEY es requerido cuando PAYMENT_PROVIDER=wompi",
+                });
+            }
+            if (!env.WOMPI_EVENTS_SECRET) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: ["WOMPI_EVENTS_SECRET"],
+                    message:
+                        "WOMPI_EVENTS_SECRET es requerido cuando PAYMENT_PROVIDER=wompi",
+                });
+            }
+        }
+        // La pasarela fake marca pagos como aprobados: nunca en producción
+        if (env.PAYMENT_PROVIDER === "fake") {
+            if (env.NODE_ENV === "production") {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: ["PAYMENT_PROVIDER"],
+                    message:
+                        "PAYMENT_PROVIDER=fake no está permitido con NODE_ENV=production",
+                });
+            }
+            if (!env.FAKE_PAYMENT_SECRET || env.FAKE_PAYMENT_SECRET.length < 32) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: ["FAKE_PAYMENT_SECRET"],
+                    message:
+                        "FAKE_PAYMENT_SECRET debe tener al menos 32 caracteres cuando PAYMENT_PROVIDER=fake",
+                });
+            }
+        }
     });
 
 // Validar y exportar las variables de entorno
@@ -95,7 +181,12 @@ export function loadEnvironmentVariables(): void {
 
 // Función para validar variables requeridas
 export function validateRequiredEnvVars(): void {
-    const requiredVars = ["MYSQL_DATABASE", "MYSQL_USER", "MYSQL_PASSWORD"];
+    const requiredVars = [
+        "MYSQL_DATABASE",
+        "MYSQL_USER",
+        "MYSQL_PASSWORD",
+        "JWT_SECRET",
+    ];
     // Si R2 está habilitado, validar también sus variables
     try {
         const isR2Enabled = env.R2_ENABLED;
@@ -106,6 +197,9 @@ export function validateRequiredEnvVars(): void {
                 "R2_SECRET_ACCESS_KEY"
             );
         }
+        if (env.PAYMENT_PROVIDER === "fake") {
+            requiredVars.push("FAKE_PAYMENT_SECRET");
+        }
     } catch (e) {
         // Si env aún no está parseado, omitir (superRefine ya validará luego)
     }
@@ -189,6 +283,24 @@ export const r2Config = {
     publicBaseUrl: env.R2_PUBLIC_BASE_URL,
 };
 
+// Configuración de autenticación
+export const authConfig = {
+    jwtSecret: env.JWT_SECRET,
+    accessTokenExpiresIn: env.JWT_ACCESS_EXPIRES_IN,
+    refreshTokenExpiresDays: env.JWT_REFRESH_EXPIRES_DAYS,
+    adminRoleCode: env.ADMIN_ROLE_CODE,
+    passwordResetExpiresMinutes: env.PASSWORD_RESET_EXPIRES_MINUTES,
+    inviteExpiresHours: env.INVITE_EXPIRES_HOURS,
+    emailVerificationExpiresIn: env.EMAIL_VERIFICATION_EXPIRES_IN,
+    requireEmailVerification: env.REQUIRE_EMAIL_VERIFICATION,
+    frontendUrl: env.FRONTEND_URL.replace(/\/+$/, ""),
+};
+
+// Configuración del consentimiento de acudientes (menores de edad)
+export const consentConfig = {
+    expiresHours: env.CONSENT_EXPIRES_HOURS,
+};
+
 // Configuración de SMTP
 export const smtpConfig = {
     host: env.SMTP_HOST,
@@ -203,3 +315,21 @@ export const smtpConfig = {
             : undefined,
     from: env.SMTP_FROM,
 };
+
+// Configuración de la pasarela de pagos
+export const paymentConfig = {
+    provider: env.PAYMENT_PROVIDER,
+    checkoutExpiresMinutes: env.PAYMENT_CHECKOUT_EXPIRES_MINUTES,
+    redirectUrl:
+        env.PAYMENT_REDIRECT_URL ||
+        `${env.FRONTEND_URL.replace(/\/+$/, "")}/pagos/resultado`,
+    fake: {
+        secret: env.FAKE_PAYMENT_SECRET,
+    },
+    wompi: {
+        apiUrl: env.WOMPI_API_URL.replace(/\/+$/, ""),
+        checkoutUrl: env.WOMPI_CHECKOUT_URL.replace(/\/+$/, ""),
+        privateKey: env.WOMPI_PRIVATE_KEY,
+        eventsSecret: env.WOMPI_EVENTS_SECRET,
+    },
+};
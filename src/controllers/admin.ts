@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from "express";
+import { matchedData } from "express-validator";
+import { purgeService } from "../services/purgeService";
+import logger from "../utils/logger";
+import ResponseHandler from "../utils/responseHandler";
+import { AuthUser } from "../middlewares/authenticate";
+
+interface ExtendedRequest extends Request {
+    requestId?: string;
+    user?: AuthUser;
+}
+
+const adminController = {
+    async purgeDeleted(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { olderThanDays } = matchedData(req, {
+                locations: ["body"],
+            }) as { olderThanDays: number };
+            logger.warn("Purge of soft-deleted records requested", {
+                requestId: req.requestId,
+                by: req.user?.id,
+                olderThanDays,
+            });
+            const summary = await purgeService.purgeDeleted(
+                olderThanDays,
+                req.requestId
+            );
+            return ResponseHandler.success(
+                res,
+                summary,
+                "Registros eliminados purgados exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error purging deleted records", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+};
+
+export default adminController;
@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from "express";
+import { matchedData } from "express-validator";
+import AuditLog, { AuditLogQueryOptions } from "../models/AuditLog";
+import logger from "../utils/logger";
+import ResponseHandler from "../utils/responseHandler";
+import { AuthUser } from "../middlewares/authenticate";
+
+interface ExtendedRequest extends Request {
+    requestId?: string;
+    user?: AuthUser;
+}
+
+// Tamaño de página por defecto del listado
+const DEFAULT_PAGE_SIZE = 50;
+
+const auditLogsController = {
+    async getAuditLogs(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const data = matchedData(req, {
+                locations: ["query"],
+            }) as Partial<AuditLogQueryOptions>;
+            const page = data.page ?? 1;
+            const pageSize = data.pageSize ?? DEFAULT_PAGE_SIZE;
+            const { rows: logs, count: total } = await AuditLog.findPaginated({
+                page,
+                pageSize,
+                entity: data.entity,
+                entityId: data.entityId,
+                actorId: data.actorId,
+                action: data.action,
+                from: data.from,
+                to: data.to,
+            });
+            const totalPages = Math.ceil(total / pageSize);
+
+            logger.info("Audit logs fetched", {
+                requestId: req.requestId,
+                total,
+                page,
+                pageSize,
+            });
+
+            return ResponseHandler.success(
+                res,
+                {
+                    logs,
+                    pagination: {
+                        page,
+                        pageSize,
+                        total,
+                        totalPages,
+                        hasNextPage: page < totalPages,
+                        hasPreviousPage: page > 1,
+                    },
+                },
+                "Auditoría obtenida exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error fetching audit logs", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+};
+
+export default auditLogsController;
@@ -0,0 +1,238 @@
+import { Request, Response, NextFunction } from "express";
+import { matchedData } from "express-validator";
+import CampAttendee from "../models/CampAttendee";
+import { authService, ClientMetadata } from "../services/authService";
+import { emailVerificationService } from "../services/emailVerificationService";
+import logger from "../utils/logger";
+import ResponseHandler from "../utils/responseHandler";
+import { AppError } from "../utils/handleError";
+import { AuthUser } from "../middlewares/authenticate";
+
+interface ExtendedRequest extends Request {
+    requestId?: string;
+    user?: AuthUser;
+}
+
+// Datos del cliente que se guardan con el refresh token
+const clientMetadata = (req: Request): ClientMetadata => ({
+    ip: req.ip,
+    userAgent: req.get("User-Agent"),
+});
+
+const authController = {
+    async login(req: ExtendedRequest, res: Response, next: NextFunction) {
+        try {
+            const data = matchedData(req, { locations: ["body"] }) as {
+                email?: string;
+                identificationNumber?: string;
+                password: string;
+            };
+            const { attendee, tokens } = await authService.login(
+                data,
+                clientMetadata(req)
+            );
+            logger.info("Attendee logged in", {
+                requestId: req.requestId,
+                id: attendee.id,
+            });
+            return ResponseHandler.success(
+                res,
+                {
+                    ...tokens,
+                    user: {
+                        id: attendee.id,
+                        email: attendee.email,
+                        firstName: attendee.firstName,
+                        lastName: attendee.lastName,
+                        roleId: attendee.roleId,
+                        mustChangePassword: attendee.mustChangePassword,
+                    },
+                },
+                "Inicio de sesión exitoso"
+            );
+        } catch (error) {
+            logger.warn("Login failed", {
+                requestId: req.requestId,
+                ip: req.ip,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async refresh(req: ExtendedRequest, res: Response, next: NextFunction) {
+        try {
+            const { refreshToken } = matchedData(req, {
+                locations: ["body"],
+            }) as { refreshToken: string };
+            const tokens = await authService.refresh(
+                refreshToken,
+                clientMetadata(req)
+            );
+            logger.info("Access token refreshed", {
+                requestId: req.requestId,
+            });
+            return ResponseHandler.success(
+                res,
+                tokens,
+                "Token renovado exitosamente"
+            );
+        } catch (error) {
+            logger.warn("Token refresh failed", {
+                requestId: req.requestId,
+                ip: req.ip,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async logout(req: ExtendedRequest, res: Response, next: NextFunction) {
+        try {
+            const { refreshToken } = matchedData(req, {
+                locations: ["body"],
+            }) as { refreshToken: string };
+            await authService.logout(refreshToken);
+            logger.info("Attendee logged out", { requestId: req.requestId });
+            return ResponseHandler.success(
+                res,
+                { loggedOut: true },
+                "Sesión cerrada exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error logging out", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async forgotPassword(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { email } = matchedData(req, { locations: ["body"] }) as {
+                email: string;
+            };
+            authService.requestPasswordReset(email, clientMetadata(req));
+            // Misma respuesta exista o no el email
+            return ResponseHandler.success(
+                res,
+                null,
+                "Si el email está registrado, recibirás un enlace para restablecer tu contraseña"
+            );
+        } catch (error) {
+            logger.error("Error requesting password reset", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async resetPassword(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { token, newPassword } = matchedData(req, {
+                locations: ["body"],
+            }) as { token: string; newPassword: string };
+            await authService.resetPassword(token, newPassword);
+            return ResponseHandler.success(
+                res,
+                null,
+                "Contraseña restablecida exitosamente"
+            );
+        } catch (error) {
+            logger.warn("Password reset failed", {
+                requestId: req.requestId,
+                ip: req.ip,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async verifyEmail(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { token } = matchedData(req, { locations: ["query"] }) as {
+                token: string;
+            };
+            const attendee = await emailVerificationService.verify(token);
+            logger.info("Email verified", {
+                requestId: req.requestId,
+                id: attendee.id,
+            });
+            return ResponseHandler.success(
+                res,
+                { emailVerifiedAt: attendee.emailVerifiedAt },
+                "Email verificado exitosamente"
+            );
+        } catch (error) {
+            logger.warn("Email verification failed", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async resendVerification(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { email } = matchedData(req, { locations: ["body"] }) as {
+                email: string;
+            };
+            await emailVerificationService.resend(email, req.requestId);
+            // Misma respuesta exista o no el email
+            return ResponseHandler.success(
+                res,
+                null,
+                "Si el email está registrado y pendiente de verificación, recibirás un nuevo enlace"
+            );
+        } catch (error) {
+            logger.error("Error resending email verification", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async me(req: ExtendedRequest, res: Response, next: NextFunction) {
+        try {
+            if (!req.user) {
+                throw new AppError("No autenticado", 401);
+            }
+            const attendee = await CampAttendee.findOneData(req.user.id);
+            if (!attendee) {
+                throw new AppError("Asistente no encontrado", 404);
+            }
+            return ResponseHandler.success(
+                res,
+                { user: attendee },
+                "Usuario autenticado obtenido exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error fetching authenticated user", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+};
+
+export default authController;
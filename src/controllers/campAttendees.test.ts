@@ -0,0 +1,201 @@
+import { NextFunction, Request, Response } from "express";
+import CampAttendee from "../models/CampAttendee";
+import { AuthUser } from "../middlewares/authenticate";
+import { emailVerificationService } from "../services/emailVerificationService";
+import { healthProfileService } from "../services/healthProfileService";
+import {
+    validatorGetCampAttendee,
+    validatorUpdateCampAttendee,
+} from "../validators/campAttendees";
+import campAttendeesController from "./campAttendees";
+
+const ATTENDEE_ID = "2b7e9a41-5c3d-4f8e-9a1b-3c5d7e9f1a2b";
+
+// El propio asistente, sin attendees:write
+const selfUser: AuthUser = {
+    id: ATTENDEE_ID,
+    roleId: "5d6e7f80-1a2b-4c3d-8e9f-0a1b2c3d4e5f",
+    mustChangePassword: false,
+    permissions: [],
+};
+
+type UpdateRequest = Parameters<
+    typeof campAttendeesController.updateCampAttendee
+>[0];
+
+// Corre las mismas validaciones de la ruta PUT /:id sobre una petición simulada
+const buildRequest = async (body: Record<string, unknown>) => {
+    const req = {
+        params: { id: ATTENDEE_ID },
+        body,
+        query: {},
+        headers: {},
+        cookies: {},
+        user: selfUser,
+        requestId: "req-1",
+    };
+    for (const chain of [
+        ...validatorGetCampAttendee,
+        ...validatorUpdateCampAttendee,
+    ]) {
+        if ("run" in chain) {
+            await chain.run(req);
+        }
+    }
+    return req as unknown as UpdateRequest & Request;
+};
+
+const buildResponse = () => {
+    const res = {
+        status: jest.fn(),
+        json: jest.fn(),
+    };
+    res.status.mockReturnValue(res);
+    res.json.mockReturnValue(res);
+    return res;
+};
+
+describe("campAttendeesController.updateCampAttendee (autoservicio)", () => {
+    let existing: CampAttendee;
+    let update: jest.SpyInstance;
+    let sendVerification: jest.SpyInstance;
+
+    beforeEach(() => {
+        existing = CampAttendee.build({
+            id: ATTENDEE_ID,
+            firstName: "Ana",
+            lastName: "Pérez",
+            identificationType: "CC",
+            identificationNumber: "1020304050",
+            campId: "7f1d5c9e-0a3b-4c2d-8e6f-1a2b3c4d5e6f",
+            roleId: selfUser.roleId,
+            registrationStatus: "PAID",
+            assistantSubRole: "MONITOR",
+            age: 25,
+            email: "ana@example.com",
+            emailVerifiedAt: new Date("2026-01-10T10:00:00Z"),
+            phone: "3001234567",
+            city: "Bogotá",
+        });
+        jest.spyOn(existing, "update").mockImplementation(async (values) => {
+            existing.set(values as Partial<CampAttendee>);
+            return existing;
+        });
+        // Sin otros asistentes con el mismo email o identificación
+        jest.spyOn(CampAttendee, "findOne").mockImplementation((async (
+            options: { where: Record<string, unknown> }
+        ) =>
+            "email" in options.where ||
+            "identificationNumber" in options.where
+                ? null
+                : existing) as never);
+        jest.spyOn(CampAttendee, "findOneData").mockResolvedValue(existing);
+        update = jest
+            .spyOn(CampAttendee, "update")
+            .mockResolvedValue([1] as never);
+        sendVerification = jest
+            .spyOn(emailVerificationService, "sendVerificationInBackground")
+            .mockImplementation(() => undefined);
+        jest.spyOn(healthProfileService, "syncLegacyAllergies").mockResolvedValue();
+    });
+
+    it("solo escribe los campos enviados", async () => {
+        const req = await buildRequest({ city: "Medellín" });
+        const res = buildResponse();
+        const next: NextFunction = jest.fn();
+
+        await campAttendeesController.updateCampAttendee(
+            req,
+            res as unknown as Response,
+            next
+        );
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(update).toHaveBeenCalledTimes(1);
+        const [values, options] = update.mock.calls[0];
+        expect(options).toEqual({ where: { id: ATTENDEE_ID } });
+        // Los campos omitidos quedan undefined (update los ignora): no se
+        // borran ni se reinicia assistantSubRole
+        const written = Object.fromEntries(
+            Object.entries(values).filter(([, value]) => value !== undefined)
+        );
+        expect(written).toEqual({ city: "Medellín" });
+        expect(values).not.toHaveProperty("registrationStatus");
+        expect(values).not.toHaveProperty("passwordHash");
+        expect(sendVerification).not.toHaveBeenCalled();
+        expect(healthProfileService.syncLegacyAllergies).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        ["isActive", { isActive: true }],
+        ["roleId", { roleId: "0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d" }],
+        ["assistantSubRole", { assistantSubRole: "GROUP_LEADER" }],
+    ])("rechaza modificar %s sin attendees:write", async (field, body) => {
+        const req = await buildRequest(body);
+        const res = buildResponse();
+        const next = jest.fn();
+
+        await campAttendeesController.updateCampAttendee(
+            req,
+            res as unknown as Response,
+            next
+        );
+
+        expect(next).toHaveBeenCalledWith(
+            expect.objectContaining({
+                statusCode: 403,
+                message: expect.stringContaining(field),
+            })
+        );
+        expect(update).not.toHaveBeenCalled();
+    });
+
+    it("un email nuevo vuelve a requerir verificación", async () => {
+        const req = await buildRequest({ email: "ana.perez@example.com" });
+        const res = buildResponse();
+        const next = jest.fn();
+
+        await campAttendeesController.updateCampAttendee(
+            req,
+            res as unknown as Response,
+            next
+        );
+
+        expect(next).not.toHaveBeenCalled();
+        expect(existing.update).toHaveBeenCalledWith({ emailVerifiedAt: null });
+        expect(sendVerification).toHaveBeenCalledWith(existing, "req-1");
+    });
+
+    it("reenviar el mismo email no reinicia la verificación", async () => {
+        const req = await buildRequest({ email: "ana@example.com" });
+        const res = buildResponse();
+        const next = jest.fn();
+
+        await campAttendeesController.updateCampAttendee(
+            req,
+            res as unknown as Response,
+            next
+        );
+
+        expect(next).not.toHaveBeenCalled();
+        expect(existing.update).not.toHaveBeenCalled();
+        expect(sendVerification).not.toHaveBeenCalled();
+    });
+
+    it("rechaza cambiar registrationStatus por esta ruta", async () => {
+        const req = await buildRequest({ registrationStatus: "CONFIRMED" });
+        const res = buildResponse();
+        const next = jest.fn();
+
+        // El validador deja el error en la petición y responde 400
+        for (const chain of validatorUpdateCampAttendee) {
+            if (!("run" in chain)) {
+                chain(req, res as unknown as Response, next);
+            }
+        }
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(next).not.toHaveBeenCalled();
+    });
+});
@@ -4,15 +4,134 @@ import { Op } from "sequelize";
 import bcrypt from "bcrypt";
 import logger from "../utils/logger";
 import ResponseHandler from "../utils/responseHandler";
-import CampAttendee from "../models/CampAttendee";
+import CampAttendee, {
+    AttendeeExportFilters,
+    AttendeeListOptions,
+    CampAttendeeAttributes,
+    CampAttendeeInput,
+    ExportableColumn,
+    RegistrationStatus,
+} from "../models/CampAttendee";
+import AttendeeStatusHistory from "../models/AttendeeStatusHistory";
 import Role from "../models/Role";
 import { AppError } from "../utils/handleError";
 import { emailService } from "../services/emailService";
+import { registrationService } from "../services/registrationService";
+import { attendeeImportService } from "../services/attendeeImportService";
+import {
+    attendeeExportService,
+    DEFAULT_EXPORT_COLUMNS,
+    ExportFormat,
+} from "../services/attendeeExportService";
+import { duplicateService, MergeOptions } from "../services/duplicateService";
+import { guardianService } from "../services/guardianService";
+import { consentService } from "../services/consentService";
+import { healthProfileService } from "../services/healthProfileService";
+import { paymentService } from "../services/paymentService";
+import { paymentGatewayService } from "../services/paymentGatewayService";
+import { receiptService } from "../services/receiptService";
+import { checkInService } from "../services/checkInService";
+import { discountCodeService } from "../services/discountCodeService";
+import {
+    scholarshipService,
+    ScholarshipDecision,
+} from "../services/scholarshipService";
+import Guardian, { GuardianInput } from "../models/Guardian";
+import { HealthProfileInput } from "../models/HealthProfile";
+import { PaymentInput } from "../models/Payment";
+import { ScholarshipInput } from "../models/Scholarship";
+import { emailVerificationService } from "../services/emailVerificationService";
+import { authService, CredentialMode } from "../services/authService";
+import { authConfig } from "../config/env";
+import { AuthUser } from "../middlewares/authenticate";
+import { hasPermissions } from "../middlewares/authorize";
 
 // Extiendo Request localmente para logging consistente
 interface ExtendedRequest extends Request {
     requestId?: string;
-    user?: { id: string; email?: string };
+    user?: AuthUser;
+}
+
+// Campos que un asistente no puede modificar sobre su propio registro
+const PRIVILEGED_UPDATE_FIELDS = [
+    "roleId",
+    "assistantSubRole",
+    "isActive",
+] as const;
+
+// Tamaño de página por defecto del listado
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Emite las credenciales de acceso (enlace para crear la contraseña o
+ * contraseña temporal aleatoria), envía el email de bienvenida y, si se
+ * entregó, marca credentialsIssuedAt.
+ */
+async function sendWelcomeCredentials(
+    attendee: CampAttendee,
+    mode: CredentialMode,
+    requestId?: string
+): Promise<void> {
+    if (!attendee.email) {
+        return;
+    }
+    const base = {
+        firstName: attendee.firstName,
+        lastName: attendee.lastName,
+        email: attendee.email,
+    };
+    let emailSent: boolean;
+    if (mode === "TEMPORARY_PASSWORD") {
+        const temporaryPassword = await authService.setTemporaryPassword(
+            attendee.id
+        );
+        emailSent = await emailService.sendWelcomeTemporaryPasswordEmail({
+            ...base,
+            temporaryPassword,
+        });
+    } else {
+        const invite = await authService.createInviteLink(attendee.id);
+        emailSent = await emailService.sendWelcomeEmail({
+            ...base,
+            setPasswordUrl: invite.url,
+            expiresInHours: invite.expiresInHours,
+        });
+    }
+    if (!emailSent) {
+        logger.warn("Failed to send welcome email", {
+            requestId,
+            id: attendee.id,
+            credentialMode: mode,
+        });
+        return;
+    }
+    await CampAttendee.update(
+        { credentialsIssuedAt: new Date() },
+        { where: { id: attendee.id } }
+    );
+    logger.info("Welcome email sent successfully", {
+        requestId,
+        id: attendee.id,
+        credentialMode: mode,
+    });
+}
+
+/**
+ * Igual que sendWelcomeCredentials pero sin bloquear la respuesta: la
+ * activación ya quedó guardada aunque falle la entrega
+ */
+function sendWelcomeCredentialsInBackground(
+    attendee: CampAttendee,
+    mode: CredentialMode,
+    requestId?: string
+): void {
+    sendWelcomeCredentials(attendee, mode, requestId).catch((error) => {
+        logger.error("Error sending welcome email", {
+            requestId,
+            id: attendee.id,
+            error: error instanceof Error ? error.message : String(error),
+        });
+    });
 }
 
 const campAttendeesController = {
@@ -22,21 +141,55 @@ const campAttendeesController = {
         next: NextFunction
     ) {
         try {
-            const data = matchedData(req, { locations: ["query"] }) as {
-                includeInactive?: boolean;
-            };
-            const includeInactive = Boolean(data.includeInactive);
-            const attendees = await CampAttendee.findAllData(includeInactive);
-            const total = attendees.length;
+            const data = matchedData(req, {
+                locations: ["query"],
+            }) as Partial<AttendeeListOptions> & { q?: string };
+            const page = data.page ?? 1;
+            const pageSize = data.pageSize ?? DEFAULT_PAGE_SIZE;
+            const { rows: attendees, count: total } =
+                await CampAttendee.findPaginated({
+                    page,
+                    pageSize,
+                    includeInactive: Boolean(data.includeInactive),
+                    campId: data.campId,
+                    roleId: data.roleId,
+                    registrationStatus: data.registrationStatus,
+                    assistantSubRole: data.assistantSubRole,
+                    gender: data.gender,
+                    shirtSize: data.shirtSize,
+                    isActive: data.isActive,
+                    city: data.city,
+                    churchPastor: data.churchPastor,
+                    ageMin: data.ageMin,
+                    ageMax: data.ageMax,
+                    createdFrom: data.createdFrom,
+                    createdTo: data.createdTo,
+                    search: data.q,
+                    sort: data.sort,
+                });
+            const totalPages = Math.ceil(total / pageSize);
 
             logger.info("CampAttendees list fetched", {
                 requestId: req.requestId,
                 total,
+                page,
+                pageSize,
             });
 
             return ResponseHandler.success(
                 res,
-                { attendees, total },
+                {
+                    attendees,
+                    total,
+                    pagination: {
+                        page,
+                        pageSize,
+                        total,
+                        totalPages,
+                        hasNextPage: page < totalPages,
+                        hasPreviousPage: page > 1,
+                    },
+                },
                 "Lista de asistentes obtenida exitosamente"
             );
         } catch (error) {
@@ -48,6 +201,116 @@ const campAttendeesController = {
         }
     },
 
+    async exportCampAttendees(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const query = matchedData(req, {
+                locations: ["query"],
+            }) as AttendeeExportFilters & {
+                format?: ExportFormat;
+                columns?: ExportableColumn[];
+            };
+            await attendeeExportService.streamExport(res, {
+                format: query.format ?? "csv",
+                columns: query.columns ?? DEFAULT_EXPORT_COLUMNS,
+                filters: {
+                    campId: query.campId,
+                    roleId: query.roleId,
+                    registrationStatus: query.registrationStatus,
+                    isActive: query.isActive,
+                },
+                requestId: req.requestId,
+            });
+        } catch (error) {
+            logger.error("Error exporting camp attendees", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            // Con la descarga ya iniciada solo queda cortar la conexión
+            if (res.headersSent) {
+                res.destroy();
+                return;
+            }
+            return next(error);
+        }
+    },
+
+    async getDuplicateCandidates(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { campId, limit } = matchedData(req, {
+                locations: ["query"],
+            }) as { campId?: string; limit?: number };
+            const candidates = await duplicateService.findCandidates({
+                campId,
+                limit: limit ?? 100,
+            });
+
+            logger.info("Duplicate candidates fetched", {
+                requestId: req.requestId,
+                campId,
+                total: candidates.length,
+            });
+            return ResponseHandler.success(
+                res,
+                { candidates, total: candidates.length },
+                "Candidatos a duplicado obtenidos exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error fetching duplicate candidates", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async mergeCampAttendees(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const body = matchedData(req, {
+                locations: ["body"],
+            }) as Pick<
+                MergeOptions,
+                "survivorId" | "duplicateId" | "fields" | "reason"
+            >;
+            const { takenFromDuplicate } = await duplicateService.merge({
+                survivorId: body.survivorId,
+                duplicateId: body.duplicateId,
+                fields: body.fields,
+                reason: body.reason,
+                changedBy: req.user?.id,
+                requestId: req.requestId,
+            });
+            const attendee = await CampAttendee.findOneData(body.survivorId);
+
+            return ResponseHandler.success(
+                res,
+                {
+                    attendee,
+                    mergedId: body.duplicateId,
+                    takenFromDuplicate,
+                },
+                "Asistentes fusionados exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error merging camp attendees", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
     async getCampAttendee(
         req: ExtendedRequest,
         res: Response,
@@ -63,13 +326,18 @@ const campAttendeesController = {
                 throw new AppError("Asistente no encontrado", 404);
             }
 
+            const waitlistPosition = await CampAttendee.getWaitlistPosition(
+                attendee
+            );
+            const consent = await consentService.getStatus(attendee);
+
             logger.info("CampAttendee fetched", {
                 requestId: req.requestId,
                 id,
             });
             return ResponseHandler.success(
                 res,
-                { attendee },
+                { attendee, waitlistPosition, consent },
                 "Asistente obtenido exitosamente"
             );
         } catch (error) {
@@ -87,130 +355,47 @@ const campAttendeesController = {
         next: NextFunction
     ) {
         try {
-            const body = matchedData(req, { locations: ["body"] }) as any;
-            // Asignar campId por defecto sin requerirlo en el body
-            if (!body.campId) {
-                body.campId = "4fe33661-785c-4e8b-a4ce-12d0ccd4be98";
-            }
-            // Campos nuevos y reglas:
-            // - emailVerifiedAt: ignorar del body, siempre null al crear
-            body.emailVerifiedAt = null;
-            // - mustChangePassword: inyectar true (1)
-            body.mustChangePassword = true;
-            // - registrationStatus: aceptar si viene y validar; si no, default PENDING_PAYMENT
-            const allowedStatuses = [
-                "PENDING_PAYMENT",
-                "PAID",
-                "CONFIRMED",
-                "CANCELLED",
-                "WAITING_LIST",
-            ];
-            if (typeof body.registrationStatus === "string") {
-                if (!allowedStatuses.includes(body.registrationStatus)) {
-                    throw new AppError("registrationStatus inválido", 400);
-                }
-            } else {
-                body.registrationStatus = "PENDING_PAYMENT";
-            }
-            // Validar que el roleId exista para evitar error de FK
-            if (body.roleId) {
-                const role = await Role.findOne({ where: { id: body.roleId } });
-                if (!role) {
-                    throw new AppError(
-                        "Rol no encontrado para roleId proporcionado",
-                        400
-                    );
-                }
-                // Reglas de assistantSubRole dependiendo del rol
-                if (role.code === "ASISTENTE") {
-                    if (!body.assistantSubRole) {
-                        body.assistantSubRole = "NONE";
-                    }
-                } else {
-                    if (body.assistantSubRole) {
-                        throw new AppError(
-                            "assistantSubRole no permitido si el rol no es ASISTENTE",
-                            400
-                        );
-                    }
-                    body.assistantSubRole = "NONE";
-                }
-            }
-            // birthDate no futura
-            if (body.birthDate && body.birthDate > new Date()) {
-                throw new AppError(
-                    "birthDate no puede ser una fecha futura",
-                    400
+            const body = matchedData(req, {
+                locations: ["body"],
+            }) as CampAttendeeInput;
+            // Resolver el camp destino (campId, campCode o único camp OPEN)
+            // y verificar que acepte inscripciones en este momento
+            const camp = await registrationService.resolveCamp({
+                campId: body.campId,
+                campCode: body.campCode,
+            });
+            registrationService.assertRegistrationOpen(camp);
+            body.campId = camp.id;
+            delete body.campCode;
+            // Reglas de negocio comunes con la importación masiva; el
+            // registro público no elige rol ni activa la cuenta
+            await registrationService.prepareNewAttendee(body, {
+                selfRegistration: true,
+            });
+            // Crear respetando el cupo del camp (lista de espera si está lleno)
+            const { attendee, waitlistPosition } =
+                await registrationService.registerAttendee(
+                    body,
+                    camp,
+                    req.user?.id
                 );
-            }
-            // Consistencia age vs birthDate (tolerancia ±1)
-            if (body.birthDate && typeof body.age === "number") {
-                const today = new Date();
-                let calcAge =
-                    today.getFullYear() - body.birthDate.getFullYear();
-                const m = today.getMonth() - body.birthDate.getMonth();
-                if (
-                    m < 0 ||
-                    (m === 0 && today.getDate() < body.birthDate.getDate())
-                ) {
-                    calcAge--;
-                }
-                if (Math.abs(calcAge - body.age) > 1) {
-                    throw new AppError(
-                        "age es inconsistente con birthDate",
-                        400
-                    );
-                }
-            }
-            // Duplicidad identificación por número (único en el sistema, sin importar tipo)
-            if (body.identificationNumber) {
-                const dupId = await CampAttendee.findOne({
-                    where: { identificationNumber: body.identificationNumber },
-                });
-                if (dupId) {
-                    throw new AppError(
-                        "Ya existe un asistente con el mismo número de identificación",
-                        409
-                    );
-                }
-            }
-            // Duplicidad email
-            if (body.email) {
-                const dupEmail = await CampAttendee.findOne({
-                    where: { email: body.email },
-                });
-                if (dupEmail) {
-                    throw new AppError(
-                        "Ya existe un asistente con el mismo email",
-                        409
-                    );
-                }
-            }
-            // Asegurar isActive por defecto en false si no se indica
-            if (typeof body.isActive === "undefined") {
-                body.isActive = false;
-            }
-            // Hash de password: si no se pasa password, usar identificationNumber
-            if (body.identificationNumber) {
-                const plainPassword: string =
-                    typeof body.password === "string" &&
-                    body.password.length > 0
-                        ? body.password
-                        : String(body.identificationNumber);
-                const saltRounds = 10;
-                const hashed = await bcrypt.hash(plainPassword, saltRounds);
-                body.passwordHash = hashed;
-                delete body.password;
-            }
-            const attendee = await CampAttendee.createCampAttendee(body);
             logger.info("CampAttendee created", {
                 requestId: req.requestId,
                 id: attendee.id,
+                campId: camp.id,
+                registrationStatus: attendee.registrationStatus,
+                waitlistPosition,
             });
+            emailVerificationService.sendVerificationInBackground(
+                attendee,
+                req.requestId
+            );
             return ResponseHandler.created(
                 res,
-                { attendee },
-                "Asistente creado exitosamente"
+                { attendee, waitlistPosition },
+                waitlistPosition !== null
+                    ? "Asistente creado en lista de espera: el camp alcanzó su cupo"
+                    : "Asistente creado exitosamente"
             );
         } catch (error) {
             logger.error("Error creating camp attendee", {
@@ -230,7 +415,21 @@ const campAttendeesController = {
             const { id } = matchedData(req, { locations: ["params"] }) as {
                 id: string;
             };
-            const body = matchedData(req, { locations: ["body"] }) as any;
+            const body = matchedData(req, {
+                locations: ["body"],
+            }) as Partial<CampAttendeeAttributes>;
+            // Sin attendees:write solo se edita el perfil propio, no rol ni estado
+            if (!hasPermissions(req.user, ["attendees:write"])) {
+                const forbidden = PRIVILEGED_UPDATE_FIELDS.filter(
+                    (field) => typeof body[field] !== "undefined"
+                );
+                if (forbidden.length > 0) {
+                    throw new AppError(
+                        `No tiene permisos para modificar: ${forbidden.join(", ")}`,
+                        403
+                    );
+                }
+            }
             // Si roleId viene en el body, validar existencia para evitar error de FK
             if (typeof body.roleId !== "undefined") {
                 const role = await Role.findOne({ where: { id: body.roleId } });
@@ -293,6 +492,21 @@ const campAttendeesController = {
                     );
                 }
             }
+            // Si cambia la edad y queda como menor debe tener al menos un
+            // acudiente; los menores inscritos antes de exigirlo pueden
+            // seguir editando el resto del perfil
+            const previousBirthDate = existing.birthDate
+                ? new Date(existing.birthDate)
+                : null;
+            const ageChanged =
+                finalAge !== existing.age ||
+                finalBirthDate?.getTime() !== previousBirthDate?.getTime();
+            if (ageChanged) {
+                guardianService.assertGuardianForMinor(
+                    { birthDate: finalBirthDate, age: finalAge },
+                    await Guardian.countByAttendee(id)
+                );
+            }
             // Duplicidad identificación por número (excluir propio id, independiente del tipo)
             const finalIdNumber =
                 typeof body.identificationNumber !== "undefined"
@@ -332,6 +546,29 @@ const campAttendeesController = {
                 throw new AppError("Asistente no encontrado", 404);
             }
 
+            const current = await CampAttendee.findOne({ where: { id } });
+            // El texto de allergies solo se sincroniza si vino en el body
+            if (current && typeof body.allergies !== "undefined") {
+                await healthProfileService.syncLegacyAllergies(
+                    id,
+                    existing.allergies,
+                    current.allergies
+                );
+            }
+            // Un email nuevo debe verificarse de nuevo (solo si se envió)
+            const emailChanged =
+                typeof body.email !== "undefined" &&
+                finalEmail !== existing.email;
+            if (current && emailChanged) {
+                await current.update({ emailVerifiedAt: null });
+                if (finalEmail) {
+                    emailVerificationService.sendVerificationInBackground(
+                        current,
+                        req.requestId
+                    );
+                }
+            }
+
             const attendee = await CampAttendee.findOneData(id);
             logger.info("CampAttendee updated", {
                 requestId: req.requestId,
@@ -360,12 +597,21 @@ const campAttendeesController = {
             const { id } = matchedData(req, { locations: ["params"] }) as {
                 id: string;
             };
+            const existing = await CampAttendee.findOne({ where: { id } });
             const deleted = await CampAttendee.deleteCampAttendee(id);
 
-            if (!deleted) {
+            if (!existing || !deleted) {
                 throw new AppError("Asistente no encontrado", 404);
             }
 
+            // Liberar el cupo: promover al siguiente de la lista de espera
+            if (registrationService.holdsSeat(existing.registrationStatus)) {
+                await registrationService.promoteFromWaitlist(
+                    existing.campId,
+                    req.requestId
+                );
+            }
+
             logger.info("CampAttendee deleted", {
                 requestId: req.requestId,
                 id,
@@ -384,6 +630,41 @@ const campAttendeesController = {
         }
     },
 
+    async restoreCampAttendee(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
+            };
+            await registrationService.restoreAttendee(id, {
+                changedBy: req.user?.id,
+                requestId: req.requestId,
+            });
+            const attendee = await CampAttendee.findOneData(id);
+            const waitlistPosition = attendee
+                ? await CampAttendee.getWaitlistPosition(attendee)
+                : null;
+
+            return ResponseHandler.success(
+                res,
+                { attendee, waitlistPosition },
+                // Sin cupo solo se restaura a quien ya estaba en lista de espera
+                waitlistPosition !== null
+                    ? "Asistente restaurado en su lista de espera"
+                    : "Asistente restaurado exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error restoring camp attendee", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
     async updateActivationStatus(
         req: ExtendedRequest,
         res: Response,
@@ -395,72 +676,64 @@ const campAttendeesController = {
             };
             const data = matchedData(req, { locations: ["body"] }) as {
                 isActive: boolean;
+                credentialMode?: CredentialMode;
+                sendCredentials?: boolean;
             };
             const attendee = await CampAttendee.findOne({ where: { id } });
             if (!attendee) {
                 throw new AppError("Asistente no encontrado", 404);
             }
             const isActive = Boolean(data.isActive);
-            // Si se activa el asistente, también actualizar registrationStatus a CONFIRMED
-            const updateData: {
-                isActive: boolean;
-                registrationStatus?:
-                    | "PENDING_PAYMENT"
-                    | "PAID"
-                    | "CONFIRMED"
-                    | "CANCELLED"
-                    | "WAITING_LIST";
-            } = {
-                isActive,
-            };
-            if (isActive) {
-                updateData.registrationStatus = "CONFIRMED";
+            if (
+                isActive &&
+                authConfig.requireEmailVerification &&
+                !attendee.emailVerifiedAt
+            ) {
+                throw new AppError(
+                    "El asistente debe verificar su email antes de ser activado",
+                    409,
+                    true,
+                    "EMAIL_NOT_VERIFIED"
+                );
             }
-            // Actualizar solo los campos necesarios sin afectar otros campos
-            await CampAttendee.update(updateData, { where: { id } });
+            // Activar solo confirma la inscripción si la máquina de estados
+            // lo permite (PAID → CONFIRMED); en otro estado se activa igual
+            await registrationService.setActive(id, isActive, {
+                changedBy: req.user?.id,
+                requestId: req.requestId,
+            });
             const updated = await CampAttendee.findOneData(id);
-            
-            // Enviar email de bienvenida si se activa el asistente y tiene email
-            if (isActive && updated?.email) {
-                // Enviar email de forma asíncrona sin bloquear la respuesta
-                emailService.sendWelcomeEmail({
-                    firstName: updated.firstName,
-                    lastName: updated.lastName,
-                    email: updated.email,
-                    identificationNumber: updated.identificationNumber,
-                }).then((emailSent) => {
-                    if (emailSent) {
-                        logger.info("Welcome email sent successfully", {
-                            requestId: req.requestId,
-                            id,
-                            email: updated.email,
-                        });
-                    } else {
-                        logger.warn("Failed to send welcome email", {
-                            requestId: req.requestId,
-                            id,
-                            email: updated.email,
-                        });
-                    }
-                }).catch((error) => {
-                    logger.error("Error sending welcome email", {
-                        requestId: req.requestId,
-                        id,
-                        email: updated.email,
-                        error: error instanceof Error ? error.message : String(error),
-                    });
-                });
+
+            // Entregar credenciales de acceso (nunca el documento) solo en la
+            // primera activación o si se piden explícitamente: reactivar no
+            // debe reemplazar la contraseña que el asistente ya definió
+            const credentialMode: CredentialMode =
+                data.credentialMode ?? "INVITE_LINK";
+            const sendCredentials =
+                isActive &&
+                !!updated?.email &&
+                (data.sendCredentials ?? !attendee.credentialsIssuedAt);
+            if (updated && sendCredentials) {
+                sendWelcomeCredentialsInBackground(
+                    updated,
+                    credentialMode,
+                    req.requestId
+                );
             }
-            
+
             logger.info("CampAttendee activation updated", {
                 requestId: req.requestId,
                 id,
                 isActive,
-                registrationStatus: isActive ? "CONFIRMED" : undefined,
+                registrationStatus: updated?.registrationStatus,
+                credentialMode: sendCredentials ? credentialMode : undefined,
             });
             return ResponseHandler.success(
                 res,
-                { attendee: updated },
+                {
+                    attendee: updated,
+                    credentialMode: sendCredentials ? credentialMode : null,
+                },
                 isActive
                     ? "Asistente activado exitosamente"
                     : "Asistente desactivado exitosamente"
@@ -474,7 +747,7 @@ const campAttendeesController = {
         }
     },
 
-    async changePassword(
+    async changeRegistrationStatus(
         req: ExtendedRequest,
         res: Response,
         next: NextFunction
@@ -484,49 +757,22 @@ const campAttendeesController = {
                 id: string;
             };
             const data = matchedData(req, { locations: ["body"] }) as {
-                currentPassword: string;
-                newPassword: string;
-                confirmPassword: string;
+                status: RegistrationStatus;
+                reason?: string | null;
             };
-            if (data.newPassword !== data.confirmPassword) {
-                throw new AppError(
-                    "La nueva contraseña no coincide con la confirmación",
-                    400
-                );
-            }
-            const attendee = await CampAttendee.findOne({ where: { id } });
-            if (!attendee) {
-                throw new AppError("Asistente no encontrado", 404);
-            }
-            // Validar siempre contra el passwordHash existente
-            if (!attendee.passwordHash) {
-                throw new AppError(
-                    "No hay contraseña configurada para este asistente",
-                    400
-                );
-            }
-            const isValid = await bcrypt.compare(
-                data.currentPassword,
-                attendee.passwordHash
-            );
-            if (!isValid) {
-                throw new AppError("La contraseña actual es incorrecta", 401);
-            }
-            const saltRounds = 10;
-            const newHash = await bcrypt.hash(data.newPassword, saltRounds);
-            await CampAttendee.findByIdAndUpdate(id, { passwordHash: newHash });
-            const updated = await CampAttendee.findOneData(id);
-            logger.info("CampAttendee password changed", {
+            await registrationService.transitionStatus(id, data.status, {
+                reason: data.reason ?? null,
+                changedBy: req.user?.id,
                 requestId: req.requestId,
-                id,
             });
+            const attendee = await CampAttendee.findOneData(id);
             return ResponseHandler.success(
                 res,
-                { attendee: updated },
-                "Contraseña actualizada exitosamente"
+                { attendee },
+                "Estado de inscripción actualizado exitosamente"
             );
         } catch (error) {
-            logger.error("Error changing password", {
+            logger.error("Error changing registration status", {
                 requestId: req.requestId,
                 error: error instanceof Error ? error.message : String(error),
             });
@@ -534,36 +780,40 @@ const campAttendeesController = {
         }
     },
 
-    async checkEmailExists(
+    async getStatusHistory(
         req: ExtendedRequest,
         res: Response,
         next: NextFunction
     ) {
         try {
-            const { email } = matchedData(req, { locations: ["query"] }) as {
-                email: string;
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
             };
-
-            if (!email) {
-                throw new AppError("Parámetro requerido: email", 400);
+            const attendee = await CampAttendee.findOne({
+                where: { id },
+                paranoid: false,
+            });
+            if (!attendee) {
+                throw new AppError("Asistente no encontrado", 404);
             }
+            const history = await AttendeeStatusHistory.findByAttendee(id);
 
-            const dupEmail = await CampAttendee.findOne({ where: { email } });
-            const exists = Boolean(dupEmail);
-
-            logger.info("Check email exists", {
+            logger.info("CampAttendee status history fetched", {
                 requestId: req.requestId,
-                email,
-                exists,
+                id,
+                total: history.length,
             });
-
             return ResponseHandler.success(
                 res,
-                { exists },
-                exists ? "El email ya está registrado" : "El email no existe"
+                {
+                    currentStatus: attendee.registrationStatus,
+                    history,
+                    total: history.length,
+                },
+                "Historial de estados obtenido exitosamente"
             );
         } catch (error) {
-            logger.error("Error checking email existence", {
+            logger.error("Error fetching status history", {
                 requestId: req.requestId,
                 error: error instanceof Error ? error.message : String(error),
             });
@@ -571,21 +821,714 @@ const campAttendeesController = {
         }
     },
 
-    async checkIdentificationExists(
+    async getGuardians(
         req: ExtendedRequest,
         res: Response,
         next: NextFunction
     ) {
         try {
-            const { identificationNumber } = matchedData(req, {
-                locations: ["query"],
-            }) as {
-                identificationNumber: string;
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
             };
-
-            if (!identificationNumber) {
-                throw new AppError(
-                    "Parámetro requerido: identificationNumber",
+            const guardians = await guardianService.list(id);
+            return ResponseHandler.success(
+                res,
+                { guardians },
+                "Acudientes obtenidos exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error fetching guardians", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async addGuardian(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
+            };
+            const body = matchedData(req, {
+                locations: ["body"],
+            }) as GuardianInput;
+            const guardian = await guardianService.add(id, body);
+
+            logger.info("Guardian created", {
+                requestId: req.requestId,
+                attendeeId: id,
+                guardianId: guardian.id,
+            });
+            return ResponseHandler.created(
+                res,
+                { guardian },
+                "Acudiente creado exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error creating guardian", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async updateGuardian(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id, guardianId } = matchedData(req, {
+                locations: ["params"],
+            }) as { id: string; guardianId: string };
+            const body = matchedData(req, {
+                locations: ["body"],
+            }) as GuardianInput;
+            const guardian = await guardianService.update(id, guardianId, body);
+
+            logger.info("Guardian updated", {
+                requestId: req.requestId,
+                attendeeId: id,
+                guardianId,
+            });
+            return ResponseHandler.success(
+                res,
+                { guardian },
+                "Acudiente actualizado exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error updating guardian", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async deleteGuardian(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id, guardianId } = matchedData(req, {
+                locations: ["params"],
+            }) as { id: string; guardianId: string };
+            await guardianService.remove(id, guardianId, req.requestId);
+            return ResponseHandler.success(
+                res,
+                null,
+                "Acudiente eliminado exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error deleting guardian", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async getConsent(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
+            };
+            const attendee = await CampAttendee.findOne({ where: { id } });
+            if (!attendee) {
+                throw new AppError("Asistente no encontrado", 404);
+            }
+            const consent = await consentService.getStatus(attendee);
+            return ResponseHandler.success(
+                res,
+                { consent },
+                "Estado del consentimiento obtenido exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error fetching consent status", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async requestConsent(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id, guardianId } = matchedData(req) as {
+                id: string;
+                guardianId: string;
+            };
+            const { consent, emailSent } = await consentService.requestConsent(
+                id,
+                guardianId,
+                req.requestId
+            );
+            return ResponseHandler.success(
+                res,
+                { consent, emailSent },
+                emailSent
+                    ? "Solicitud de consentimiento enviada al acudiente"
+                    : "Solicitud de consentimiento creada, pero no se pudo enviar el email"
+            );
+        } catch (error) {
+            logger.error("Error requesting parental consent", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async getHealthProfile(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
+            };
+            // La cocina (dietary:read) solo ve alergias y dieta
+            const view = healthProfileService.resolveView(req.user, id);
+            if (!view) {
+                throw new AppError("No tiene permisos para esta operación", 403);
+            }
+            const profile = await healthProfileService.get(id);
+            return ResponseHandler.success(
+                res,
+                {
+                    healthProfile: profile
+                        ? healthProfileService.toView(profile, view)
+                        : null,
+                },
+                "Perfil de salud obtenido exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error fetching health profile", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async saveHealthProfile(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
+            };
+            const body = matchedData(req, {
+                locations: ["body"],
+            }) as HealthProfileInput;
+            const { profile, created } = await healthProfileService.save(
+                id,
+                body
+            );
+
+            logger.info("Health profile saved", {
+                requestId: req.requestId,
+                attendeeId: id,
+                created,
+            });
+            return created
+                ? ResponseHandler.created(
+                      res,
+                      { healthProfile: profile },
+                      "Perfil de salud creado exitosamente"
+                  )
+                : ResponseHandler.success(
+                      res,
+                      { healthProfile: profile },
+                      "Perfil de salud actualizado exitosamente"
+                  );
+        } catch (error) {
+            logger.error("Error saving health profile", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async getPayments(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
+            };
+            const { payments, balance } =
+                await paymentService.getAttendeePayments(id);
+            return ResponseHandler.success(
+                res,
+                { payments, balance },
+                "Pagos obtenidos exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error fetching payments", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async recordPayment(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
+            };
+            const body = matchedData(req, {
+                locations: ["body"],
+            }) as PaymentInput;
+            const result = await paymentService.recordPayment(id, body, {
+                userId: req.user?.id,
+                requestId: req.requestId,
+            });
+            return ResponseHandler.created(
+                res,
+                result,
+                "Pago registrado exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error recording payment", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async voidPayment(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id, paymentId, reason } = matchedData(req) as {
+                id: string;
+                paymentId: string;
+                reason: string;
+            };
+            const result = await paymentService.voidPayment(
+                id,
+                paymentId,
+                reason,
+                { userId: req.user?.id, requestId: req.requestId }
+            );
+            return ResponseHandler.success(
+                res,
+                result,
+                "Pago anulado exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error voiding payment", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async getPaymentReceipt(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id, paymentId } = matchedData(req, {
+                locations: ["params"],
+            }) as { id: string; paymentId: string };
+            const { filename, pdf } = await receiptService.render(
+                id,
+                paymentId
+            );
+            res.status(200);
+            res.setHeader("Content-Type", "application/pdf");
+            res.setHeader(
+                "Content-Disposition",
+                `inline; filename="${filename}"`
+            );
+            res.setHeader("Cache-Control", "no-store");
+            return res.end(pdf);
+        } catch (error) {
+            logger.error("Error generating payment receipt", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async reissuePaymentReceipt(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id, paymentId } = matchedData(req, {
+                locations: ["params"],
+            }) as { id: string; paymentId: string };
+            const result = await receiptService.reissue(
+                id,
+                paymentId,
+                req.requestId
+            );
+            return ResponseHandler.success(
+                res,
+                result,
+                "Recibo de pago emitido exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error reissuing payment receipt", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async getCheckInQr(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
+            };
+            const { filename, png } = await checkInService.getQrPng(id);
+            res.status(200);
+            res.setHeader("Content-Type", "image/png");
+            res.setHeader(
+                "Content-Disposition",
+                `attachment; filename="${filename}"`
+            );
+            res.setHeader("Cache-Control", "no-store");
+            return res.end(png);
+        } catch (error) {
+            logger.error("Error generating check-in QR", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async createCheckout(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id, amount } = matchedData(req) as {
+                id: string;
+                amount?: number | null;
+            };
+            const result = await paymentGatewayService.createCheckout(
+                id,
+                amount ?? undefined,
+                { userId: req.user?.id, requestId: req.requestId }
+            );
+            return ResponseHandler.created(
+                res,
+                result,
+                "Enlace de pago generado exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error creating payment checkout", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async redeemDiscountCode(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id, code } = matchedData(req) as {
+                id: string;
+                code: string;
+            };
+            const result = await discountCodeService.redeem(id, code, {
+                userId: req.user?.id,
+                requestId: req.requestId,
+            });
+            return ResponseHandler.success(
+                res,
+                result,
+                "Código de descuento aplicado exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error redeeming discount code", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async removeDiscountCode(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
+            };
+            const result = await discountCodeService.removeRedemption(id, {
+                userId: req.user?.id,
+                requestId: req.requestId,
+            });
+            return ResponseHandler.success(
+                res,
+                result,
+                "Código de descuento retirado exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error removing discount code", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async getScholarships(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
+            };
+            const scholarships = await scholarshipService.listByAttendee(id);
+            return ResponseHandler.success(
+                res,
+                { scholarships },
+                "Becas obtenidas exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error fetching scholarships", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async requestScholarship(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
+            };
+            const body = matchedData(req, {
+                locations: ["body"],
+            }) as ScholarshipInput;
+            const scholarship = await scholarshipService.request(id, body, {
+                userId: req.user?.id,
+                requestId: req.requestId,
+            });
+            return ResponseHandler.created(
+                res,
+                { scholarship },
+                "Beca solicitada exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error requesting scholarship", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async reviewScholarship(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id, scholarshipId, decision, notes } = matchedData(
+                req
+            ) as {
+                id: string;
+                scholarshipId: string;
+                decision: ScholarshipDecision;
+                notes?: string | null;
+            };
+            const result = await scholarshipService.review(
+                id,
+                scholarshipId,
+                decision,
+                notes ?? null,
+                { userId: req.user?.id, requestId: req.requestId }
+            );
+            return ResponseHandler.success(
+                res,
+                result,
+                "Beca revisada exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error reviewing scholarship", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async changePassword(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { id } = matchedData(req, { locations: ["params"] }) as {
+                id: string;
+            };
+            const data = matchedData(req, { locations: ["body"] }) as {
+                currentPassword: string;
+                newPassword: string;
+                confirmPassword: string;
+            };
+            if (data.newPassword !== data.confirmPassword) {
+                throw new AppError(
+                    "La nueva contraseña no coincide con la confirmación",
+                    400
+                );
+            }
+            const attendee = await CampAttendee.findOne({ where: { id } });
+            if (!attendee) {
+                throw new AppError("Asistente no encontrado", 404);
+            }
+            // Validar siempre contra el passwordHash existente
+            if (!attendee.passwordHash) {
+                throw new AppError(
+                    "No hay contraseña configurada para este asistente",
+                    400
+                );
+            }
+            const isValid = await bcrypt.compare(
+                data.currentPassword,
+                attendee.passwordHash
+            );
+            if (!isValid) {
+                throw new AppError("La contraseña actual es incorrecta", 401);
+            }
+            const saltRounds = 10;
+            const newHash = await bcrypt.hash(data.newPassword, saltRounds);
+            // Actualizar solo el hash y el flag de cambio obligatorio
+            await attendee.update({
+                passwordHash: newHash,
+                mustChangePassword: false,
+            });
+            const updated = await CampAttendee.findOneData(id);
+            logger.info("CampAttendee password changed", {
+                requestId: req.requestId,
+                id,
+            });
+            return ResponseHandler.success(
+                res,
+                { attendee: updated },
+                "Contraseña actualizada exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error changing password", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async checkEmailExists(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { email } = matchedData(req, { locations: ["query"] }) as {
+                email: string;
+            };
+
+            if (!email) {
+                throw new AppError("Parámetro requerido: email", 400);
+            }
+
+            const dupEmail = await CampAttendee.findOne({ where: { email } });
+            const exists = Boolean(dupEmail);
+
+            logger.info("Check email exists", {
+                requestId: req.requestId,
+                email,
+                exists,
+            });
+
+            return ResponseHandler.success(
+                res,
+                { exists },
+                exists ? "El email ya está registrado" : "El email no existe"
+            );
+        } catch (error) {
+            logger.error("Error checking email existence", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async checkIdentificationExists(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            const { identificationNumber } = matchedData(req, {
+                locations: ["query"],
+            }) as {
+                identificationNumber: string;
+            };
+
+            if (!identificationNumber) {
+                throw new AppError(
+                    "Parámetro requerido: identificationNumber",
                     400
                 );
             }
@@ -616,6 +1559,50 @@ const campAttendeesController = {
             return next(error);
         }
     },
+
+    async importCampAttendees(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            if (!req.file) {
+                throw new AppError(
+                    "Se requiere un archivo CSV o XLSX en el campo file",
+                    400
+                );
+            }
+            const query = matchedData(req, { locations: ["query"] }) as {
+                dryRun?: boolean;
+                campId?: string;
+                campCode?: string;
+                roleId?: string;
+            };
+            const dryRun = query.dryRun === true;
+
+            const report = await attendeeImportService.importFile(req.file, {
+                dryRun,
+                camp: { campId: query.campId, campCode: query.campCode },
+                roleId: query.roleId,
+                changedBy: req.user?.id,
+                requestId: req.requestId,
+            });
+
+            return ResponseHandler.success(
+                res,
+                report,
+                dryRun
+                    ? "Validación de importación completada (sin cambios)"
+                    : "Importación completada"
+            );
+        } catch (error) {
+            logger.error("Error importing camp attendees", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
 };
 
 export default campAttendeesController;
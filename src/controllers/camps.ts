@@ -4,16 +4,33 @@ import Camp from "../models/Camp";
 import logger from "../utils/logger";
 import ResponseHandler from "../utils/responseHandler";
 import { AppError } from "../utils/handleError";
+import { AuthUser } from "../middlewares/authenticate";
+import { healthProfileService } from "../services/healthProfileService";
+import {
+  campReportService,
+  ReportFormat,
+} from "../services/campReportService";
+import { campStatsService } from "../services/campStatsService";
+import { paymentService } from "../services/paymentService";
+import { discountCodeService } from "../services/discountCodeService";
+import { scholarshipService } from "../services/scholarshipService";
+import { checkInService, CheckInInput } from "../services/checkInService";
+import { DiscountCodeInput } from "../models/DiscountCode";
+import { ScholarshipStatus } from "../models/Scholarship";
 
 interface ExtendedRequest extends Request {
   requestId?: string;
-  user?: { id: string; email?: string };
+  user?: AuthUser;
 }
 
 const campsController = {
   async getCamps(req: ExtendedRequest, res: Response, next: NextFunction) {
     try {
-      const camps = await Camp.findAllData();
+      const data = matchedData(req, { locations: ["query"] }) as {
+        includeInactive?: boolean;
+      };
+      const includeInactive = Boolean(data.includeInactive);
+      const camps = await Camp.findAllData(includeInactive);
       const total = camps.length;
       logger.info("Camps list fetched", { requestId: req.requestId, total });
       return ResponseHandler.success(
@@ -55,7 +72,7 @@ const campsController = {
   ) {
     try {
       const { code } = matchedData(req, { locations: ["params"] }) as { code: string };
-      const camp = await Camp.findOne({ where: { code } });
+      const camp = await Camp.findByCode(code);
       if (!camp) {
         throw new AppError("Camp no encontrado para el código proporcionado", 404);
       }
@@ -107,6 +124,40 @@ const campsController = {
         throw new AppError("Camp no encontrado", 404);
       }
 
+      if (body.code && body.code !== existing.code) {
+        const dupCode = await Camp.findOne({ where: { code: body.code } });
+        if (dupCode) {
+          throw new AppError("Ya existe un camp con el mismo code", 409);
+        }
+      }
+
+      // Validar orden de fechas combinando body con los valores persistidos
+      const finalStart =
+        typeof body.startDate !== "undefined" ? body.startDate : existing.startDate;
+      const finalEnd =
+        typeof body.endDate !== "undefined" ? body.endDate : existing.endDate;
+      if (finalStart && finalEnd && new Date(finalEnd) < new Date(finalStart)) {
+        throw new AppError("endDate debe ser igual o posterior a startDate", 400);
+      }
+      const finalOpensAt =
+        typeof body.registrationOpensAt !== "undefined"
+          ? body.registrationOpensAt
+          : existing.registrationOpensAt;
+      const finalClosesAt =
+        typeof body.registrationClosesAt !== "undefined"
+          ? body.registrationClosesAt
+          : existing.registrationClosesAt;
+      if (
+        finalOpensAt &&
+        finalClosesAt &&
+        new Date(finalClosesAt) <= new Date(finalOpensAt)
+      ) {
+        throw new AppError(
+          "registrationClosesAt debe ser posterior a registrationOpensAt",
+          400
+        );
+      }
+
       await Camp.findByIdAndUpdate(id, body);
       const updated = await Camp.findOneData(id);
       logger.info("Camp updated", { requestId: req.requestId, id });
@@ -129,7 +180,11 @@ const campsController = {
       }
       await Camp.deleteCamp(id);
       logger.info("Camp deleted", { requestId: req.requestId, id });
-      return ResponseHandler.success(res, { id }, "Camp eliminado exitosamente");
+      return ResponseHandler.success(
+        res,
+        { id, deleted: true },
+        "Camp eliminado exitosamente"
+      );
     } catch (error) {
       logger.error("Error deleting camp", {
         requestId: req.requestId,
@@ -138,6 +193,245 @@ const campsController = {
       return next(error);
     }
   },
+  async restoreCamp(req: ExtendedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = matchedData(req, { locations: ["params"] }) as { id: string };
+      const existing = await Camp.findWithDeleted(id);
+      if (!existing) {
+        throw new AppError("Camp no encontrado", 404);
+      }
+      if (!existing.deletedAt) {
+        throw new AppError("El camp no está eliminado", 409);
+      }
+      const dupCode = await Camp.findOne({ where: { code: existing.code } });
+      if (dupCode) {
+        throw new AppError("Ya existe un camp con el mismo code", 409);
+      }
+      await existing.restore();
+      logger.info("Camp restored", { requestId: req.requestId, id });
+      return ResponseHandler.success(
+        res,
+        { camp: await Camp.findOneData(id) },
+        "Camp restaurado exitosamente"
+      );
+    } catch (error) {
+      logger.error("Error restoring camp", {
+        requestId: req.requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return next(error);
+    }
+  },
+
+  async getCampStats(req: ExtendedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = matchedData(req, { locations: ["params"] }) as { id: string };
+      const { top } = matchedData(req, { locations: ["query"] }) as { top?: number };
+      const stats = await campStatsService.getStats(id, { top: top ?? 10 });
+      logger.info("Camp stats fetched", { requestId: req.requestId, id });
+      return ResponseHandler.success(
+        res,
+        { stats },
+        "Estadísticas del camp obtenidas exitosamente"
+      );
+    } catch (error) {
+      logger.error("Error fetching camp stats", {
+        requestId: req.requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return next(error);
+    }
+  },
+
+  async getPaymentsSummary(req: ExtendedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = matchedData(req, { locations: ["params"] }) as { id: string };
+      const summary = await paymentService.getCampSummary(id);
+      logger.info("Camp payments summary fetched", { requestId: req.requestId, id });
+      return ResponseHandler.success(
+        res,
+        { summary },
+        "Resumen de pagos obtenido exitosamente"
+      );
+    } catch (error) {
+      logger.error("Error fetching camp payments summary", {
+        requestId: req.requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return next(error);
+    }
+  },
+
+  async getDiscountCodes(req: ExtendedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = matchedData(req, { locations: ["params"] }) as { id: string };
+      const discountCodes = await discountCodeService.listByCamp(id);
+      return ResponseHandler.success(
+        res,
+        { discountCodes },
+        "Códigos de descuento obtenidos exitosamente"
+      );
+    } catch (error) {
+      logger.error("Error fetching discount codes", {
+        requestId: req.requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return next(error);
+    }
+  },
+
+  async createDiscountCode(req: ExtendedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = matchedData(req, { locations: ["params"] }) as { id: string };
+      const body = matchedData(req, { locations: ["body"] }) as DiscountCodeInput;
+      const discountCode = await discountCodeService.create(id, body, {
+        userId: req.user?.id,
+        requestId: req.requestId,
+      });
+      return ResponseHandler.created(
+        res,
+        { discountCode },
+        "Código de descuento creado exitosamente"
+      );
+    } catch (error) {
+      logger.error("Error creating discount code", {
+        requestId: req.requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return next(error);
+    }
+  },
+
+  async updateDiscountCode(req: ExtendedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id, codeId } = matchedData(req, { locations: ["params"] }) as {
+        id: string;
+        codeId: string;
+      };
+      const body = matchedData(req, { locations: ["body"] }) as Partial<DiscountCodeInput>;
+      const discountCode = await discountCodeService.update(id, codeId, body, {
+        userId: req.user?.id,
+        requestId: req.requestId,
+      });
+      return ResponseHandler.success(
+        res,
+        { discountCode },
+        "Código de descuento actualizado exitosamente"
+      );
+    } catch (error) {
+      logger.error("Error updating discount code", {
+        requestId: req.requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return next(error);
+    }
+  },
+
+  async getScholarships(req: ExtendedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = matchedData(req, { locations: ["params"] }) as { id: string };
+      const { status } = matchedData(req, { locations: ["query"] }) as {
+        status?: ScholarshipStatus;
+      };
+      const scholarships = await scholarshipService.listByCamp(id, status);
+      return ResponseHandler.success(
+        res,
+        { scholarships },
+        "Becas obtenidas exitosamente"
+      );
+    } catch (error) {
+      logger.error("Error fetching camp scholarships", {
+        requestId: req.requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return next(error);
+    }
+  },
+
+  async checkIn(req: ExtendedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = matchedData(req, { locations: ["params"] }) as { id: string };
+      const body = matchedData(req, { locations: ["body"] }) as CheckInInput;
+      const result = await checkInService.checkIn(
+        id,
+        { ...body, device: body.device ?? req.get("User-Agent")?.slice(0, 255) ?? null },
+        { userId: req.user?.id, requestId: req.requestId }
+      );
+      return ResponseHandler.created(res, result, "Check-in registrado exitosamente");
+    } catch (error) {
+      logger.error("Error checking in attendee", {
+        requestId: req.requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return next(error);
+    }
+  },
+
+  async getDietaryReport(req: ExtendedRequest, res: Response, next: NextFunction) {
+    try {
+      // Cocina (dietary:read) o equipo médico (health:read)
+      if (!healthProfileService.resolveView(req.user)) {
+        throw new AppError("No tiene permisos para esta operación", 403);
+      }
+      const { id } = matchedData(req, { locations: ["params"] }) as { id: string };
+      const { format = "json" } = matchedData(req, { locations: ["query"] }) as {
+        format?: ReportFormat;
+      };
+      const report = await campReportService.getDietaryReport(id);
+      logger.info("Camp dietary report generated", {
+        requestId: req.requestId,
+        id,
+        format,
+        totalAttendees: report.totalAttendees,
+      });
+      if (format !== "json") {
+        campReportService.sendDietary(res, report, format);
+        return;
+      }
+      return ResponseHandler.success(
+        res,
+        { report },
+        "Informe de alimentación generado exitosamente"
+      );
+    } catch (error) {
+      logger.error("Error generating camp dietary report", {
+        requestId: req.requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return next(error);
+    }
+  },
+
+  async getMedicalReport(req: ExtendedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = matchedData(req, { locations: ["params"] }) as { id: string };
+      const { format = "json" } = matchedData(req, { locations: ["query"] }) as {
+        format?: ReportFormat;
+      };
+      const report = await campReportService.getMedicalReport(id);
+      logger.info("Camp medical report generated", {
+        requestId: req.requestId,
+        id,
+        format,
+        totalAttendees: report.totalAttendees,
+      });
+      if (format !== "json") {
+        campReportService.sendMedical(res, report, format);
+        return;
+      }
+      return ResponseHandler.success(
+        res,
+        { report },
+        "Informe médico generado exitosamente"
+      );
+    } catch (error) {
+      logger.error("Error generating camp medical report", {
+        requestId: req.requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return next(error);
+    }
+  },
 };
 
 export default campsController;
\ No newline at end of file
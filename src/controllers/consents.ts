@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from "express";
+import { matchedData } from "express-validator";
+import { consentService } from "../services/consentService";
+import logger from "../utils/logger";
+import ResponseHandler from "../utils/responseHandler";
+
+interface ExtendedRequest extends Request {
+    requestId?: string;
+}
+
+const consentsController = {
+    async getForm(req: ExtendedRequest, res: Response, next: NextFunction) {
+        try {
+            const { token } = matchedData(req, { locations: ["query"] }) as {
+                token: string;
+            };
+            const form = await consentService.getForm(token);
+            return ResponseHandler.success(
+                res,
+                form,
+                "Formulario de consentimiento obtenido exitosamente"
+            );
+        } catch (error) {
+            logger.warn("Error fetching consent form", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async sign(req: ExtendedRequest, res: Response, next: NextFunction) {
+        try {
+            const { token, signedName } = matchedData(req, {
+                locations: ["body"],
+            }) as { token: string; signedName: string };
+            const consent = await consentService.sign(token, signedName, {
+                ip: req.ip,
+                userAgent: req.get("User-Agent"),
+            });
+            return ResponseHandler.success(
+                res,
+                { status: consent.status, signedAt: consent.signedAt },
+                "Consentimiento firmado exitosamente"
+            );
+        } catch (error) {
+            logger.warn("Error signing consent", {
+                requestId: req.requestId,
+                ip: req.ip,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+};
+
+export default consentsController;
@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from "express";
+import { matchedData } from "express-validator";
+import logger from "../utils/logger";
+import ResponseHandler from "../utils/responseHandler";
+import { AppError } from "../utils/handleError";
+import { AuthUser } from "../middlewares/authenticate";
+import { healthProfileService } from "../services/healthProfileService";
+import {
+    DietaryRestriction,
+    HealthProfileQueryOptions,
+} from "../models/HealthProfile";
+
+interface ExtendedRequest extends Request {
+    requestId?: string;
+    user?: AuthUser;
+}
+
+// Tamaño de página por defecto del listado
+const DEFAULT_PAGE_SIZE = 50;
+
+const healthProfilesController = {
+    async getHealthProfiles(
+        req: ExtendedRequest,
+        res: Response,
+        next: NextFunction
+    ) {
+        try {
+            // health:read ve el perfil completo; dietary:read solo la dieta
+            const view = healthProfileService.resolveView(req.user);
+            if (!view) {
+                throw new AppError("No tiene permisos para esta operación", 403);
+            }
+            const data = matchedData(req, {
+                locations: ["query"],
+            }) as Partial<HealthProfileQueryOptions> & {
+                dietaryRestriction?: DietaryRestriction[];
+            };
+            const page = data.page ?? 1;
+            const pageSize = data.pageSize ?? DEFAULT_PAGE_SIZE;
+            const { rows, count: total } = await healthProfileService.list({
+                page,
+                pageSize,
+                campId: data.campId,
+                allergen: data.allergen,
+                severity: data.severity,
+                dietaryRestrictions: data.dietaryRestriction,
+                withMedications: data.withMedications,
+            });
+            const totalPages = Math.ceil(total / pageSize);
+
+            logger.info("Health profiles fetched", {
+                requestId: req.requestId,
+                view,
+                total,
+                page,
+                pageSize,
+            });
+
+            return ResponseHandler.success(
+                res,
+                {
+                    healthProfiles: rows.map((profile) =>
+                        healthProfileService.toView(profile, view)
+                    ),
+                    pagination: {
+                        page,
+                        pageSize,
+                        total,
+                        totalPages,
+                        hasNextPage: page < totalPages,
+                        hasPreviousPage: page > 1,
+                    },
+                },
+                "Perfiles de salud obtenidos exitosamente"
+            );
+        } catch (error) {
+            logger.error("Error fetching health profiles", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+};
+
+export default healthProfilesController;
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from "express";
+import { matchedData } from "express-validator";
+import { paymentGatewayService } from "../services/paymentGatewayService";
+import { PaymentEventStatus } from "../providers/payment/types";
+import { AuthUser } from "../middlewares/authenticate";
+import logger from "../utils/logger";
+import ResponseHandler from "../utils/responseHandler";
+
+interface ExtendedRequest extends Request {
+    requestId?: string;
+    user?: AuthUser;
+    // Cuerpo sin parsear, capturado en app.ts para verificar la firma
+    rawBody?: Buffer;
+}
+
+const paymentsController = {
+    async webhook(req: ExtendedRequest, res: Response, next: NextFunction) {
+        try {
+            const result = await paymentGatewayService.handleWebhook(
+                {
+                    rawBody: req.rawBody ?? Buffer.from(""),
+                    headers: req.headers,
+                },
+                req.requestId
+            );
+            return ResponseHandler.success(
+                res,
+                result,
+                "Evento de pago procesado"
+            );
+        } catch (error) {
+            logger.warn("Error processing payment webhook", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+
+    async simulate(req: ExtendedRequest, res: Response, next: NextFunction) {
+        try {
+            const { checkoutId, status, transactionId } = matchedData(
+                req
+            ) as {
+                checkoutId: string;
+                status: PaymentEventStatus;
+                transactionId?: string;
+            };
+            const result = await paymentGatewayService.simulate(
+                checkoutId,
+                status,
+                transactionId,
+                { userId: req.user?.id, requestId: req.requestId }
+            );
+            return ResponseHandler.success(
+                res,
+                result,
+                "Evento de pago simulado"
+            );
+        } catch (error) {
+            logger.error("Error simulating payment event", {
+                requestId: req.requestId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next(error);
+        }
+    },
+};
+
+export default paymentsController;
@@ -4,6 +4,7 @@ import Role from "../models/Role";
 import ResponseHandler from "../utils/responseHandler";
 import logger from "../utils/logger";
 import { AppError } from "../utils/handleError";
+import { permissionService } from "../services/permissionService";
 
 // Extiende Request para agregar metadatos comunes
 interface ExtendedRequest extends Request {
@@ -196,6 +197,105 @@ export const deleteRole = async (
   }
 };
 
+export const restoreRole = async (
+  req: ExtendedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = matchedData(req, { locations: ["params"] }) as { id: string };
+    const role = await Role.findWithDeleted(id);
+    if (!role) {
+      throw new AppError("Rol no encontrado", 404);
+    }
+    if (!role.deletedAt) {
+      throw new AppError("El rol no está eliminado", 409);
+    }
+    // El code debe seguir libre entre los roles activos
+    const existsCode = await Role.findByCode(role.code);
+    if (existsCode) {
+      throw new AppError("El code ya está en uso por otro rol", 409);
+    }
+
+    await role.restore();
+
+    logger.info("Role restored", { requestId: req.requestId, id });
+
+    ResponseHandler.success(
+      res,
+      { role: await Role.findOneData(id) },
+      "Rol restaurado exitosamente"
+    );
+  } catch (error) {
+    logger.error("Error restoring role", {
+      requestId: req.requestId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    next(error);
+  }
+};
+
+export const getRolePermissions = async (
+  req: ExtendedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = matchedData(req, { locations: ["params"] }) as { id: string };
+    const role = await Role.findOneData(id);
+    if (!role) {
+      throw new AppError("Rol no encontrado", 404);
+    }
+    const permissions = await permissionService.getRolePermissions(id);
+
+    logger.info("Role permissions retrieved", { requestId: req.requestId, id });
+
+    ResponseHandler.success(
+      res,
+      { roleId: id, permissions },
+      "Permisos del rol obtenidos exitosamente"
+    );
+  } catch (error) {
+    logger.error("Error fetching role permissions", {
+      requestId: req.requestId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    next(error);
+  }
+};
+
+export const updateRolePermissions = async (
+  req: ExtendedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = matchedData(req, { locations: ["params"] }) as { id: string };
+    const { permissions: codes } = matchedData(req, { locations: ["body"] }) as {
+      permissions: string[];
+    };
+    const permissions = await permissionService.setRolePermissions(id, codes);
+
+    logger.info("Role permissions updated", {
+      requestId: req.requestId,
+      id,
+      permissions,
+    });
+
+    ResponseHandler.success(
+      res,
+      { roleId: id, permissions },
+      "Permisos del rol actualizados exitosamente"
+    );
+  } catch (error) {
+    logger.error("Error updating role permissions", {
+      requestId: req.requestId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    next(error);
+  }
+};
+
 export default {
   getRoles,
   getRole,
@@ -203,4 +303,7 @@ export default {
   createRole,
   updateRole,
   deleteRole,
+  restoreRole,
+  getRolePermissions,
+  updateRolePermissions,
 };
\ No newline at end of file
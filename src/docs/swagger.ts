@@ -53,6 +53,12 @@ const swaggerOptions = {
                             type: "string",
                             example: "Error en la operación",
                         },
+                        code: {
+                            type: "string",
+                            description:
+                                "Código legible por máquina (solo en algunos errores)",
+                            example: "PASSWORD_CHANGE_REQUIRED",
+                        },
                         errors: {
                             type: "array",
                             items: {
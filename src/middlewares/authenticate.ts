@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from "express";
+import CampAttendee from "../models/CampAttendee";
+import RolePermission from "../models/RolePermission";
+import { authService } from "../services/authService";
+import { AppError } from "../utils/handleError";
+import { requestContext } from "../utils/requestContext";
+
+// Usuario autenticado que se expone en req.user
+export interface AuthUser {
+    id: string;
+    email?: string;
+    roleId: string;
+    mustChangePassword: boolean;
+    permissions: string[]; // Códigos de permiso del rol
+}
+
+interface ExtendedRequest extends Request {
+    requestId?: string;
+    user?: AuthUser;
+}
+
+/**
+ * Valida el header Authorization: Bearer <accessToken> y carga el asistente
+ * junto con los permisos de su rol.
+ * Responde 401 si el token falta, es inválido/expirado o el asistente ya no existe,
+ * y 403 (ACCOUNT_INACTIVE) si la cuenta está desactivada.
+ */
+export const authenticate = async (
+    req: ExtendedRequest,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const header = req.get("Authorization") || "";
+        const [scheme, token] = header.split(" ");
+        if (scheme !== "Bearer" || !token) {
+            throw new AppError("Token de acceso requerido", 401);
+        }
+
+        const payload = authService.verifyAccessToken(token);
+        const attendee = await CampAttendee.findOne({
+            where: { id: payload.sub },
+            attributes: [
+                "id",
+                "email",
+                "roleId",
+                "mustChangePassword",
+                "isActive",
+            ],
+        });
+        if (!attendee) {
+            throw new AppError("Token de acceso inválido", 401);
+        }
+        authService.assertActive(attendee);
+
+        req.user = {
+            id: attendee.id,
+            email: attendee.email ?? undefined,
+            roleId: attendee.roleId,
+            mustChangePassword: attendee.mustChangePassword,
+            permissions: await RolePermission.findPermissionCodes(
+                attendee.roleId
+            ),
+        };
+        requestContext.setActor(attendee.id);
+        return next();
+    } catch (error) {
+        return next(error);
+    }
+};
+
+export default authenticate;
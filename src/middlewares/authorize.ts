@@ -0,0 +1,104 @@
+import { Request, Response, NextFunction } from "express";
+import { PermissionCode } from "../models/Permission";
+import { AppError } from "../utils/handleError";
+import { AuthUser } from "./authenticate";
+
+interface ExtendedRequest extends Request {
+    user?: AuthUser;
+}
+
+// Indica si el usuario tiene todos los permisos indicados
+export const hasPermissions = (
+    user: AuthUser | undefined,
+    permissions: PermissionCode[]
+): boolean => {
+    return !!user && permissions.every((p) => user.permissions.includes(p));
+};
+
+// Indica si el usuario tiene al menos uno de los permisos indicados
+export const hasAnyPermission = (
+    user: AuthUser | undefined,
+    permissions: PermissionCode[]
+): boolean => {
+    return !!user && permissions.some((p) => user.permissions.includes(p));
+};
+
+/**
+ * Exige que el usuario autenticado tenga todos los permisos indicados.
+ * Debe ir después de authenticate.
+ */
+export const authorize = (...permissions: PermissionCode[]) => {
+    return (req: ExtendedRequest, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return next(new AppError("Token de acceso requerido", 401));
+        }
+        if (!hasPermissions(req.user, permissions)) {
+            return next(
+                new AppError("No tiene permisos para esta operación", 403)
+            );
+        }
+        return next();
+    };
+};
+
+/**
+ * Permite la operación si el recurso (req.params.id) es el propio asistente
+ * autenticado, o si tiene los permisos indicados.
+ */
+export const authorizeSelfOr = (...permissions: PermissionCode[]) => {
+    return (req: ExtendedRequest, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return next(new AppError("Token de acceso requerido", 401));
+        }
+        if (
+            req.params.id === req.user.id ||
+            hasPermissions(req.user, permissions)
+        ) {
+            return next();
+        }
+        return next(
+            new AppError("No tiene permisos para esta operación", 403)
+        );
+    };
+};
+
+/**
+ * Exige que el usuario autenticado tenga al menos uno de los permisos
+ * indicados (p. ej. health:read o dietary:read con vistas distintas).
+ * Debe ir después de authenticate.
+ */
+export const authorizeAny = (...permissions: PermissionCode[]) => {
+    return (req: ExtendedRequest, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return next(new AppError("Token de acceso requerido", 401));
+        }
+        if (!hasAnyPermission(req.user, permissions)) {
+            return next(
+                new AppError("No tiene permisos para esta operación", 403)
+            );
+        }
+        return next();
+    };
+};
+
+/**
+ * Como authorizeSelfOr, pero basta con uno de los permisos indicados
+ */
+export const authorizeSelfOrAny = (...permissions: PermissionCode[]) => {
+    return (req: ExtendedRequest, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return next(new AppError("Token de acceso requerido", 401));
+        }
+        if (
+            req.params.id === req.user.id ||
+            hasAnyPermission(req.user, permissions)
+        ) {
+            return next();
+        }
+        return next(
+            new AppError("No tiene permisos para esta operación", 403)
+        );
+    };
+};
+
+export default authorize;
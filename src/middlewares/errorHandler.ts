@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from "express";
+import multer from "multer";
 import { AppError } from "../utils/handleError";
 import ResponseHandler from "../utils/responseHandler";
 import logger from "../utils/logger";
@@ -12,11 +13,23 @@ export const errorHandler = (
 ) => {
     let statusCode = 500;
     let message = "Error interno del servidor";
+    let code: string | undefined;
 
     // Si es un AppError, usar sus propiedades
     if (error instanceof AppError) {
         statusCode = error.statusCode;
         message = error.message;
+        code = error.code;
+    }
+
+    // Errores de carga de archivos (multer): son del cliente, no del servidor
+    if (error instanceof multer.MulterError) {
+        statusCode = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+        message =
+            error.code === "LIMIT_FILE_SIZE"
+                ? "El archivo supera el tamaño máximo permitido"
+                : `Carga de archivo inválida: ${error.message}`;
+        code = error.code;
     }
 
     // Log del error
@@ -24,6 +37,7 @@ export const errorHandler = (
         error: error.message,
         stack: error.stack,
         statusCode,
+        code,
         url: req.url,
         method: req.method,
         ip: req.ip,
@@ -34,6 +48,7 @@ export const errorHandler = (
     const response = {
         success: false,
         message,
+        ...(code ? { code } : {}),
         timestamp: new Date().toISOString(),
     };
 
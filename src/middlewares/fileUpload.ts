@@ -2,6 +2,7 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { Request } from 'express';
+import { AppError } from '../utils/handleError';
 
 // Asegurarse de que la carpeta de uploads exista
 const uploadDir = path.join(__dirname, '../../../configuracion/uploads');
@@ -30,7 +31,7 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
   if (allowedExtensions.includes(ext)) {
     cb(null, true);
   } else {
-    cb(new Error('Tipo de archivo no permitido. Solo se permiten PDF, TXT, DOCX y MD.'));
+    cb(new AppError('Tipo de archivo no permitido. Solo se permiten PDF, TXT, DOCX y MD.', 400));
   }
 };
 
@@ -43,6 +44,20 @@ const upload = multer({
   }
 });
 
-
+// Hojas de cálculo para importaciones: se procesan en memoria, no se guardan en disco
+export const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    if (['.csv', '.xlsx'].includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new AppError('Tipo de archivo no permitido. Solo se permiten CSV y XLSX.', 400));
+    }
+  },
+  limits: {
+    fileSize: 5 * 1024 * 1024, // Límite de 5MB
+  }
+});
 
 export default upload;
\ No newline at end of file
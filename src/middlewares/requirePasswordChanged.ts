@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "../utils/handleError";
+import { AuthUser } from "./authenticate";
+
+export const PASSWORD_CHANGE_REQUIRED = "PASSWORD_CHANGE_REQUIRED";
+
+interface ExtendedRequest extends Request {
+    user?: AuthUser;
+}
+
+/**
+ * Bloquea operaciones de autoservicio mientras el asistente conserve la
+ * contraseña inicial (mustChangePassword). Debe ir después de authenticate.
+ */
+export const requirePasswordChanged = (
+    req: ExtendedRequest,
+    res: Response,
+    next: NextFunction
+) => {
+    if (!req.user) {
+        return next(new AppError("Token de acceso requerido", 401));
+    }
+    if (req.user.mustChangePassword) {
+        return next(
+            new AppError(
+                "Debe cambiar su contraseña antes de continuar",
+                403,
+                true,
+                PASSWORD_CHANGE_REQUIRED
+            )
+        );
+    }
+    return next();
+};
+
+export default requirePasswordChanged;
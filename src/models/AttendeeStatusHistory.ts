@@ -0,0 +1,157 @@
+import { DataTypes, Model, Optional, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import { RegistrationStatus } from "./CampAttendee";
+
+const REGISTRATION_STATUSES = [
+  "PENDING_PAYMENT",
+  "PAID",
+  "CONFIRMED",
+  "CANCELLED",
+  "WAITING_LIST",
+];
+
+// Atributos del modelo AttendeeStatusHistory (tabla attendee_status_history)
+interface AttendeeStatusHistoryAttributes {
+  id: string; // CHAR(36)
+  attendeeId: string; // CHAR(36)
+  fromStatus: RegistrationStatus | null; // null en la inscripción inicial
+  toStatus: RegistrationStatus;
+  reason: string | null; // VARCHAR(500)
+  changedBy: string | null; // CHAR(36) - usuario que hizo el cambio (null = sistema)
+  amount: number | null; // INT UNSIGNED - total pagado al pasar a PAID
+  reference: string | null; // VARCHAR(100) - referencia del pago que completó el saldo
+  createdAt: Date;
+}
+
+interface AttendeeStatusHistoryCreationAttributes
+  extends Optional<
+    AttendeeStatusHistoryAttributes,
+    | "id"
+    | "fromStatus"
+    | "reason"
+    | "changedBy"
+    | "amount"
+    | "reference"
+    | "createdAt"
+  > {}
+
+class AttendeeStatusHistory
+  extends Model<
+    AttendeeStatusHistoryAttributes,
+    AttendeeStatusHistoryCreationAttributes
+  >
+  implements AttendeeStatusHistoryAttributes
+{
+  public id!: string;
+  public attendeeId!: string;
+  public fromStatus!: RegistrationStatus | null;
+  public toStatus!: RegistrationStatus;
+  public reason!: string | null;
+  public changedBy!: string | null;
+  public amount!: number | null;
+  public reference!: string | null;
+  public readonly createdAt!: Date;
+
+  // Historial de un asistente en orden cronológico
+  static async findByAttendee(attendeeId: string) {
+    return await AttendeeStatusHistory.findAll({
+      where: { attendeeId },
+      attributes: [
+        "id",
+        "attendeeId",
+        "fromStatus",
+        "toStatus",
+        "reason",
+        "changedBy",
+        "amount",
+        "reference",
+        "createdAt",
+      ],
+      order: [
+        ["createdAt", "ASC"],
+        ["id", "ASC"],
+      ],
+    });
+  }
+
+  // Registrar una transición
+  static async record(
+    data: AttendeeStatusHistoryCreationAttributes,
+    transaction?: Transaction
+  ) {
+    return await AttendeeStatusHistory.create(
+      {
+        attendeeId: data.attendeeId,
+        fromStatus: data.fromStatus ?? null,
+        toStatus: data.toStatus,
+        reason: data.reason ?? null,
+        changedBy: data.changedBy ?? null,
+        amount: data.amount ?? null,
+        reference: data.reference ?? null,
+      },
+      { transaction }
+    );
+  }
+}
+
+AttendeeStatusHistory.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    attendeeId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    fromStatus: {
+      type: DataTypes.ENUM(...REGISTRATION_STATUSES),
+      allowNull: true,
+    },
+    toStatus: {
+      type: DataTypes.ENUM(...REGISTRATION_STATUSES),
+      allowNull: false,
+    },
+    reason: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    changedBy: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    amount: {
+      type: (DataTypes.INTEGER as any).UNSIGNED,
+      allowNull: true,
+    },
+    reference: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    updatedAt: false, // el historial es inmutable
+    tableName: "attendee_status_history",
+    modelName: "AttendeeStatusHistory",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      {
+        unique: false,
+        fields: ["attendeeId", "createdAt"],
+        name: "ix_attendee_status_history_attendee",
+      },
+    ],
+  }
+);
+
+export default AttendeeStatusHistory;
@@ -0,0 +1,179 @@
+import {
+  DataTypes,
+  Model,
+  Op,
+  Optional,
+  Transaction,
+  WhereAttributeHash,
+} from "sequelize";
+import { sequelize } from "../config/database";
+
+export const AUDIT_ACTIONS = [
+  "CREATE",
+  "UPDATE",
+  "DELETE",
+  "RESTORE",
+  "PURGE",
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDITED_ENTITIES = ["CampAttendee", "Camp", "Role"] as const;
+export type AuditedEntity = (typeof AUDITED_ENTITIES)[number];
+
+// Diferencia por campo: valor anterior y nuevo
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Atributos del modelo AuditLog (tabla audit_logs)
+export interface AuditLogAttributes {
+  id: string; // CHAR(36)
+  entity: AuditedEntity; // VARCHAR(50) - nombre del modelo
+  entityId: string; // CHAR(36)
+  action: AuditAction;
+  actorId: string | null; // CHAR(36) - asistente autenticado (null = anónimo o sistema)
+  requestId: string | null; // VARCHAR(36) - id de la petición (requestLogger)
+  changes: AuditChanges; // JSON
+  createdAt: Date;
+}
+
+interface AuditLogCreationAttributes
+  extends Optional<
+    AuditLogAttributes,
+    "id" | "actorId" | "requestId" | "createdAt"
+  > {}
+
+// Filtros de la consulta de auditoría
+export interface AuditLogQueryOptions {
+  page: number;
+  pageSize: number;
+  entity?: AuditedEntity;
+  entityId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+}
+
+class AuditLog
+  extends Model<AuditLogAttributes, AuditLogCreationAttributes>
+  implements AuditLogAttributes
+{
+  public id!: string;
+  public entity!: AuditedEntity;
+  public entityId!: string;
+  public action!: AuditAction;
+  public actorId!: string | null;
+  public requestId!: string | null;
+  public changes!: AuditChanges;
+  public readonly createdAt!: Date;
+
+  // Registrar un cambio (en la misma transacción que el cambio auditado)
+  static async record(
+    data: AuditLogCreationAttributes,
+    transaction?: Transaction | null
+  ) {
+    return await AuditLog.create(
+      {
+        entity: data.entity,
+        entityId: data.entityId,
+        action: data.action,
+        actorId: data.actorId ?? null,
+        requestId: data.requestId ?? null,
+        changes: data.changes,
+      },
+      { transaction: transaction ?? undefined }
+    );
+  }
+
+  // Listado paginado, del más reciente al más antiguo
+  static async findPaginated(options: AuditLogQueryOptions) {
+    const where: WhereAttributeHash<AuditLogAttributes> = {};
+    if (options.entity) where.entity = options.entity;
+    if (options.entityId) where.entityId = options.entityId;
+    if (options.actorId) where.actorId = options.actorId;
+    if (options.action) where.action = options.action;
+    if (options.from || options.to) {
+      where.createdAt = {
+        ...(options.from ? { [Op.gte]: options.from } : {}),
+        ...(options.to ? { [Op.lte]: options.to } : {}),
+      };
+    }
+
+    return await AuditLog.findAndCountAll({
+      where,
+      order: [
+        ["createdAt", "DESC"],
+        ["id", "DESC"],
+      ],
+      limit: options.pageSize,
+      offset: (options.page - 1) * options.pageSize,
+    });
+  }
+}
+
+AuditLog.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    entity: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    entityId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    action: {
+      type: DataTypes.ENUM(...AUDIT_ACTIONS),
+      allowNull: false,
+    },
+    actorId: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    requestId: {
+      type: DataTypes.STRING(36),
+      allowNull: true,
+    },
+    changes: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    updatedAt: false, // la auditoría es inmutable
+    tableName: "audit_logs",
+    modelName: "AuditLog",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      {
+        unique: false,
+        fields: ["entity", "entityId", "createdAt"],
+        name: "ix_audit_logs_entity",
+      },
+      {
+        unique: false,
+        fields: ["actorId", "createdAt"],
+        name: "ix_audit_logs_actor",
+      },
+      {
+        unique: false,
+        fields: ["createdAt"],
+        name: "ix_audit_logs_created",
+      },
+    ],
+  }
+);
+
+export default AuditLog;
@@ -1,6 +1,24 @@
 import { DataTypes, Model, Optional } from "sequelize";
 import { sequelize } from "../config/database";
 
+// Cuota del plan de pagos: porcentaje de la tarifa que vence en dueDate
+export interface InstallmentPlanItem {
+  dueDate: string; // YYYY-MM-DD
+  percentage: number; // la suma de las cuotas es 100
+}
+
+/**
+ * Tarifa diferencial: la primera regla cuyos criterios cumple el asistente
+ * reemplaza a feeAmount. Los criterios ausentes no se evalúan.
+ */
+export interface FeeRule {
+  label?: string;
+  roleCodes?: string[]; // códigos de rol (role.code)
+  assistantSubRoles?: ("NONE" | "MONITOR" | "GROUP_LEADER")[];
+  registeredUntil?: string; // YYYY-MM-DD - inscritos hasta ese día (hora Colombia)
+  amount: number; // COP sin decimales
+}
+
 interface CampAttributes {
   id: string;
   name: string;
@@ -15,6 +33,9 @@ interface CampAttributes {
   maxAttendees: number | null;
   registrationOpensAt: Date | null;
   registrationClosesAt: Date | null;
+  feeAmount: number | null; // INT UNSIGNED - tarifa en COP (sin decimales); null = sin cobro
+  installmentPlan: InstallmentPlanItem[] | null; // JSON - null = pago único
+  feeRules: FeeRule[] | null; // JSON - null = todos pagan feeAmount
   status: "DRAFT" | "OPEN" | "CLOSED" | "FINISHED" | "CANCELLED";
   createdAt: Date;
   updatedAt: Date;
@@ -31,6 +52,9 @@ interface CampCreationAttributes
     | "maxAttendees"
     | "registrationOpensAt"
     | "registrationClosesAt"
+    | "feeAmount"
+    | "installmentPlan"
+    | "feeRules"
     | "status"
     | "createdAt"
     | "updatedAt"
@@ -51,6 +75,9 @@ class Camp extends Model<CampAttributes, CampCreationAttributes> implements Camp
   public maxAttendees!: number | null;
   public registrationOpensAt!: Date | null;
   public registrationClosesAt!: Date | null;
+  public feeAmount!: number | null;
+  public installmentPlan!: InstallmentPlanItem[] | null;
+  public feeRules!: FeeRule[] | null;
   public status!: "DRAFT" | "OPEN" | "CLOSED" | "FINISHED" | "CANCELLED";
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -73,6 +100,9 @@ class Camp extends Model<CampAttributes, CampCreationAttributes> implements Camp
         "maxAttendees",
         "registrationOpensAt",
         "registrationClosesAt",
+        "feeAmount",
+        "installmentPlan",
+        "feeRules",
         "status",
         "createdAt",
         "updatedAt",
@@ -97,6 +127,9 @@ class Camp extends Model<CampAttributes, CampCreationAttributes> implements Camp
         "maxAttendees",
         "registrationOpensAt",
         "registrationClosesAt",
+        "feeAmount",
+        "installmentPlan",
+        "feeRules",
         "status",
         "createdAt",
         "updatedAt",
@@ -122,6 +155,9 @@ class Camp extends Model<CampAttributes, CampCreationAttributes> implements Camp
         "maxAttendees",
         "registrationOpensAt",
         "registrationClosesAt",
+        "feeAmount",
+        "installmentPlan",
+        "feeRules",
         "status",
         "createdAt",
         "updatedAt",
@@ -129,18 +165,28 @@ class Camp extends Model<CampAttributes, CampCreationAttributes> implements Camp
     });
   }
 
+  // Camps con inscripciones abiertas (status OPEN)
+  static async findOpenCamps() {
+    return await Camp.findAll({
+      where: { status: "OPEN" },
+      order: [["startDate", "ASC"]],
+    });
+  }
+
   static async findByIdAndUpdate(id: string, body: Partial<CampAttributes>) {
     return await Camp.update(
       {
         name: body.name,
         code: body.code,
-        theme: body.theme ?? null,
-        description: body.description ?? null,
+        // Los campos que no vienen en el body no se sobrescriben
+        theme: typeof body.theme !== "undefined" ? body.theme : undefined,
+        description:
+          typeof body.description !== "undefined" ? body.description : undefined,
         startDate: body.startDate,
         endDate: body.endDate,
         city: body.city,
-        country: body.country ?? "Colombia",
-        venue: body.venue ?? null,
+        country: typeof body.country !== "undefined" ? body.country ?? "Colombia" : undefined,
+        venue: typeof body.venue !== "undefined" ? body.venue : undefined,
         maxAttendees:
           typeof body.maxAttendees !== "undefined" ? body.maxAttendees : undefined,
         registrationOpensAt:
@@ -151,6 +197,12 @@ class Camp extends Model<CampAttributes, CampCreationAttributes> implements Camp
           typeof body.registrationClosesAt !== "undefined"
             ? body.registrationClosesAt
             : undefined,
+        feeAmount: typeof body.feeAmount !== "undefined" ? body.feeAmount : undefined,
+        installmentPlan:
+          typeof body.installmentPlan !== "undefined"
+            ? body.installmentPlan
+            : undefined,
+        feeRules: typeof body.feeRules !== "undefined" ? body.feeRules : undefined,
         status: body.status,
       },
       { where: { id } }
@@ -171,6 +223,9 @@ class Camp extends Model<CampAttributes, CampCreationAttributes> implements Camp
       maxAttendees: typeof data.maxAttendees !== "undefined" ? data.maxAttendees : null,
       registrationOpensAt: data.registrationOpensAt ?? null,
       registrationClosesAt: data.registrationClosesAt ?? null,
+      feeAmount: data.feeAmount ?? null,
+      installmentPlan: data.installmentPlan ?? null,
+      feeRules: data.feeRules ?? null,
       status: data.status ?? "DRAFT",
     });
   }
@@ -178,6 +233,11 @@ class Camp extends Model<CampAttributes, CampCreationAttributes> implements Camp
   static async deleteCamp(id: string) {
     return await Camp.destroy({ where: { id } });
   }
+
+  // Buscar por ID incluyendo camps eliminados (soft delete)
+  static async findWithDeleted(id: string) {
+    return await Camp.findOne({ where: { id }, paranoid: false });
+  }
 }
 
 Camp.init(
@@ -238,6 +298,18 @@ Camp.init(
       type: DataTypes.DATE(3),
       allowNull: true,
     },
+    feeAmount: {
+      type: (DataTypes.INTEGER as any).UNSIGNED,
+      allowNull: true,
+    },
+    installmentPlan: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    feeRules: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
     status: {
       type: DataTypes.ENUM("DRAFT", "OPEN", "CLOSED", "FINISHED", "CANCELLED"),
       allowNull: false,
@@ -1,9 +1,27 @@
-import { DataTypes, Model, Optional } from "sequelize";
+import {
+    DataTypes,
+    Model,
+    Op,
+    Optional,
+    Order,
+    Sequelize,
+    Transaction,
+    WhereAttributeHash,
+    WhereOptions,
+} from "sequelize";
 import { sequelize } from "../config/database";
 import Role from "./Role";
+import Guardian, { GuardianInput } from "./Guardian";
+
+export type RegistrationStatus =
+    | "PENDING_PAYMENT"
+    | "PAID"
+    | "CONFIRMED"
+    | "CANCELLED"
+    | "WAITING_LIST";
 
 // Atributos del modelo CampAttendee (según la tabla camp_attendees)
-interface CampAttendeeAttributes {
+export interface CampAttendeeAttributes {
     id: string; // CHAR(36)
     firstName: string; // VARCHAR(100)
     lastName: string; // VARCHAR(100)
@@ -13,7 +31,7 @@ interface CampAttendeeAttributes {
     campId: string; // CHAR(36)
     emailVerifiedAt: Date | null; // DATETIME(3)
     mustChangePassword: boolean; // TINYINT(1) -> BOOLEAN
-    registrationStatus: "PENDING_PAYMENT" | "PAID" | "CONFIRMED" | "CANCELLED" | "WAITING_LIST"; // ENUM
+    registrationStatus: RegistrationStatus; // ENUM
     age: number | null; // TINYINT(3) UNSIGNED
     birthDate: Date | null; // DATE
     country: string | null; // VARCHAR(50)
@@ -22,6 +40,7 @@ interface CampAttendeeAttributes {
     phone: string | null; // VARCHAR(20)
     email: string | null; // VARCHAR(255)
     passwordHash: string | null; // VARCHAR(255)
+    credentialsIssuedAt: Date | null; // DATETIME(3) - primera entrega de credenciales
     skills: string | null; // TEXT
     allergies: string | null; // TEXT
     shirtSize: "XS" | "S" | "M" | "L" | "XL" | null; // ENUM
@@ -37,7 +56,7 @@ interface CampAttendeeAttributes {
 }
 
 // Atributos opcionales al crear
-interface CampAttendeeCreationAttributes
+export interface CampAttendeeCreationAttributes
     extends Optional<
         CampAttendeeAttributes,
         | "id"
@@ -53,6 +72,7 @@ interface CampAttendeeCreationAttributes
         | "mustChangePassword"
         | "registrationStatus"
         | "passwordHash"
+        | "credentialsIssuedAt"
         | "skills"
         | "allergies"
         | "shirtSize"
@@ -66,6 +86,119 @@ interface CampAttendeeCreationAttributes
         | "deletedAt"
     > {}
 
+// Datos de inscripción ya validados (registro, alta o importación):
+// atributos del asistente más los campos que solo existen en la petición
+export type CampAttendeeInput = Partial<CampAttendeeAttributes> &
+    Pick<
+        CampAttendeeAttributes,
+        | "firstName"
+        | "lastName"
+        | "identificationType"
+        | "identificationNumber"
+    > & {
+        campCode?: string;
+        password?: string;
+        guardians?: GuardianInput[];
+    };
+
+// Campos por los que se permite ordenar el listado
+export const SORTABLE_FIELDS = [
+    "firstName",
+    "lastName",
+    "identificationNumber",
+    "email",
+    "age",
+    "birthDate",
+    "city",
+    "churchPastor",
+    "registrationStatus",
+    "assistantSubRole",
+    "shirtSize",
+    "isActive",
+    "createdAt",
+    "updatedAt",
+] as const;
+
+// Columnas disponibles para exportar (passwordHash nunca se exporta).
+// roleName/roleCode salen de la asociación "role".
+export const EXPORTABLE_COLUMNS = [
+    "id",
+    "firstName",
+    "lastName",
+    "gender",
+    "identificationType",
+    "identificationNumber",
+    "campId",
+    "registrationStatus",
+    "age",
+    "birthDate",
+    "country",
+    "city",
+    "churchPastor",
+    "phone",
+    "email",
+    "emailVerifiedAt",
+    "skills",
+    "shirtSize",
+    "roleId",
+    "roleName",
+    "roleCode",
+    "assistantSubRole",
+    "isActive",
+    "createdAt",
+    "updatedAt",
+] as const;
+
+export type ExportableColumn = (typeof EXPORTABLE_COLUMNS)[number];
+
+// Filtros de la exportación de asistentes
+export interface AttendeeExportFilters {
+    campId?: string;
+    roleId?: string;
+    registrationStatus?: RegistrationStatus[];
+    isActive?: boolean;
+}
+
+// Columnas agrupables en las estadísticas de un camp
+export const STATS_GROUP_COLUMNS = [
+    "registrationStatus",
+    "assistantSubRole",
+    "gender",
+    "shirtSize",
+    "city",
+    "churchPastor",
+] as const;
+
+export type StatsGroupColumn = (typeof STATS_GROUP_COLUMNS)[number];
+
+export interface StatsCount<T = string | null> {
+    value: T;
+    count: number;
+}
+
+// Opciones del listado paginado de asistentes
+export interface AttendeeListOptions {
+    page: number;
+    pageSize: number;
+    includeInactive?: boolean;
+    campId?: string;
+    roleId?: string;
+    registrationStatus?: RegistrationStatus[];
+    assistantSubRole?: string;
+    gender?: string;
+    shirtSize?: string;
+    isActive?: boolean;
+    city?: string;
+    churchPastor?: string;
+    ageMin?: number;
+    ageMax?: number;
+    createdFrom?: Date;
+    createdTo?: Date;
+    search?: string;
+    // Ej: ["lastName", "-createdAt"] ("-" = descendente)
+    sort?: string[];
+}
+
 class CampAttendee
     extends Model<CampAttendeeAttributes, CampAttendeeCreationAttributes>
     implements CampAttendeeAttributes
@@ -79,7 +212,7 @@ class CampAttendee
     public campId!: string;
     public emailVerifiedAt!: Date | null;
     public mustChangePassword!: boolean;
-    public registrationStatus!: "PENDING_PAYMENT" | "PAID" | "CONFIRMED" | "CANCELLED" | "WAITING_LIST";
+    public registrationStatus!: RegistrationStatus;
     public age!: number | null;
     public birthDate!: Date | null;
     public country!: string | null;
@@ -88,6 +221,7 @@ class CampAttendee
     public phone!: string | null;
     public email!: string | null;
     public passwordHash!: string | null;
+    public credentialsIssuedAt!: Date | null;
     public skills!: string | null;
     public allergies!: string | null;
     public shirtSize!: "XS" | "S" | "M" | "L" | "XL" | null;
@@ -101,7 +235,7 @@ class CampAttendee
     public readonly updatedAt!: Date;
     public readonly deletedAt!: Date | null;
 
-    // Obtener un asistente por ID (con rol)
+    // Obtener un asistente por ID (con rol y acudientes)
     static async findOneData(id: string) {
         return await CampAttendee.findOne({
             where: { id },
@@ -123,9 +257,9 @@ class CampAttendee
                 "churchPastor",
                 "phone",
                 "email",
-                // passwordHash NO se expone
+                // passwordHash NO se expone; allergies (dato de salud) solo
+                // se consulta en el perfil médico con health:read/dietary:read
                 "skills",
-                "allergies",
                 "shirtSize",
                 "roleId",
                 "assistantSubRole",
@@ -142,7 +276,22 @@ class CampAttendee
                     as: "role",
                     attributes: ["id", "name", "code"],
                 },
+                {
+                    model: Guardian,
+                    as: "guardians",
+                    attributes: [
+                        "id",
+                        "firstName",
+                        "lastName",
+                        "relationship",
+                        "phone",
+                        "email",
+                        "identificationType",
+                        "identificationNumber",
+                    ],
+                },
             ],
+            order: [[{ model: Guardian, as: "guardians" }, "createdAt", "ASC"]],
         });
     }
 
@@ -168,9 +317,125 @@ class CampAttendee
                 "churchPastor",
                 "phone",
                 "email",
-                // passwordHash NO se expone
+                // passwordHash NO se expone; allergies (dato de salud) solo
+                // se consulta en el perfil médico con health:read/dietary:read
+                "skills",
+                "shirtSize",
+                "roleId",
+                "assistantSubRole",
+                "isActive",
+                "documentKey",
+                "mimeType",
+                "bucket",
+                "createdAt",
+                "updatedAt",
+            ],
+            include: [
+                {
+                    model: Role,
+                    as: "role",
+                    attributes: ["id", "name", "code"],
+                },
+            ],
+        });
+    }
+
+    // Listado paginado con filtros, búsqueda libre y orden multi-campo
+    static async findPaginated(options: AttendeeListOptions) {
+        const where: WhereAttributeHash<CampAttendeeAttributes> & {
+            [Op.or]?: WhereOptions<CampAttendeeAttributes>[];
+        } = {};
+        if (options.campId) where.campId = options.campId;
+        if (options.roleId) where.roleId = options.roleId;
+        if (options.registrationStatus?.length) {
+            where.registrationStatus = { [Op.in]: options.registrationStatus };
+        }
+        if (options.assistantSubRole) {
+            where.assistantSubRole = options.assistantSubRole;
+        }
+        if (options.gender) where.gender = options.gender;
+        if (options.shirtSize) where.shirtSize = options.shirtSize;
+        if (typeof options.isActive === "boolean") {
+            where.isActive = options.isActive;
+        }
+        if (options.city) where.city = { [Op.like]: `%${options.city}%` };
+        if (options.churchPastor) {
+            where.churchPastor = { [Op.like]: `%${options.churchPastor}%` };
+        }
+        if (
+            typeof options.ageMin === "number" ||
+            typeof options.ageMax === "number"
+        ) {
+            where.age = {
+                ...(typeof options.ageMin === "number"
+                    ? { [Op.gte]: options.ageMin }
+                    : {}),
+                ...(typeof options.ageMax === "number"
+                    ? { [Op.lte]: options.ageMax }
+                    : {}),
+            };
+        }
+        if (options.createdFrom || options.createdTo) {
+            where.createdAt = {
+                ...(options.createdFrom ? { [Op.gte]: options.createdFrom } : {}),
+                ...(options.createdTo ? { [Op.lte]: options.createdTo } : {}),
+            };
+        }
+        if (options.search) {
+            const term = `%${options.search}%`;
+            where[Op.or] = [
+                { firstName: { [Op.like]: term } },
+                { lastName: { [Op.like]: term } },
+                Sequelize.where(
+                    Sequelize.fn(
+                        "CONCAT",
+                        Sequelize.col("CampAttendee.firstName"),
+                        " ",
+                        Sequelize.col("CampAttendee.lastName")
+                    ),
+                    { [Op.like]: term }
+                ),
+                { email: { [Op.like]: term } },
+                { identificationNumber: { [Op.like]: term } },
+                { phone: { [Op.like]: term } },
+            ];
+        }
+
+        const order: Order = (options.sort?.length
+            ? options.sort
+            : ["-createdAt"]
+        ).map((field) =>
+            field.startsWith("-")
+                ? [field.slice(1), "DESC"]
+                : [field, "ASC"]
+        );
+        // Desempate estable para que la paginación no repita filas
+        order.push(["id", "ASC"]);
+
+        const { rows, count } = await CampAttendee.findAndCountAll({
+            where,
+            paranoid: !options.includeInactive,
+            attributes: [
+                "id",
+                "firstName",
+                "lastName",
+                "gender",
+                "identificationType",
+                "identificationNumber",
+                "campId",
+                "emailVerifiedAt",
+                "mustChangePassword",
+                "registrationStatus",
+                "age",
+                "birthDate",
+                "country",
+                "city",
+                "churchPastor",
+                "phone",
+                "email",
+                // passwordHash NO se expone; allergies (dato de salud) solo
+                // se consulta en el perfil médico con health:read/dietary:read
                 "skills",
-                "allergies",
                 "shirtSize",
                 "roleId",
                 "assistantSubRole",
@@ -188,7 +453,13 @@ class CampAttendee
                     attributes: ["id", "name", "code"],
                 },
             ],
+            order,
+            limit: options.pageSize,
+            offset: (options.page - 1) * options.pageSize,
+            distinct: true,
         });
+
+        return { rows, count };
     }
 
     // Actualizar por ID
@@ -196,81 +467,304 @@ class CampAttendee
         id: string,
         body: Partial<CampAttendeeAttributes>
     ) {
+        // Solo se escriben los campos enviados (update omite los undefined):
+        // omitir un campo no lo borra ni reinicia su valor. registrationStatus
+        // y passwordHash tienen sus propios flujos (transitionStatus, changePassword)
         return await CampAttendee.update(
             {
                 firstName: body.firstName,
                 lastName: body.lastName,
-                gender: body.gender ?? null,
+                gender: body.gender,
                 identificationType: body.identificationType,
                 identificationNumber: body.identificationNumber,
                 campId: body.campId,
-                registrationStatus: body.registrationStatus,
-                age: body.age ?? null,
-                birthDate: body.birthDate ?? null,
-                country: body.country ?? null,
-                city: body.city ?? null,
-                churchPastor: body.churchPastor ?? null,
-                phone: body.phone ?? null,
-                email: body.email ?? null,
-                // No sobrescribir passwordHash a null si no viene en el body
-                passwordHash:
-                    typeof body.passwordHash !== "undefined"
-                        ? body.passwordHash
-                        : undefined,
-                skills: body.skills ?? null,
-                allergies: body.allergies ?? null,
-                shirtSize: body.shirtSize ?? null,
+                age: body.age,
+                birthDate: body.birthDate,
+                country: body.country,
+                city: body.city,
+                churchPastor: body.churchPastor,
+                phone: body.phone,
+                email: body.email,
+                skills: body.skills,
+                allergies: body.allergies,
+                shirtSize: body.shirtSize,
                 roleId: body.roleId,
-                assistantSubRole: body.assistantSubRole ?? "NONE",
-                documentKey: body.documentKey ?? null,
-                mimeType: body.mimeType ?? null,
-                bucket: body.bucket ?? null,
-                isActive:
-                    typeof body.isActive === "boolean"
-                        ? body.isActive
-                        : undefined,
+                assistantSubRole: body.assistantSubRole,
+                documentKey: body.documentKey,
+                mimeType: body.mimeType,
+                bucket: body.bucket,
+                isActive: body.isActive,
             },
             { where: { id } }
         );
     }
 
-    // Crear un asistente
-    static async createCampAttendee(data: CampAttendeeCreationAttributes) {
-        return await CampAttendee.create({
-            firstName: data.firstName,
-            lastName: data.lastName,
-            gender: (data as any).gender ?? null,
-            identificationType: data.identificationType,
-            identificationNumber: data.identificationNumber,
-            campId: (data as any).campId,
-            emailVerifiedAt: null,
-            mustChangePassword: true,
-            registrationStatus: (data as any).registrationStatus ?? "PENDING_PAYMENT",
-            age: data.age ?? null,
-            birthDate: data.birthDate ?? null,
-            country: data.country ?? null,
-            city: data.city ?? null,
-            churchPastor: data.churchPastor ?? null,
-            phone: data.phone ?? null,
-            email: data.email ?? null,
-            // Persistir hash de contraseña (si el controlador lo calculó)
-            passwordHash: data.passwordHash ?? null,
-            skills: data.skills ?? null,
-            allergies: data.allergies ?? null,
-            shirtSize: data.shirtSize ?? null,
-            roleId: data.roleId,
-            assistantSubRole: data.assistantSubRole ?? "NONE",
-            documentKey: (data as any).documentKey ?? null,
-            mimeType: (data as any).mimeType ?? null,
-            bucket: (data as any).bucket ?? "jovenesconunproposito",
-            isActive: (data as any).isActive ?? false,
+    // Lote de asistentes para exportar, paginado por id (keyset) para
+    // recorrer tablas grandes sin OFFSET ni cargarlas completas en memoria
+    static async findExportBatch(
+        filters: AttendeeExportFilters,
+        columns: readonly ExportableColumn[],
+        afterId: string | null,
+        limit: number
+    ) {
+        const where: WhereAttributeHash<CampAttendeeAttributes> = {};
+        if (filters.campId) where.campId = filters.campId;
+        if (filters.roleId) where.roleId = filters.roleId;
+        if (filters.registrationStatus?.length) {
+            where.registrationStatus = { [Op.in]: filters.registrationStatus };
+        }
+        if (typeof filters.isActive === "boolean") {
+            where.isActive = filters.isActive;
+        }
+        if (afterId) where.id = { [Op.gt]: afterId };
+
+        const attributes = columns.filter(
+            (column) => column !== "roleName" && column !== "roleCode"
+        );
+        const withRole =
+            columns.includes("roleName") || columns.includes("roleCode");
+
+        return await CampAttendee.findAll({
+            where,
+            // id siempre se lee para avanzar el cursor
+            attributes: Array.from(new Set(["id", ...attributes])),
+            include: withRole
+                ? [
+                      {
+                          model: Role,
+                          as: "role",
+                          attributes: ["name", "code"],
+                      },
+                  ]
+                : [],
+            order: [["id", "ASC"]],
+            limit,
+        });
+    }
+
+    // Contar asistentes que ocupan cupo en un camp (ni cancelados ni en lista de espera)
+    static async countOccupyingSeats(
+        campId: string,
+        transaction?: Transaction
+    ) {
+        return await CampAttendee.count({
+            where: {
+                campId,
+                registrationStatus: {
+                    [Op.notIn]: ["CANCELLED", "WAITING_LIST"],
+                },
+            },
+            transaction,
+        });
+    }
+
+    /**
+     * Conteo por valor de una columna (GROUP BY) para los asistentes del
+     * camp, opcionalmente solo en ciertos estados; más frecuentes primero.
+     * excludeEmpty omite NULL y cadena vacía (ej. top de ciudades).
+     */
+    static async countGroupedBy(
+        campId: string,
+        column: StatsGroupColumn,
+        options: {
+            statuses?: RegistrationStatus[];
+            limit?: number;
+            excludeEmpty?: boolean;
+        } = {}
+    ): Promise<StatsCount[]> {
+        const rows = (await CampAttendee.findAll({
+            attributes: [
+                [Sequelize.col(column), "value"],
+                [Sequelize.fn("COUNT", Sequelize.col("id")), "count"],
+            ],
+            where: {
+                campId,
+                ...(options.statuses
+                    ? { registrationStatus: { [Op.in]: options.statuses } }
+                    : {}),
+                ...(options.excludeEmpty
+                    ? { [column]: { [Op.and]: [{ [Op.ne]: null }, { [Op.ne]: "" }] } }
+                    : {}),
+            },
+            group: [column],
+            order: [[Sequelize.literal("count"), "DESC"], [Sequelize.col(column), "ASC"]],
+            limit: options.limit,
+            raw: true,
+        })) as unknown as { value: string | null; count: number | string }[];
+        return rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+    }
+
+    // Conteo por rol (code y name) de los asistentes del camp
+    static async countByRole(
+        campId: string,
+        statuses: RegistrationStatus[]
+    ): Promise<{ code: string; name: string; count: number }[]> {
+        const rows = (await CampAttendee.findAll({
+            attributes: [
+                [Sequelize.col("role.code"), "code"],
+                [Sequelize.col("role.name"), "name"],
+                [Sequelize.fn("COUNT", Sequelize.col("CampAttendee.id")), "count"],
+            ],
+            include: [{ model: Role, as: "role", attributes: [] }],
+            where: { campId, registrationStatus: { [Op.in]: statuses } },
+            group: ["role.id", "role.code", "role.name"],
+            order: [[Sequelize.literal("count"), "DESC"]],
+            raw: true,
+        })) as unknown as { code: string; name: string; count: number | string }[];
+        return rows.map((row) => ({
+            code: row.code,
+            name: row.name,
+            count: Number(row.count),
+        }));
+    }
+
+    /**
+     * Conteo por edad: se calcula con birthDate y, si no hay, se usa la
+     * edad declarada (null = desconocida)
+     */
+    static async countByAge(
+        campId: string,
+        statuses: RegistrationStatus[]
+    ): Promise<StatsCount<number | null>[]> {
+        const age = Sequelize.fn(
+            "COALESCE",
+            Sequelize.fn(
+                "TIMESTAMPDIFF",
+                Sequelize.literal("YEAR"),
+                Sequelize.col("birthDate"),
+                Sequelize.fn("CURDATE")
+            ),
+            Sequelize.col("age")
+        );
+        const rows = (await CampAttendee.findAll({
+            attributes: [
+                [age, "value"],
+                [Sequelize.fn("COUNT", Sequelize.col("id")), "count"],
+            ],
+            where: { campId, registrationStatus: { [Op.in]: statuses } },
+            group: [age],
+            order: [[age, "ASC"]],
+            raw: true,
+        })) as unknown as { value: number | string | null; count: number | string }[];
+        return rows.map((row) => ({
+            value: row.value === null ? null : Number(row.value),
+            count: Number(row.count),
+        }));
+    }
+
+    // Inscripciones por día (zona horaria de la conexión) desde una fecha
+    static async countRegistrationsPerDay(
+        campId: string,
+        since: Date | null
+    ): Promise<StatsCount<string>[]> {
+        const day = Sequelize.fn(
+            "DATE_FORMAT",
+            Sequelize.col("createdAt"),
+            "%Y-%m-%d"
+        );
+        const rows = (await CampAttendee.findAll({
+            attributes: [
+                [day, "value"],
+                [Sequelize.fn("COUNT", Sequelize.col("id")), "count"],
+            ],
+            where: {
+                campId,
+                ...(since ? { createdAt: { [Op.gte]: since } } : {}),
+            },
+            group: [day],
+            order: [[day, "ASC"]],
+            raw: true,
+        })) as unknown as { value: string; count: number | string }[];
+        return rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+    }
+
+    // Posición (1-based) de un asistente en la lista de espera de su camp
+    static async getWaitlistPosition(attendee: CampAttendee) {
+        if (attendee.registrationStatus !== "WAITING_LIST") {
+            return null;
+        }
+        const ahead = await CampAttendee.count({
+            where: {
+                campId: attendee.campId,
+                registrationStatus: "WAITING_LIST",
+                [Op.or]: [
+                    { createdAt: { [Op.lt]: attendee.createdAt } },
+                    {
+                        createdAt: attendee.createdAt,
+                        id: { [Op.lt]: attendee.id },
+                    },
+                ],
+            },
         });
+        return ahead + 1;
+    }
+
+    // Primer asistente en lista de espera de un camp (bloqueado para actualizar)
+    static async findNextWaitlisted(campId: string, transaction: Transaction) {
+        return await CampAttendee.findOne({
+            where: { campId, registrationStatus: "WAITING_LIST" },
+            order: [
+                ["createdAt", "ASC"],
+                ["id", "ASC"],
+            ],
+            lock: transaction.LOCK.UPDATE,
+            transaction,
+        });
+    }
+
+    // Crear un asistente
+    static async createCampAttendee(
+        data: CampAttendeeCreationAttributes,
+        transaction?: Transaction
+    ) {
+        return await CampAttendee.create(
+            {
+                firstName: data.firstName,
+                lastName: data.lastName,
+                gender: (data as any).gender ?? null,
+                identificationType: data.identificationType,
+                identificationNumber: data.identificationNumber,
+                campId: (data as any).campId,
+                emailVerifiedAt: null,
+                mustChangePassword: true,
+                registrationStatus: (data as any).registrationStatus ?? "PENDING_PAYMENT",
+                age: data.age ?? null,
+                birthDate: data.birthDate ?? null,
+                country: data.country ?? null,
+                city: data.city ?? null,
+                churchPastor: data.churchPastor ?? null,
+                phone: data.phone ?? null,
+                email: data.email ?? null,
+                // Persistir hash de contraseña (si el controlador lo calculó)
+                passwordHash: data.passwordHash ?? null,
+                skills: data.skills ?? null,
+                allergies: data.allergies ?? null,
+                shirtSize: data.shirtSize ?? null,
+                roleId: data.roleId,
+                assistantSubRole: data.assistantSubRole ?? "NONE",
+                documentKey: (data as any).documentKey ?? null,
+                mimeType: (data as any).mimeType ?? null,
+                bucket: (data as any).bucket ?? "jovenesconunproposito",
+                isActive: (data as any).isActive ?? false,
+            },
+            { transaction }
+        );
     }
 
     // Soft delete
     static async deleteCampAttendee(id: string) {
         return await CampAttendee.destroy({ where: { id } });
     }
+
+    // Buscar por ID incluyendo asistentes eliminados (soft delete)
+    static async findWithDeleted(id: string, transaction?: Transaction) {
+        return await CampAttendee.findOne({
+            where: { id },
+            paranoid: false,
+            lock: transaction ? transaction.LOCK.UPDATE : undefined,
+            transaction,
+        });
+    }
 }
 
 // Definición del modelo acorde a la tabla existente (camelCase timestamps)
@@ -353,6 +847,11 @@ CampAttendee.init(
             type: DataTypes.STRING(255),
             allowNull: true,
         },
+        credentialsIssuedAt: {
+            type: DataTypes.DATE(3),
+            allowNull: true,
+            defaultValue: null,
+        },
         skills: {
             type: DataTypes.TEXT,
             allowNull: true,
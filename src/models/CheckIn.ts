@@ -0,0 +1,117 @@
+import { DataTypes, Model, Optional, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+
+/**
+ * QR: se escaneó el código firmado del asistente
+ * MANUAL: búsqueda por número de identificación (sin QR)
+ */
+export const CHECK_IN_METHODS = ["QR", "MANUAL"] as const;
+export type CheckInMethod = (typeof CHECK_IN_METHODS)[number];
+
+// Atributos del modelo CheckIn (tabla check_ins)
+export interface CheckInAttributes {
+  id: string; // CHAR(36)
+  attendeeId: string; // CHAR(36)
+  campId: string; // CHAR(36)
+  method: CheckInMethod;
+  device: string | null; // VARCHAR(255) - dispositivo desde el que se registró
+  checkedInBy: string | null; // CHAR(36) - staff que registró la llegada
+  checkedInAt: Date; // DATETIME(3)
+  createdAt: Date;
+}
+
+interface CheckInCreationAttributes
+  extends Optional<
+    CheckInAttributes,
+    "id" | "device" | "checkedInBy" | "checkedInAt" | "createdAt"
+  > {}
+
+class CheckIn
+  extends Model<CheckInAttributes, CheckInCreationAttributes>
+  implements CheckInAttributes
+{
+  public id!: string;
+  public attendeeId!: string;
+  public campId!: string;
+  public method!: CheckInMethod;
+  public device!: string | null;
+  public checkedInBy!: string | null;
+  public checkedInAt!: Date;
+  public readonly createdAt!: Date;
+
+  // Llegada registrada del asistente en un camp
+  static async findByAttendee(
+    attendeeId: string,
+    campId: string,
+    transaction?: Transaction
+  ) {
+    return await CheckIn.findOne({
+      where: { attendeeId, campId },
+      transaction,
+    });
+  }
+}
+
+CheckIn.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    attendeeId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    campId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    method: {
+      type: DataTypes.ENUM(...CHECK_IN_METHODS),
+      allowNull: false,
+    },
+    device: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    checkedInBy: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    checkedInAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    updatedAt: false, // una llegada no se modifica
+    tableName: "check_ins",
+    modelName: "CheckIn",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      {
+        unique: true,
+        fields: ["attendeeId", "campId"],
+        name: "ux_check_ins_attendee_camp",
+      },
+      {
+        unique: false,
+        fields: ["campId", "checkedInAt"],
+        name: "ix_check_ins_camp",
+      },
+    ],
+  }
+);
+
+export default CheckIn;
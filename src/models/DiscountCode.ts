@@ -0,0 +1,164 @@
+import { DataTypes, Model, Optional, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+
+/**
+ * PERCENTAGE: value es un porcentaje (1-100) del valor a pagar
+ * FIXED: value es un monto en COP que se descuenta
+ */
+export const DISCOUNT_TYPES = ["PERCENTAGE", "FIXED"] as const;
+export type DiscountType = (typeof DISCOUNT_TYPES)[number];
+
+// Atributos del modelo DiscountCode (tabla discount_codes)
+export interface DiscountCodeAttributes {
+  id: string; // CHAR(36)
+  campId: string; // CHAR(36)
+  code: string; // VARCHAR(50) - en mayúsculas, único por camp
+  description: string | null; // VARCHAR(255)
+  discountType: DiscountType;
+  value: number; // INT UNSIGNED - porcentaje o COP según discountType
+  maxUses: number | null; // INT UNSIGNED - null = sin límite
+  expiresAt: Date | null; // DATETIME(3) - null = no vence
+  isActive: boolean; // TINYINT(1)
+  createdBy: string | null; // CHAR(36)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface DiscountCodeCreationAttributes
+  extends Optional<
+    DiscountCodeAttributes,
+    | "id"
+    | "description"
+    | "maxUses"
+    | "expiresAt"
+    | "isActive"
+    | "createdBy"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+// Campos que tesorería envía al crear o modificar un código
+export type DiscountCodeInput = Pick<
+  DiscountCodeCreationAttributes,
+  | "code"
+  | "description"
+  | "discountType"
+  | "value"
+  | "maxUses"
+  | "expiresAt"
+  | "isActive"
+>;
+
+class DiscountCode
+  extends Model<DiscountCodeAttributes, DiscountCodeCreationAttributes>
+  implements DiscountCodeAttributes
+{
+  public id!: string;
+  public campId!: string;
+  public code!: string;
+  public description!: string | null;
+  public discountType!: DiscountType;
+  public value!: number;
+  public maxUses!: number | null;
+  public expiresAt!: Date | null;
+  public isActive!: boolean;
+  public createdBy!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Códigos del camp ordenados por código
+  static async findByCamp(campId: string) {
+    return await DiscountCode.findAll({
+      where: { campId },
+      order: [["code", "ASC"]],
+    });
+  }
+
+  // Código del camp (bloqueado si llega transacción, para controlar los usos)
+  static async findByCode(
+    campId: string,
+    code: string,
+    transaction?: Transaction
+  ) {
+    return await DiscountCode.findOne({
+      where: { campId, code: code.toUpperCase() },
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+      transaction,
+    });
+  }
+}
+
+DiscountCode.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    campId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    code: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    discountType: {
+      type: DataTypes.ENUM(...DISCOUNT_TYPES),
+      allowNull: false,
+    },
+    value: {
+      type: (DataTypes.INTEGER as any).UNSIGNED,
+      allowNull: false,
+    },
+    maxUses: {
+      type: (DataTypes.INTEGER as any).UNSIGNED,
+      allowNull: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE(3),
+      allowNull: true,
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    createdBy: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    tableName: "discount_codes",
+    modelName: "DiscountCode",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      {
+        unique: true,
+        fields: ["campId", "code"],
+        name: "ux_discount_codes_camp_code",
+      },
+    ],
+  }
+);
+
+export default DiscountCode;
@@ -0,0 +1,145 @@
+import { DataTypes, Model, Op, Optional, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import DiscountCode from "./DiscountCode";
+
+// Atributos del modelo DiscountRedemption (tabla discount_redemptions)
+export interface DiscountRedemptionAttributes {
+  id: string; // CHAR(36)
+  discountCodeId: string; // CHAR(36)
+  attendeeId: string; // CHAR(36)
+  campId: string; // CHAR(36) - un código por asistente y camp
+  redeemedBy: string | null; // CHAR(36) - usuario que lo aplicó
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface DiscountRedemptionCreationAttributes
+  extends Optional<
+    DiscountRedemptionAttributes,
+    "id" | "redeemedBy" | "createdAt" | "updatedAt"
+  > {}
+
+class DiscountRedemption
+  extends Model<
+    DiscountRedemptionAttributes,
+    DiscountRedemptionCreationAttributes
+  >
+  implements DiscountRedemptionAttributes
+{
+  public id!: string;
+  public discountCodeId!: string;
+  public attendeeId!: string;
+  public campId!: string;
+  public redeemedBy!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Asociación cargada con include
+  public discountCode?: DiscountCode;
+
+  // Código redimido por el asistente en el camp (con el código incluido)
+  static async findByAttendee(
+    attendeeId: string,
+    campId: string,
+    transaction?: Transaction
+  ) {
+    return await DiscountRedemption.findOne({
+      where: { attendeeId, campId },
+      include: [{ model: DiscountCode, as: "discountCode" }],
+      transaction,
+    });
+  }
+
+  // Códigos redimidos por los asistentes indicados, por attendeeId
+  static async findByAttendees(
+    campId: string,
+    attendeeIds: string[]
+  ): Promise<Map<string, DiscountRedemption>> {
+    if (attendeeIds.length === 0) return new Map();
+    const redemptions = await DiscountRedemption.findAll({
+      where: { campId, attendeeId: { [Op.in]: attendeeIds } },
+      include: [{ model: DiscountCode, as: "discountCode" }],
+    });
+    return new Map(redemptions.map((r) => [r.attendeeId, r]));
+  }
+
+  static async countByCode(discountCodeId: string, transaction?: Transaction) {
+    return await DiscountRedemption.count({
+      where: { discountCodeId },
+      transaction,
+    });
+  }
+
+  // Usos por código del camp (GROUP BY discountCodeId)
+  static async countByCamp(campId: string): Promise<Map<string, number>> {
+    const rows = (await DiscountRedemption.findAll({
+      attributes: [
+        "discountCodeId",
+        [sequelize.fn("COUNT", sequelize.col("id")), "count"],
+      ],
+      where: { campId },
+      group: ["discountCodeId"],
+      raw: true,
+    })) as unknown as { discountCodeId: string; count: number | string }[];
+    return new Map(rows.map((row) => [row.discountCodeId, Number(row.count)]));
+  }
+}
+
+DiscountRedemption.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    discountCodeId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    attendeeId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    campId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    redeemedBy: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    tableName: "discount_redemptions",
+    modelName: "DiscountRedemption",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      {
+        unique: true,
+        fields: ["attendeeId", "campId"],
+        name: "ux_discount_redemptions_attendee_camp",
+      },
+      {
+        unique: false,
+        fields: ["discountCodeId"],
+        name: "ix_discount_redemptions_code",
+      },
+    ],
+  }
+);
+
+export default DiscountRedemption;
@@ -0,0 +1,193 @@
+import { DataTypes, Model, Optional, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+
+export const GUARDIAN_RELATIONSHIPS = [
+  "MOTHER",
+  "FATHER",
+  "GRANDPARENT",
+  "SIBLING",
+  "UNCLE_AUNT",
+  "LEGAL_GUARDIAN",
+  "OTHER",
+] as const;
+export type GuardianRelationship = (typeof GUARDIAN_RELATIONSHIPS)[number];
+
+// Documentos de un adulto (sin TI)
+export const GUARDIAN_IDENTIFICATION_TYPES = ["CC", "CE", "PP"] as const;
+export type GuardianIdentificationType =
+  (typeof GUARDIAN_IDENTIFICATION_TYPES)[number];
+
+// Atributos del modelo Guardian (tabla guardians)
+export interface GuardianAttributes {
+  id: string; // CHAR(36)
+  attendeeId: string; // CHAR(36)
+  firstName: string; // VARCHAR(100)
+  lastName: string; // VARCHAR(100)
+  relationship: GuardianRelationship;
+  phone: string; // VARCHAR(20)
+  email: string | null; // VARCHAR(255) - requerido para solicitar el consentimiento
+  identificationType: GuardianIdentificationType | null;
+  identificationNumber: string | null; // VARCHAR(20)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GuardianCreationAttributes
+  extends Optional<
+    GuardianAttributes,
+    | "id"
+    | "email"
+    | "identificationType"
+    | "identificationNumber"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+// Campos que el cliente puede enviar al crear o reemplazar un acudiente
+export type GuardianInput = Omit<
+  GuardianCreationAttributes,
+  "id" | "attendeeId" | "createdAt" | "updatedAt"
+>;
+
+class Guardian
+  extends Model<GuardianAttributes, GuardianCreationAttributes>
+  implements GuardianAttributes
+{
+  public id!: string;
+  public attendeeId!: string;
+  public firstName!: string;
+  public lastName!: string;
+  public relationship!: GuardianRelationship;
+  public phone!: string;
+  public email!: string | null;
+  public identificationType!: GuardianIdentificationType | null;
+  public identificationNumber!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Acudientes de un asistente, del más antiguo al más reciente
+  static async findByAttendee(attendeeId: string, transaction?: Transaction) {
+    return await Guardian.findAll({
+      where: { attendeeId },
+      order: [
+        ["createdAt", "ASC"],
+        ["id", "ASC"],
+      ],
+      transaction,
+    });
+  }
+
+  // Emails de los acudientes, sin repetidos (para copiar notificaciones)
+  static async findEmails(attendeeId: string): Promise<string[]> {
+    const guardians = await Guardian.findAll({
+      where: { attendeeId },
+      attributes: ["email"],
+      order: [
+        ["createdAt", "ASC"],
+        ["id", "ASC"],
+      ],
+    });
+    return [
+      ...new Set(
+        guardians
+          .map((guardian) => guardian.email)
+          .filter((email): email is string => !!email)
+      ),
+    ];
+  }
+
+  static async countByAttendee(attendeeId: string, transaction?: Transaction) {
+    return await Guardian.count({ where: { attendeeId }, transaction });
+  }
+
+  // Crear un acudiente para un asistente
+  static async createForAttendee(
+    attendeeId: string,
+    data: GuardianInput,
+    transaction?: Transaction
+  ) {
+    return await Guardian.create(
+      {
+        attendeeId,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        relationship: data.relationship,
+        phone: data.phone,
+        email: data.email ?? null,
+        identificationType: data.identificationType ?? null,
+        identificationNumber: data.identificationNumber ?? null,
+      },
+      { transaction }
+    );
+  }
+}
+
+Guardian.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    attendeeId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    firstName: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    lastName: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    relationship: {
+      type: DataTypes.ENUM(...GUARDIAN_RELATIONSHIPS),
+      allowNull: false,
+    },
+    phone: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    identificationType: {
+      type: DataTypes.ENUM(...GUARDIAN_IDENTIFICATION_TYPES),
+      allowNull: true,
+    },
+    identificationNumber: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    tableName: "guardians",
+    modelName: "Guardian",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      {
+        unique: false,
+        fields: ["attendeeId"],
+        name: "ix_guardians_attendee",
+      },
+    ],
+  }
+);
+
+export default Guardian;
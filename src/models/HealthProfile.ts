@@ -0,0 +1,317 @@
+import {
+  DataTypes,
+  Model,
+  Op,
+  Optional,
+  QueryTypes,
+  Sequelize,
+  Transaction,
+  WhereOptions,
+} from "sequelize";
+import { sequelize } from "../config/database";
+import CampAttendee from "./CampAttendee";
+
+export const ALLERGY_SEVERITIES = [
+  "MILD",
+  "MODERATE",
+  "SEVERE",
+  "LIFE_THREATENING",
+] as const;
+export type AllergySeverity = (typeof ALLERGY_SEVERITIES)[number];
+
+export const DIETARY_RESTRICTIONS = [
+  "VEGETARIAN",
+  "VEGAN",
+  "GLUTEN_FREE",
+  "LACTOSE_FREE",
+  "NUT_FREE",
+  "SEAFOOD_FREE",
+  "PORK_FREE",
+  "DIABETIC",
+  "LOW_SODIUM",
+  "OTHER",
+] as const;
+export type DietaryRestriction = (typeof DIETARY_RESTRICTIONS)[number];
+
+export interface Allergy {
+  name: string;
+  severity: AllergySeverity;
+  reaction?: string | null;
+}
+
+export interface Medication {
+  name: string;
+  dosage?: string | null;
+  schedule?: string | null;
+}
+
+export interface MedicalCondition {
+  name: string;
+  notes?: string | null;
+}
+
+// Atributos del modelo HealthProfile (tabla health_profiles)
+export interface HealthProfileAttributes {
+  id: string; // CHAR(36)
+  attendeeId: string; // CHAR(36) - único: un perfil por asistente
+  allergies: Allergy[]; // JSON (MySQL no admite DEFAULT en JSON: se envía al crear)
+  dietaryRestrictions: DietaryRestriction[]; // JSON
+  dietaryNotes: string | null; // VARCHAR(500) - detalle de OTHER, preparación...
+  medications: Medication[]; // JSON
+  conditions: MedicalCondition[]; // JSON
+  emergencyContactName: string | null; // VARCHAR(200)
+  emergencyContactPhone: string | null; // VARCHAR(20)
+  emergencyContactRelationship: string | null; // VARCHAR(50)
+  insuranceProvider: string | null; // VARCHAR(150) - EPS o aseguradora
+  insurancePolicyNumber: string | null; // VARCHAR(50)
+  notes: string | null; // TEXT - incluye el texto libre anterior de allergies
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface HealthProfileCreationAttributes
+  extends Optional<
+    HealthProfileAttributes,
+    | "id"
+    | "allergies"
+    | "dietaryRestrictions"
+    | "dietaryNotes"
+    | "medications"
+    | "conditions"
+    | "emergencyContactName"
+    | "emergencyContactPhone"
+    | "emergencyContactRelationship"
+    | "insuranceProvider"
+    | "insurancePolicyNumber"
+    | "notes"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+// Campos que el cliente puede enviar (reemplazo completo del perfil)
+export type HealthProfileInput = Omit<
+  HealthProfileCreationAttributes,
+  "id" | "attendeeId" | "createdAt" | "updatedAt"
+>;
+
+// Filtros del listado para los equipos médico y de cocina
+export interface HealthProfileQueryOptions {
+  page: number;
+  pageSize: number;
+  campId?: string;
+  allergen?: string;
+  severity?: AllergySeverity;
+  dietaryRestrictions?: DietaryRestriction[];
+  withMedications?: boolean;
+}
+
+class HealthProfile
+  extends Model<HealthProfileAttributes, HealthProfileCreationAttributes>
+  implements HealthProfileAttributes
+{
+  public id!: string;
+  public attendeeId!: string;
+  public allergies!: Allergy[];
+  public dietaryRestrictions!: DietaryRestriction[];
+  public dietaryNotes!: string | null;
+  public medications!: Medication[];
+  public conditions!: MedicalCondition[];
+  public emergencyContactName!: string | null;
+  public emergencyContactPhone!: string | null;
+  public emergencyContactRelationship!: string | null;
+  public insuranceProvider!: string | null;
+  public insurancePolicyNumber!: string | null;
+  public notes!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  static async findByAttendee(attendeeId: string, transaction?: Transaction) {
+    return await HealthProfile.findOne({
+      where: { attendeeId },
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+      transaction,
+    });
+  }
+
+  // Listado paginado de perfiles de asistentes activos, por nombre
+  static async findPaginated(options: HealthProfileQueryOptions) {
+    const conditions: WhereOptions[] = [];
+    if (options.allergen) {
+      // Coincidencia parcial en el nombre de cualquier alergia, sin mayúsculas
+      const term = options.allergen.toLowerCase().replace(/[\\%_]/g, "\\$&");
+      conditions.push(
+        Sequelize.where(
+          Sequelize.fn(
+            "JSON_SEARCH",
+            Sequelize.fn("LOWER", Sequelize.col("HealthProfile.allergies")),
+            "one",
+            `%${term}%`,
+            null,
+            "$[*].name"
+          ),
+          { [Op.ne]: null }
+        )
+      );
+    }
+    if (options.severity) {
+      conditions.push(
+        Sequelize.where(
+          Sequelize.fn(
+            "JSON_CONTAINS",
+            Sequelize.col("HealthProfile.allergies"),
+            JSON.stringify({ severity: options.severity })
+          ),
+          1
+        )
+      );
+    }
+    for (const restriction of options.dietaryRestrictions ?? []) {
+      conditions.push(
+        Sequelize.where(
+          Sequelize.fn(
+            "JSON_CONTAINS",
+            Sequelize.col("HealthProfile.dietaryRestrictions"),
+            JSON.stringify(restriction)
+          ),
+          1
+        )
+      );
+    }
+    if (typeof options.withMedications === "boolean") {
+      conditions.push(
+        Sequelize.where(
+          Sequelize.fn(
+            "JSON_LENGTH",
+            Sequelize.col("HealthProfile.medications")
+          ),
+          options.withMedications ? { [Op.gt]: 0 } : 0
+        )
+      );
+    }
+
+    return await HealthProfile.findAndCountAll({
+      where: conditions.length ? { [Op.and]: conditions } : {},
+      include: [
+        {
+          model: CampAttendee,
+          as: "attendee",
+          required: true,
+          where: options.campId ? { campId: options.campId } : {},
+          attributes: ["id", "firstName", "lastName", "campId", "birthDate", "age"],
+        },
+      ],
+      order: [
+        [{ model: CampAttendee, as: "attendee" }, "lastName", "ASC"],
+        [{ model: CampAttendee, as: "attendee" }, "firstName", "ASC"],
+        ["id", "ASC"],
+      ],
+      limit: options.pageSize,
+      offset: (options.page - 1) * options.pageSize,
+    });
+  }
+
+  /**
+   * Crea el perfil de los asistentes (incluso eliminados) que tienen texto
+   * en la columna anterior `allergies` y todavía no tienen perfil, copiando
+   * ese texto a `notes`. Es idempotente: se ejecuta al iniciar la app.
+   */
+  static async backfillFromLegacyAllergies(): Promise<number> {
+    const [, created] = await sequelize.query(
+      `INSERT INTO health_profiles
+         (id, attendeeId, allergies, dietaryRestrictions, medications, conditions, notes, createdAt, updatedAt)
+       SELECT UUID(), a.id, JSON_ARRAY(), JSON_ARRAY(), JSON_ARRAY(), JSON_ARRAY(), a.allergies, NOW(3), NOW(3)
+       FROM camp_attendees a
+       LEFT JOIN health_profiles h ON h.attendeeId = a.id
+       WHERE h.id IS NULL AND a.allergies IS NOT NULL AND TRIM(a.allergies) <> ''`,
+      { type: QueryTypes.INSERT }
+    );
+    return created as number;
+  }
+}
+
+HealthProfile.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    attendeeId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      unique: true,
+    },
+    allergies: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    dietaryRestrictions: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    dietaryNotes: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    medications: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    conditions: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    emergencyContactName: {
+      type: DataTypes.STRING(200),
+      allowNull: true,
+    },
+    emergencyContactPhone: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    emergencyContactRelationship: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    insuranceProvider: {
+      type: DataTypes.STRING(150),
+      allowNull: true,
+    },
+    insurancePolicyNumber: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    tableName: "health_profiles",
+    modelName: "HealthProfile",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      {
+        unique: true,
+        fields: ["attendeeId"],
+        name: "ux_health_profiles_attendee",
+      },
+    ],
+  }
+);
+
+export default HealthProfile;
@@ -0,0 +1,214 @@
+import { DataTypes, Model, Optional, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+
+// EXPIRED no se guarda: es un PENDING con expiresAt vencido
+export const CONSENT_STATUSES = ["PENDING", "SIGNED", "REVOKED"] as const;
+export type ConsentStatus = (typeof CONSENT_STATUSES)[number];
+
+// Atributos del modelo ParentalConsent (tabla parental_consents)
+interface ParentalConsentAttributes {
+  id: string; // CHAR(36)
+  attendeeId: string; // CHAR(36)
+  campId: string; // CHAR(36) - el consentimiento vale solo para este camp
+  guardianId: string | null; // CHAR(36) - null si el acudiente se eliminó
+  sentTo: string; // VARCHAR(255) - email al que se envió el enlace
+  status: ConsentStatus;
+  tokenHash: string; // CHAR(64) - SHA-256 del token, nunca el token en claro
+  expiresAt: Date;
+  formVersion: string; // VARCHAR(20)
+  signedAt: Date | null;
+  signedName: string | null; // VARCHAR(200) - nombre escrito por el acudiente
+  signedIp: string | null; // VARCHAR(45)
+  signedUserAgent: string | null; // VARCHAR(500)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ParentalConsentCreationAttributes
+  extends Optional<
+    ParentalConsentAttributes,
+    | "id"
+    | "status"
+    | "signedAt"
+    | "signedName"
+    | "signedIp"
+    | "signedUserAgent"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class ParentalConsent
+  extends Model<
+    ParentalConsentAttributes,
+    ParentalConsentCreationAttributes
+  >
+  implements ParentalConsentAttributes
+{
+  public id!: string;
+  public attendeeId!: string;
+  public campId!: string;
+  public guardianId!: string | null;
+  public sentTo!: string;
+  public status!: ConsentStatus;
+  public tokenHash!: string;
+  public expiresAt!: Date;
+  public formVersion!: string;
+  public signedAt!: Date | null;
+  public signedName!: string | null;
+  public signedIp!: string | null;
+  public signedUserAgent!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Buscar por hash (bloqueando la fila si se pasa transacción)
+  static async findByHash(tokenHash: string, transaction?: Transaction) {
+    return await ParentalConsent.findOne({
+      where: { tokenHash },
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+      transaction,
+    });
+  }
+
+  // Solicitudes del asistente para un camp, de la más reciente a la más antigua
+  static async findForAttendee(attendeeId: string, campId: string) {
+    return await ParentalConsent.findAll({
+      where: { attendeeId, campId },
+      order: [
+        ["createdAt", "DESC"],
+        ["id", "DESC"],
+      ],
+    });
+  }
+
+  // Crear una solicitud de consentimiento pendiente
+  static async createRequest(
+    data: ParentalConsentCreationAttributes,
+    transaction?: Transaction
+  ) {
+    return await ParentalConsent.create(
+      {
+        attendeeId: data.attendeeId,
+        campId: data.campId,
+        guardianId: data.guardianId,
+        sentTo: data.sentTo,
+        status: "PENDING",
+        tokenHash: data.tokenHash,
+        expiresAt: data.expiresAt,
+        formVersion: data.formVersion,
+      },
+      { transaction }
+    );
+  }
+
+  // Revocar las solicitudes pendientes (de un asistente o de un acudiente)
+  static async revokePending(
+    where: { attendeeId: string; guardianId?: string },
+    transaction?: Transaction
+  ) {
+    return await ParentalConsent.update(
+      { status: "REVOKED" },
+      { where: { ...where, status: "PENDING" }, transaction }
+    );
+  }
+
+  isExpired(): boolean {
+    return this.status === "PENDING" && this.expiresAt <= new Date();
+  }
+
+  isUsable(): boolean {
+    return this.status === "PENDING" && !this.isExpired();
+  }
+}
+
+ParentalConsent.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    attendeeId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    campId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    guardianId: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    sentTo: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM(...CONSENT_STATUSES),
+      allowNull: false,
+      defaultValue: "PENDING",
+    },
+    tokenHash: {
+      type: DataTypes.CHAR(64),
+      allowNull: false,
+      unique: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+    },
+    formVersion: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    signedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: true,
+    },
+    signedName: {
+      type: DataTypes.STRING(200),
+      allowNull: true,
+    },
+    signedIp: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+    },
+    signedUserAgent: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    tableName: "parental_consents",
+    modelName: "ParentalConsent",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      {
+        unique: true,
+        fields: ["tokenHash"],
+        name: "ux_parental_consents_hash",
+      },
+      {
+        unique: false,
+        fields: ["attendeeId", "campId", "createdAt"],
+        name: "ix_parental_consents_attendee",
+      },
+    ],
+  }
+);
+
+export default ParentalConsent;
@@ -0,0 +1,141 @@
+import { DataTypes, Model, Op, Optional, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+
+// Atributos del modelo PasswordResetToken (tabla password_reset_tokens)
+interface PasswordResetTokenAttributes {
+  id: string; // CHAR(36)
+  attendeeId: string; // CHAR(36)
+  tokenHash: string; // CHAR(64) - SHA-256 del token, nunca el token en claro
+  expiresAt: Date;
+  usedAt: Date | null; // uso o invalidación (un solo uso)
+  requestedByIp: string | null; // VARCHAR(45)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PasswordResetTokenCreationAttributes
+  extends Optional<
+    PasswordResetTokenAttributes,
+    "id" | "usedAt" | "requestedByIp" | "createdAt" | "updatedAt"
+  > {}
+
+class PasswordResetToken
+  extends Model<
+    PasswordResetTokenAttributes,
+    PasswordResetTokenCreationAttributes
+  >
+  implements PasswordResetTokenAttributes
+{
+  public id!: string;
+  public attendeeId!: string;
+  public tokenHash!: string;
+  public expiresAt!: Date;
+  public usedAt!: Date | null;
+  public requestedByIp!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Buscar por hash (bloqueando la fila si se pasa transacción)
+  static async findByHash(tokenHash: string, transaction?: Transaction) {
+    return await PasswordResetToken.findOne({
+      where: { tokenHash },
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+      transaction,
+    });
+  }
+
+  // Crear un token de recuperación
+  static async createToken(
+    data: PasswordResetTokenCreationAttributes,
+    transaction?: Transaction
+  ) {
+    return await PasswordResetToken.create(
+      {
+        attendeeId: data.attendeeId,
+        tokenHash: data.tokenHash,
+        expiresAt: data.expiresAt,
+        requestedByIp: data.requestedByIp ?? null,
+      },
+      { transaction }
+    );
+  }
+
+  // Invalidar todos los tokens pendientes de un asistente
+  static async invalidateAllForAttendee(
+    attendeeId: string,
+    transaction?: Transaction
+  ) {
+    return await PasswordResetToken.update(
+      { usedAt: new Date() },
+      { where: { attendeeId, usedAt: { [Op.is]: null } }, transaction }
+    );
+  }
+
+  isUsable(): boolean {
+    return !this.usedAt && this.expiresAt > new Date();
+  }
+}
+
+PasswordResetToken.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    attendeeId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    tokenHash: {
+      type: DataTypes.CHAR(64),
+      allowNull: false,
+      unique: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: true,
+    },
+    requestedByIp: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    tableName: "password_reset_tokens",
+    modelName: "PasswordResetToken",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      {
+        unique: true,
+        fields: ["tokenHash"],
+        name: "ux_password_reset_tokens_hash",
+      },
+      {
+        unique: false,
+        fields: ["attendeeId"],
+        name: "ix_password_reset_tokens_attendee",
+      },
+    ],
+  }
+);
+
+export default PasswordResetToken;
@@ -0,0 +1,372 @@
+import { DataTypes, Model, Op, Optional, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+
+export const PAYMENT_METHODS = [
+  "CASH",
+  "BANK_TRANSFER",
+  "CARD",
+  "NEQUI",
+  "DAVIPLATA",
+  "OTHER",
+] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+/**
+ * APPROVED: dinero recibido (suma al saldo)
+ * PENDING / DECLINED: intentos que no suman
+ * VOIDED: anulado por tesorería (se conserva en el libro)
+ */
+export const PAYMENT_STATUSES = [
+  "PENDING",
+  "APPROVED",
+  "DECLINED",
+  "VOIDED",
+] as const;
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+// Por ahora solo se cobra en pesos colombianos
+export const PAYMENT_CURRENCY = "COP";
+
+// Atributos del modelo Payment (tabla payments)
+export interface PaymentAttributes {
+  id: string; // CHAR(36)
+  attendeeId: string; // CHAR(36)
+  campId: string; // CHAR(36) - camp al que se abona
+  amount: number; // INT UNSIGNED - COP sin decimales
+  currency: string; // CHAR(3)
+  method: PaymentMethod;
+  status: PaymentStatus;
+  reference: string | null; // VARCHAR(100) - número de transacción o consignación
+  paidAt: Date; // DATETIME(3)
+  notes: string | null; // VARCHAR(500)
+  documentKey: string | null; // VARCHAR(512) - soporte del pago en R2
+  mimeType: string | null; // VARCHAR(100)
+  bucket: string | null; // VARCHAR(255)
+  recordedBy: string | null; // CHAR(36) - usuario que registró (null = sistema)
+  provider: string | null; // VARCHAR(20) - pasarela en línea (null = registro manual)
+  providerTransactionId: string | null; // VARCHAR(100) - id de la transacción en la pasarela
+  checkoutId: string | null; // CHAR(36) - enlace de pago que la originó
+  receiptNumber: string | null; // VARCHAR(40) - recibo emitido al completar el saldo
+  receiptKey: string | null; // VARCHAR(512) - PDF del recibo en R2
+  receiptBucket: string | null; // VARCHAR(255)
+  receiptIssuedAt: Date | null; // DATETIME(3)
+  voidedAt: Date | null; // DATETIME(3)
+  voidedBy: string | null; // CHAR(36)
+  voidReason: string | null; // VARCHAR(500)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PaymentCreationAttributes
+  extends Optional<
+    PaymentAttributes,
+    | "id"
+    | "currency"
+    | "status"
+    | "reference"
+    | "notes"
+    | "documentKey"
+    | "mimeType"
+    | "bucket"
+    | "recordedBy"
+    | "provider"
+    | "providerTransactionId"
+    | "checkoutId"
+    | "receiptNumber"
+    | "receiptKey"
+    | "receiptBucket"
+    | "receiptIssuedAt"
+    | "voidedAt"
+    | "voidedBy"
+    | "voidReason"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+// Campos que tesorería envía al registrar un pago
+export type PaymentInput = Pick<
+  PaymentCreationAttributes,
+  | "amount"
+  | "method"
+  | "reference"
+  | "paidAt"
+  | "notes"
+  | "documentKey"
+  | "mimeType"
+  | "bucket"
+>;
+
+class Payment
+  extends Model<PaymentAttributes, PaymentCreationAttributes>
+  implements PaymentAttributes
+{
+  public id!: string;
+  public attendeeId!: string;
+  public campId!: string;
+  public amount!: number;
+  public currency!: string;
+  public method!: PaymentMethod;
+  public status!: PaymentStatus;
+  public reference!: string | null;
+  public paidAt!: Date;
+  public notes!: string | null;
+  public documentKey!: string | null;
+  public mimeType!: string | null;
+  public bucket!: string | null;
+  public recordedBy!: string | null;
+  public provider!: string | null;
+  public providerTransactionId!: string | null;
+  public checkoutId!: string | null;
+  public receiptNumber!: string | null;
+  public receiptKey!: string | null;
+  public receiptBucket!: string | null;
+  public receiptIssuedAt!: Date | null;
+  public voidedAt!: Date | null;
+  public voidedBy!: string | null;
+  public voidReason!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Pagos del asistente en un camp, del más reciente al más antiguo
+  static async findByAttendee(attendeeId: string, campId: string) {
+    return await Payment.findAll({
+      where: { attendeeId, campId },
+      order: [
+        ["paidAt", "DESC"],
+        ["createdAt", "DESC"],
+      ],
+    });
+  }
+
+  // Último pago aprobado del asistente en un camp (al que se adjunta el recibo)
+  static async findLatestApproved(attendeeId: string, campId: string) {
+    return await Payment.findOne({
+      where: { attendeeId, campId, status: "APPROVED" },
+      order: [
+        ["paidAt", "DESC"],
+        ["createdAt", "DESC"],
+      ],
+    });
+  }
+
+  // Pago de una transacción de la pasarela (bloqueado para conciliar sin duplicar)
+  static async findByProviderTransaction(
+    provider: string,
+    providerTransactionId: string,
+    transaction: Transaction
+  ) {
+    return await Payment.findOne({
+      where: { provider, providerTransactionId },
+      lock: transaction.LOCK.UPDATE,
+      transaction,
+    });
+  }
+
+  // Total aprobado del asistente en un camp
+  static async sumApproved(
+    attendeeId: string,
+    campId: string,
+    transaction?: Transaction
+  ): Promise<number> {
+    const total = await Payment.sum("amount", {
+      where: { attendeeId, campId, status: "APPROVED" },
+      transaction,
+    });
+    return Number(total) || 0;
+  }
+
+  // Pago aprobado con la misma referencia y método en el camp (doble registro)
+  static async findDuplicateReference(
+    campId: string,
+    method: PaymentMethod,
+    reference: string,
+    transaction?: Transaction
+  ) {
+    return await Payment.findOne({
+      where: {
+        campId,
+        method,
+        reference,
+        status: { [Op.ne]: "VOIDED" },
+      },
+      transaction,
+    });
+  }
+
+  // Total aprobado por asistente del camp (GROUP BY attendeeId)
+  static async sumApprovedByAttendee(
+    campId: string
+  ): Promise<Map<string, number>> {
+    const rows = (await Payment.findAll({
+      attributes: [
+        "attendeeId",
+        [sequelize.fn("SUM", sequelize.col("amount")), "total"],
+      ],
+      where: { campId, status: "APPROVED" },
+      group: ["attendeeId"],
+      raw: true,
+    })) as unknown as { attendeeId: string; total: number | string }[];
+    return new Map(rows.map((row) => [row.attendeeId, Number(row.total)]));
+  }
+
+  // Recaudo aprobado del camp por método de pago
+  static async sumApprovedByMethod(
+    campId: string
+  ): Promise<{ method: PaymentMethod; count: number; total: number }[]> {
+    const rows = (await Payment.findAll({
+      attributes: [
+        "method",
+        [sequelize.fn("COUNT", sequelize.col("id")), "count"],
+        [sequelize.fn("SUM", sequelize.col("amount")), "total"],
+      ],
+      where: { campId, status: "APPROVED" },
+      group: ["method"],
+      order: [[sequelize.literal("total"), "DESC"]],
+      raw: true,
+    })) as unknown as {
+      method: PaymentMethod;
+      count: number | string;
+      total: number | string;
+    }[];
+    return rows.map((row) => ({
+      method: row.method,
+      count: Number(row.count),
+      total: Number(row.total),
+    }));
+  }
+}
+
+Payment.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    attendeeId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    campId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    amount: {
+      type: (DataTypes.INTEGER as any).UNSIGNED,
+      allowNull: false,
+    },
+    currency: {
+      type: DataTypes.CHAR(3),
+      allowNull: false,
+      defaultValue: PAYMENT_CURRENCY,
+    },
+    method: {
+      type: DataTypes.ENUM(...PAYMENT_METHODS),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM(...PAYMENT_STATUSES),
+      allowNull: false,
+      defaultValue: "APPROVED",
+    },
+    reference: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    paidAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+    },
+    notes: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    documentKey: {
+      type: DataTypes.STRING(512),
+      allowNull: true,
+    },
+    mimeType: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    bucket: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    recordedBy: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    provider: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    providerTransactionId: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    checkoutId: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    receiptNumber: {
+      type: DataTypes.STRING(40),
+      allowNull: true,
+    },
+    receiptKey: {
+      type: DataTypes.STRING(512),
+      allowNull: true,
+    },
+    receiptBucket: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    receiptIssuedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: true,
+    },
+    voidedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: true,
+    },
+    voidedBy: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    voidReason: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    tableName: "payments",
+    modelName: "Payment",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      { fields: ["attendeeId", "campId"], name: "ix_payments_attendee_camp" },
+      { fields: ["campId", "status"], name: "ix_payments_camp_status" },
+      { fields: ["reference"], name: "ix_payments_reference" },
+      {
+        unique: true,
+        fields: ["provider", "providerTransactionId"],
+        name: "ux_payments_provider_transaction",
+      },
+    ],
+  }
+);
+
+export default Payment;
@@ -0,0 +1,159 @@
+import { DataTypes, Model, Op, Optional, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+
+/**
+ * OPEN: enlace generado, sin pago aprobado
+ * COMPLETED: la pasarela aprobó un pago con este enlace
+ */
+export const CHECKOUT_STATUSES = ["OPEN", "COMPLETED"] as const;
+export type CheckoutStatus = (typeof CHECKOUT_STATUSES)[number];
+
+// Atributos del modelo PaymentCheckout (tabla payment_checkouts)
+export interface PaymentCheckoutAttributes {
+  id: string; // CHAR(36) - también es la referencia enviada a la pasarela
+  attendeeId: string; // CHAR(36)
+  campId: string; // CHAR(36)
+  provider: string; // VARCHAR(20)
+  providerCheckoutId: string; // VARCHAR(100) - id del enlace en la pasarela
+  amount: number; // INT UNSIGNED - COP sin decimales
+  currency: string; // CHAR(3)
+  url: string; // VARCHAR(500)
+  status: CheckoutStatus;
+  expiresAt: Date; // DATETIME(3)
+  paymentId: string | null; // CHAR(36) - pago aprobado
+  createdBy: string | null; // CHAR(36)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PaymentCheckoutCreationAttributes
+  extends Optional<
+    PaymentCheckoutAttributes,
+    "id" | "status" | "paymentId" | "createdBy" | "createdAt" | "updatedAt"
+  > {}
+
+class PaymentCheckout
+  extends Model<PaymentCheckoutAttributes, PaymentCheckoutCreationAttributes>
+  implements PaymentCheckoutAttributes
+{
+  public id!: string;
+  public attendeeId!: string;
+  public campId!: string;
+  public provider!: string;
+  public providerCheckoutId!: string;
+  public amount!: number;
+  public currency!: string;
+  public url!: string;
+  public status!: CheckoutStatus;
+  public expiresAt!: Date;
+  public paymentId!: string | null;
+  public createdBy!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Enlace al que corresponde un evento de la pasarela (por id del enlace o referencia)
+  static async findForEvent(
+    provider: string,
+    providerCheckoutId: string | null,
+    reference: string | null,
+    transaction?: Transaction
+  ) {
+    const conditions = [
+      ...(providerCheckoutId ? [{ providerCheckoutId }] : []),
+      ...(reference ? [{ id: reference }] : []),
+    ];
+    if (conditions.length === 0) return null;
+    return await PaymentCheckout.findOne({
+      where: { provider, [Op.or]: conditions },
+      transaction,
+    });
+  }
+}
+
+PaymentCheckout.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    attendeeId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    campId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    provider: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    providerCheckoutId: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    amount: {
+      type: (DataTypes.INTEGER as any).UNSIGNED,
+      allowNull: false,
+    },
+    currency: {
+      type: DataTypes.CHAR(3),
+      allowNull: false,
+    },
+    url: {
+      type: DataTypes.STRING(500),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM(...CHECKOUT_STATUSES),
+      allowNull: false,
+      defaultValue: "OPEN",
+    },
+    expiresAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+    },
+    paymentId: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    createdBy: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    tableName: "payment_checkouts",
+    modelName: "PaymentCheckout",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      {
+        unique: true,
+        fields: ["provider", "providerCheckoutId"],
+        name: "ux_payment_checkouts_provider_checkout",
+      },
+      {
+        unique: false,
+        fields: ["attendeeId", "campId"],
+        name: "ix_payment_checkouts_attendee",
+      },
+    ],
+  }
+);
+
+export default PaymentCheckout;
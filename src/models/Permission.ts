@@ -0,0 +1,108 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+// Catálogo de permisos conocidos por la aplicación
+export const PERMISSIONS = {
+  "attendees:read": "Consultar asistentes",
+  "attendees:write": "Crear, modificar y eliminar asistentes",
+  "camps:manage": "Administrar camps",
+  "roles:manage": "Administrar roles y sus permisos",
+  "reports:read": "Consultar reportes",
+  "data:purge": "Eliminar definitivamente registros borrados",
+  "audit:read": "Consultar la auditoría de cambios",
+  "health:read": "Consultar el perfil médico completo (equipo médico)",
+  "health:write": "Modificar perfiles médicos",
+  "dietary:read": "Consultar alergias y restricciones alimentarias (cocina)",
+  "payments:read": "Consultar pagos y saldos",
+  "payments:write": "Registrar y anular pagos (tesorería)",
+  "scholarships:approve": "Aprobar, rechazar y revocar becas",
+  "checkin:write": "Registrar la llegada de asistentes al camp (check-in)",
+} as const;
+
+export type PermissionCode = keyof typeof PERMISSIONS;
+
+export const PERMISSION_CODES = Object.keys(PERMISSIONS) as PermissionCode[];
+
+// Atributos del modelo Permission (tabla permissions)
+interface PermissionAttributes {
+  id: string; // CHAR(36)
+  code: string; // VARCHAR(50) - único, formato recurso:acción
+  description: string | null; // VARCHAR(255)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PermissionCreationAttributes
+  extends Optional<
+    PermissionAttributes,
+    "id" | "description" | "createdAt" | "updatedAt"
+  > {}
+
+class Permission
+  extends Model<PermissionAttributes, PermissionCreationAttributes>
+  implements PermissionAttributes
+{
+  public id!: string;
+  public code!: string;
+  public description!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Obtener todos los permisos ordenados por código
+  static async findAllData() {
+    return await Permission.findAll({
+      attributes: ["id", "code", "description"],
+      order: [["code", "ASC"]],
+    });
+  }
+
+  // Crear los permisos del catálogo que aún no existan en la tabla
+  static async syncDefaults() {
+    for (const code of PERMISSION_CODES) {
+      await Permission.findOrCreate({
+        where: { code },
+        defaults: { code, description: PERMISSIONS[code] },
+      });
+    }
+  }
+}
+
+Permission.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    code: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    tableName: "permissions",
+    modelName: "Permission",
+    freezeTableName: true,
+    underscored: false,
+  }
+);
+
+export default Permission;
@@ -0,0 +1,149 @@
+import { DataTypes, Model, Op, Optional, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+
+// Atributos del modelo RefreshToken (tabla refresh_tokens)
+interface RefreshTokenAttributes {
+  id: string; // CHAR(36)
+  attendeeId: string; // CHAR(36)
+  tokenHash: string; // CHAR(64) - SHA-256 del token, nunca el token en claro
+  expiresAt: Date;
+  revokedAt: Date | null;
+  replacedByTokenId: string | null; // CHAR(36) - token emitido al rotar
+  createdByIp: string | null; // VARCHAR(45)
+  userAgent: string | null; // VARCHAR(255)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface RefreshTokenCreationAttributes
+  extends Optional<
+    RefreshTokenAttributes,
+    | "id"
+    | "revokedAt"
+    | "replacedByTokenId"
+    | "createdByIp"
+    | "userAgent"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class RefreshToken
+  extends Model<RefreshTokenAttributes, RefreshTokenCreationAttributes>
+  implements RefreshTokenAttributes
+{
+  public id!: string;
+  public attendeeId!: string;
+  public tokenHash!: string;
+  public expiresAt!: Date;
+  public revokedAt!: Date | null;
+  public replacedByTokenId!: string | null;
+  public createdByIp!: string | null;
+  public userAgent!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Buscar por hash (bloqueando la fila si se pasa transacción)
+  static async findByHash(tokenHash: string, transaction?: Transaction) {
+    return await RefreshToken.findOne({
+      where: { tokenHash },
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+      transaction,
+    });
+  }
+
+  // Crear un refresh token
+  static async createToken(
+    data: RefreshTokenCreationAttributes,
+    transaction?: Transaction
+  ) {
+    return await RefreshToken.create(
+      {
+        attendeeId: data.attendeeId,
+        tokenHash: data.tokenHash,
+        expiresAt: data.expiresAt,
+        createdByIp: data.createdByIp ?? null,
+        userAgent: data.userAgent ?? null,
+      },
+      { transaction }
+    );
+  }
+
+  // Revocar todos los tokens activos de un asistente
+  static async revokeAllForAttendee(
+    attendeeId: string,
+    transaction?: Transaction
+  ) {
+    return await RefreshToken.update(
+      { revokedAt: new Date() },
+      { where: { attendeeId, revokedAt: { [Op.is]: null } }, transaction }
+    );
+  }
+
+  isActive(): boolean {
+    return !this.revokedAt && this.expiresAt > new Date();
+  }
+}
+
+RefreshToken.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    attendeeId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    tokenHash: {
+      type: DataTypes.CHAR(64),
+      allowNull: false,
+      unique: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+    },
+    revokedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: true,
+    },
+    replacedByTokenId: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    createdByIp: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+    },
+    userAgent: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    tableName: "refresh_tokens",
+    modelName: "RefreshToken",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      { unique: true, fields: ["tokenHash"], name: "ux_refresh_tokens_hash" },
+      { unique: false, fields: ["attendeeId"], name: "ix_refresh_tokens_attendee" },
+    ],
+  }
+);
+
+export default RefreshToken;
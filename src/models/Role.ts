@@ -116,6 +116,11 @@ class Role
   static async deleteRole(id: string) {
     return await Role.destroy({ where: { id } });
   }
+
+  // Buscar por ID incluyendo roles eliminados (soft delete)
+  static async findWithDeleted(id: string) {
+    return await Role.findOne({ where: { id }, paranoid: false });
+  }
 }
 
 // Definición del modelo acorde a la tabla existente (camelCase timestamps)
@@ -0,0 +1,99 @@
+import { DataTypes, Model, Optional, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import Permission from "./Permission";
+
+// Atributos del modelo RolePermission (tabla role_permissions)
+interface RolePermissionAttributes {
+  id: string; // CHAR(36)
+  roleId: string; // CHAR(36)
+  permissionId: string; // CHAR(36)
+  createdAt: Date;
+}
+
+interface RolePermissionCreationAttributes
+  extends Optional<RolePermissionAttributes, "id" | "createdAt"> {}
+
+class RolePermission
+  extends Model<RolePermissionAttributes, RolePermissionCreationAttributes>
+  implements RolePermissionAttributes
+{
+  public id!: string;
+  public roleId!: string;
+  public permissionId!: string;
+  public readonly createdAt!: Date;
+
+  // Códigos de permiso asignados a un rol
+  static async findPermissionCodes(roleId: string): Promise<string[]> {
+    const permissions = await Permission.findAll({
+      attributes: ["code"],
+      include: [
+        {
+          model: RolePermission,
+          as: "rolePermissions",
+          attributes: [],
+          where: { roleId },
+        },
+      ],
+      order: [["code", "ASC"]],
+    });
+    return permissions.map((permission) => permission.code);
+  }
+
+  // Reemplazar el conjunto de permisos de un rol
+  static async replaceForRole(
+    roleId: string,
+    permissionIds: string[],
+    transaction?: Transaction
+  ) {
+    await RolePermission.destroy({ where: { roleId }, transaction });
+    if (permissionIds.length === 0) {
+      return [];
+    }
+    return await RolePermission.bulkCreate(
+      permissionIds.map((permissionId) => ({ roleId, permissionId })),
+      { transaction }
+    );
+  }
+}
+
+RolePermission.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    roleId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    permissionId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    updatedAt: false,
+    tableName: "role_permissions",
+    modelName: "RolePermission",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      {
+        unique: true,
+        fields: ["roleId", "permissionId"],
+        name: "ux_role_permissions_role_permission",
+      },
+    ],
+  }
+);
+
+export default RolePermission;
@@ -0,0 +1,225 @@
+import { DataTypes, Model, Op, Optional, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import { DISCOUNT_TYPES, DiscountType } from "./DiscountCode";
+
+/**
+ * PENDING: solicitada por tesorería, sin efecto en el valor a pagar
+ * APPROVED: aprobada por un administrador (descuenta del valor a pagar)
+ * REJECTED: rechazada
+ * REVOKED: aprobada y luego retirada
+ */
+export const SCHOLARSHIP_STATUSES = [
+  "PENDING",
+  "APPROVED",
+  "REJECTED",
+  "REVOKED",
+] as const;
+export type ScholarshipStatus = (typeof SCHOLARSHIP_STATUSES)[number];
+
+// Decisiones posibles desde cada estado
+export const SCHOLARSHIP_TRANSITIONS: Record<
+  ScholarshipStatus,
+  ScholarshipStatus[]
+> = {
+  PENDING: ["APPROVED", "REJECTED"],
+  APPROVED: ["REVOKED"],
+  REJECTED: [],
+  REVOKED: [],
+};
+
+// Atributos del modelo Scholarship (tabla scholarships)
+export interface ScholarshipAttributes {
+  id: string; // CHAR(36)
+  attendeeId: string; // CHAR(36)
+  campId: string; // CHAR(36)
+  discountType: DiscountType;
+  value: number; // INT UNSIGNED - porcentaje o COP según discountType
+  reason: string; // VARCHAR(500)
+  status: ScholarshipStatus;
+  requestedBy: string | null; // CHAR(36)
+  reviewedBy: string | null; // CHAR(36)
+  reviewedAt: Date | null; // DATETIME(3)
+  reviewNotes: string | null; // VARCHAR(500)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ScholarshipCreationAttributes
+  extends Optional<
+    ScholarshipAttributes,
+    | "id"
+    | "status"
+    | "requestedBy"
+    | "reviewedBy"
+    | "reviewedAt"
+    | "reviewNotes"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+// Campos que se envían al solicitar una beca
+export type ScholarshipInput = Pick<
+  ScholarshipCreationAttributes,
+  "discountType" | "value" | "reason"
+>;
+
+class Scholarship
+  extends Model<ScholarshipAttributes, ScholarshipCreationAttributes>
+  implements ScholarshipAttributes
+{
+  public id!: string;
+  public attendeeId!: string;
+  public campId!: string;
+  public discountType!: DiscountType;
+  public value!: number;
+  public reason!: string;
+  public status!: ScholarshipStatus;
+  public requestedBy!: string | null;
+  public reviewedBy!: string | null;
+  public reviewedAt!: Date | null;
+  public reviewNotes!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Becas del asistente en un camp, de la más reciente a la más antigua
+  static async findByAttendee(attendeeId: string, campId: string) {
+    return await Scholarship.findAll({
+      where: { attendeeId, campId },
+      order: [["createdAt", "DESC"]],
+    });
+  }
+
+  // Becas aprobadas del asistente en el camp, en orden de aprobación
+  static async findApproved(
+    attendeeId: string,
+    campId: string,
+    transaction?: Transaction
+  ) {
+    return await Scholarship.findAll({
+      where: { attendeeId, campId, status: "APPROVED" },
+      order: [
+        ["reviewedAt", "ASC"],
+        ["id", "ASC"],
+      ],
+      transaction,
+    });
+  }
+
+  // Becas aprobadas de los asistentes indicados, por attendeeId
+  static async findApprovedByAttendees(
+    campId: string,
+    attendeeIds: string[]
+  ): Promise<Map<string, Scholarship[]>> {
+    const result = new Map<string, Scholarship[]>();
+    if (attendeeIds.length === 0) return result;
+    const scholarships = await Scholarship.findAll({
+      where: {
+        campId,
+        status: "APPROVED",
+        attendeeId: { [Op.in]: attendeeIds },
+      },
+      order: [
+        ["reviewedAt", "ASC"],
+        ["id", "ASC"],
+      ],
+    });
+    for (const scholarship of scholarships) {
+      const list = result.get(scholarship.attendeeId) ?? [];
+      list.push(scholarship);
+      result.set(scholarship.attendeeId, list);
+    }
+    return result;
+  }
+
+  // Becas del camp, opcionalmente por estado, de la más antigua a la más reciente
+  static async findByCamp(campId: string, status?: ScholarshipStatus) {
+    return await Scholarship.findAll({
+      where: { campId, ...(status ? { status } : {}) },
+      order: [["createdAt", "ASC"]],
+    });
+  }
+}
+
+Scholarship.init(
+  {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    attendeeId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    campId: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    discountType: {
+      type: DataTypes.ENUM(...DISCOUNT_TYPES),
+      allowNull: false,
+    },
+    value: {
+      type: (DataTypes.INTEGER as any).UNSIGNED,
+      allowNull: false,
+    },
+    reason: {
+      type: DataTypes.STRING(500),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM(...SCHOLARSHIP_STATUSES),
+      allowNull: false,
+      defaultValue: "PENDING",
+    },
+    requestedBy: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    reviewedBy: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    reviewedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: true,
+    },
+    reviewNotes: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updatedAt: {
+      type: DataTypes.DATE(3),
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    timestamps: true,
+    tableName: "scholarships",
+    modelName: "Scholarship",
+    freezeTableName: true,
+    underscored: false,
+    indexes: [
+      {
+        unique: false,
+        fields: ["attendeeId", "campId", "status"],
+        name: "ix_scholarships_attendee_camp",
+      },
+      {
+        unique: false,
+        fields: ["campId", "status"],
+        name: "ix_scholarships_camp_status",
+      },
+    ],
+  }
+);
+
+export default Scholarship;
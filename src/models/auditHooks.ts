@@ -0,0 +1,174 @@
+import { DataTypes, Model, ModelStatic, Transaction } from "sequelize";
+import AuditLog, { AuditAction, AuditChanges, AuditedEntity } from "./AuditLog";
+import { requestContext } from "../utils/requestContext";
+
+// Campos que nunca se guardan en claro en la auditoría
+const REDACTED_FIELDS = ["passwordHash"];
+const REDACTED = "[REDACTED]";
+// Campos que cambian en cada escritura y no aportan al diff
+const IGNORED_FIELDS = ["createdAt", "updatedAt"];
+
+// Valor comparable y serializable a JSON
+const normalize = (
+  model: ModelStatic<Model>,
+  field: string,
+  value: unknown
+): unknown => {
+  if (value === null || typeof value === "undefined") return null;
+  const isDateOnly =
+    model.rawAttributes[field]?.type instanceof DataTypes.DATEONLY;
+  if (value instanceof Date) {
+    return isDateOnly ? value.toISOString().slice(0, 10) : value.toISOString();
+  }
+  if (isDateOnly) return String(value).slice(0, 10);
+  return value;
+};
+
+/**
+ * Diff campo a campo entre dos estados; `before` o `after` en null
+ * representan la creación o la eliminación definitiva del registro.
+ */
+const buildChanges = (
+  model: ModelStatic<Model>,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChanges => {
+  const changes: AuditChanges = {};
+  for (const field of Object.keys(model.rawAttributes)) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+    const from = before ? normalize(model, field, before[field]) : null;
+    const to = after ? normalize(model, field, after[field]) : null;
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+    changes[field] = REDACTED_FIELDS.includes(field)
+      ? {
+          before: from === null ? null : REDACTED,
+          after: to === null ? null : REDACTED,
+        }
+      : { before: from, after: to };
+  }
+  return changes;
+};
+
+// Valores anteriores del registro (antes de la escritura en curso)
+const previousValues = (
+  model: ModelStatic<Model>,
+  instance: Model
+): Record<string, unknown> => {
+  const values: Record<string, unknown> = {};
+  for (const field of Object.keys(model.rawAttributes)) {
+    values[field] = instance.previous(field as any);
+  }
+  return values;
+};
+
+const record = async (
+  entity: AuditedEntity,
+  action: AuditAction,
+  instance: Model,
+  changes: AuditChanges,
+  options: { transaction?: Transaction | null }
+) => {
+  if (action === "UPDATE" && Object.keys(changes).length === 0) {
+    return;
+  }
+  const context = requestContext.get();
+  await AuditLog.record(
+    {
+      entity,
+      entityId: String(instance.get("id")),
+      action,
+      actorId: context?.actorId ?? null,
+      requestId: context?.requestId ?? null,
+      changes,
+    },
+    options.transaction
+  );
+};
+
+/**
+ * Registra en audit_logs cada create/update/delete/restore del modelo.
+ * Las operaciones masivas (Model.update/destroy/restore) se fuerzan a
+ * individualHooks para poder auditar fila por fila.
+ */
+export const registerAuditHooks = (
+  model: ModelStatic<Model>,
+  entity: AuditedEntity
+): void => {
+  const perRow = (options: { individualHooks?: boolean }) => {
+    options.individualHooks = true;
+  };
+  model.addHook("beforeBulkUpdate", "audit", perRow);
+  model.addHook("beforeBulkDestroy", "audit", perRow);
+  model.addHook("beforeBulkRestore", "audit", perRow);
+
+  model.addHook("afterCreate", "audit", (instance: Model, options) =>
+    record(
+      entity,
+      "CREATE",
+      instance,
+      buildChanges(model, null, instance.get()),
+      options
+    )
+  );
+
+  model.addHook("afterUpdate", "audit", (instance: Model, options) =>
+    record(
+      entity,
+      "UPDATE",
+      instance,
+      buildChanges(model, previousValues(model, instance), instance.get()),
+      options
+    )
+  );
+
+  model.addHook("afterDestroy", "audit", (instance: Model, options) =>
+    options.force
+      ? record(
+          entity,
+          "PURGE",
+          instance,
+          buildChanges(model, instance.get(), null),
+          options
+        )
+      : record(
+          entity,
+          "DELETE",
+          instance,
+          {
+            deletedAt: {
+              before: null,
+              after: normalize(
+                model,
+                "deletedAt",
+                instance.get("deletedAt") ?? new Date()
+              ),
+            },
+          },
+          options
+        )
+  );
+
+  // restore() limpia deletedAt antes del hook "after": se guarda el valor previo
+  const deletedAtBeforeRestore = new WeakMap<Model, unknown>();
+  model.addHook("beforeRestore", "audit", (instance: Model) => {
+    deletedAtBeforeRestore.set(instance, instance.get("deletedAt"));
+  });
+  model.addHook("afterRestore", "audit", (instance: Model, options) =>
+    record(
+      entity,
+      "RESTORE",
+      instance,
+      {
+        deletedAt: {
+          before: normalize(
+            model,
+            "deletedAt",
+            deletedAtBeforeRestore.get(instance)
+          ),
+          after: null,
+        },
+      },
+      options
+    )
+  );
+};
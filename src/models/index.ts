@@ -2,12 +2,43 @@
 import Role from "./Role";
 import CampAttendee from "./CampAttendee";
 import Camp from "./Camp";
+import AttendeeStatusHistory from "./AttendeeStatusHistory";
+import RefreshToken from "./RefreshToken";
+import Permission from "./Permission";
+import RolePermission from "./RolePermission";
+import PasswordResetToken from "./PasswordResetToken";
+import AuditLog from "./AuditLog";
+import Guardian from "./Guardian";
+import ParentalConsent from "./ParentalConsent";
+import HealthProfile from "./HealthProfile";
+import Payment from "./Payment";
+import DiscountCode from "./DiscountCode";
+import DiscountRedemption from "./DiscountRedemption";
+import Scholarship from "./Scholarship";
+import PaymentCheckout from "./PaymentCheckout";
+import CheckIn from "./CheckIn";
+import { registerAuditHooks } from "./auditHooks";
 
 // Crear objeto de modelos
 const models = {
     Role,
     CampAttendee,
     Camp,
+    AttendeeStatusHistory,
+    RefreshToken,
+    Permission,
+    RolePermission,
+    PasswordResetToken,
+    AuditLog,
+    Guardian,
+    ParentalConsent,
+    HealthProfile,
+    Payment,
+    DiscountCode,
+    DiscountRedemption,
+    Scholarship,
+    PaymentCheckout,
+    CheckIn,
 };
 
 // Asociaciones
@@ -15,9 +46,70 @@ Role.hasMany(CampAttendee, { foreignKey: "roleId", as: "attendees" });
 CampAttendee.belongsTo(Role, { foreignKey: "roleId", as: "role" });
 Camp.hasMany(CampAttendee, { foreignKey: "campId", as: "attendees" });
 CampAttendee.belongsTo(Camp, { foreignKey: "campId", as: "camp" });
+CampAttendee.hasMany(AttendeeStatusHistory, { foreignKey: "attendeeId", as: "statusHistory" });
+AttendeeStatusHistory.belongsTo(CampAttendee, { foreignKey: "attendeeId", as: "attendee" });
+CampAttendee.hasMany(RefreshToken, { foreignKey: "attendeeId", as: "refreshTokens" });
+RefreshToken.belongsTo(CampAttendee, { foreignKey: "attendeeId", as: "attendee" });
+CampAttendee.hasMany(PasswordResetToken, { foreignKey: "attendeeId", as: "passwordResetTokens" });
+PasswordResetToken.belongsTo(CampAttendee, { foreignKey: "attendeeId", as: "attendee" });
+Role.belongsToMany(Permission, { through: RolePermission, foreignKey: "roleId", otherKey: "permissionId", as: "permissions" });
+Permission.belongsToMany(Role, { through: RolePermission, foreignKey: "permissionId", otherKey: "roleId", as: "roles" });
+Role.hasMany(RolePermission, { foreignKey: "roleId", as: "rolePermissions" });
+RolePermission.belongsTo(Role, { foreignKey: "roleId", as: "role" });
+Permission.hasMany(RolePermission, { foreignKey: "permissionId", as: "rolePermissions" });
+RolePermission.belongsTo(Permission, { foreignKey: "permissionId", as: "permission" });
+CampAttendee.hasMany(Guardian, { foreignKey: "attendeeId", as: "guardians" });
+Guardian.belongsTo(CampAttendee, { foreignKey: "attendeeId", as: "attendee" });
+CampAttendee.hasMany(ParentalConsent, { foreignKey: "attendeeId", as: "consents" });
+ParentalConsent.belongsTo(CampAttendee, { foreignKey: "attendeeId", as: "attendee" });
+ParentalConsent.belongsTo(Camp, { foreignKey: "campId", as: "camp" });
+ParentalConsent.belongsTo(Guardian, { foreignKey: "guardianId", as: "guardian", onDelete: "SET NULL" });
+CampAttendee.hasOne(HealthProfile, { foreignKey: "attendeeId", as: "healthProfile" });
+HealthProfile.belongsTo(CampAttendee, { foreignKey: "attendeeId", as: "attendee" });
+CampAttendee.hasMany(Payment, { foreignKey: "attendeeId", as: "payments" });
+Payment.belongsTo(CampAttendee, { foreignKey: "attendeeId", as: "attendee" });
+Camp.hasMany(Payment, { foreignKey: "campId", as: "payments" });
+Payment.belongsTo(Camp, { foreignKey: "campId", as: "camp" });
+Camp.hasMany(DiscountCode, { foreignKey: "campId", as: "discountCodes" });
+DiscountCode.belongsTo(Camp, { foreignKey: "campId", as: "camp" });
+DiscountCode.hasMany(DiscountRedemption, { foreignKey: "discountCodeId", as: "redemptions" });
+DiscountRedemption.belongsTo(DiscountCode, { foreignKey: "discountCodeId", as: "discountCode" });
+CampAttendee.hasMany(DiscountRedemption, { foreignKey: "attendeeId", as: "discountRedemptions" });
+DiscountRedemption.belongsTo(CampAttendee, { foreignKey: "attendeeId", as: "attendee" });
+CampAttendee.hasMany(Scholarship, { foreignKey: "attendeeId", as: "scholarships" });
+Scholarship.belongsTo(CampAttendee, { foreignKey: "attendeeId", as: "attendee" });
+CampAttendee.hasMany(PaymentCheckout, { foreignKey: "attendeeId", as: "checkouts" });
+PaymentCheckout.belongsTo(CampAttendee, { foreignKey: "attendeeId", as: "attendee" });
+PaymentCheckout.belongsTo(Payment, { foreignKey: "paymentId", as: "payment" });
+CampAttendee.hasMany(CheckIn, { foreignKey: "attendeeId", as: "checkIns" });
+CheckIn.belongsTo(CampAttendee, { foreignKey: "attendeeId", as: "attendee" });
+
+// Auditoría de cambios (tabla audit_logs)
+registerAuditHooks(CampAttendee, "CampAttendee");
+registerAuditHooks(Camp, "Camp");
+registerAuditHooks(Role, "Role");
 
 // Exportar tanto como default como named exports
 export default models;
 
 // Named exports para compatibilidad
-export const { Role: RoleModel, CampAttendee: CampAttendeeModel, Camp: CampModel } = models;
+export const {
+    Role: RoleModel,
+    CampAttendee: CampAttendeeModel,
+    Camp: CampModel,
+    AttendeeStatusHistory: AttendeeStatusHistoryModel,
+    RefreshToken: RefreshTokenModel,
+    Permission: PermissionModel,
+    RolePermission: RolePermissionModel,
+    PasswordResetToken: PasswordResetTokenModel,
+    AuditLog: AuditLogModel,
+    Guardian: GuardianModel,
+    ParentalConsent: ParentalConsentModel,
+    HealthProfile: HealthProfileModel,
+    Payment: PaymentModel,
+    DiscountCode: DiscountCodeModel,
+    DiscountRedemption: DiscountRedemptionModel,
+    Scholarship: ScholarshipModel,
+    PaymentCheckout: PaymentCheckoutModel,
+    CheckIn: CheckInModel,
+} = models;
@@ -0,0 +1,19 @@
+import { paymentConfig } from "../config/env";
+import { PaymentProviderType } from "./payment/types";
+import { PaymentProvider } from "./payment/PaymentProvider";
+import { FakePaymentProvider } from "./fake/FakePaymentProvider";
+import { WompiProvider } from "./wompi/WompiProvider";
+
+export class PaymentProviderFactory {
+  static getProvider(
+    type: PaymentProviderType = paymentConfig.provider as PaymentProviderType
+  ): PaymentProvider {
+    switch (type) {
+      case PaymentProviderType.WOMPI:
+        return new WompiProvider();
+      case PaymentProviderType.FAKE:
+      default:
+        return new FakePaymentProvider();
+    }
+  }
+}
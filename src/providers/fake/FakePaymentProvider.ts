@@ -0,0 +1,99 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { paymentConfig } from "../../config/env";
+import {
+  InvalidWebhookSignatureError,
+  PaymentProvider,
+} from "../payment/PaymentProvider";
+import {
+  CheckoutParams,
+  CheckoutResult,
+  PaymentEvent,
+  PaymentEventStatus,
+  PaymentProviderType,
+  WebhookRequest,
+} from "../payment/types";
+
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+type FakeEventBody = {
+  event: "transaction.updated";
+  data: Omit<PaymentEvent, "occurredAt"> & { occurredAt: string };
+};
+
+/**
+ * Pasarela simulada para desarrollo: no usa red. El enlace de pago vuelve
+ * directo a redirectUrl y los webhooks se generan con simulateEvent,
+ * firmados con HMAC-SHA256 del cuerpo (FAKE_PAYMENT_SECRET).
+ */
+export class FakePaymentProvider extends PaymentProvider {
+  readonly type = PaymentProviderType.FAKE;
+  private readonly secret: string;
+
+  constructor() {
+    super();
+
+    if (!paymentConfig.fake.secret) {
+      throw new Error("Fake payment config incompleta: FAKE_PAYMENT_SECRET es requerido");
+    }
+    this.secret = paymentConfig.fake.secret;
+  }
+
+  async createCheckout(params: CheckoutParams): Promise<CheckoutResult> {
+    const checkoutId = `fake_${randomUUID()}`;
+    const url = new URL(params.redirectUrl);
+    url.searchParams.set("checkout", checkoutId);
+    url.searchParams.set("reference", params.reference);
+    return { checkoutId, url: url.toString() };
+  }
+
+  parseWebhook(request: WebhookRequest): PaymentEvent | null {
+    const received = request.headers[FAKE_SIGNATURE_HEADER];
+    if (typeof received !== "string" || !this.isValidSignature(request.rawBody, received)) {
+      throw new InvalidWebhookSignatureError();
+    }
+    const body = JSON.parse(request.rawBody.toString("utf8")) as FakeEventBody;
+    if (body.event !== "transaction.updated" || !body.data) {
+      return null;
+    }
+    return { ...body.data, occurredAt: new Date(body.data.occurredAt) };
+  }
+
+  // Webhook firmado tal como lo enviaría una pasarela real
+  simulateEvent(params: {
+    checkoutId: string;
+    reference: string;
+    amount: number;
+    currency: string;
+    status: PaymentEventStatus;
+    transactionId?: string;
+  }): WebhookRequest {
+    const body: FakeEventBody = {
+      event: "transaction.updated",
+      data: {
+        transactionId: params.transactionId ?? `fake_tx_${randomUUID()}`,
+        checkoutId: params.checkoutId,
+        reference: params.reference,
+        status: params.status,
+        amount: params.amount,
+        currency: params.currency,
+        methodType: "CARD",
+        occurredAt: new Date().toISOString(),
+      },
+    };
+    const rawBody = Buffer.from(JSON.stringify(body), "utf8");
+    return {
+      rawBody,
+      headers: { [FAKE_SIGNATURE_HEADER]: this.sign(rawBody) },
+    };
+  }
+
+  private sign(rawBody: Buffer): string {
+    return createHmac("sha256", this.secret).update(rawBody).digest("hex");
+  }
+
+  private isValidSignature(rawBody: Buffer, received: string): boolean {
+    const expected = Buffer.from(this.sign(rawBody), "utf8");
+    const actual = Buffer.from(received.toLowerCase(), "utf8");
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
@@ -22,4 +22,14 @@ export { StorageProvider } from "./storage/StorageProvider";
 export { StorageProviderFactory } from "./StorageProviderFactory";
 export { R2Provider } from "./r2/R2Provider";
 
+// Payment providers
+export * from "./payment/types";
+export {
+    PaymentProvider,
+    InvalidWebhookSignatureError,
+} from "./payment/PaymentProvider";
+export { PaymentProviderFactory } from "./PaymentProviderFactory";
+export { FakePaymentProvider } from "./fake/FakePaymentProvider";
+export { WompiProvider } from "./wompi/WompiProvider";
+
 export default ProviderFactory;
@@ -0,0 +1,22 @@
+import {
+  CheckoutParams,
+  CheckoutResult,
+  PaymentEvent,
+  PaymentProviderType,
+  WebhookRequest,
+} from "./types";
+
+// La firma del webhook no corresponde al secreto configurado
+export class InvalidWebhookSignatureError extends Error {
+  constructor(message: string = "Firma del webhook inválida") {
+    super(message);
+    this.name = "InvalidWebhookSignatureError";
+  }
+}
+
+export abstract class PaymentProvider {
+  abstract readonly type: PaymentProviderType;
+  abstract createCheckout(params: CheckoutParams): Promise<CheckoutResult>;
+  // Verifica la firma y normaliza el evento; null si no es de una transacción
+  abstract parseWebhook(request: WebhookRequest): PaymentEvent | null;
+}
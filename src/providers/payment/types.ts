@@ -0,0 +1,37 @@
+export enum PaymentProviderType {
+  FAKE = "fake",
+  WOMPI = "wompi",
+}
+
+export type CheckoutParams = {
+  reference: string; // referencia propia, única por enlace
+  amount: number; // COP sin decimales
+  currency: string;
+  description: string;
+  redirectUrl: string;
+  expiresAt: Date;
+};
+
+export type CheckoutResult = {
+  checkoutId: string; // id del enlace en la pasarela
+  url: string;
+};
+
+export type PaymentEventStatus = "PENDING" | "APPROVED" | "DECLINED" | "VOIDED";
+
+// Evento de transacción normalizado, sin importar la pasarela
+export type PaymentEvent = {
+  transactionId: string;
+  checkoutId: string | null;
+  reference: string | null;
+  status: PaymentEventStatus;
+  amount: number; // COP sin decimales
+  currency: string;
+  methodType: string | null; // medio de pago tal como lo reporta la pasarela
+  occurredAt: Date;
+};
+
+export type WebhookRequest = {
+  rawBody: Buffer;
+  headers: Record<string, string | string[] | undefined>;
+};
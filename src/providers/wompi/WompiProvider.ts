@@ -0,0 +1,143 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { paymentConfig } from "../../config/env";
+import {
+  InvalidWebhookSignatureError,
+  PaymentProvider,
+} from "../payment/PaymentProvider";
+import {
+  CheckoutParams,
+  CheckoutResult,
+  PaymentEvent,
+  PaymentEventStatus,
+  PaymentProviderType,
+  WebhookRequest,
+} from "../payment/types";
+
+type WompiTransaction = {
+  id: string;
+  status: string;
+  amount_in_cents: number;
+  currency: string;
+  reference?: string | null;
+  payment_link_id?: string | null;
+  payment_method_type?: string | null;
+  created_at?: string;
+  finalized_at?: string | null;
+};
+
+type WompiEvent = {
+  event: string;
+  data: { transaction?: WompiTransaction };
+  signature?: { properties: string[]; checksum: string };
+  timestamp: number;
+  sent_at?: string;
+};
+
+// ERROR es una transacción fallida: se trata como rechazada
+const STATUS_MAP: Record<string, PaymentEventStatus> = {
+  PENDING: "PENDING",
+  APPROVED: "APPROVED",
+  DECLINED: "DECLINED",
+  ERROR: "DECLINED",
+  VOIDED: "VOIDED",
+};
+
+/**
+ * Wompi: cobros con enlaces de pago (payment_links) y eventos
+ * transaction.updated firmados con el secreto de eventos.
+ */
+export class WompiProvider extends PaymentProvider {
+  readonly type = PaymentProviderType.WOMPI;
+
+  constructor() {
+    super();
+
+    if (!paymentConfig.wompi.privateKey || !paymentConfig.wompi.eventsSecret) {
+      throw new Error(
+        "Wompi config incompleta: WOMPI_PRIVATE_KEY y WOMPI_EVENTS_SECRET son requeridos"
+      );
+    }
+  }
+
+  async createCheckout(params: CheckoutParams): Promise<CheckoutResult> {
+    const response = await fetch(`${paymentConfig.wompi.apiUrl}/payment_links`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${paymentConfig.wompi.privateKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        name: params.description,
+        description: params.description,
+        single_use: true,
+        collect_shipping: false,
+        currency: params.currency,
+        amount_in_cents: params.amount * 100,
+        redirect_url: params.redirectUrl,
+        expires_at: params.expiresAt.toISOString(),
+        sku: params.reference,
+      }),
+    });
+    const body = (await response.json().catch(() => null)) as
+      | { data?: { id?: string }; error?: unknown }
+      | null;
+    if (!response.ok || !body?.data?.id) {
+      throw new Error(
+        `Wompi respondió ${response.status} al crear el enlace de pago: ${JSON.stringify(body?.error ?? body)}`
+      );
+    }
+    return {
+      checkoutId: body.data.id,
+      url: `${paymentConfig.wompi.checkoutUrl}/${body.data.id}`,
+    };
+  }
+
+  parseWebhook(request: WebhookRequest): PaymentEvent | null {
+    const body = JSON.parse(request.rawBody.toString("utf8")) as WompiEvent;
+    if (!this.isValidSignature(body)) {
+      throw new InvalidWebhookSignatureError();
+    }
+    const transaction = body.data?.transaction;
+    if (body.event !== "transaction.updated" || !transaction) {
+      return null;
+    }
+    return {
+      transactionId: transaction.id,
+      checkoutId: transaction.payment_link_id ?? null,
+      reference: transaction.reference ?? null,
+      status: STATUS_MAP[transaction.status] ?? "PENDING",
+      amount: Math.round(transaction.amount_in_cents / 100),
+      currency: transaction.currency,
+      methodType: transaction.payment_method_type ?? null,
+      occurredAt: new Date(
+        transaction.finalized_at ?? body.sent_at ?? transaction.created_at ?? Date.now()
+      ),
+    };
+  }
+
+  /**
+   * checksum = SHA256(valores de signature.properties (rutas dentro de
+   * data) + timestamp + secreto de eventos)
+   */
+  private isValidSignature(body: WompiEvent): boolean {
+    if (!body.signature?.checksum || !Array.isArray(body.signature.properties)) {
+      return false;
+    }
+    const values = body.signature.properties
+      .map((path) =>
+        path
+          .split(".")
+          .reduce<unknown>(
+            (value, key) => (value as Record<string, unknown> | undefined)?.[key],
+            body.data
+          )
+      )
+      .join("");
+    const expected = createHash("sha256")
+      .update(`${values}${body.timestamp}${paymentConfig.wompi.eventsSecret}`)
+      .digest("hex");
+    const actual = Buffer.from(body.signature.checksum.toLowerCase(), "utf8");
+    const wanted = Buffer.from(expected, "utf8");
+    return actual.length === wanted.length && timingSafeEqual(actual, wanted);
+  }
+}
@@ -0,0 +1,108 @@
+import { Router } from "express";
+import adminController from "../controllers/admin";
+import { authenticate } from "../middlewares/authenticate";
+import { authorize } from "../middlewares/authorize";
+import { validatorPurgeDeleted } from "../validators/admin";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Admin
+ *   description: Tareas de mantenimiento para administradores
+ */
+
+/**
+ * @swagger
+ * /api/admin/purge:
+ *   post:
+ *     summary: Elimina definitivamente los registros borrados hace más de N días
+ *     description: |
+ *       Purga asistentes, camps y roles eliminados (soft delete) antes del corte.
+ *       Junto con cada asistente se borran su historial de estados, sus tokens y su
+ *       documento en R2 (documentKey); si el documento no se puede borrar, el asistente
+ *       se conserva. Camps y roles que todavía referencia algún asistente no se purgan.
+ *       Esta operación no se puede deshacer.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [olderThanDays]
+ *             properties:
+ *               olderThanDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 3650
+ *                 example: 30
+ *     responses:
+ *       200:
+ *         description: Purga completada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Registros eliminados purgados exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     olderThanDays:
+ *                       type: integer
+ *                     cutoff:
+ *                       type: string
+ *                       format: date-time
+ *                     attendees:
+ *                       $ref: '#/components/schemas/PurgeCount'
+ *                     documents:
+ *                       type: object
+ *                       properties:
+ *                         deleted:
+ *                           type: integer
+ *                         failed:
+ *                           type: integer
+ *                     camps:
+ *                       $ref: '#/components/schemas/PurgeCount'
+ *                     roles:
+ *                       $ref: '#/components/schemas/PurgeCount'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * components:
+ *   schemas:
+ *     PurgeCount:
+ *       type: object
+ *       properties:
+ *         purged:
+ *           type: integer
+ *         skipped:
+ *           type: integer
+ */
+router.post(
+    "/purge",
+    authenticate,
+    authorize("data:purge"),
+    validatorPurgeDeleted,
+    adminController.purgeDeleted
+);
+
+export default router;
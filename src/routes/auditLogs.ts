@@ -0,0 +1,169 @@
+import { Router } from "express";
+import auditLogsController from "../controllers/auditLogs";
+import { authenticate } from "../middlewares/authenticate";
+import { authorize } from "../middlewares/authorize";
+import { validatorQueryAuditLogs } from "../validators/auditLogs";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: AuditLogs
+ *   description: Auditoría de cambios sobre asistentes, camps y roles
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuditLog:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         entity:
+ *           type: string
+ *           enum: [CampAttendee, Camp, Role]
+ *         entityId:
+ *           type: string
+ *           format: uuid
+ *         action:
+ *           type: string
+ *           enum: [CREATE, UPDATE, DELETE, RESTORE, PURGE]
+ *         actorId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Asistente autenticado que hizo el cambio (null = anónimo o sistema)
+ *         requestId:
+ *           type: string
+ *           nullable: true
+ *           description: Id de la petición (mismo valor que en los logs)
+ *         changes:
+ *           type: object
+ *           description: Diff por campo; los campos sensibles como passwordHash se guardan como "[REDACTED]"
+ *           additionalProperties:
+ *             type: object
+ *             properties:
+ *               before: {}
+ *               after: {}
+ *           example:
+ *             registrationStatus:
+ *               before: "PENDING_PAYMENT"
+ *               after: "PAID"
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/audit-logs:
+ *   get:
+ *     summary: Lista la auditoría de cambios (más reciente primero)
+ *     tags: [AuditLogs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: entity
+ *         schema:
+ *           type: string
+ *           enum: [CampAttendee, Camp, Role]
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [CREATE, UPDATE, DELETE, RESTORE, PURGE]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Auditoría obtenida exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Auditoría obtenida exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     logs:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AuditLog'
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         page:
+ *                           type: integer
+ *                         pageSize:
+ *                           type: integer
+ *                         total:
+ *                           type: integer
+ *                         totalPages:
+ *                           type: integer
+ *                         hasNextPage:
+ *                           type: boolean
+ *                         hasPreviousPage:
+ *                           type: boolean
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/",
+    authenticate,
+    authorize("audit:read"),
+    validatorQueryAuditLogs,
+    auditLogsController.getAuditLogs
+);
+
+export default router;
@@ -0,0 +1,394 @@
+import { Router, Request } from "express";
+import rateLimit, { ipKeyGenerator } from "express-rate-limit";
+import authController from "../controllers/auth";
+import { authenticate } from "../middlewares/authenticate";
+import {
+    validatorLogin,
+    validatorRefreshToken,
+    validatorAuthEmail,
+    validatorResetPassword,
+    validatorVerifyEmail,
+} from "../validators/auth";
+
+const router = Router();
+
+// Máximo 3 reenvíos de verificación por email cada 15 minutos
+const resendVerificationLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    limit: 3,
+    keyGenerator: (req: Request) =>
+        typeof req.body?.email === "string" && req.body.email.trim()
+            ? req.body.email.trim().toLowerCase()
+            : ipKeyGenerator(req.ip || ""),
+    message: {
+        success: false,
+        error: "Demasiadas solicitudes de verificación, intenta de nuevo más tarde",
+    },
+});
+
+/**
+ * @swagger
+ * tags:
+ *   name: Auth
+ *   description: Autenticación de asistentes
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LoginInput:
+ *       type: object
+ *       required: [password]
+ *       description: Enviar email o identificationNumber
+ *       properties:
+ *         email:
+ *           type: string
+ *           format: email
+ *         identificationNumber:
+ *           type: string
+ *         password:
+ *           type: string
+ *           format: password
+ *     RefreshTokenInput:
+ *       type: object
+ *       required: [refreshToken]
+ *       properties:
+ *         refreshToken:
+ *           type: string
+ *     AuthTokens:
+ *       type: object
+ *       properties:
+ *         accessToken:
+ *           type: string
+ *           description: JWT de corta duración para el header Authorization
+ *         refreshToken:
+ *           type: string
+ *           description: Token opaco de un solo uso; se rota en cada /refresh
+ *         tokenType:
+ *           type: string
+ *           example: Bearer
+ *         expiresIn:
+ *           type: string
+ *           example: "15m"
+ *         refreshTokenExpiresAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/auth/login:
+ *   post:
+ *     summary: Inicia sesión con email o número de identificación
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LoginInput'
+ *     responses:
+ *       200:
+ *         description: Inicio de sesión exitoso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Inicio de sesión exitoso"
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/AuthTokens'
+ *                     - type: object
+ *                       properties:
+ *                         user:
+ *                           type: object
+ *                           properties:
+ *                             id:
+ *                               type: string
+ *                               format: uuid
+ *                             email:
+ *                               type: string
+ *                               nullable: true
+ *                             firstName:
+ *                               type: string
+ *                             lastName:
+ *                               type: string
+ *                             roleId:
+ *                               type: string
+ *                               format: uuid
+ *                             mustChangePassword:
+ *                               type: boolean
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: La cuenta no está activa (code ACCOUNT_INACTIVE)
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/login", validatorLogin, authController.login);
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Renueva el access token rotando el refresh token
+ *     description: |
+ *       El refresh token enviado queda revocado y se emite uno nuevo.
+ *       Reutilizar un refresh token ya rotado revoca todas las sesiones del asistente.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshTokenInput'
+ *     responses:
+ *       200:
+ *         description: Token renovado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Token renovado exitosamente"
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthTokens'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: La cuenta no está activa (code ACCOUNT_INACTIVE)
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/refresh", validatorRefreshToken, authController.refresh);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Cierra la sesión revocando el refresh token
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshTokenInput'
+ *     responses:
+ *       200:
+ *         description: Sesión cerrada exitosamente (idempotente)
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/logout", validatorRefreshToken, authController.logout);
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Solicita un enlace para restablecer la contraseña
+ *     description: La respuesta es la misma exista o no el email, para no revelar cuentas registradas
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Solicitud recibida
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/forgot-password",
+    validatorAuthEmail,
+    authController.forgotPassword
+);
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Restablece la contraseña con el token recibido por email
+ *     description: El token es de un solo uso; al usarlo se invalidan los demás tokens y se cierran las sesiones abiertas
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, newPassword, confirmPassword]
+ *             properties:
+ *               token:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *               confirmPassword:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Contraseña restablecida exitosamente
+ *       400:
+ *         description: Datos inválidos o token inválido/expirado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/reset-password",
+    validatorResetPassword,
+    authController.resetPassword
+);
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   get:
+ *     summary: Verifica el email con el token enviado por correo
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Email verificado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Email verificado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     emailVerifiedAt:
+ *                       type: string
+ *                       format: date-time
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Token inválido o expirado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get("/verify-email", validatorVerifyEmail, authController.verifyEmail);
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Reenvía el email de verificación
+ *     description: Limitado a 3 solicitudes por email cada 15 minutos. La respuesta es la misma exista o no el email.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Solicitud recibida
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       429:
+ *         description: Demasiadas solicitudes
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/resend-verification",
+    resendVerificationLimiter,
+    validatorAuthEmail,
+    authController.resendVerification
+);
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   get:
+ *     summary: Obtiene el asistente autenticado
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Usuario autenticado obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       $ref: '#/components/schemas/CampAttendee'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get("/me", authenticate, authController.me);
+
+export default router;
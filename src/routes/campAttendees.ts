@@ -1,7 +1,16 @@
 import { Router } from "express";
 import campAttendeesController from "../controllers/campAttendees";
+import { authenticate } from "../middlewares/authenticate";
 import {
-    validatorCreateCampAttendee,
+    authorize,
+    authorizeSelfOr,
+    authorizeSelfOrAny,
+} from "../middlewares/authorize";
+import { requirePasswordChanged } from "../middlewares/requirePasswordChanged";
+import { spreadsheetUpload } from "../middlewares/fileUpload";
+import { preserveRequestContext } from "../utils/requestContext";
+import {
+    validatorRegisterCampAttendee,
     validatorGetCampAttendee,
     validatorUpdateCampAttendee,
     validatorQueryCampAttendees,
@@ -9,7 +18,27 @@ import {
     validatorChangePassword,
     validatorCheckEmailUnique,
     validatorCheckIdentificationUnique,
+    validatorRegistrationStatusChange,
+    validatorImportCampAttendees,
+    validatorExportCampAttendees,
+    validatorQueryDuplicates,
+    validatorMergeCampAttendees,
+    validatorSaveGuardian,
+    validatorGuardianParams,
+    validatorRequestConsent,
 } from "../validators/campAttendees";
+import { validatorSaveHealthProfile } from "../validators/healthProfiles";
+import {
+    validatorRecordPayment,
+    validatorVoidPayment,
+    validatorCreateCheckout,
+    validatorPaymentReceipt,
+} from "../validators/payments";
+import { validatorRedeemDiscountCode } from "../validators/discountCodes";
+import {
+    validatorRequestScholarship,
+    validatorReviewScholarship,
+} from "../validators/scholarships";
 
 const router = Router();
 
@@ -80,10 +109,6 @@ const router = Router();
  *           type: string
  *           nullable: true
  *           maxLength: 1000
- *         allergies:
- *           type: string
- *           nullable: true
- *           maxLength: 1000
  *         shirtSize:
  *           type: string
  *           enum: [XS, S, M, L, XL]
@@ -91,9 +116,11 @@ const router = Router();
  *         roleId:
  *           type: string
  *           format: uuid
+ *           description: Se ignora; el registro público siempre asigna el rol ASISTENTE
  *         assistantSubRole:
  *           type: string
  *           enum: [NONE, MONITOR, GROUP_LEADER]
+ *           description: Se ignora; el registro público siempre usa NONE
  *         documentKey:
  *           type: string
  *           nullable: true
@@ -110,6 +137,12 @@ const router = Router();
  *           maxLength: 255
  *           description: Nombre del bucket de origen
  *           default: "jovenesconunproposito"
+ *         guardians:
+ *           type: array
+ *           readOnly: true
+ *           description: Acudientes (solo en GET /api/camp-attendees/{id} y respuestas de un asistente)
+ *           items:
+ *             $ref: '#/components/schemas/Guardian'
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -123,10 +156,515 @@ const router = Router();
  *           format: date-time
  *           nullable: true
  *           readOnly: true
+ *     AttendeeStatusHistory:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         attendeeId:
+ *           type: string
+ *           format: uuid
+ *         fromStatus:
+ *           type: string
+ *           enum: [PENDING_PAYMENT, PAID, CONFIRMED, CANCELLED, WAITING_LIST]
+ *           nullable: true
+ *           description: null en la inscripción inicial
+ *         toStatus:
+ *           type: string
+ *           enum: [PENDING_PAYMENT, PAID, CONFIRMED, CANCELLED, WAITING_LIST]
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *         changedBy:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Usuario que realizó el cambio (null si fue el sistema)
+ *         amount:
+ *           type: integer
+ *           nullable: true
+ *           description: Total pagado al pasar a PAID
+ *         reference:
+ *           type: string
+ *           nullable: true
+ *           description: Referencia del pago que completó el saldo al pasar a PAID
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     GuardianInput:
+ *       type: object
+ *       required: [firstName, lastName, relationship, phone]
+ *       properties:
+ *         firstName:
+ *           type: string
+ *           description: Solo letras y espacios
+ *           pattern: ^[A-Za-zÁÉÍÓÚÜÑáéíóúüñ ]+$
+ *         lastName:
+ *           type: string
+ *           description: Solo letras y espacios
+ *           pattern: ^[A-Za-zÁÉÍÓÚÜÑáéíóúüñ ]+$
+ *         relationship:
+ *           type: string
+ *           enum: [MOTHER, FATHER, GRANDPARENT, SIBLING, UNCLE_AUNT, LEGAL_GUARDIAN, OTHER]
+ *         phone:
+ *           type: string
+ *           description: Solo dígitos con opcional '+' al inicio, máximo 15
+ *           pattern: ^\+?[0-9]{1,15}$
+ *         email:
+ *           type: string
+ *           format: email
+ *           nullable: true
+ *           description: Requerido para enviarle la solicitud de consentimiento
+ *         identificationType:
+ *           type: string
+ *           enum: [CC, CE, PP]
+ *           nullable: true
+ *         identificationNumber:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 20
+ *     Guardian:
+ *       allOf:
+ *         - $ref: '#/components/schemas/GuardianInput'
+ *         - type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *               readOnly: true
+ *             attendeeId:
+ *               type: string
+ *               format: uuid
+ *               readOnly: true
+ *     ConsentStatus:
+ *       type: object
+ *       description: Consentimiento del acudiente para el camp actual del asistente
+ *       properties:
+ *         required:
+ *           type: boolean
+ *           description: true si el asistente es menor de 18 años
+ *         status:
+ *           type: string
+ *           enum: [NOT_REQUIRED, MISSING, PENDING, EXPIRED, SIGNED, REVOKED]
+ *           description: MISSING si es menor y nunca se solicitó; EXPIRED si la solicitud pendiente venció
+ *         consentId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         guardianId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         sentTo:
+ *           type: string
+ *           format: email
+ *           nullable: true
+ *         requestedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         signedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         signedName:
+ *           type: string
+ *           nullable: true
+ *         formVersion:
+ *           type: string
+ *           nullable: true
+ *     HealthProfileInput:
+ *       type: object
+ *       description: Reemplaza el perfil completo; los campos omitidos quedan vacíos
+ *       properties:
+ *         allergies:
+ *           type: array
+ *           maxItems: 30
+ *           items:
+ *             type: object
+ *             required: [name, severity]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: "Maní"
+ *               severity:
+ *                 type: string
+ *                 enum: [MILD, MODERATE, SEVERE, LIFE_THREATENING]
+ *               reaction:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 300
+ *         dietaryRestrictions:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [VEGETARIAN, VEGAN, GLUTEN_FREE, LACTOSE_FREE, NUT_FREE, SEAFOOD_FREE, PORK_FREE, DIABETIC, LOW_SODIUM, OTHER]
+ *         dietaryNotes:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 500
+ *         medications:
+ *           type: array
+ *           maxItems: 30
+ *           items:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 150
+ *               dosage:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 100
+ *               schedule:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 150
+ *         conditions:
+ *           type: array
+ *           maxItems: 30
+ *           items:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 150
+ *               notes:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 500
+ *         emergencyContactName:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 200
+ *         emergencyContactPhone:
+ *           type: string
+ *           nullable: true
+ *           pattern: '^\+?\d{1,15}$'
+ *         emergencyContactRelationship:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 50
+ *         insuranceProvider:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 150
+ *         insurancePolicyNumber:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 50
+ *         notes:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 5000
+ *           description: Incluye el texto libre que antes se guardaba en allergies
+ *     HealthProfile:
+ *       description: |
+ *         Con dietary:read (sin health:read) solo se devuelven attendeeId, allergies,
+ *         dietaryRestrictions, dietaryNotes, notes y updatedAt.
+ *       allOf:
+ *         - $ref: '#/components/schemas/HealthProfileInput'
+ *         - type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *               readOnly: true
+ *             attendeeId:
+ *               type: string
+ *               format: uuid
+ *               readOnly: true
+ *             updatedAt:
+ *               type: string
+ *               format: date-time
+ *               readOnly: true
+ *     PaymentInput:
+ *       type: object
+ *       required: [amount, method]
+ *       properties:
+ *         amount:
+ *           type: integer
+ *           minimum: 1
+ *           description: Valor en COP (sin decimales)
+ *           example: 175000
+ *         method:
+ *           type: string
+ *           enum: [CASH, BANK_TRANSFER, CARD, NEQUI, DAVIPLATA, OTHER]
+ *         reference:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 100
+ *           description: Número de transacción o consignación; no puede repetirse para el mismo método en el camp
+ *         paidAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Fecha del pago (por defecto, ahora); no puede ser futura
+ *         notes:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 500
+ *         documentKey:
+ *           type: string
+ *           nullable: true
+ *           description: Soporte del pago subido con /api/upload-url
+ *         mimeType:
+ *           type: string
+ *           nullable: true
+ *         bucket:
+ *           type: string
+ *           nullable: true
+ *     Payment:
+ *       allOf:
+ *         - $ref: '#/components/schemas/PaymentInput'
+ *         - type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             attendeeId:
+ *               type: string
+ *               format: uuid
+ *             campId:
+ *               type: string
+ *               format: uuid
+ *             currency:
+ *               type: string
+ *               example: COP
+ *             status:
+ *               type: string
+ *               enum: [PENDING, APPROVED, DECLINED, VOIDED]
+ *               description: Solo los APPROVED suman al saldo
+ *             recordedBy:
+ *               type: string
+ *               format: uuid
+ *               nullable: true
+ *             voidedAt:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *             voidedBy:
+ *               type: string
+ *               format: uuid
+ *               nullable: true
+ *             voidReason:
+ *               type: string
+ *               nullable: true
+ *             provider:
+ *               type: string
+ *               nullable: true
+ *               description: Pasarela que reportó el pago (null = registro manual)
+ *             providerTransactionId:
+ *               type: string
+ *               nullable: true
+ *             checkoutId:
+ *               type: string
+ *               format: uuid
+ *               nullable: true
+ *               description: Enlace de pago que lo originó
+ *             receiptNumber:
+ *               type: string
+ *               nullable: true
+ *               example: RC-20260115-3F2A9C1B
+ *               description: Recibo emitido cuando este pago completó el saldo
+ *             receiptKey:
+ *               type: string
+ *               nullable: true
+ *               description: PDF del recibo en R2 (null si R2 no está habilitado)
+ *             receiptBucket:
+ *               type: string
+ *               nullable: true
+ *             receiptIssuedAt:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *     PaymentCheckout:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           description: Referencia enviada a la pasarela
+ *         attendeeId:
+ *           type: string
+ *           format: uuid
+ *         campId:
+ *           type: string
+ *           format: uuid
+ *         provider:
+ *           type: string
+ *           enum: [fake, wompi]
+ *         providerCheckoutId:
+ *           type: string
+ *         amount:
+ *           type: integer
+ *         currency:
+ *           type: string
+ *           example: COP
+ *         url:
+ *           type: string
+ *           description: Enlace al que se redirige al asistente para pagar
+ *         status:
+ *           type: string
+ *           enum: [OPEN, COMPLETED]
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         paymentId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *     PaymentBalance:
+ *       type: object
+ *       properties:
+ *         currency:
+ *           type: string
+ *           example: COP
+ *         amountDue:
+ *           type: integer
+ *           nullable: true
+ *           description: null si el asistente no tiene cobro
+ *         fee:
+ *           allOf:
+ *             - $ref: '#/components/schemas/FeeBreakdown'
+ *           nullable: true
+ *         paid:
+ *           type: integer
+ *         balance:
+ *           type: integer
+ *           nullable: true
+ *           description: Pendiente por pagar (negativo = saldo a favor)
+ *         overdueAmount:
+ *           type: integer
+ *           description: Valor de cuotas vencidas sin cubrir
+ *         installments:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               dueDate:
+ *                 type: string
+ *                 format: date
+ *               percentage:
+ *                 type: number
+ *               amount:
+ *                 type: integer
+ *               cumulativeAmount:
+ *                 type: integer
+ *               status:
+ *                 type: string
+ *                 enum: [PAID, PENDING, OVERDUE]
+ *     FeeBreakdown:
+ *       type: object
+ *       description: |
+ *         Valor a pagar: la primera regla de tarifa del camp que aplica (o feeAmount),
+ *         menos el código de descuento y luego las becas aprobadas, cada uno sobre lo que queda.
+ *       properties:
+ *         baseAmount:
+ *           type: integer
+ *           nullable: true
+ *           description: Tarifa general del camp (feeAmount)
+ *         rule:
+ *           allOf:
+ *             - $ref: '#/components/schemas/FeeRule'
+ *           nullable: true
+ *         subtotal:
+ *           type: integer
+ *           description: Tarifa tras la regla, antes de descuentos
+ *         discount:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             discountCodeId:
+ *               type: string
+ *               format: uuid
+ *             code:
+ *               type: string
+ *             discountType:
+ *               type: string
+ *               enum: [PERCENTAGE, FIXED]
+ *             value:
+ *               type: integer
+ *             amount:
+ *               type: integer
+ *         scholarships:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               scholarshipId:
+ *                 type: string
+ *                 format: uuid
+ *               discountType:
+ *                 type: string
+ *                 enum: [PERCENTAGE, FIXED]
+ *               value:
+ *                 type: integer
+ *               amount:
+ *                 type: integer
+ *         amountDue:
+ *           type: integer
+ *     Scholarship:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         attendeeId:
+ *           type: string
+ *           format: uuid
+ *         campId:
+ *           type: string
+ *           format: uuid
+ *         discountType:
+ *           type: string
+ *           enum: [PERCENTAGE, FIXED]
+ *         value:
+ *           type: integer
+ *           description: Porcentaje (1-100) o COP según discountType
+ *         reason:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED, REVOKED]
+ *           description: Solo las APPROVED descuentan del valor a pagar
+ *         requestedBy:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         reviewedBy:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         reviewedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         reviewNotes:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
  *     CampAttendeeCreateInput:
  *       type: object
- *       required: [firstName, lastName, identificationType, identificationNumber, roleId]
+ *       required: [firstName, lastName, identificationType, identificationNumber]
  *       properties:
+ *         campId:
+ *           type: string
+ *           format: uuid
+ *           description: Camp destino. Si no se envía campId ni campCode se usa el único camp con status OPEN
+ *         campCode:
+ *           type: string
+ *           description: Código del camp destino (alternativa a campId)
  *         firstName:
  *           type: string
  *           description: Solo letras y espacios
@@ -186,6 +724,8 @@ const router = Router();
  *           type: string
  *           nullable: true
  *           maxLength: 1000
+ *           deprecated: true
+ *           description: Texto libre anterior; se copia a las notas del perfil de salud (usar /{id}/health-profile)
  *         shirtSize:
  *           type: string
  *           enum: [XS, S, M, L, XL]
@@ -193,9 +733,11 @@ const router = Router();
  *         roleId:
  *           type: string
  *           format: uuid
+ *           description: Se ignora; el registro público siempre asigna el rol ASISTENTE
  *         assistantSubRole:
  *           type: string
  *           enum: [NONE, MONITOR, GROUP_LEADER]
+ *           description: Se ignora; el registro público siempre usa NONE
  *         documentKey:
  *           type: string
  *           nullable: true
@@ -209,6 +751,12 @@ const router = Router();
  *           nullable: true
  *           maxLength: 255
  *           default: "jovenesconunproposito"
+ *         guardians:
+ *           type: array
+ *           maxItems: 5
+ *           description: Acudientes. Obligatorio al menos uno si la edad (por birthDate o age) es menor de 18
+ *           items:
+ *             $ref: '#/components/schemas/GuardianInput'
  *     CampAttendeeUpdateInput:
  *       type: object
  *       properties:
@@ -269,6 +817,8 @@ const router = Router();
  *         allergies:
  *           type: string
  *           nullable: true
+ *           deprecated: true
+ *           description: Texto libre anterior; se copia a las notas del perfil de salud (usar /{id}/health-profile)
  *         shirtSize:
  *           type: string
  *           enum: [XS, S, M, L, XL]
@@ -276,9 +826,11 @@ const router = Router();
  *         roleId:
  *           type: string
  *           format: uuid
+ *           description: Se ignora; el registro público siempre asigna el rol ASISTENTE
  *         assistantSubRole:
  *           type: string
  *           enum: [NONE, MONITOR, GROUP_LEADER]
+ *           description: Se ignora; el registro público siempre usa NONE
  *         documentKey:
  *           type: string
  *           nullable: true
@@ -298,65 +850,1939 @@ const router = Router();
  * @swagger
  * /api/camp-attendees:
  *   get:
- *     summary: Lista asistentes del camp
+ *     summary: Lista asistentes del camp (paginado)
  *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: includeInactive
  *         schema:
  *           type: boolean
  *         description: Incluir registros eliminados (soft delete)
- *     responses:
- *       200:
- *         description: Lista de asistentes obtenida exitosamente
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Lista de asistentes obtenida exitosamente"
- *                 data:
- *                   type: object
- *                   properties:
- *                     attendees:
- *                       type: array
- *                       items:
- *                         $ref: '#/components/schemas/CampAttendee'
- *                     total:
- *                       type: integer
- *                 timestamp:
- *                   type: string
- *                   format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *       - in: query
+ *         name: campId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: roleId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: registrationStatus
+ *         schema:
+ *           type: string
+ *         description: Uno o varios estados separados por coma (ej. PAID,CONFIRMED)
+ *       - in: query
+ *         name: assistantSubRole
+ *         schema:
+ *           type: string
+ *           enum: [NONE, MONITOR, GROUP_LEADER]
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *           enum: [M, F]
+ *       - in: query
+ *         name: shirtSize
+ *         schema:
+ *           type: string
+ *           enum: [XS, S, M, L, XL]
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: city
+ *         schema:
+ *           type: string
+ *         description: Coincidencia parcial
+ *       - in: query
+ *         name: churchPastor
+ *         schema:
+ *           type: string
+ *         description: Coincidencia parcial
+ *       - in: query
+ *         name: ageMin
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: ageMax
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Búsqueda libre por nombre, email, número de identificación o teléfono
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *         description: Campos separados por coma, prefijo "-" para descendente (ej. lastName,-createdAt). Por defecto -createdAt
+ *     responses:
+ *       200:
+ *         description: Lista de asistentes obtenida exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Lista de asistentes obtenida exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attendees:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/CampAttendee'
+ *                     total:
+ *                       type: integer
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         page:
+ *                           type: integer
+ *                         pageSize:
+ *                           type: integer
+ *                         total:
+ *                           type: integer
+ *                         totalPages:
+ *                           type: integer
+ *                         hasNextPage:
+ *                           type: boolean
+ *                         hasPreviousPage:
+ *                           type: boolean
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/",
+    authenticate,
+    authorize("attendees:read"),
+    validatorQueryCampAttendees,
+    campAttendeesController.getCampAttendees
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/check-email:
+ *   get:
+ *     summary: Verifica si un email ya existe
+ *     tags: [CampAttendees]
+ *     parameters:
+ *       - in: query
+ *         name: email
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: email
+ *     responses:
+ *       200:
+ *         description: Resultado de verificación de email
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "El email ya está registrado"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     exists:
+ *                       type: boolean
+ *                       example: true
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/check-email",
+    validatorCheckEmailUnique,
+    campAttendeesController.checkEmailExists
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/check-identification:
+ *   get:
+ *     summary: Verifica si un número de identificación ya existe
+ *     tags: [CampAttendees]
+ *     parameters:
+ *       - in: query
+ *         name: identificationNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *           description: Máximo 10 caracteres alfanuméricos
+ *     responses:
+ *       200:
+ *         description: Resultado de verificación de identificación
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "El número de identificación ya está registrado"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     exists:
+ *                       type: boolean
+ *                       example: true
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/check-identification",
+    validatorCheckIdentificationUnique,
+    campAttendeesController.checkIdentificationExists
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/export:
+ *   get:
+ *     summary: Exporta asistentes a CSV, XLSX o JSON
+ *     description: |
+ *       La respuesta se genera en streaming (lotes de 500 filas), por lo que sirve para
+ *       listados grandes. passwordHash nunca se exporta. Los encabezados usan los nombres
+ *       de campo, compatibles con POST /api/camp-attendees/import.
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, json]
+ *           default: csv
+ *       - in: query
+ *         name: columns
+ *         description: |
+ *           Columnas separadas por coma, en el orden deseado. Permitidas: id, firstName, lastName,
+ *           gender, identificationType, identificationNumber, campId, registrationStatus, age,
+ *           birthDate, country, city, churchPastor, phone, email, emailVerifiedAt, skills,
+ *           shirtSize, roleId, roleName, roleCode, assistantSubRole, isActive,
+ *           createdAt, updatedAt. Las alergias se consultan en los informes y perfiles de salud
+ *         schema:
+ *           type: string
+ *           example: "firstName,lastName,identificationNumber,roleName,shirtSize"
+ *       - in: query
+ *         name: campId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: roleId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: registrationStatus
+ *         description: Uno o varios estados separados por coma
+ *         schema:
+ *           type: string
+ *           example: "PAID,CONFIRMED"
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Archivo de exportación
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/export",
+    authenticate,
+    authorize("attendees:read"),
+    validatorExportCampAttendees,
+    campAttendeesController.exportCampAttendees
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/duplicates:
+ *   get:
+ *     summary: Lista pares de asistentes que probablemente son la misma persona
+ *     description: |
+ *       Compara asistentes activos del mismo camp por nombre normalizado (sin tildes,
+ *       mayúsculas ni orden de palabras) + fecha de nacimiento, por teléfono (últimos
+ *       10 dígitos) y por número de identificación con a lo sumo un carácter distinto.
+ *       Los pares se ordenan por score (IDENTIFICATION y NAME_BIRTHDATE pesan 3, PHONE 1);
+ *       el asistente más antiguo va primero.
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: campId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Candidatos a duplicado obtenidos exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     candidates:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           attendees:
+ *                             type: array
+ *                             minItems: 2
+ *                             maxItems: 2
+ *                             items:
+ *                               $ref: '#/components/schemas/CampAttendee'
+ *                           reasons:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                               enum: [NAME_BIRTHDATE, PHONE, IDENTIFICATION]
+ *                           score:
+ *                             type: integer
+ *                     total:
+ *                       type: integer
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/duplicates",
+    authenticate,
+    authorize("attendees:read"),
+    validatorQueryDuplicates,
+    campAttendeesController.getDuplicateCandidates
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/merge:
+ *   post:
+ *     summary: Fusiona dos asistentes del mismo camp
+ *     description: |
+ *       Se conserva el registro survivorId. Por cada campo se mantiene el valor del
+ *       sobreviviente salvo que esté vacío o que `fields` indique tomar el del duplicado
+ *       (email arrastra emailVerifiedAt y documentKey arrastra mimeType y bucket).
+ *       El duplicado se elimina (soft delete, restaurable), sus sesiones se revocan y la
+ *       fusión queda en el historial de estados de ambos. Si el duplicado ocupaba cupo,
+ *       se promueve al siguiente de la lista de espera. Los pagos y becas del duplicado
+ *       pasan al sobreviviente y su saldo se recalcula: si queda cubierto pasa a PAID.
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [survivorId, duplicateId]
+ *             properties:
+ *               survivorId:
+ *                 type: string
+ *                 format: uuid
+ *               duplicateId:
+ *                 type: string
+ *                 format: uuid
+ *               fields:
+ *                 type: object
+ *                 description: Origen por campo (firstName, lastName, gender, identificationType, identificationNumber, age, birthDate, country, city, churchPastor, phone, email, skills, allergies, shirtSize, documentKey)
+ *                 additionalProperties:
+ *                   type: string
+ *                   enum: [survivor, duplicate]
+ *                 example:
+ *                   identificationNumber: duplicate
+ *                   phone: survivor
+ *               reason:
+ *                 type: string
+ *                 maxLength: 300
+ *     responses:
+ *       200:
+ *         description: Asistentes fusionados exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attendee:
+ *                       $ref: '#/components/schemas/CampAttendee'
+ *                     mergedId:
+ *                       type: string
+ *                       format: uuid
+ *                     takenFromDuplicate:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/merge",
+    authenticate,
+    authorize("attendees:write"),
+    validatorMergeCampAttendees,
+    campAttendeesController.mergeCampAttendees
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}:
+ *   get:
+ *     summary: Obtiene un asistente por ID
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Asistente obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Asistente obtenido exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attendee:
+ *                       $ref: '#/components/schemas/CampAttendee'
+ *                     waitlistPosition:
+ *                       type: integer
+ *                       nullable: true
+ *                       description: Posición en la lista de espera (null si no está en WAITING_LIST)
+ *                     consent:
+ *                       $ref: '#/components/schemas/ConsentStatus'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id",
+    authenticate,
+    authorizeSelfOr("attendees:read"),
+    validatorGetCampAttendee,
+    campAttendeesController.getCampAttendee
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees:
+ *   post:
+ *     summary: Crea un nuevo asistente
+ *     description: El camp debe estar en status OPEN y la fecha actual dentro de registrationOpensAt/registrationClosesAt. El asistente se crea en PENDING_PAYMENT o, si el camp alcanzó maxAttendees, en WAITING_LIST y se retorna su posición en la lista de espera; registrationStatus no se acepta en el body (los cambios pasan por POST /{id}/status). Los menores de 18 años deben enviar al menos un acudiente en guardians (422 con code GUARDIAN_REQUIRED). El asistente queda con rol ASISTENTE e inactivo (no puede iniciar sesión) hasta que el staff lo active; password e isActive no se aceptan (400)
+ *     tags: [CampAttendees]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CampAttendeeCreateInput'
+ *     responses:
+ *       201:
+ *         description: Asistente creado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Asistente creado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attendee:
+ *                       $ref: '#/components/schemas/CampAttendee'
+ *                     waitlistPosition:
+ *                       type: integer
+ *                       nullable: true
+ *                       description: Posición en la lista de espera (null si obtuvo cupo)
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       422:
+ *         $ref: '#/components/responses/UnprocessableEntity'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/",
+    validatorRegisterCampAttendee,
+    campAttendeesController.createCampAttendee
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/import:
+ *   post:
+ *     summary: Importa asistentes desde un archivo CSV o XLSX
+ *     description: |
+ *       Cada fila se valida con las mismas reglas de POST /api/camp-attendees
+ *       (formato, duplicados, edad y cupo del camp). Los encabezados se aceptan en
+ *       español o inglés (p. ej. "Nombres"/"firstName", "Documento"/"identificationNumber").
+ *       Los menores de edad requieren las columnas del acudiente: "Nombre acudiente",
+ *       "Apellido acudiente", "Parentesco" (MADRE, PADRE, ABUELO, TIO, TUTOR... o el valor en inglés),
+ *       "Teléfono acudiente" y opcionalmente "Correo acudiente".
+ *       Con dryRun=true solo se devuelve el reporte sin guardar nada. En una importación
+ *       real las filas válidas se insertan en lotes de 50 dentro de una transacción;
+ *       si una fila del lote falla, el lote completo se revierte y sus filas quedan en FAILED.
+ *       Máximo 2000 filas y 5MB por archivo.
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: campId
+ *         description: Camp destino por defecto (una columna campId/campCode en el archivo tiene prioridad)
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: campCode
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: roleId
+ *         description: Rol por defecto para las filas sin columna roleId o rol
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Reporte de importación por fila
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Importación completada"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     dryRun:
+ *                       type: boolean
+ *                     unmappedColumns:
+ *                       type: array
+ *                       description: Encabezados del archivo que no corresponden a ningún campo
+ *                       items:
+ *                         type: string
+ *                     summary:
+ *                       type: object
+ *                       properties:
+ *                         totalRows:
+ *                           type: integer
+ *                         valid:
+ *                           type: integer
+ *                         invalid:
+ *                           type: integer
+ *                         created:
+ *                           type: integer
+ *                         waitlisted:
+ *                           type: integer
+ *                         failed:
+ *                           type: integer
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           row:
+ *                             type: integer
+ *                             description: Número de fila en la hoja (la fila 1 es el encabezado)
+ *                           status:
+ *                             type: string
+ *                             enum: [VALID, INVALID, CREATED, WAITLISTED, FAILED]
+ *                           identificationNumber:
+ *                             type: string
+ *                           email:
+ *                             type: string
+ *                             nullable: true
+ *                           attendeeId:
+ *                             type: string
+ *                             format: uuid
+ *                           errors:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       413:
+ *         description: El archivo supera 5 MB (code LIMIT_FILE_SIZE)
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/import",
+    authenticate,
+    authorize("attendees:write"),
+    preserveRequestContext(spreadsheetUpload.single("file")),
+    validatorImportCampAttendees,
+    campAttendeesController.importCampAttendees
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}:
+ *   put:
+ *     summary: Actualiza un asistente por ID
+ *     description: Requiere autenticación; se rechaza con 403 (code PASSWORD_CHANGE_REQUIRED) mientras el asistente no haya cambiado su contraseña inicial. Si cambia birthDate o age y el asistente queda como menor de 18 años sin acudientes responde 422 (code GUARDIAN_REQUIRED)
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CampAttendeeUpdateInput'
+ *     responses:
+ *       200:
+ *         description: Asistente actualizado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Asistente actualizado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attendee:
+ *                       $ref: '#/components/schemas/CampAttendee'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.put(
+    "/:id",
+    authenticate,
+    authorizeSelfOr("attendees:write"),
+    requirePasswordChanged,
+    validatorGetCampAttendee,
+    validatorUpdateCampAttendee,
+    campAttendeesController.updateCampAttendee
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/activation:
+ *   patch:
+ *     summary: Activa o desactiva un asistente
+ *     description: Al activar un asistente (isActive=true) su registrationStatus pasa a CONFIRMED solo si la máquina de estados lo permite (desde PAID); en cualquier otro estado la cuenta se activa sin cambiar el estado. Las credenciales se envían en segundo plano. Con REQUIRE_EMAIL_VERIFICATION=true también responde 409 (code EMAIL_NOT_VERIFIED) si el email no está verificado
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               isActive:
+ *                 type: boolean
+ *                 description: Si es true y el asistente está en PAID, también transiciona registrationStatus a CONFIRMED
+ *               credentialMode:
+ *                 type: string
+ *                 enum: [INVITE_LINK, TEMPORARY_PASSWORD]
+ *                 default: INVITE_LINK
+ *                 description: Al activar, enviar un enlace de un solo uso para crear la contraseña o una contraseña temporal aleatoria
+ *               sendCredentials:
+ *                 type: boolean
+ *                 description: Entregar credenciales al activar. Por defecto solo en la primera activación; al reactivar se conserva la contraseña actual salvo que se envíe true
+ *     responses:
+ *       200:
+ *         description: Estado de activación actualizado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Asistente activado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attendee:
+ *                       $ref: '#/components/schemas/CampAttendee'
+ *                     credentialMode:
+ *                       type: string
+ *                       nullable: true
+ *                       enum: [INVITE_LINK, TEMPORARY_PASSWORD]
+ *                       description: Modo usado para entregar credenciales (null si no se enviaron)
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.patch(
+    "/:id/activation",
+    authenticate,
+    authorize("attendees:write"),
+    validatorActivationStatus,
+    campAttendeesController.updateActivationStatus
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/status:
+ *   post:
+ *     summary: Cambia el estado de inscripción de un asistente
+ *     description: |
+ *       Aplica una transición validada por la máquina de estados y la registra en el historial.
+ *       Transiciones permitidas:
+ *       - PENDING_PAYMENT → PAID, CANCELLED
+ *       - PAID → CONFIRMED, CANCELLED
+ *       - CONFIRMED → CANCELLED
+ *       - WAITING_LIST → PENDING_PAYMENT (si hay cupo), CANCELLED
+ *       - CANCELLED → WAITING_LIST
+ *
+ *       Al cancelar a alguien que ocupaba cupo se promueve al primero de la lista de espera.
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [PENDING_PAYMENT, PAID, CONFIRMED, CANCELLED, WAITING_LIST]
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Estado de inscripción actualizado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Estado de inscripción actualizado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attendee:
+ *                       $ref: '#/components/schemas/CampAttendee'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/:id/status",
+    authenticate,
+    authorize("attendees:write"),
+    validatorRegistrationStatusChange,
+    campAttendeesController.changeRegistrationStatus
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/status-history:
+ *   get:
+ *     summary: Historial de estados de inscripción de un asistente
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Historial de estados obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Historial de estados obtenido exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     currentStatus:
+ *                       type: string
+ *                       enum: [PENDING_PAYMENT, PAID, CONFIRMED, CANCELLED, WAITING_LIST]
+ *                     history:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AttendeeStatusHistory'
+ *                     total:
+ *                       type: integer
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id/status-history",
+    authenticate,
+    authorizeSelfOr("attendees:read"),
+    validatorGetCampAttendee,
+    campAttendeesController.getStatusHistory
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/guardians:
+ *   get:
+ *     summary: Lista los acudientes de un asistente
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Acudientes obtenidos exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Acudientes obtenidos exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     guardians:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Guardian'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   post:
+ *     summary: Agrega un acudiente a un asistente
+ *     description: Máximo 5 acudientes por asistente
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/GuardianInput'
+ *     responses:
+ *       201:
+ *         description: Acudiente creado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Acudiente creado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     guardian:
+ *                       $ref: '#/components/schemas/Guardian'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id/guardians",
+    authenticate,
+    authorizeSelfOr("attendees:read"),
+    validatorGetCampAttendee,
+    campAttendeesController.getGuardians
+);
+router.post(
+    "/:id/guardians",
+    authenticate,
+    authorizeSelfOr("attendees:write"),
+    requirePasswordChanged,
+    validatorSaveGuardian,
+    campAttendeesController.addGuardian
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/guardians/{guardianId}:
+ *   put:
+ *     summary: Reemplaza los datos de un acudiente
+ *     description: Si cambia el email, la solicitud de consentimiento pendiente enviada a ese acudiente se revoca
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: guardianId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/GuardianInput'
+ *     responses:
+ *       200:
+ *         description: Acudiente actualizado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Acudiente actualizado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     guardian:
+ *                       $ref: '#/components/schemas/Guardian'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     summary: Elimina un acudiente
+ *     description: Un menor de edad no puede quedarse sin acudientes (409 con code GUARDIAN_REQUIRED). Los consentimientos ya firmados se conservan
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: guardianId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Acudiente eliminado exitosamente
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.put(
+    "/:id/guardians/:guardianId",
+    authenticate,
+    authorizeSelfOr("attendees:write"),
+    requirePasswordChanged,
+    validatorGuardianParams,
+    validatorSaveGuardian,
+    campAttendeesController.updateGuardian
+);
+router.delete(
+    "/:id/guardians/:guardianId",
+    authenticate,
+    authorizeSelfOr("attendees:write"),
+    requirePasswordChanged,
+    validatorGuardianParams,
+    campAttendeesController.deleteGuardian
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/consent:
+ *   get:
+ *     summary: Estado del consentimiento del acudiente
+ *     description: Consentimiento para el camp actual del asistente; solo es obligatorio para menores de 18 años
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Estado del consentimiento obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Estado del consentimiento obtenido exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     consent:
+ *                       $ref: '#/components/schemas/ConsentStatus'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id/consent",
+    authenticate,
+    authorizeSelfOr("attendees:read"),
+    validatorGetCampAttendee,
+    campAttendeesController.getConsent
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/consent/request:
+ *   post:
+ *     summary: Envía al acudiente el enlace para firmar el consentimiento
+ *     description: |
+ *       Solo para menores de 18 años (409 CONSENT_NOT_REQUIRED en otro caso). El acudiente
+ *       debe tener email (422 GUARDIAN_EMAIL_REQUIRED). Revoca la solicitud pendiente anterior;
+ *       el enlace vence según CONSENT_EXPIRES_HOURS. Si ya está firmado para el camp actual
+ *       responde 409 CONSENT_ALREADY_SIGNED.
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [guardianId]
+ *             properties:
+ *               guardianId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Solicitud de consentimiento enviada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Solicitud de consentimiento enviada al acudiente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     consent:
+ *                       $ref: '#/components/schemas/ConsentStatus'
+ *                     emailSent:
+ *                       type: boolean
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       422:
+ *         $ref: '#/components/responses/UnprocessableEntity'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/:id/consent/request",
+    authenticate,
+    authorizeSelfOr("attendees:write"),
+    requirePasswordChanged,
+    validatorRequestConsent,
+    campAttendeesController.requestConsent
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/health-profile:
+ *   get:
+ *     summary: Perfil de salud del asistente
+ *     description: |
+ *       El propio asistente y quienes tienen health:read ven el perfil completo; con
+ *       dietary:read solo se ven alergias, restricciones alimentarias y notas.
+ *       healthProfile es null si el asistente aún no tiene perfil.
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Perfil de salud obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Perfil de salud obtenido exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     healthProfile:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/HealthProfile'
+ *                       nullable: true
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   put:
+ *     summary: Crea o reemplaza el perfil de salud del asistente
+ *     description: Solo el propio asistente o quienes tienen health:write
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/HealthProfileInput'
+ *     responses:
+ *       200:
+ *         description: Perfil de salud actualizado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Perfil de salud actualizado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     healthProfile:
+ *                       $ref: '#/components/schemas/HealthProfile'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       201:
+ *         description: Perfil de salud creado exitosamente
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id/health-profile",
+    authenticate,
+    authorizeSelfOrAny("health:read", "dietary:read"),
+    validatorGetCampAttendee,
+    campAttendeesController.getHealthProfile
+);
+router.put(
+    "/:id/health-profile",
+    authenticate,
+    authorizeSelfOr("health:write"),
+    requirePasswordChanged,
+    validatorSaveHealthProfile,
+    campAttendeesController.saveHealthProfile
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/payments:
+ *   get:
+ *     summary: Pagos y saldo del asistente en su camp actual
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Pagos obtenidos exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Pagos obtenidos exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     payments:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Payment'
+ *                     balance:
+ *                       $ref: '#/components/schemas/PaymentBalance'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   post:
+ *     summary: Registra un pago recibido por tesorería
+ *     description: |
+ *       Si con el pago se cubre el valor a pagar, el asistente en PENDING_PAYMENT pasa
+ *       automáticamente a PAID (queda en el historial de estados con el total pagado y la
+ *       referencia) y se le envía por email el recibo en PDF. No se aceptan pagos de
+ *       inscripciones canceladas. Una referencia repetida para el mismo método en el camp
+ *       responde 409 PAYMENT_DUPLICATE_REFERENCE.
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PaymentInput'
+ *     responses:
+ *       201:
+ *         description: Pago registrado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Pago registrado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     payment:
+ *                       $ref: '#/components/schemas/Payment'
+ *                     balance:
+ *                       $ref: '#/components/schemas/PaymentBalance'
+ *                     registrationStatus:
+ *                       type: string
+ *                       description: Estado del asistente después del pago
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id/payments",
+    authenticate,
+    authorizeSelfOr("payments:read"),
+    validatorGetCampAttendee,
+    campAttendeesController.getPayments
+);
+router.post(
+    "/:id/payments",
+    authenticate,
+    authorize("payments:write"),
+    validatorRecordPayment,
+    campAttendeesController.recordPayment
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/payments/{paymentId}/void:
+ *   post:
+ *     summary: Anula un pago
+ *     description: |
+ *       El pago se conserva como VOIDED y deja de sumar al saldo. El estado PAID del
+ *       asistente no se revierte.
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 minLength: 3
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Pago anulado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Pago anulado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     payment:
+ *                       $ref: '#/components/schemas/Payment'
+ *                     balance:
+ *                       $ref: '#/components/schemas/PaymentBalance'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/:id/payments/:paymentId/void",
+    authenticate,
+    authorize("payments:write"),
+    validatorVoidPayment,
+    campAttendeesController.voidPayment
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/payments/{paymentId}/receipt:
+ *   get:
+ *     summary: Descarga el recibo de un pago aprobado en PDF
+ *     description: El recibo se genera al momento con los totales actuales del asistente
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Recibo en PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   post:
+ *     summary: Vuelve a emitir el recibo de un pago aprobado
+ *     description: |
+ *       El recibo se emite automáticamente cuando el asistente pasa a PAID. Esta acción lo
+ *       regenera, lo almacena en R2 (si está habilitado) y lo envía por email al asistente
+ *       con copia a sus acudientes.
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Recibo de pago emitido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Recibo de pago emitido exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     payment:
+ *                       $ref: '#/components/schemas/Payment'
+ *                     stored:
+ *                       type: boolean
+ *                       description: Si el PDF quedó almacenado en R2
+ *                     emailed:
+ *                       type: boolean
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id/payments/:paymentId/receipt",
+    authenticate,
+    authorizeSelfOr("payments:read"),
+    validatorPaymentReceipt,
+    campAttendeesController.getPaymentReceipt
+);
+router.post(
+    "/:id/payments/:paymentId/receipt",
+    authenticate,
+    authorize("payments:write"),
+    validatorPaymentReceipt,
+    campAttendeesController.reissuePaymentReceipt
+);
+
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/check-in-qr:
+ *   get:
+ *     summary: Descarga el código QR de check-in del asistente (PNG)
+ *     description: |
+ *       Solo para asistentes CONFIRMED (409 CHECK_IN_NOT_CONFIRMED). Es el mismo QR que se
+ *       envía por email al confirmar la asistencia.
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Código QR en PNG
+ *         content:
+ *           image/png:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
 router.get(
-    "/",
-    validatorQueryCampAttendees,
-    campAttendeesController.getCampAttendees
+    "/:id/check-in-qr",
+    authenticate,
+    authorizeSelfOr("attendees:read"),
+    validatorGetCampAttendee,
+    campAttendeesController.getCheckInQr
 );
 
 /**
  * @swagger
- * /api/camp-attendees/check-email:
- *   get:
- *     summary: Verifica si un email ya existe
+ * /api/camp-attendees/{id}/checkout:
+ *   post:
+ *     summary: Genera un enlace de pago en línea
+ *     description: |
+ *       Crea el enlace en la pasarela configurada (PAYMENT_PROVIDER) por el saldo pendiente
+ *       o por un abono menor. El pago se concilia cuando la pasarela notifica a
+ *       /api/payments/webhook. Responde 409 (NO_OUTSTANDING_BALANCE) si no hay saldo.
  *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
- *       - in: query
- *         name: email
+ *       - in: path
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
- *           format: email
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Abono en COP; por defecto, todo el saldo pendiente
  *     responses:
- *       200:
- *         description: Resultado de verificación de email
+ *       201:
+ *         description: Enlace de pago generado exitosamente
  *         content:
  *           application/json:
  *             schema:
@@ -367,43 +2793,72 @@ router.get(
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: "El email ya está registrado"
+ *                   example: "Enlace de pago generado exitosamente"
  *                 data:
  *                   type: object
  *                   properties:
- *                     exists:
- *                       type: boolean
- *                       example: true
+ *                     checkout:
+ *                       $ref: '#/components/schemas/PaymentCheckout'
+ *                     balance:
+ *                       $ref: '#/components/schemas/PaymentBalance'
  *                 timestamp:
  *                   type: string
  *                   format: date-time
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get(
-    "/check-email",
-    validatorCheckEmailUnique,
-    campAttendeesController.checkEmailExists
+router.post(
+    "/:id/checkout",
+    authenticate,
+    authorizeSelfOr("payments:write"),
+    requirePasswordChanged,
+    validatorCreateCheckout,
+    campAttendeesController.createCheckout
 );
 
 /**
  * @swagger
- * /api/camp-attendees/check-identification:
- *   get:
- *     summary: Verifica si un número de identificación ya existe
+ * /api/camp-attendees/{id}/discount-code:
+ *   post:
+ *     summary: Aplica un código de descuento del camp
+ *     description: |
+ *       Un código por asistente y camp. Responde 409 con DISCOUNT_ALREADY_REDEEMED,
+ *       DISCOUNT_CODE_INACTIVE, DISCOUNT_CODE_EXPIRED o DISCOUNT_CODE_EXHAUSTED.
+ *       Si con el descuento queda cubierto el saldo, el asistente pasa a PAID.
  *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
- *       - in: query
- *         name: identificationNumber
+ *       - in: path
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
- *           description: Máximo 10 caracteres alfanuméricos
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: MADRUGADOR
  *     responses:
  *       200:
- *         description: Resultado de verificación de identificación
+ *         description: Código de descuento aplicado exitosamente
  *         content:
  *           application/json:
  *             schema:
@@ -414,33 +2869,35 @@ router.get(
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: "El número de identificación ya está registrado"
+ *                   example: "Código de descuento aplicado exitosamente"
  *                 data:
  *                   type: object
  *                   properties:
- *                     exists:
- *                       type: boolean
- *                       example: true
+ *                     balance:
+ *                       $ref: '#/components/schemas/PaymentBalance'
+ *                     registrationStatus:
+ *                       type: string
+ *                       description: Estado del asistente después del cambio
  *                 timestamp:
  *                   type: string
  *                   format: date-time
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
- */
-router.get(
-    "/check-identification",
-    validatorCheckIdentificationUnique,
-    campAttendeesController.checkIdentificationExists
-);
-
-/**
- * @swagger
- * /api/camp-attendees/{id}:
- *   get:
- *     summary: Obtiene un asistente por ID
+ *   delete:
+ *     summary: Retira el código de descuento aplicado (libera su uso)
  *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -450,7 +2907,7 @@ router.get(
  *           format: uuid
  *     responses:
  *       200:
- *         description: Asistente obtenido exitosamente
+ *         description: Código de descuento retirado exitosamente
  *         content:
  *           application/json:
  *             schema:
@@ -461,41 +2918,58 @@ router.get(
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: "Asistente obtenido exitosamente"
+ *                   example: "Código de descuento retirado exitosamente"
  *                 data:
  *                   type: object
  *                   properties:
- *                     attendee:
- *                       $ref: '#/components/schemas/CampAttendee'
+ *                     balance:
+ *                       $ref: '#/components/schemas/PaymentBalance'
  *                 timestamp:
  *                   type: string
  *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get(
-    "/:id",
+router.post(
+    "/:id/discount-code",
+    authenticate,
+    authorizeSelfOr("payments:write"),
+    requirePasswordChanged,
+    validatorRedeemDiscountCode,
+    campAttendeesController.redeemDiscountCode
+);
+router.delete(
+    "/:id/discount-code",
+    authenticate,
+    authorize("payments:write"),
     validatorGetCampAttendee,
-    campAttendeesController.getCampAttendee
+    campAttendeesController.removeDiscountCode
 );
 
 /**
  * @swagger
- * /api/camp-attendees:
- *   post:
- *     summary: Crea un nuevo asistente
+ * /api/camp-attendees/{id}/scholarships:
+ *   get:
+ *     summary: Becas del asistente en su camp actual
  *     tags: [CampAttendees]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/CampAttendeeCreateInput'
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
  *     responses:
- *       201:
- *         description: Asistente creado exitosamente
+ *       200:
+ *         description: Becas obtenidas exitosamente
  *         content:
  *           application/json:
  *             schema:
@@ -506,34 +2980,30 @@ router.get(
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: "Asistente creado exitosamente"
+ *                   example: "Becas obtenidas exitosamente"
  *                 data:
  *                   type: object
  *                   properties:
- *                     attendee:
- *                       $ref: '#/components/schemas/CampAttendee'
+ *                     scholarships:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Scholarship'
  *                 timestamp:
  *                   type: string
  *                   format: date-time
- *       400:
- *         $ref: '#/components/responses/BadRequest'
- *       409:
- *         $ref: '#/components/responses/Conflict'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
- */
-router.post(
-    "/",
-    validatorCreateCampAttendee,
-    campAttendeesController.createCampAttendee
-);
-
-/**
- * @swagger
- * /api/camp-attendees/{id}:
- *   put:
- *     summary: Actualiza un asistente por ID
+ *   post:
+ *     summary: Solicita una beca (queda PENDING hasta que un administrador la apruebe)
  *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -546,10 +3016,23 @@ router.post(
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/CampAttendeeUpdateInput'
+ *             type: object
+ *             required: [discountType, value, reason]
+ *             properties:
+ *               discountType:
+ *                 type: string
+ *                 enum: [PERCENTAGE, FIXED]
+ *               value:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Porcentaje (1-100) o COP según discountType
+ *               reason:
+ *                 type: string
+ *                 minLength: 3
+ *                 maxLength: 500
  *     responses:
- *       200:
- *         description: Asistente actualizado exitosamente
+ *       201:
+ *         description: Beca solicitada exitosamente
  *         content:
  *           application/json:
  *             schema:
@@ -560,38 +3043,55 @@ router.post(
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: "Asistente actualizado exitosamente"
+ *                   example: "Beca solicitada exitosamente"
  *                 data:
  *                   type: object
  *                   properties:
- *                     attendee:
- *                       $ref: '#/components/schemas/CampAttendee'
+ *                     scholarship:
+ *                       $ref: '#/components/schemas/Scholarship'
  *                 timestamp:
  *                   type: string
  *                   format: date-time
  *       400:
  *         $ref: '#/components/responses/BadRequest'
- *       409:
- *         $ref: '#/components/responses/Conflict'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.put(
-    "/:id",
+router.get(
+    "/:id/scholarships",
+    authenticate,
+    authorizeSelfOr("payments:read"),
     validatorGetCampAttendee,
-    validatorUpdateCampAttendee,
-    campAttendeesController.updateCampAttendee
+    campAttendeesController.getScholarships
+);
+router.post(
+    "/:id/scholarships",
+    authenticate,
+    authorize("payments:write"),
+    validatorRequestScholarship,
+    campAttendeesController.requestScholarship
 );
 
 /**
  * @swagger
- * /api/camp-attendees/{id}/activation:
- *   patch:
- *     summary: Activa o desactiva un asistente
- *     description: Al activar un asistente (isActive=true), también se actualiza automáticamente el campo registrationStatus a CONFIRMED
+ * /api/camp-attendees/{id}/scholarships/{scholarshipId}/review:
+ *   post:
+ *     summary: Aprueba, rechaza o revoca una beca
+ *     description: |
+ *       PENDING puede pasar a APPROVED o REJECTED; APPROVED solo a REVOKED (si no, 409
+ *       INVALID_SCHOLARSHIP_TRANSITION). Al aprobarla se recalcula el saldo y, si queda
+ *       cubierto, el asistente pasa a PAID. Revocarla no revierte ese estado.
  *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -599,19 +3099,30 @@ router.put(
  *         schema:
  *           type: string
  *           format: uuid
+ *       - in: path
+ *         name: scholarshipId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required: [decision]
  *             properties:
- *               isActive:
- *                 type: boolean
- *                 description: Si es true, también actualiza registrationStatus a CONFIRMED
+ *               decision:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED, REVOKED]
+ *               notes:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 500
  *     responses:
  *       200:
- *         description: Estado de activación actualizado exitosamente
+ *         description: Beca revisada exitosamente
  *         content:
  *           application/json:
  *             schema:
@@ -622,26 +3133,39 @@ router.put(
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: "Asistente activado exitosamente"
+ *                   example: "Beca revisada exitosamente"
  *                 data:
  *                   type: object
  *                   properties:
- *                     attendee:
- *                       $ref: '#/components/schemas/CampAttendee'
+ *                     scholarship:
+ *                       $ref: '#/components/schemas/Scholarship'
+ *                     balance:
+ *                       $ref: '#/components/schemas/PaymentBalance'
+ *                     registrationStatus:
+ *                       type: string
+ *                       description: Estado del asistente después del cambio
  *                 timestamp:
  *                   type: string
  *                   format: date-time
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.patch(
-    "/:id/activation",
-    validatorActivationStatus,
-    campAttendeesController.updateActivationStatus
+router.post(
+    "/:id/scholarships/:scholarshipId/review",
+    authenticate,
+    authorize("scholarships:approve"),
+    validatorReviewScholarship,
+    campAttendeesController.reviewScholarship
 );
 
 /**
@@ -649,7 +3173,10 @@ router.patch(
  * /api/camp-attendees/{id}/change-password:
  *   post:
  *     summary: Cambia la contraseña de un asistente
+ *     description: Un cambio exitoso desactiva mustChangePassword
  *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -696,6 +3223,8 @@ router.patch(
  *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
@@ -703,6 +3232,8 @@ router.patch(
  */
 router.post(
     "/:id/change-password",
+    authenticate,
+    authorizeSelfOr("attendees:write"),
     validatorChangePassword,
     campAttendeesController.changePassword
 );
@@ -712,7 +3243,10 @@ router.post(
  * /api/camp-attendees/{id}:
  *   delete:
  *     summary: Elimina (soft delete) un asistente por ID
+ *     description: Si el asistente ocupaba cupo, el primero de la lista de espera pasa a PENDING_PAYMENT y se le notifica por email
  *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -746,6 +3280,10 @@ router.post(
  *                 timestamp:
  *                   type: string
  *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
@@ -753,8 +3291,74 @@ router.post(
  */
 router.delete(
     "/:id",
+    authenticate,
+    authorize("attendees:write"),
     validatorGetCampAttendee,
     campAttendeesController.deleteCampAttendee
 );
 
+/**
+ * @swagger
+ * /api/camp-attendees/{id}/restore:
+ *   post:
+ *     summary: Restaura un asistente eliminado
+ *     description: Se rechaza si otro asistente activo usa su email o número de identificación, o si su camp o su rol siguen eliminados. Si su estado ocupa cupo (PENDING_PAYMENT, PAID o CONFIRMED) y el camp está lleno responde 409 con code CAMP_FULL; el estado y los pagos no se modifican.
+ *     tags: [CampAttendees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Asistente restaurado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Asistente restaurado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attendee:
+ *                       $ref: '#/components/schemas/CampAttendee'
+ *                     waitlistPosition:
+ *                       type: integer
+ *                       nullable: true
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: El asistente no está eliminado, hay un duplicado de email/identificación o su camp/rol está eliminado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/:id/restore",
+    authenticate,
+    authorize("attendees:write"),
+    validatorGetCampAttendee,
+    campAttendeesController.restoreCampAttendee
+);
+
 export default router;
@@ -0,0 +1,1654 @@
+import { Router } from "express";
+import campsController from "../controllers/camps";
+import { authenticate } from "../middlewares/authenticate";
+import { authorize, authorizeAny } from "../middlewares/authorize";
+import {
+    validatorCreateCamp,
+    validatorGetCamp,
+    validatorUpdateCamp,
+    validatorGetCampByCode,
+    validatorQueryCamps,
+    validatorCampReport,
+    validatorCampStats,
+} from "../validators/camps";
+import {
+    validatorCreateDiscountCode,
+    validatorUpdateDiscountCode,
+} from "../validators/discountCodes";
+import { validatorQueryCampScholarships } from "../validators/scholarships";
+import { validatorCheckIn } from "../validators/checkIns";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Camps
+ *   description: Gestión de campamentos
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     InstallmentPlanItem:
+ *       type: object
+ *       required: [dueDate, percentage]
+ *       properties:
+ *         dueDate:
+ *           type: string
+ *           format: date
+ *           example: "2025-06-30"
+ *         percentage:
+ *           type: number
+ *           minimum: 0.01
+ *           maximum: 100
+ *           example: 50
+ *     FeeRule:
+ *       type: object
+ *       required: [amount]
+ *       description: |
+ *         Tarifa diferencial. La primera regla cuyos criterios cumple el asistente reemplaza
+ *         a feeAmount; los criterios ausentes no se evalúan (se requiere al menos uno).
+ *       properties:
+ *         label:
+ *           type: string
+ *           example: Líderes
+ *         roleCodes:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: [LIDER, PASTOR]
+ *         assistantSubRoles:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [NONE, MONITOR, GROUP_LEADER]
+ *         registeredUntil:
+ *           type: string
+ *           format: date
+ *           description: Inscritos hasta ese día inclusive (hora Colombia)
+ *           example: "2025-03-31"
+ *         amount:
+ *           type: integer
+ *           minimum: 0
+ *           example: 250000
+ *     DiscountCodeInput:
+ *       type: object
+ *       properties:
+ *         code:
+ *           type: string
+ *           description: Se guarda en mayúsculas; único por camp
+ *           example: MADRUGADOR
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         discountType:
+ *           type: string
+ *           enum: [PERCENTAGE, FIXED]
+ *         value:
+ *           type: integer
+ *           minimum: 1
+ *           description: Porcentaje (1-100) o COP según discountType
+ *         maxUses:
+ *           type: integer
+ *           nullable: true
+ *           description: null = sin límite
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ *     DiscountCode:
+ *       allOf:
+ *         - $ref: '#/components/schemas/DiscountCodeInput'
+ *         - type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             campId:
+ *               type: string
+ *               format: uuid
+ *             uses:
+ *               type: integer
+ *             remainingUses:
+ *               type: integer
+ *               nullable: true
+ *     CheckIn:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         attendeeId:
+ *           type: string
+ *           format: uuid
+ *         campId:
+ *           type: string
+ *           format: uuid
+ *         method:
+ *           type: string
+ *           enum: [QR, MANUAL]
+ *           description: MANUAL = búsqueda por número de identificación
+ *         device:
+ *           type: string
+ *           nullable: true
+ *         checkedInBy:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Staff que registró la llegada
+ *         checkedInAt:
+ *           type: string
+ *           format: date-time
+ *     Camp:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           readOnly: true
+ *         name:
+ *           type: string
+ *           maxLength: 150
+ *         code:
+ *           type: string
+ *           maxLength: 50
+ *           description: Código único del camp (letras, números, guiones y guion bajo)
+ *         theme:
+ *           type: string
+ *           nullable: true
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         startDate:
+ *           type: string
+ *           format: date
+ *         endDate:
+ *           type: string
+ *           format: date
+ *           description: Debe ser igual o posterior a startDate
+ *         city:
+ *           type: string
+ *         country:
+ *           type: string
+ *           default: "Colombia"
+ *         venue:
+ *           type: string
+ *           nullable: true
+ *         maxAttendees:
+ *           type: integer
+ *           minimum: 1
+ *           nullable: true
+ *         feeAmount:
+ *           type: integer
+ *           minimum: 0
+ *           nullable: true
+ *           description: Tarifa en COP (sin decimales); null = el camp no cobra
+ *           example: 350000
+ *         installmentPlan:
+ *           type: array
+ *           nullable: true
+ *           description: Cuotas opcionales; los porcentajes deben sumar 100 y las fechas ir en orden
+ *           items:
+ *             $ref: '#/components/schemas/InstallmentPlanItem'
+ *         feeRules:
+ *           type: array
+ *           nullable: true
+ *           description: Tarifas por rol, subrol o fecha de inscripción (se evalúan en orden)
+ *           items:
+ *             $ref: '#/components/schemas/FeeRule'
+ *         registrationOpensAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         registrationClosesAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Debe ser posterior a registrationOpensAt
+ *         status:
+ *           type: string
+ *           enum: [DRAFT, OPEN, CLOSED, FINISHED, CANCELLED]
+ *           default: DRAFT
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           readOnly: true
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *           readOnly: true
+ *     CampCreateInput:
+ *       type: object
+ *       required: [name, code, startDate, endDate, city]
+ *       properties:
+ *         name:
+ *           type: string
+ *         code:
+ *           type: string
+ *         theme:
+ *           type: string
+ *           nullable: true
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         startDate:
+ *           type: string
+ *           format: date
+ *         endDate:
+ *           type: string
+ *           format: date
+ *         city:
+ *           type: string
+ *         country:
+ *           type: string
+ *         venue:
+ *           type: string
+ *           nullable: true
+ *         maxAttendees:
+ *           type: integer
+ *           minimum: 1
+ *           nullable: true
+ *         feeAmount:
+ *           type: integer
+ *           minimum: 0
+ *           nullable: true
+ *           description: Tarifa en COP (sin decimales); null = el camp no cobra
+ *           example: 350000
+ *         installmentPlan:
+ *           type: array
+ *           nullable: true
+ *           description: Cuotas opcionales; los porcentajes deben sumar 100 y las fechas ir en orden
+ *           items:
+ *             $ref: '#/components/schemas/InstallmentPlanItem'
+ *         feeRules:
+ *           type: array
+ *           nullable: true
+ *           description: Tarifas por rol, subrol o fecha de inscripción (se evalúan en orden)
+ *           items:
+ *             $ref: '#/components/schemas/FeeRule'
+ *         registrationOpensAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         registrationClosesAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [DRAFT, OPEN, CLOSED, FINISHED, CANCELLED]
+ *     CampUpdateInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *         code:
+ *           type: string
+ *         theme:
+ *           type: string
+ *           nullable: true
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         startDate:
+ *           type: string
+ *           format: date
+ *         endDate:
+ *           type: string
+ *           format: date
+ *         city:
+ *           type: string
+ *         country:
+ *           type: string
+ *         venue:
+ *           type: string
+ *           nullable: true
+ *         maxAttendees:
+ *           type: integer
+ *           minimum: 1
+ *           nullable: true
+ *         feeAmount:
+ *           type: integer
+ *           minimum: 0
+ *           nullable: true
+ *           description: Tarifa en COP (sin decimales); null = el camp no cobra
+ *           example: 350000
+ *         installmentPlan:
+ *           type: array
+ *           nullable: true
+ *           description: Cuotas opcionales; los porcentajes deben sumar 100 y las fechas ir en orden
+ *           items:
+ *             $ref: '#/components/schemas/InstallmentPlanItem'
+ *         feeRules:
+ *           type: array
+ *           nullable: true
+ *           description: Tarifas por rol, subrol o fecha de inscripción (se evalúan en orden)
+ *           items:
+ *             $ref: '#/components/schemas/FeeRule'
+ *         registrationOpensAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         registrationClosesAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [DRAFT, OPEN, CLOSED, FINISHED, CANCELLED]
+ */
+
+/**
+ * @swagger
+ * /api/camps:
+ *   get:
+ *     summary: Lista camps
+ *     tags: [Camps]
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *         description: Incluir registros eliminados (soft delete)
+ *     responses:
+ *       200:
+ *         description: Lista de camps obtenida exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Lista de camps obtenida exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     camps:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Camp'
+ *                     total:
+ *                       type: integer
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get("/", validatorQueryCamps, campsController.getCamps);
+
+/**
+ * @swagger
+ * /api/camps/code/{code}:
+ *   get:
+ *     summary: Obtiene un camp por código
+ *     tags: [Camps]
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Camp obtenido exitosamente por código
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Camp obtenido exitosamente por código"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     camp:
+ *                       $ref: '#/components/schemas/Camp'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/code/:code",
+    validatorGetCampByCode,
+    campsController.getCampByCode
+);
+
+/**
+ * @swagger
+ * /api/camps/{id}:
+ *   get:
+ *     summary: Obtiene un camp por ID
+ *     tags: [Camps]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Camp obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Camp obtenido exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     camp:
+ *                       $ref: '#/components/schemas/Camp'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get("/:id", validatorGetCamp, campsController.getCamp);
+
+/**
+ * @swagger
+ * /api/camps:
+ *   post:
+ *     summary: Crea un nuevo camp
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CampCreateInput'
+ *     responses:
+ *       201:
+ *         description: Camp creado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Camp creado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     camp:
+ *                       $ref: '#/components/schemas/Camp'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/",
+    authenticate,
+    authorize("camps:manage"),
+    validatorCreateCamp,
+    campsController.createCamp
+);
+
+/**
+ * @swagger
+ * /api/camps/{id}:
+ *   put:
+ *     summary: Actualiza un camp por ID
+ *     description: Solo se modifican los campos enviados. El orden de fechas se valida contra los valores ya guardados.
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CampUpdateInput'
+ *     responses:
+ *       200:
+ *         description: Camp actualizado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Camp actualizado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     camp:
+ *                       $ref: '#/components/schemas/Camp'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.put(
+    "/:id",
+    authenticate,
+    authorize("camps:manage"),
+    validatorGetCamp,
+    validatorUpdateCamp,
+    campsController.updateCamp
+);
+
+/**
+ * @swagger
+ * /api/camps/{id}:
+ *   delete:
+ *     summary: Elimina (soft delete) un camp por ID
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Camp eliminado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Camp eliminado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *                     deleted:
+ *                       type: boolean
+ *                       example: true
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.delete(
+    "/:id",
+    authenticate,
+    authorize("camps:manage"),
+    validatorGetCamp,
+    campsController.deleteCamp
+);
+
+/**
+ * @swagger
+ * /api/camps/{id}/restore:
+ *   post:
+ *     summary: Restaura un camp eliminado
+ *     description: Solo aplica a camps eliminados (soft delete)
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Camp restaurado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Camp restaurado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     camp:
+ *                       $ref: '#/components/schemas/Camp'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: El camp no está eliminado o su code ya está en uso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/:id/restore",
+    authenticate,
+    authorize("camps:manage"),
+    validatorGetCamp,
+    campsController.restoreCamp
+);
+
+/**
+ * @swagger
+ * /api/camps/{id}/stats:
+ *   get:
+ *     summary: Estadísticas del camp para el dashboard
+ *     description: |
+ *       Calculadas con agregados SQL. byRegistrationStatus, totalRegistrations y
+ *       registrationsPerDay (desde registrationOpensAt) cuentan todas las inscripciones;
+ *       el resto solo las que ocupan cupo (PENDING_PAYMENT, PAID y CONFIRMED).
+ *       Los valores sin dato se agrupan como "unknown".
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: top
+ *         description: Cantidad de ciudades e iglesias en topCities y topChurches
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Estadísticas del camp obtenidas exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Estadísticas del camp obtenidas exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     stats:
+ *                       type: object
+ *                       properties:
+ *                         campId:
+ *                           type: string
+ *                           format: uuid
+ *                         generatedAt:
+ *                           type: string
+ *                           format: date-time
+ *                         totalRegistrations:
+ *                           type: integer
+ *                         capacity:
+ *                           type: object
+ *                           properties:
+ *                             maxAttendees:
+ *                               type: integer
+ *                               nullable: true
+ *                             occupied:
+ *                               type: integer
+ *                             remaining:
+ *                               type: integer
+ *                               nullable: true
+ *                               description: null si el camp no tiene cupo máximo
+ *                             waitingList:
+ *                               type: integer
+ *                             isFull:
+ *                               type: boolean
+ *                         byRegistrationStatus:
+ *                           type: object
+ *                           additionalProperties:
+ *                             type: integer
+ *                           example: { PENDING_PAYMENT: 12, PAID: 40, CONFIRMED: 85, CANCELLED: 3, WAITING_LIST: 7 }
+ *                         byRole:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               code:
+ *                                 type: string
+ *                               name:
+ *                                 type: string
+ *                               count:
+ *                                 type: integer
+ *                         byAssistantSubRole:
+ *                           type: object
+ *                           additionalProperties:
+ *                             type: integer
+ *                           example: { NONE: 120, MONITOR: 10, GROUP_LEADER: 7 }
+ *                         byGender:
+ *                           type: object
+ *                           additionalProperties:
+ *                             type: integer
+ *                           example: { M: 60, F: 70, unknown: 7 }
+ *                         ageHistogram:
+ *                           type: array
+ *                           description: Edad calculada con birthDate o, si no hay, la declarada (null = desconocida)
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               age:
+ *                                 type: integer
+ *                                 nullable: true
+ *                               count:
+ *                                 type: integer
+ *                         byShirtSize:
+ *                           type: object
+ *                           additionalProperties:
+ *                             type: integer
+ *                           example: { XS: 3, S: 30, M: 50, L: 35, XL: 12, unknown: 7 }
+ *                         topCities:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               city:
+ *                                 type: string
+ *                               count:
+ *                                 type: integer
+ *                         topChurches:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               churchPastor:
+ *                                 type: string
+ *                               count:
+ *                                 type: integer
+ *                         registrationsPerDay:
+ *                           type: object
+ *                           properties:
+ *                             since:
+ *                               type: string
+ *                               format: date-time
+ *                               nullable: true
+ *                             days:
+ *                               type: array
+ *                               items:
+ *                                 type: object
+ *                                 properties:
+ *                                   date:
+ *                                     type: string
+ *                                     format: date
+ *                                   count:
+ *                                     type: integer
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id/stats",
+    authenticate,
+    authorize("reports:read"),
+    validatorCampStats,
+    campsController.getCampStats
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReportAttendee:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         age:
+ *           type: integer
+ *           nullable: true
+ *     ReportAllergyGroup:
+ *       type: object
+ *       description: Alergia agrupada por nombre (sin distinguir mayúsculas ni tildes)
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "Maní"
+ *         count:
+ *           type: integer
+ *         attendees:
+ *           type: array
+ *           items:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ReportAttendee'
+ *               - type: object
+ *                 properties:
+ *                   severity:
+ *                     type: string
+ *                     enum: [MILD, MODERATE, SEVERE, LIFE_THREATENING]
+ *                   reaction:
+ *                     type: string
+ *                     nullable: true
+ *     CampReportHeader:
+ *       type: object
+ *       properties:
+ *         camp:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             code:
+ *               type: string
+ *             startDate:
+ *               type: string
+ *               format: date
+ *             endDate:
+ *               type: string
+ *               format: date
+ *         generatedAt:
+ *           type: string
+ *           format: date-time
+ *         statuses:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: [CONFIRMED, PAID]
+ *         totalAttendees:
+ *           type: integer
+ */
+
+/**
+ * @swagger
+ * /api/camps/{id}/reports/dietary:
+ *   get:
+ *     summary: Informe de alimentación del camp (alergias y restricciones)
+ *     description: |
+ *       Totales y listas de asistentes por alergia y por restricción alimentaria, más
+ *       las observaciones de cada perfil de salud. Solo incluye asistentes CONFIRMED o PAID.
+ *       Requiere dietary:read o health:read.
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         description: json (por defecto), csv (descarga) o pdf (imprimible)
+ *         schema:
+ *           type: string
+ *           enum: [json, csv, pdf]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Informe de alimentación generado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Informe de alimentación generado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     report:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/CampReportHeader'
+ *                         - type: object
+ *                           properties:
+ *                             allergies:
+ *                               type: array
+ *                               items:
+ *                                 $ref: '#/components/schemas/ReportAllergyGroup'
+ *                             dietaryRestrictions:
+ *                               type: array
+ *                               items:
+ *                                 type: object
+ *                                 properties:
+ *                                   restriction:
+ *                                     type: string
+ *                                     example: VEGAN
+ *                                   count:
+ *                                     type: integer
+ *                                   attendees:
+ *                                     type: array
+ *                                     items:
+ *                                       $ref: '#/components/schemas/ReportAttendee'
+ *                             notes:
+ *                               type: array
+ *                               items:
+ *                                 allOf:
+ *                                   - $ref: '#/components/schemas/ReportAttendee'
+ *                                   - type: object
+ *                                     properties:
+ *                                       dietaryNotes:
+ *                                         type: string
+ *                                         nullable: true
+ *                                       notes:
+ *                                         type: string
+ *                                         nullable: true
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id/reports/dietary",
+    authenticate,
+    authorizeAny("dietary:read", "health:read"),
+    validatorCampReport,
+    campsController.getDietaryReport
+);
+
+/**
+ * @swagger
+ * /api/camps/{id}/reports/medical:
+ *   get:
+ *     summary: Informe médico del camp
+ *     description: |
+ *       Resumen, alergias y condiciones agrupadas con sus asistentes, y el detalle de cada
+ *       asistente con información médica (medicamentos, contacto de emergencia, seguro).
+ *       Solo incluye asistentes CONFIRMED o PAID. Requiere health:read.
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         description: json (por defecto), csv (descarga) o pdf (imprimible)
+ *         schema:
+ *           type: string
+ *           enum: [json, csv, pdf]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Informe médico generado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Informe médico generado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     report:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/CampReportHeader'
+ *                         - type: object
+ *                           properties:
+ *                             summary:
+ *                               type: object
+ *                               properties:
+ *                                 withAllergies:
+ *                                   type: integer
+ *                                 withSeriousAllergies:
+ *                                   type: integer
+ *                                   description: Con alguna alergia SEVERE o LIFE_THREATENING
+ *                                 withMedications:
+ *                                   type: integer
+ *                                 withConditions:
+ *                                   type: integer
+ *                                 withoutProfile:
+ *                                   type: integer
+ *                             allergies:
+ *                               type: array
+ *                               items:
+ *                                 $ref: '#/components/schemas/ReportAllergyGroup'
+ *                             conditions:
+ *                               type: array
+ *                               items:
+ *                                 type: object
+ *                                 properties:
+ *                                   name:
+ *                                     type: string
+ *                                   count:
+ *                                     type: integer
+ *                                   attendees:
+ *                                     type: array
+ *                                     items:
+ *                                       $ref: '#/components/schemas/ReportAttendee'
+ *                             attendees:
+ *                               type: array
+ *                               items:
+ *                                 allOf:
+ *                                   - $ref: '#/components/schemas/ReportAttendee'
+ *                                   - $ref: '#/components/schemas/HealthProfileInput'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id/reports/medical",
+    authenticate,
+    authorize("health:read"),
+    validatorCampReport,
+    campsController.getMedicalReport
+);
+
+/**
+ * @swagger
+ * /api/camps/{id}/payments/summary:
+ *   get:
+ *     summary: Resumen de recaudo del camp
+ *     description: |
+ *       Valor esperado, pendiente y vencido sobre las inscripciones que ocupan cupo;
+ *       lo recaudado suma todos los pagos aprobados del camp, también por método.
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Resumen de pagos obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Resumen de pagos obtenido exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     summary:
+ *                       type: object
+ *                       properties:
+ *                         campId:
+ *                           type: string
+ *                           format: uuid
+ *                         currency:
+ *                           type: string
+ *                           example: COP
+ *                         feeAmount:
+ *                           type: integer
+ *                           nullable: true
+ *                         feeRules:
+ *                           type: array
+ *                           nullable: true
+ *                           items:
+ *                             $ref: '#/components/schemas/FeeRule'
+ *                         installmentPlan:
+ *                           type: array
+ *                           nullable: true
+ *                           items:
+ *                             $ref: '#/components/schemas/InstallmentPlanItem'
+ *                         totals:
+ *                           type: object
+ *                           properties:
+ *                             expected:
+ *                               type: integer
+ *                             collected:
+ *                               type: integer
+ *                             outstanding:
+ *                               type: integer
+ *                             overdue:
+ *                               type: integer
+ *                             discounts:
+ *                               type: integer
+ *                               description: Descontado por códigos
+ *                             scholarships:
+ *                               type: integer
+ *                               description: Descontado por becas aprobadas
+ *                         attendees:
+ *                           type: object
+ *                           properties:
+ *                             attendees:
+ *                               type: integer
+ *                             fullyPaid:
+ *                               type: integer
+ *                             partiallyPaid:
+ *                               type: integer
+ *                             unpaid:
+ *                               type: integer
+ *                             withOverdue:
+ *                               type: integer
+ *                         byMethod:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               method:
+ *                                 type: string
+ *                               count:
+ *                                 type: integer
+ *                               total:
+ *                                 type: integer
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id/payments/summary",
+    authenticate,
+    authorize("payments:read"),
+    validatorGetCamp,
+    campsController.getPaymentsSummary
+);
+
+/**
+ * @swagger
+ * /api/camps/{id}/discount-codes:
+ *   get:
+ *     summary: Códigos de descuento del camp con sus usos
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Códigos de descuento obtenidos exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Códigos de descuento obtenidos exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     discountCodes:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/DiscountCode'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   post:
+ *     summary: Crea un código de descuento
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/DiscountCodeInput'
+ *               - type: object
+ *                 required: [code, discountType, value]
+ *     responses:
+ *       201:
+ *         description: Código de descuento creado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Código de descuento creado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     discountCode:
+ *                       $ref: '#/components/schemas/DiscountCode'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id/discount-codes",
+    authenticate,
+    authorize("payments:read"),
+    validatorGetCamp,
+    campsController.getDiscountCodes
+);
+router.post(
+    "/:id/discount-codes",
+    authenticate,
+    authorize("payments:write"),
+    validatorCreateDiscountCode,
+    campsController.createDiscountCode
+);
+
+/**
+ * @swagger
+ * /api/camps/{id}/discount-codes/{codeId}:
+ *   put:
+ *     summary: Modifica un código de descuento
+ *     description: |
+ *       Solo cambian los campos enviados. Quienes ya lo redimieron conservan el descuento
+ *       con los valores nuevos; para dejar de aceptarlo use isActive=false. maxUses no puede
+ *       quedar por debajo de los usos actuales (409).
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: codeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DiscountCodeInput'
+ *     responses:
+ *       200:
+ *         description: Código de descuento actualizado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Código de descuento actualizado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     discountCode:
+ *                       $ref: '#/components/schemas/DiscountCode'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.put(
+    "/:id/discount-codes/:codeId",
+    authenticate,
+    authorize("payments:write"),
+    validatorUpdateDiscountCode,
+    campsController.updateDiscountCode
+);
+
+/**
+ * @swagger
+ * /api/camps/{id}/scholarships:
+ *   get:
+ *     summary: Becas del camp (por ejemplo, las pendientes de aprobación)
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED, REVOKED]
+ *     responses:
+ *       200:
+ *         description: Becas obtenidas exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Becas obtenidas exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     scholarships:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Scholarship'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/:id/scholarships",
+    authenticate,
+    authorize("payments:read"),
+    validatorQueryCampScholarships,
+    campsController.getScholarships
+);
+
+/**
+ * @swagger
+ * /api/camps/{id}/check-in:
+ *   post:
+ *     summary: Registra la llegada de un asistente al camp
+ *     description: |
+ *       Con el contenido del código QR del asistente (token) o, como respaldo, con su número
+ *       de identificación. Solo se aceptan asistentes CONFIRMED del camp y una sola llegada
+ *       por asistente. El QR vence al terminar el día siguiente a endDate del camp.
+ *       Errores: 400 INVALID_CHECK_IN_TOKEN (inválido o vencido), 409 CHECK_IN_WRONG_CAMP,
+ *       409 CHECK_IN_NOT_CONFIRMED, 409 ALREADY_CHECKED_IN.
+ *     tags: [Camps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Enviar token o identificationNumber (solo uno)
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Contenido leído del código QR
+ *               identificationNumber:
+ *                 type: string
+ *                 example: "1234567890"
+ *               device:
+ *                 type: string
+ *                 maxLength: 255
+ *                 description: Dispositivo que registra la llegada (por defecto, el User-Agent)
+ *                 example: Tablet entrada principal
+ *     responses:
+ *       201:
+ *         description: Check-in registrado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Check-in registrado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     checkIn:
+ *                       $ref: '#/components/schemas/CheckIn'
+ *                     attendee:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           format: uuid
+ *                         firstName:
+ *                           type: string
+ *                         lastName:
+ *                           type: string
+ *                         identificationType:
+ *                           type: string
+ *                           enum: [CC, PP, TI]
+ *                         identificationNumber:
+ *                           type: string
+ *                         registrationStatus:
+ *                           type: string
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/:id/check-in",
+    authenticate,
+    authorize("checkin:write"),
+    validatorCheckIn,
+    campsController.checkIn
+);
+
+export default router;
@@ -0,0 +1,165 @@
+import { Router } from "express";
+import consentsController from "../controllers/consents";
+import {
+    validatorConsentForm,
+    validatorSignConsent,
+} from "../validators/consents";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Consents
+ *   description: Firma del consentimiento de acudientes de menores (enlace enviado por email, sin autenticación)
+ */
+
+/**
+ * @swagger
+ * /api/consents/form:
+ *   get:
+ *     summary: Obtiene el formulario de consentimiento de un enlace
+ *     description: Datos del menor, del camp y del acudiente, junto con las declaraciones a aceptar. Responde 400 si el enlace es inválido, venció o fue reemplazado, y 409 (CONSENT_ALREADY_SIGNED) si ya se firmó
+ *     tags: [Consents]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Formulario de consentimiento obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Formulario de consentimiento obtenido exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     formVersion:
+ *                       type: string
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                     attendee:
+ *                       type: object
+ *                       properties:
+ *                         firstName:
+ *                           type: string
+ *                         lastName:
+ *                           type: string
+ *                         birthDate:
+ *                           type: string
+ *                           format: date
+ *                           nullable: true
+ *                     camp:
+ *                       type: object
+ *                       properties:
+ *                         name:
+ *                           type: string
+ *                         startDate:
+ *                           type: string
+ *                           format: date
+ *                         endDate:
+ *                           type: string
+ *                           format: date
+ *                         city:
+ *                           type: string
+ *                         venue:
+ *                           type: string
+ *                           nullable: true
+ *                     guardian:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         firstName:
+ *                           type: string
+ *                         lastName:
+ *                           type: string
+ *                         relationship:
+ *                           type: string
+ *                     statements:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get("/form", validatorConsentForm, consentsController.getForm);
+
+/**
+ * @swagger
+ * /api/consents/sign:
+ *   post:
+ *     summary: Firma el consentimiento
+ *     description: Consume el enlace (un solo uso) y guarda el nombre escrito por el acudiente, la fecha, la IP y el navegador como evidencia
+ *     tags: [Consents]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, signedName, accept]
+ *             properties:
+ *               token:
+ *                 type: string
+ *               signedName:
+ *                 type: string
+ *                 minLength: 3
+ *                 maxLength: 200
+ *                 description: Nombre completo del acudiente que firma
+ *               accept:
+ *                 type: boolean
+ *                 description: Debe ser true
+ *     responses:
+ *       200:
+ *         description: Consentimiento firmado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Consentimiento firmado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     status:
+ *                       type: string
+ *                       example: SIGNED
+ *                     signedAt:
+ *                       type: string
+ *                       format: date-time
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/sign", validatorSignConsent, consentsController.sign);
+
+export default router;
@@ -0,0 +1,146 @@
+import { Router } from "express";
+import healthProfilesController from "../controllers/healthProfiles";
+import { authenticate } from "../middlewares/authenticate";
+import { authorizeAny } from "../middlewares/authorize";
+import { validatorQueryHealthProfiles } from "../validators/healthProfiles";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: HealthProfiles
+ *   description: Perfiles médicos y alimentarios de los asistentes
+ */
+
+/**
+ * @swagger
+ * /api/health-profiles:
+ *   get:
+ *     summary: Lista los perfiles de salud (por apellido y nombre del asistente)
+ *     description: |
+ *       Requiere health:read (perfil completo) o dietary:read (solo alergias,
+ *       restricciones alimentarias y notas, para el equipo de cocina).
+ *     tags: [HealthProfiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: campId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: allergen
+ *         description: Coincidencia parcial en el nombre de alguna alergia
+ *         schema:
+ *           type: string
+ *           example: "maní"
+ *       - in: query
+ *         name: severity
+ *         schema:
+ *           type: string
+ *           enum: [MILD, MODERATE, SEVERE, LIFE_THREATENING]
+ *       - in: query
+ *         name: dietaryRestriction
+ *         description: Una o varias separadas por coma; el perfil debe tenerlas todas
+ *         schema:
+ *           type: string
+ *           example: "VEGAN,GLUTEN_FREE"
+ *       - in: query
+ *         name: withMedications
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Perfiles de salud obtenidos exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Perfiles de salud obtenidos exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     healthProfiles:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/HealthProfile'
+ *                           - type: object
+ *                             properties:
+ *                               attendee:
+ *                                 type: object
+ *                                 properties:
+ *                                   id:
+ *                                     type: string
+ *                                     format: uuid
+ *                                   firstName:
+ *                                     type: string
+ *                                   lastName:
+ *                                     type: string
+ *                                   campId:
+ *                                     type: string
+ *                                     format: uuid
+ *                                   birthDate:
+ *                                     type: string
+ *                                     format: date
+ *                                     nullable: true
+ *                                   age:
+ *                                     type: integer
+ *                                     nullable: true
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         page:
+ *                           type: integer
+ *                         pageSize:
+ *                           type: integer
+ *                         total:
+ *                           type: integer
+ *                         totalPages:
+ *                           type: integer
+ *                         hasNextPage:
+ *                           type: boolean
+ *                         hasPreviousPage:
+ *                           type: boolean
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+    "/",
+    authenticate,
+    authorizeAny("health:read", "dietary:read"),
+    validatorQueryHealthProfiles,
+    healthProfilesController.getHealthProfiles
+);
+
+export default router;
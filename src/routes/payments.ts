@@ -0,0 +1,160 @@
+import { Router } from "express";
+import paymentsController from "../controllers/payments";
+import { authenticate } from "../middlewares/authenticate";
+import { authorize } from "../middlewares/authorize";
+import { validatorSimulateCheckout } from "../validators/payments";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Payments
+ *   description: Conciliación de pagos en línea con la pasarela configurada (PAYMENT_PROVIDER)
+ */
+
+/**
+ * @swagger
+ * /api/payments/webhook:
+ *   post:
+ *     summary: Recibe los eventos de transacción de la pasarela
+ *     description: |
+ *       Sin autenticación: la firma del evento se verifica contra el secreto de la pasarela
+ *       (401 INVALID_WEBHOOK_SIGNATURE si no coincide). Es idempotente: cada transacción
+ *       de la pasarela crea un único pago y los reintentos responden "duplicate". Un pago
+ *       aprobado que cubre el saldo pasa al asistente de PENDING_PAYMENT a PAID. Los eventos
+ *       de enlaces desconocidos responden 200 con outcome "ignored".
+ *     tags: [Payments]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Evento en el formato de la pasarela
+ *     responses:
+ *       200:
+ *         description: Evento de pago procesado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Evento de pago procesado"
+ *                 data:
+ *                   $ref: '#/components/schemas/PaymentWebhookResult'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/webhook", paymentsController.webhook);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PaymentWebhookResult:
+ *       type: object
+ *       properties:
+ *         outcome:
+ *           type: string
+ *           enum: [created, updated, duplicate, ignored]
+ *         paymentId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [PENDING, APPROVED, DECLINED, VOIDED]
+ *           nullable: true
+ *         registrationStatus:
+ *           type: string
+ *           nullable: true
+ *           description: Estado del asistente después de conciliar
+ */
+
+/**
+ * @swagger
+ * /api/payments/checkouts/{checkoutId}/simulate:
+ *   post:
+ *     summary: Simula un evento de la pasarela fake para un enlace de pago
+ *     description: |
+ *       Solo con PAYMENT_PROVIDER=fake (409 en otro caso). Genera un webhook firmado y lo
+ *       procesa igual que /api/payments/webhook. Repetir transactionId simula reintentos o
+ *       el paso de PENDING a APPROVED de una misma transacción.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: checkoutId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [PENDING, APPROVED, DECLINED, VOIDED]
+ *               transactionId:
+ *                 type: string
+ *                 maxLength: 100
+ *     responses:
+ *       200:
+ *         description: Evento de pago simulado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Evento de pago simulado"
+ *                 data:
+ *                   $ref: '#/components/schemas/PaymentWebhookResult'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/checkouts/:checkoutId/simulate",
+    authenticate,
+    authorize("payments:write"),
+    validatorSimulateCheckout,
+    paymentsController.simulate
+);
+
+export default router;
@@ -1,11 +1,14 @@
 import { Router } from "express";
 import rolesController from "../controllers/roles";
+import { authenticate } from "../middlewares/authenticate";
+import { authorize } from "../middlewares/authorize";
 import {
     validatorCreateRole,
     validatorGetRole,
     validatorUpdateRole,
     validatorGetRoleByCode,
     validatorQueryRoles,
+    validatorUpdateRolePermissions,
 } from "../validators/roles";
 
 const router = Router();
@@ -40,6 +43,17 @@ const router = Router();
  *         updatedAt:
  *           type: string
  *           format: date-time
+ *     RolePermissions:
+ *       type: object
+ *       properties:
+ *         roleId:
+ *           type: string
+ *           format: uuid
+ *         permissions:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["attendees:read", "reports:read"]
  */
 
 /**
@@ -179,6 +193,8 @@ router.get(
  *   post:
  *     summary: Crea un nuevo rol
  *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -217,12 +233,22 @@ router.get(
  *                   format: date-time
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       409:
  *         $ref: '#/components/responses/Conflict'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post("/", validatorCreateRole, rolesController.createRole);
+router.post(
+    "/",
+    authenticate,
+    authorize("roles:manage"),
+    validatorCreateRole,
+    rolesController.createRole
+);
 
 /**
  * @swagger
@@ -230,6 +256,8 @@ router.post("/", validatorCreateRole, rolesController.createRole);
  *   put:
  *     summary: Actualiza un rol por ID
  *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -274,6 +302,10 @@ router.post("/", validatorCreateRole, rolesController.createRole);
  *                   format: date-time
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       409:
@@ -283,6 +315,8 @@ router.post("/", validatorCreateRole, rolesController.createRole);
  */
 router.put(
     "/:id",
+    authenticate,
+    authorize("roles:manage"),
     validatorGetRole,
     validatorUpdateRole,
     rolesController.updateRole
@@ -294,6 +328,8 @@ router.put(
  *   delete:
  *     summary: Elimina (soft delete) un rol por ID
  *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -327,11 +363,195 @@ router.put(
  *                 timestamp:
  *                   type: string
  *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.delete(
+    "/:id",
+    authenticate,
+    authorize("roles:manage"),
+    validatorGetRole,
+    rolesController.deleteRole
+);
+
+/**
+ * @swagger
+ * /api/roles/{id}/permissions:
+ *   get:
+ *     summary: Obtiene los permisos de un rol
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Permisos del rol obtenidos exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Permisos del rol obtenidos exitosamente"
+ *                 data:
+ *                   $ref: '#/components/schemas/RolePermissions'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   put:
+ *     summary: Reemplaza los permisos de un rol
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [permissions]
+ *             properties:
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [attendees:read, attendees:write, camps:manage, roles:manage, reports:read, data:purge, audit:read, health:read, health:write, dietary:read, payments:read, payments:write, scholarships:approve, checkin:write]
+ *     responses:
+ *       200:
+ *         description: Permisos del rol actualizados exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Permisos del rol actualizados exitosamente"
+ *                 data:
+ *                   $ref: '#/components/schemas/RolePermissions'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.delete("/:id", validatorGetRole, rolesController.deleteRole);
+router.get(
+    "/:id/permissions",
+    authenticate,
+    authorize("roles:manage"),
+    validatorGetRole,
+    rolesController.getRolePermissions
+);
+
+router.put(
+    "/:id/permissions",
+    authenticate,
+    authorize("roles:manage"),
+    validatorUpdateRolePermissions,
+    rolesController.updateRolePermissions
+);
+
+/**
+ * @swagger
+ * /api/roles/{id}/restore:
+ *   post:
+ *     summary: Restaura un rol eliminado
+ *     description: Solo aplica a roles eliminados (soft delete)
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Rol restaurado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Rol restaurado exitosamente"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     role:
+ *                       $ref: '#/components/schemas/Role'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: El rol no está eliminado o su code ya está en uso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+    "/:id/restore",
+    authenticate,
+    authorize("roles:manage"),
+    validatorGetRole,
+    rolesController.restoreRole
+);
 
 export default router;
@@ -3,6 +3,11 @@ import { r2Config } from "../config/env";
 import ResponseHandler from "../utils/responseHandler";
 import logger from "../utils/logger";
 import { R2Provider } from "../providers/r2/R2Provider";
+import { authenticate } from "../middlewares/authenticate";
+import { requirePasswordChanged } from "../middlewares/requirePasswordChanged";
+import { AuthUser } from "../middlewares/authenticate";
+import { hasPermissions } from "../middlewares/authorize";
+import CampAttendee from "../models/CampAttendee";
 
 const router = Router();
 const r2 = new R2Provider();
@@ -77,7 +82,10 @@ const r2 = new R2Provider();
  * /api/upload-url:
  *   post:
  *     summary: Genera una URL firmada para subir archivos a R2
+ *     description: Requiere autenticación; se rechaza con 403 (code PASSWORD_CHANGE_REQUIRED) mientras el asistente no haya cambiado su contraseña inicial
  *     tags: [Uploads]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -105,10 +113,14 @@ const r2 = new R2Provider();
  *                   format: date-time
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post("/upload-url", async (req: Request, res: Response) => {
+router.post("/upload-url", authenticate, requirePasswordChanged, async (req: Request, res: Response) => {
   try {
     const { filename, contentType } = req.body || {};
 
@@ -148,7 +160,10 @@ router.post("/upload-url", async (req: Request, res: Response) => {
  * /api/download-url:
  *   post:
  *     summary: Genera una URL firmada para descargar archivos de R2
+ *     description: Requiere attendees:read, salvo que la key sea el documento del propio asistente
  *     tags: [Uploads]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -176,10 +191,14 @@ router.post("/upload-url", async (req: Request, res: Response) => {
  *                   format: date-time
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post("/download-url", async (req: Request, res: Response) => {
+router.post("/download-url", authenticate, async (req: Request, res: Response) => {
   try {
     const { key, expiresIn } = req.body || {};
 
@@ -191,6 +210,21 @@ router.post("/download-url", async (req: Request, res: Response) => {
       );
     }
 
+    // Sin attendees:read solo se puede descargar el documento propio
+    const user = (req as Request & { user?: AuthUser }).user;
+    if (!hasPermissions(user, ["attendees:read"])) {
+      const owner = await CampAttendee.findOne({
+        where: { id: user?.id, documentKey: key },
+        attributes: ["id"],
+      });
+      if (!owner) {
+        return ResponseHandler.forbidden(
+          res,
+          "No tiene permisos para descargar este archivo"
+        );
+      }
+    }
+
     const { downloadUrl } = await r2.getPresignedGetUrl(
       r2Config.bucket,
       key,
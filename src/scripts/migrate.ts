@@ -0,0 +1,24 @@
+import "../models";
+import {
+    closeDatabaseConnection,
+    migrateDatabase,
+    sequelize,
+    testDatabaseConnection,
+} from "../config/database";
+
+// Aplica los cambios de esquema pendientes (tablas y columnas nuevas).
+// En producción se ejecuta en el despliegue, tras `npm run build`.
+async function main(): Promise<void> {
+    await testDatabaseConnection();
+    await sequelize.sync({ force: false, alter: false });
+    await migrateDatabase();
+    console.log("✅ Migración de la base de datos completada");
+}
+
+main()
+    .then(() => closeDatabaseConnection())
+    .catch(async (error) => {
+        console.error("❌ Error al migrar la base de datos:", error);
+        await closeDatabaseConnection().catch(() => undefined);
+        process.exit(1);
+    });
@@ -0,0 +1,212 @@
+import { Response } from "express";
+import ExcelJS from "exceljs";
+import CampAttendee, {
+    AttendeeExportFilters,
+    ExportableColumn,
+} from "../models/CampAttendee";
+import logger from "../utils/logger";
+import { CSV_BOM, CsvValue, csvRow } from "../utils/csv";
+
+// Filas leídas por consulta mientras se escribe la respuesta
+const EXPORT_BATCH_SIZE = 500;
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Columnas exportadas cuando no se envía ?columns
+export const DEFAULT_EXPORT_COLUMNS: ExportableColumn[] = [
+    "firstName",
+    "lastName",
+    "identificationType",
+    "identificationNumber",
+    "email",
+    "phone",
+    "age",
+    "gender",
+    "city",
+    "churchPastor",
+    "shirtSize",
+    "roleName",
+    "assistantSubRole",
+    "registrationStatus",
+    "isActive",
+];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: "text/csv; charset=utf-8",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    json: "application/json; charset=utf-8",
+};
+
+export interface ExportOptions {
+    format: ExportFormat;
+    columns: ExportableColumn[];
+    filters: AttendeeExportFilters;
+    requestId?: string;
+}
+
+type ExportValue = CsvValue;
+
+class AttendeeExportService {
+    /**
+     * Escribe la exportación directamente en la respuesta, lote a lote.
+     * Una vez enviados los headers un error ya no puede responderse como
+     * JSON: el controlador debe cortar la conexión.
+     */
+    async streamExport(res: Response, options: ExportOptions): Promise<number> {
+        const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+        res.status(200);
+        res.setHeader("Content-Type", CONTENT_TYPES[options.format]);
+        res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="asistentes-${date}.${options.format}"`
+        );
+        res.setHeader("Cache-Control", "no-store");
+
+        let total: number;
+        if (options.format === "xlsx") {
+            total = await this.writeXlsx(res, options);
+        } else if (options.format === "csv") {
+            total = await this.writeCsv(res, options);
+        } else {
+            total = await this.writeJson(res, options);
+        }
+
+        logger.info("CampAttendees exported", {
+            requestId: options.requestId,
+            format: options.format,
+            columns: options.columns.length,
+            total,
+        });
+        return total;
+    }
+
+    /**
+     * Recorre los asistentes filtrados en lotes y entrega cada fila ya
+     * proyectada a las columnas pedidas
+     */
+    private async *rows(
+        options: ExportOptions
+    ): AsyncGenerator<ExportValue[]> {
+        let afterId: string | null = null;
+        while (true) {
+            const batch = await CampAttendee.findExportBatch(
+                options.filters,
+                options.columns,
+                afterId,
+                EXPORT_BATCH_SIZE
+            );
+            for (const attendee of batch) {
+                yield options.columns.map((column) =>
+                    this.columnValue(attendee, column)
+                );
+            }
+            if (batch.length < EXPORT_BATCH_SIZE) {
+                return;
+            }
+            afterId = batch[batch.length - 1].id;
+        }
+    }
+
+    private columnValue(
+        attendee: CampAttendee,
+        column: ExportableColumn
+    ): ExportValue {
+        const role = attendee.get("role") as
+            | { name: string; code: string }
+            | null
+            | undefined;
+        if (column === "roleName") return role?.name ?? null;
+        if (column === "roleCode") return role?.code ?? null;
+
+        const value = attendee.get(column) as unknown;
+        if (value === null || value === undefined) return null;
+        if (value instanceof Date) return value.toISOString();
+        if (typeof value === "number" || typeof value === "boolean") {
+            return value;
+        }
+        return String(value);
+    }
+
+    private async writeCsv(
+        res: Response,
+        options: ExportOptions
+    ): Promise<number> {
+        await this.write(res, CSV_BOM + csvRow(options.columns));
+        let total = 0;
+        for await (const row of this.rows(options)) {
+            await this.write(res, csvRow(row));
+            total++;
+        }
+        res.end();
+        return total;
+    }
+
+    private async writeJson(
+        res: Response,
+        options: ExportOptions
+    ): Promise<number> {
+        await this.write(res, "[");
+        let total = 0;
+        for await (const row of this.rows(options)) {
+            const item: Record<string, ExportValue> = {};
+            options.columns.forEach((column, index) => {
+                item[column] = row[index];
+            });
+            await this.write(res, (total > 0 ? ",\n" : "\n") + JSON.stringify(item));
+            total++;
+        }
+        await this.write(res, total > 0 ? "\n]\n" : "]\n");
+        res.end();
+        return total;
+    }
+
+    private async writeXlsx(
+        res: Response,
+        options: ExportOptions
+    ): Promise<number> {
+        const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+            stream: res,
+            useStyles: false,
+            useSharedStrings: false,
+        });
+        const sheet = workbook.addWorksheet("Asistentes");
+        sheet.columns = options.columns.map((column) => ({
+            header: column,
+            key: column,
+        }));
+        let total = 0;
+        for await (const row of this.rows(options)) {
+            sheet.addRow(row).commit();
+            total++;
+        }
+        sheet.commit();
+        await workbook.commit();
+        return total;
+    }
+
+    // Respeta la contrapresión del socket para no acumular el archivo en memoria
+    private async write(res: Response, chunk: string): Promise<void> {
+        if (res.destroyed) {
+            throw new Error("El cliente cerró la conexión");
+        }
+        if (res.write(chunk)) {
+            return;
+        }
+        await new Promise<void>((resolve, reject) => {
+            const onDrain = () => {
+                res.off("close", onClose);
+                resolve();
+            };
+            const onClose = () => {
+                res.off("drain", onDrain);
+                reject(new Error("El cliente cerró la conexión"));
+            };
+            res.once("drain", onDrain);
+            res.once("close", onClose);
+        });
+    }
+}
+
+// Exportar instancia singleton
+export const attendeeExportService = new AttendeeExportService();
@@ -0,0 +1,459 @@
+import { Readable } from "stream";
+import ExcelJS from "exceljs";
+import { validationResult, matchedData } from "express-validator";
+import { sequelize } from "../config/database";
+import Camp from "../models/Camp";
+import CampAttendee, { CampAttendeeInput } from "../models/CampAttendee";
+import Role from "../models/Role";
+import { validatorCreateCampAttendee } from "../validators/campAttendees";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+import { registrationService, CampReference } from "./registrationService";
+import { emailVerificationService } from "./emailVerificationService";
+
+// Filas procesadas por transacción en una importación real
+const IMPORT_BATCH_SIZE = 50;
+// Máximo de filas de datos aceptadas por archivo
+export const IMPORT_MAX_ROWS = 2000;
+
+// Encabezados aceptados por campo (se comparan sin tildes, espacios ni mayúsculas)
+const COLUMN_ALIASES: Record<string, string[]> = {
+    firstName: ["firstname", "nombre", "nombres"],
+    lastName: ["lastname", "apellido", "apellidos"],
+    gender: ["gender", "genero", "sexo"],
+    identificationType: ["identificationtype", "tipodocumento", "tipoid", "tipoidentificacion"],
+    identificationNumber: ["identificationnumber", "documento", "numerodocumento", "cedula", "identificacion", "numeroidentificacion"],
+    age: ["age", "edad"],
+    birthDate: ["birthdate", "fechanacimiento", "fechadenacimiento"],
+    country: ["country", "pais"],
+    city: ["city", "ciudad"],
+    churchPastor: ["churchpastor", "pastor", "iglesia", "iglesiapastor"],
+    phone: ["phone", "telefono", "celular"],
+    email: ["email", "correo", "correoelectronico"],
+    skills: ["skills", "habilidades"],
+    allergies: ["allergies", "alergias"],
+    shirtSize: ["shirtsize", "talla", "tallacamiseta"],
+    roleId: ["roleid"],
+    roleCode: ["rolecode", "rol", "role"],
+    assistantSubRole: ["assistantsubrole", "subrol"],
+    campId: ["campid"],
+    campCode: ["campcode", "codigocamp", "camp"],
+    // Un acudiente por fila (obligatorio para menores de edad)
+    guardianFirstName: ["guardianfirstname", "nombreacudiente", "nombresacudiente"],
+    guardianLastName: ["guardianlastname", "apellidoacudiente", "apellidosacudiente"],
+    guardianRelationship: ["guardianrelationship", "parentesco"],
+    guardianPhone: ["guardianphone", "telefonoacudiente", "celularacudiente"],
+    guardianEmail: ["guardianemail", "correoacudiente", "emailacudiente"],
+};
+
+// Columnas guardian* -> campo del acudiente
+const GUARDIAN_COLUMNS: Record<string, string> = {
+    guardianFirstName: "firstName",
+    guardianLastName: "lastName",
+    guardianRelationship: "relationship",
+    guardianPhone: "phone",
+    guardianEmail: "email",
+};
+
+// Parentesco escrito en español en la hoja
+const RELATIONSHIP_ALIASES: Record<string, string> = {
+    MADRE: "MOTHER",
+    PADRE: "FATHER",
+    ABUELO: "GRANDPARENT",
+    ABUELA: "GRANDPARENT",
+    HERMANO: "SIBLING",
+    HERMANA: "SIBLING",
+    TIO: "UNCLE_AUNT",
+    TIA: "UNCLE_AUNT",
+    TUTOR: "LEGAL_GUARDIAN",
+    TUTORLEGAL: "LEGAL_GUARDIAN",
+    OTRO: "OTHER",
+};
+
+export interface ImportOptions {
+    dryRun: boolean;
+    camp: CampReference;
+    roleId?: string | null;
+    changedBy?: string | null;
+    requestId?: string;
+}
+
+export type ImportRowStatus =
+    | "VALID"
+    | "INVALID"
+    | "CREATED"
+    | "WAITLISTED"
+    | "FAILED";
+
+export interface ImportRowResult {
+    row: number; // número de fila en la hoja (la fila 1 es el encabezado)
+    status: ImportRowStatus;
+    identificationNumber?: string;
+    email?: string | null;
+    attendeeId?: string;
+    errors: string[];
+}
+
+export interface ImportReport {
+    dryRun: boolean;
+    unmappedColumns: string[];
+    summary: Record<"totalRows" | Lowercase<ImportRowStatus>, number>;
+    rows: ImportRowResult[];
+}
+
+interface PreparedRow {
+    result: ImportRowResult;
+    data: CampAttendeeInput;
+    campId: string;
+}
+
+class AttendeeImportService {
+    /**
+     * Importa asistentes desde un CSV o XLSX. Cada fila pasa por las mismas
+     * validaciones que POST /api/camp-attendees; en modo dryRun no se
+     * escribe nada. Las filas válidas se insertan en lotes transaccionales:
+     * si una fila del lote falla, el lote completo se revierte.
+     */
+    async importFile(
+        file: { buffer: Buffer; originalname: string },
+        options: ImportOptions
+    ): Promise<ImportReport> {
+        const { rows, unmappedColumns } = await this.readRows(file);
+        if (rows.length === 0) {
+            throw new AppError("El archivo no contiene filas de datos", 400);
+        }
+        if (rows.length > IMPORT_MAX_ROWS) {
+            throw new AppError(
+                `El archivo supera el máximo de ${IMPORT_MAX_ROWS} filas`,
+                400
+            );
+        }
+
+        const roleIdsByCode = await this.loadRoleCodes();
+        const campCache = new Map<string, Camp>();
+        const seenIds = new Set<string>();
+        const seenEmails = new Set<string>();
+        const prepared: PreparedRow[] = [];
+        const results: ImportRowResult[] = [];
+
+        for (const { row, values } of rows) {
+            const result: ImportRowResult = {
+                row,
+                status: "VALID",
+                identificationNumber: values.identificationNumber,
+                email: values.email ?? null,
+                errors: [],
+            };
+            results.push(result);
+            try {
+                const data = await this.validateRow(values, roleIdsByCode, options);
+                // Duplicados dentro del mismo archivo
+                if (seenIds.has(data.identificationNumber)) {
+                    throw new AppError(
+                        "identificationNumber repetido en el archivo",
+                        409
+                    );
+                }
+                if (data.email && seenEmails.has(data.email)) {
+                    throw new AppError("email repetido en el archivo", 409);
+                }
+                const camp = await this.resolveCamp(
+                    {
+                        campId: data.campId ?? options.camp.campId,
+                        campCode: data.campCode ?? options.camp.campCode,
+                    },
+                    campCache
+                );
+                delete data.campCode;
+                await registrationService.prepareNewAttendee(data, {
+                    hashPassword: !options.dryRun,
+                });
+                seenIds.add(data.identificationNumber);
+                if (data.email) {
+                    seenEmails.add(data.email);
+                }
+                result.email = data.email ?? null;
+                prepared.push({ result, data, campId: camp.id });
+            } catch (error) {
+                result.status = "INVALID";
+                if (Array.isArray(error)) {
+                    result.errors = error;
+                } else {
+                    result.errors = [
+                        error instanceof Error ? error.message : String(error),
+                    ];
+                }
+            }
+        }
+
+        if (!options.dryRun) {
+            await this.persist(prepared, options);
+        }
+
+        const report: ImportReport = {
+            dryRun: options.dryRun,
+            unmappedColumns,
+            summary: {
+                totalRows: results.length,
+                valid: 0,
+                invalid: 0,
+                created: 0,
+                waitlisted: 0,
+                failed: 0,
+            },
+            rows: results,
+        };
+        for (const result of results) {
+            const key = result.status.toLowerCase() as Lowercase<ImportRowStatus>;
+            report.summary[key]++;
+        }
+
+        logger.info("CampAttendee import finished", {
+            requestId: options.requestId,
+            dryRun: options.dryRun,
+            ...report.summary,
+        });
+        return report;
+    }
+
+    /**
+     * Inserta las filas válidas en lotes; cada lote es una transacción
+     */
+    private async persist(
+        prepared: PreparedRow[],
+        options: ImportOptions
+    ): Promise<void> {
+        for (let i = 0; i < prepared.length; i += IMPORT_BATCH_SIZE) {
+            const batch = prepared.slice(i, i + IMPORT_BATCH_SIZE);
+            try {
+                const created = await sequelize.transaction(
+                    async (transaction) => {
+                        const attendees: CampAttendee[] = [];
+                        for (const item of batch) {
+                            attendees.push(
+                                await registrationService.registerAttendeeInTransaction(
+                                    item.data,
+                                    item.campId,
+                                    options.changedBy,
+                                    transaction
+                                )
+                            );
+                        }
+                        return attendees;
+                    }
+                );
+                created.forEach((attendee, index) => {
+                    const result = batch[index].result;
+                    result.attendeeId = attendee.id;
+                    result.status =
+                        attendee.registrationStatus === "WAITING_LIST"
+                            ? "WAITLISTED"
+                            : "CREATED";
+                    emailVerificationService.sendVerificationInBackground(
+                        attendee,
+                        options.requestId
+                    );
+                });
+            } catch (error) {
+                const message =
+                    error instanceof Error ? error.message : String(error);
+                logger.error("CampAttendee import batch rolled back", {
+                    requestId: options.requestId,
+                    fromRow: batch[0].result.row,
+                    toRow: batch[batch.length - 1].result.row,
+                    error: message,
+                });
+                for (const item of batch) {
+                    item.result.status = "FAILED";
+                    item.result.errors = [
+                        `Lote revertido (filas ${batch[0].result.row}-${
+                            batch[batch.length - 1].result.row
+                        }): ${message}`,
+                    ];
+                }
+            }
+        }
+    }
+
+    /**
+     * Ejecuta validatorCreateCampAttendee sobre la fila y devuelve los datos
+     * saneados. Lanza la lista de mensajes si hay errores.
+     */
+    private async validateRow(
+        values: Record<string, string>,
+        roleIdsByCode: Map<string, string>,
+        options: ImportOptions
+    ): Promise<CampAttendeeInput> {
+        const body: Record<string, unknown> = { ...values };
+        if (!body.roleId && body.roleCode) {
+            const roleId = roleIdsByCode.get(String(body.roleCode).toUpperCase());
+            if (!roleId) {
+                throw [`Rol no encontrado para el código ${body.roleCode}`];
+            }
+            body.roleId = roleId;
+        }
+        if (!body.roleId && options.roleId) {
+            body.roleId = options.roleId;
+        }
+        delete body.roleCode;
+
+        const guardian: Record<string, unknown> = {};
+        for (const [column, field] of Object.entries(GUARDIAN_COLUMNS)) {
+            if (typeof body[column] !== "undefined") {
+                guardian[field] = body[column];
+                delete body[column];
+            }
+        }
+        if (Object.keys(guardian).length > 0) {
+            if (typeof guardian.relationship === "string") {
+                const key = this.normalizeHeader(guardian.relationship).toUpperCase();
+                guardian.relationship =
+                    RELATIONSHIP_ALIASES[key] ?? guardian.relationship.toUpperCase();
+            }
+            body.guardians = [guardian];
+        }
+
+        const req = { body, query: {}, params: {}, headers: {}, cookies: {} };
+        for (const chain of validatorCreateCampAttendee) {
+            if ("run" in chain) {
+                await chain.run(req);
+            }
+        }
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            throw errors.array().map((e) => String(e.msg));
+        }
+        return matchedData(req, { locations: ["body"] }) as CampAttendeeInput;
+    }
+
+    private async resolveCamp(
+        reference: CampReference,
+        cache: Map<string, Camp>
+    ): Promise<Camp> {
+        const key = `${reference.campId ?? ""}|${reference.campCode ?? ""}`;
+        let camp = cache.get(key);
+        if (!camp) {
+            camp = await registrationService.resolveCamp(reference);
+            registrationService.assertRegistrationOpen(camp);
+            cache.set(key, camp);
+        }
+        return camp;
+    }
+
+    private async loadRoleCodes(): Promise<Map<string, string>> {
+        const roles = await Role.findAll({ attributes: ["id", "code"] });
+        return new Map(roles.map((role) => [role.code.toUpperCase(), role.id]));
+    }
+
+    /**
+     * Lee la primera hoja del archivo y mapea los encabezados a campos
+     */
+    private async readRows(file: {
+        buffer: Buffer;
+        originalname: string;
+    }): Promise<{
+        rows: { row: number; values: Record<string, string> }[];
+        unmappedColumns: string[];
+    }> {
+        const workbook = new ExcelJS.Workbook();
+        try {
+            if (file.originalname.toLowerCase().endsWith(".csv")) {
+                const text = file.buffer.toString("utf8").replace(/^﻿/, "");
+                const firstLine = text.split(/\r?\n/, 1)[0];
+                const delimiter =
+                    firstLine.split(";").length > firstLine.split(",").length
+                        ? ";"
+                        : ",";
+                await workbook.csv.read(Readable.from([text]), {
+                    // Conservar los valores como texto (p. ej. ceros a la izquierda)
+                    map: (value: any) => value,
+                    parserOptions: { delimiter },
+                });
+            } else {
+                await workbook.xlsx.load(file.buffer as any);
+            }
+        } catch (error) {
+            throw new AppError(
+                `No se pudo leer el archivo: ${
+                    error instanceof Error ? error.message : String(error)
+                }`,
+                400
+            );
+        }
+
+        const sheet = workbook.worksheets[0];
+        if (!sheet) {
+            return { rows: [], unmappedColumns: [] };
+        }
+
+        const columns = new Map<number, string>();
+        const unmappedColumns: string[] = [];
+        sheet.getRow(1).eachCell((cell, col) => {
+            const header = this.cellToString(cell.value);
+            if (!header) return;
+            const normalized = this.normalizeHeader(header);
+            const field = Object.keys(COLUMN_ALIASES).find((key) =>
+                COLUMN_ALIASES[key].includes(normalized)
+            );
+            if (field) {
+                columns.set(col, field);
+            } else {
+                unmappedColumns.push(header);
+            }
+        });
+        if (columns.size === 0) {
+            throw new AppError(
+                "No se reconoció ninguna columna en el encabezado",
+                400
+            );
+        }
+
+        const rows: { row: number; values: Record<string, string> }[] = [];
+        sheet.eachRow((row, rowNumber) => {
+            if (rowNumber === 1) return;
+            const values: Record<string, string> = {};
+            columns.forEach((field, col) => {
+                const value = this.cellToString(row.getCell(col).value);
+                if (value !== "") {
+                    values[field] = value;
+                }
+            });
+            if (Object.keys(values).length > 0) {
+                rows.push({ row: rowNumber, values });
+            }
+        });
+        return { rows, unmappedColumns };
+    }
+
+    private normalizeHeader(header: string): string {
+        return header
+            .normalize("NFD")
+            .replace(/[̀-ͯ]/g, "")
+            .replace(/[^A-Za-z0-9]/g, "")
+            .toLowerCase();
+    }
+
+    // Convierte el valor de una celda (texto, número, fecha, hipervínculo...) a texto
+    private cellToString(value: ExcelJS.CellValue): string {
+        if (value === null || value === undefined) return "";
+        if (value instanceof Date) {
+            return value.toISOString().slice(0, 10);
+        }
+        if (typeof value === "object") {
+            if ("text" in value && typeof value.text === "string") {
+                return value.text.trim();
+            }
+            if ("richText" in value) {
+                return value.richText.map((part) => part.text).join("").trim();
+            }
+            if ("result" in value && value.result !== undefined) {
+                return this.cellToString(value.result as ExcelJS.CellValue);
+            }
+            return "";
+        }
+        return String(value).trim();
+    }
+}
+
+// Exportar instancia singleton
+export const attendeeImportService = new AttendeeImportService();
@@ -0,0 +1,402 @@
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import { Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import { authConfig } from "../config/env";
+import CampAttendee from "../models/CampAttendee";
+import RefreshToken from "../models/RefreshToken";
+import PasswordResetToken from "../models/PasswordResetToken";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+import { emailService } from "./emailService";
+
+// Credenciales de login: email o número de identificación
+export interface LoginCredentials {
+    email?: string;
+    identificationNumber?: string;
+    password: string;
+}
+
+// Datos del cliente que se guardan con cada refresh token
+export interface ClientMetadata {
+    ip?: string;
+    userAgent?: string;
+}
+
+// Claims del access token
+export interface AccessTokenPayload {
+    sub: string;
+    email: string | null;
+    type: "access";
+}
+
+export interface AuthTokens {
+    accessToken: string;
+    refreshToken: string;
+    tokenType: "Bearer";
+    expiresIn: string;
+    refreshTokenExpiresAt: Date;
+}
+
+// Cómo se entregan las credenciales al activar un asistente
+export const CREDENTIAL_MODES = ["INVITE_LINK", "TEMPORARY_PASSWORD"] as const;
+export type CredentialMode = (typeof CREDENTIAL_MODES)[number];
+
+// Código de error para cuentas que no están activas
+export const ACCOUNT_INACTIVE = "ACCOUNT_INACTIVE";
+
+class AuthService {
+    /**
+     * Valida credenciales y emite el par access/refresh.
+     * El mensaje de error es el mismo si el usuario no existe o si la
+     * contraseña es incorrecta para no revelar cuentas registradas.
+     */
+    async login(
+        credentials: LoginCredentials,
+        metadata: ClientMetadata = {}
+    ): Promise<{ attendee: CampAttendee; tokens: AuthTokens }> {
+        const where = credentials.email
+            ? { email: credentials.email }
+            : { identificationNumber: credentials.identificationNumber };
+        const attendee = await CampAttendee.findOne({ where });
+
+        const isValid =
+            !!attendee?.passwordHash &&
+            (await bcrypt.compare(credentials.password, attendee.passwordHash));
+        if (!attendee || !isValid) {
+            throw new AppError("Credenciales inválidas", 401);
+        }
+        this.assertActive(attendee);
+
+        const tokens = await this.issueTokens(attendee, metadata);
+        return { attendee, tokens };
+    }
+
+    /**
+     * Rota un refresh token: el token presentado queda revocado y se emite
+     * uno nuevo. Si se presenta un token ya revocado se asume robo y se
+     * revocan todas las sesiones del asistente.
+     */
+    async refresh(
+        refreshToken: string,
+        metadata: ClientMetadata = {}
+    ): Promise<AuthTokens> {
+        const tokenHash = this.hashToken(refreshToken);
+
+        const result = await sequelize.transaction(async (transaction) => {
+            const stored = await RefreshToken.findByHash(tokenHash, transaction);
+            if (!stored) {
+                throw new AppError("Refresh token inválido", 401);
+            }
+            if (stored.revokedAt) {
+                await RefreshToken.revokeAllForAttendee(
+                    stored.attendeeId,
+                    transaction
+                );
+                return { reused: true as const, attendeeId: stored.attendeeId };
+            }
+            if (stored.expiresAt <= new Date()) {
+                throw new AppError("Refresh token expirado", 401);
+            }
+
+            const attendee = await CampAttendee.findOne({
+                where: { id: stored.attendeeId },
+                transaction,
+            });
+            if (!attendee) {
+                throw new AppError("Refresh token inválido", 401);
+            }
+            this.assertActive(attendee);
+
+            const tokens = await this.issueTokens(
+                attendee,
+                metadata,
+                transaction,
+                stored
+            );
+            return { reused: false as const, tokens };
+        });
+
+        if (result.reused) {
+            logger.warn("Refresh token reuse detected, sessions revoked", {
+                attendeeId: result.attendeeId,
+                ip: metadata.ip,
+            });
+            throw new AppError("Refresh token inválido", 401);
+        }
+        return result.tokens;
+    }
+
+    /**
+     * Revoca el refresh token (idempotente)
+     */
+    async logout(refreshToken: string): Promise<void> {
+        const stored = await RefreshToken.findByHash(
+            this.hashToken(refreshToken)
+        );
+        if (stored && !stored.revokedAt) {
+            await stored.update({ revokedAt: new Date() });
+        }
+    }
+
+    /**
+     * Genera un token de recuperación y lo envía por email.
+     * No falla si el email no existe y no espera a la búsqueda, al token ni
+     * al envío: la respuesta (y su tiempo) es la misma en ambos casos para
+     * no revelar cuentas registradas.
+     */
+    requestPasswordReset(
+        email: string,
+        metadata: ClientMetadata = {}
+    ): void {
+        this.sendPasswordReset(email, metadata).catch((error) => {
+            logger.error("Error sending password reset email", {
+                ip: metadata.ip,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        });
+    }
+
+    /**
+     * Consume un token de recuperación y fija la nueva contraseña.
+     * Invalida los demás tokens pendientes y cierra las sesiones abiertas.
+     */
+    async resetPassword(token: string, newPassword: string): Promise<void> {
+        const passwordHash = await bcrypt.hash(newPassword, 10);
+
+        const attendeeId = await sequelize.transaction(async (transaction) => {
+            const stored = await PasswordResetToken.findByHash(
+                this.hashToken(token),
+                transaction
+            );
+            if (!stored || !stored.isUsable()) {
+                throw new AppError("Token inválido o expirado", 400);
+            }
+
+            const [updated] = await CampAttendee.update(
+                { passwordHash, mustChangePassword: false },
+                { where: { id: stored.attendeeId }, transaction }
+            );
+            if (updated === 0) {
+                throw new AppError("Token inválido o expirado", 400);
+            }
+
+            await stored.update({ usedAt: new Date() }, { transaction });
+            await PasswordResetToken.invalidateAllForAttendee(
+                stored.attendeeId,
+                transaction
+            );
+            await RefreshToken.revokeAllForAttendee(
+                stored.attendeeId,
+                transaction
+            );
+            return stored.attendeeId;
+        });
+
+        logger.info("Password reset completed", { attendeeId });
+    }
+
+    /**
+     * Genera el enlace de invitación para que el asistente cree su
+     * contraseña. Reutiliza los tokens de recuperación con mayor vigencia;
+     * se consume con POST /api/auth/reset-password.
+     */
+    async createInviteLink(
+        attendeeId: string
+    ): Promise<{ url: string; expiresInHours: number }> {
+        const expiresInHours = authConfig.inviteExpiresHours;
+        const token = await this.createPasswordToken(
+            attendeeId,
+            expiresInHours * 60
+        );
+        return {
+            url: `${authConfig.frontendUrl}/set-password?token=${token}`,
+            expiresInHours,
+        };
+    }
+
+    /**
+     * Asigna una contraseña temporal aleatoria que debe cambiarse en el
+     * primer ingreso. Cierra las sesiones abiertas.
+     */
+    async setTemporaryPassword(attendeeId: string): Promise<string> {
+        const temporaryPassword = this.generateRandomPassword();
+        const passwordHash = await bcrypt.hash(temporaryPassword, 10);
+        await sequelize.transaction(async (transaction) => {
+            await CampAttendee.update(
+                { passwordHash, mustChangePassword: true },
+                { where: { id: attendeeId }, transaction }
+            );
+            await PasswordResetToken.invalidateAllForAttendee(
+                attendeeId,
+                transaction
+            );
+            await RefreshToken.revokeAllForAttendee(attendeeId, transaction);
+        });
+        return temporaryPassword;
+    }
+
+    /**
+     * Contraseña aleatoria para cuentas nuevas o temporales
+     */
+    generateRandomPassword(): string {
+        return crypto.randomBytes(9).toString("base64url");
+    }
+
+    /**
+     * Verifica firma y expiración de un access token
+     */
+    verifyAccessToken(token: string): AccessTokenPayload {
+        try {
+            const payload = jwt.verify(token, authConfig.jwtSecret);
+            if (
+                typeof payload === "string" ||
+                payload.type !== "access" ||
+                typeof payload.sub !== "string"
+            ) {
+                throw new Error("Tipo de token inválido");
+            }
+            return payload as AccessTokenPayload;
+        } catch (error) {
+            throw new AppError(
+                error instanceof jwt.TokenExpiredError
+                    ? "Token de acceso expirado"
+                    : "Token de acceso inválido",
+                401
+            );
+        }
+    }
+
+    /**
+     * Las cuentas sin activar (o desactivadas) no pueden usar la API; se
+     * valida después de las credenciales para no revelar cuentas
+     */
+    assertActive(attendee: Pick<CampAttendee, "isActive">): void {
+        if (!attendee.isActive) {
+            throw new AppError(
+                "La cuenta no está activa",
+                403,
+                true,
+                ACCOUNT_INACTIVE
+            );
+        }
+    }
+
+    /**
+     * Emite access JWT + refresh token opaco (guardado como hash)
+     */
+    private async issueTokens(
+        attendee: CampAttendee,
+        metadata: ClientMetadata,
+        transaction?: Transaction,
+        replaces?: RefreshToken
+    ): Promise<AuthTokens> {
+        const payload: AccessTokenPayload = {
+            sub: attendee.id,
+            email: attendee.email,
+            type: "access",
+        };
+        const accessToken = jwt.sign(payload, authConfig.jwtSecret, {
+            expiresIn: authConfig.accessTokenExpiresIn as jwt.SignOptions["expiresIn"],
+        });
+
+        const refreshToken = crypto.randomBytes(48).toString("hex");
+        const refreshTokenExpiresAt = new Date(
+            Date.now() +
+                authConfig.refreshTokenExpiresDays * 24 * 60 * 60 * 1000
+        );
+        const created = await RefreshToken.createToken(
+            {
+                attendeeId: attendee.id,
+                tokenHash: this.hashToken(refreshToken),
+                expiresAt: refreshTokenExpiresAt,
+                createdByIp: metadata.ip ?? null,
+                userAgent: metadata.userAgent?.slice(0, 255) ?? null,
+            },
+            transaction
+        );
+
+        if (replaces) {
+            await replaces.update(
+                { revokedAt: new Date(), replacedByTokenId: created.id },
+                { transaction }
+            );
+        }
+
+        return {
+            accessToken,
+            refreshToken,
+            tokenType: "Bearer",
+            expiresIn: authConfig.accessTokenExpiresIn,
+            refreshTokenExpiresAt,
+        };
+    }
+
+    /**
+     * Crea un token de un solo uso (recuperación o invitación) dejando
+     * vigente solo el último emitido
+     */
+    private async createPasswordToken(
+        attendeeId: string,
+        expiresInMinutes: number,
+        ip?: string
+    ): Promise<string> {
+        const token = crypto.randomBytes(32).toString("hex");
+        await sequelize.transaction(async (transaction) => {
+            await PasswordResetToken.invalidateAllForAttendee(
+                attendeeId,
+                transaction
+            );
+            await PasswordResetToken.createToken(
+                {
+                    attendeeId,
+                    tokenHash: this.hashToken(token),
+                    expiresAt: new Date(
+                        Date.now() + expiresInMinutes * 60 * 1000
+                    ),
+                    requestedByIp: ip ?? null,
+                },
+                transaction
+            );
+        });
+        return token;
+    }
+
+    /**
+     * Busca la cuenta, crea el token y envía el email (fuera de la petición).
+     */
+    private async sendPasswordReset(
+        email: string,
+        metadata: ClientMetadata
+    ): Promise<void> {
+        const attendee = await CampAttendee.findOne({ where: { email } });
+        if (!attendee || !attendee.email) {
+            logger.info("Password reset requested for unknown email", {
+                ip: metadata.ip,
+            });
+            return;
+        }
+
+        const expiresInMinutes = authConfig.passwordResetExpiresMinutes;
+        const token = await this.createPasswordToken(
+            attendee.id,
+            expiresInMinutes,
+            metadata.ip
+        );
+        await emailService.sendPasswordResetEmail({
+            firstName: attendee.firstName,
+            lastName: attendee.lastName,
+            email: attendee.email,
+            resetUrl: `${authConfig.frontendUrl}/reset-password?token=${token}`,
+            expiresInMinutes,
+        });
+    }
+
+    private hashToken(token: string): string {
+        return crypto.createHash("sha256").update(token).digest("hex");
+    }
+}
+
+// Exportar instancia singleton
+export const authService = new AuthService();
@@ -0,0 +1,643 @@
+import { Response } from "express";
+import PDFDocument from "pdfkit";
+import Camp from "../models/Camp";
+import CampAttendee, { RegistrationStatus } from "../models/CampAttendee";
+import HealthProfile, {
+    AllergySeverity,
+    ALLERGY_SEVERITIES,
+    DietaryRestriction,
+} from "../models/HealthProfile";
+import { AppError } from "../utils/handleError";
+import { CSV_BOM, csvRow } from "../utils/csv";
+import logger from "../utils/logger";
+
+export const REPORT_FORMATS = ["json", "csv", "pdf"] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+// Solo asistentes que efectivamente van al camp
+export const REPORT_STATUSES: RegistrationStatus[] = ["CONFIRMED", "PAID"];
+
+// Severidades que se resaltan en el informe médico
+const SERIOUS_SEVERITIES: AllergySeverity[] = ["SEVERE", "LIFE_THREATENING"];
+
+const DIETARY_LABELS: Record<DietaryRestriction, string> = {
+    VEGETARIAN: "Vegetariano",
+    VEGAN: "Vegano",
+    GLUTEN_FREE: "Sin gluten",
+    LACTOSE_FREE: "Sin lactosa",
+    NUT_FREE: "Sin frutos secos",
+    SEAFOOD_FREE: "Sin mariscos",
+    PORK_FREE: "Sin cerdo",
+    DIABETIC: "Diabético",
+    LOW_SODIUM: "Bajo en sodio",
+    OTHER: "Otra",
+};
+
+const SEVERITY_LABELS: Record<AllergySeverity, string> = {
+    MILD: "Leve",
+    MODERATE: "Moderada",
+    SEVERE: "Severa",
+    LIFE_THREATENING: "Riesgo vital",
+};
+
+export interface ReportAttendee {
+    id: string;
+    firstName: string;
+    lastName: string;
+    age: number | null;
+}
+
+export interface ReportCamp {
+    id: string;
+    name: string;
+    code: string;
+    startDate: Date;
+    endDate: Date;
+}
+
+export interface AllergyGroup {
+    name: string;
+    count: number;
+    attendees: (ReportAttendee & {
+        severity: AllergySeverity;
+        reaction: string | null;
+    })[];
+}
+
+export interface DietaryReport {
+    camp: ReportCamp;
+    generatedAt: Date;
+    statuses: RegistrationStatus[];
+    totalAttendees: number;
+    allergies: AllergyGroup[];
+    dietaryRestrictions: {
+        restriction: DietaryRestriction;
+        count: number;
+        attendees: ReportAttendee[];
+    }[];
+    notes: (ReportAttendee & {
+        dietaryNotes: string | null;
+        notes: string | null;
+    })[];
+}
+
+export interface MedicalReportEntry extends ReportAttendee {
+    allergies: HealthProfile["allergies"];
+    medications: HealthProfile["medications"];
+    conditions: HealthProfile["conditions"];
+    emergencyContactName: string | null;
+    emergencyContactPhone: string | null;
+    emergencyContactRelationship: string | null;
+    insuranceProvider: string | null;
+    insurancePolicyNumber: string | null;
+    notes: string | null;
+}
+
+export interface MedicalReport {
+    camp: ReportCamp;
+    generatedAt: Date;
+    statuses: RegistrationStatus[];
+    totalAttendees: number;
+    summary: {
+        withAllergies: number;
+        withSeriousAllergies: number;
+        withMedications: number;
+        withConditions: number;
+        withoutProfile: number;
+    };
+    allergies: AllergyGroup[];
+    conditions: { name: string; count: number; attendees: ReportAttendee[] }[];
+    attendees: MedicalReportEntry[];
+}
+
+interface AttendeeWithProfile {
+    attendee: ReportAttendee;
+    profile: HealthProfile | null;
+}
+
+class CampReportService {
+    /**
+     * Informe para la cocina: alergias y restricciones alimentarias con
+     * el total y la lista de asistentes de cada una
+     */
+    async getDietaryReport(campId: string): Promise<DietaryReport> {
+        const { camp, rows } = await this.load(campId);
+
+        const restrictions = new Map<DietaryRestriction, ReportAttendee[]>();
+        const notes: DietaryReport["notes"] = [];
+        for (const { attendee, profile } of rows) {
+            if (!profile) continue;
+            for (const restriction of profile.dietaryRestrictions) {
+                const list = restrictions.get(restriction) ?? [];
+                list.push(attendee);
+                restrictions.set(restriction, list);
+            }
+            if (profile.dietaryNotes || profile.notes) {
+                notes.push({
+                    ...attendee,
+                    dietaryNotes: profile.dietaryNotes,
+                    notes: profile.notes,
+                });
+            }
+        }
+
+        return {
+            camp,
+            generatedAt: new Date(),
+            statuses: REPORT_STATUSES,
+            totalAttendees: rows.length,
+            allergies: this.groupAllergies(rows),
+            dietaryRestrictions: Array.from(restrictions, ([restriction, attendees]) => ({
+                restriction,
+                count: attendees.length,
+                attendees,
+            })).sort((a, b) => b.count - a.count),
+            notes,
+        };
+    }
+
+    /**
+     * Informe para el equipo médico: alergias, condiciones, medicamentos y
+     * contacto de emergencia de cada asistente con información registrada
+     */
+    async getMedicalReport(campId: string): Promise<MedicalReport> {
+        const { camp, rows } = await this.load(campId);
+
+        const conditions = new Map<
+            string,
+            { name: string; attendees: ReportAttendee[] }
+        >();
+        const attendees: MedicalReportEntry[] = [];
+        const summary = {
+            withAllergies: 0,
+            withSeriousAllergies: 0,
+            withMedications: 0,
+            withConditions: 0,
+            withoutProfile: 0,
+        };
+        for (const { attendee, profile } of rows) {
+            if (!profile) {
+                summary.withoutProfile++;
+                continue;
+            }
+            if (profile.allergies.length > 0) summary.withAllergies++;
+            if (
+                profile.allergies.some((a) =>
+                    SERIOUS_SEVERITIES.includes(a.severity)
+                )
+            ) {
+                summary.withSeriousAllergies++;
+            }
+            if (profile.medications.length > 0) summary.withMedications++;
+            if (profile.conditions.length > 0) summary.withConditions++;
+            for (const condition of profile.conditions) {
+                const key = this.groupKey(condition.name);
+                const group = conditions.get(key) ?? {
+                    name: condition.name.trim(),
+                    attendees: [],
+                };
+                group.attendees.push(attendee);
+                conditions.set(key, group);
+            }
+            const hasMedicalData =
+                profile.allergies.length > 0 ||
+                profile.medications.length > 0 ||
+                profile.conditions.length > 0 ||
+                !!profile.notes;
+            if (hasMedicalData) {
+                attendees.push({
+                    ...attendee,
+                    allergies: profile.allergies,
+                    medications: profile.medications,
+                    conditions: profile.conditions,
+                    emergencyContactName: profile.emergencyContactName,
+                    emergencyContactPhone: profile.emergencyContactPhone,
+                    emergencyContactRelationship:
+                        profile.emergencyContactRelationship,
+                    insuranceProvider: profile.insuranceProvider,
+                    insurancePolicyNumber: profile.insurancePolicyNumber,
+                    notes: profile.notes,
+                });
+            }
+        }
+
+        return {
+            camp,
+            generatedAt: new Date(),
+            statuses: REPORT_STATUSES,
+            totalAttendees: rows.length,
+            summary,
+            allergies: this.groupAllergies(rows),
+            conditions: Array.from(conditions.values())
+                .map((group) => ({ ...group, count: group.attendees.length }))
+                .sort((a, b) => b.count - a.count),
+            attendees,
+        };
+    }
+
+    /**
+     * Escribe el informe como descarga CSV (una fila por asistente y
+     * elemento, para filtrar en Excel) o PDF imprimible
+     */
+    sendDietary(
+        res: Response,
+        report: DietaryReport,
+        format: Exclude<ReportFormat, "json">
+    ): void {
+        const filename = this.filename("dieta", report.camp, format);
+        if (format === "csv") {
+            const lines = [
+                csvRow(["type", "item", "count", "lastName", "firstName", "detail"]),
+            ];
+            for (const group of report.allergies) {
+                for (const a of group.attendees) {
+                    lines.push(
+                        csvRow([
+                            "ALLERGY",
+                            group.name,
+                            group.count,
+                            a.lastName,
+                            a.firstName,
+                            this.allergyDetail(a),
+                        ])
+                    );
+                }
+            }
+            for (const group of report.dietaryRestrictions) {
+                for (const a of group.attendees) {
+                    lines.push(
+                        csvRow([
+                            "DIETARY_RESTRICTION",
+                            group.restriction,
+                            group.count,
+                            a.lastName,
+                            a.firstName,
+                            null,
+                        ])
+                    );
+                }
+            }
+            for (const a of report.notes) {
+                lines.push(
+                    csvRow([
+                        "NOTE",
+                        null,
+                        null,
+                        a.lastName,
+                        a.firstName,
+                        this.joinText([a.dietaryNotes, a.notes]),
+                    ])
+                );
+            }
+            this.sendCsv(res, filename, lines);
+            return;
+        }
+
+        const doc = this.startPdf(res, filename);
+        this.pdfHeader(doc, "Informe de alimentación", report);
+        this.pdfHeading(doc, "Alergias");
+        this.pdfAllergies(doc, report.allergies);
+        this.pdfHeading(doc, "Restricciones alimentarias");
+        if (report.dietaryRestrictions.length === 0) {
+            this.pdfLine(doc, "Sin restricciones registradas");
+        }
+        for (const group of report.dietaryRestrictions) {
+            this.pdfGroup(
+                doc,
+                `${DIETARY_LABELS[group.restriction]} (${group.count})`,
+                group.attendees.map((a) => this.fullName(a))
+            );
+        }
+        this.pdfHeading(doc, "Observaciones");
+        if (report.notes.length === 0) {
+            this.pdfLine(doc, "Sin observaciones");
+        }
+        for (const a of report.notes) {
+            this.pdfLine(
+                doc,
+                `${this.fullName(a)}: ${this.joinText([a.dietaryNotes, a.notes])}`
+            );
+        }
+        doc.end();
+    }
+
+    sendMedical(
+        res: Response,
+        report: MedicalReport,
+        format: Exclude<ReportFormat, "json">
+    ): void {
+        const filename = this.filename("medico", report.camp, format);
+        if (format === "csv") {
+            const lines = [
+                csvRow([
+                    "lastName",
+                    "firstName",
+                    "age",
+                    "allergies",
+                    "medications",
+                    "conditions",
+                    "emergencyContactName",
+                    "emergencyContactPhone",
+                    "emergencyContactRelationship",
+                    "insuranceProvider",
+                    "insurancePolicyNumber",
+                    "notes",
+                ]),
+            ];
+            for (const a of report.attendees) {
+                lines.push(
+                    csvRow([
+                        a.lastName,
+                        a.firstName,
+                        a.age,
+                        this.describeAllergies(a.allergies),
+                        this.describeMedications(a.medications),
+                        this.describeConditions(a.conditions),
+                        a.emergencyContactName,
+                        a.emergencyContactPhone,
+                        a.emergencyContactRelationship,
+                        a.insuranceProvider,
+                        a.insurancePolicyNumber,
+                        a.notes,
+                    ])
+                );
+            }
+            this.sendCsv(res, filename, lines);
+            return;
+        }
+
+        const doc = this.startPdf(res, filename);
+        this.pdfHeader(doc, "Informe médico", report);
+        const { summary } = report;
+        this.pdfLine(
+            doc,
+            `Con alergias: ${summary.withAllergies} (severas: ${summary.withSeriousAllergies})  ·  ` +
+                `Con medicamentos: ${summary.withMedications}  ·  ` +
+                `Con condiciones: ${summary.withConditions}  ·  ` +
+                `Sin perfil de salud: ${summary.withoutProfile}`
+        );
+        this.pdfHeading(doc, "Alergias");
+        this.pdfAllergies(doc, report.allergies);
+        this.pdfHeading(doc, "Condiciones médicas");
+        if (report.conditions.length === 0) {
+            this.pdfLine(doc, "Sin condiciones registradas");
+        }
+        for (const group of report.conditions) {
+            this.pdfGroup(
+                doc,
+                `${group.name} (${group.count})`,
+                group.attendees.map((a) => this.fullName(a))
+            );
+        }
+        this.pdfHeading(doc, "Detalle por asistente");
+        for (const a of report.attendees) {
+            this.pdfGroup(
+                doc,
+                `${this.fullName(a)}${a.age !== null ? ` (${a.age} años)` : ""}`,
+                [
+                    a.allergies.length
+                        ? `Alergias: ${this.describeAllergies(a.allergies)}`
+                        : null,
+                    a.medications.length
+                        ? `Medicamentos: ${this.describeMedications(a.medications)}`
+                        : null,
+                    a.conditions.length
+                        ? `Condiciones: ${this.describeConditions(a.conditions)}`
+                        : null,
+                    a.emergencyContactName || a.emergencyContactPhone
+                        ? `Emergencia: ${this.joinText(
+                              [
+                                  a.emergencyContactName,
+                                  a.emergencyContactRelationship,
+                                  a.emergencyContactPhone,
+                              ],
+                              " · "
+                          )}`
+                        : null,
+                    a.insuranceProvider
+                        ? `Seguro: ${this.joinText(
+                              [a.insuranceProvider, a.insurancePolicyNumber],
+                              " · "
+                          )}`
+                        : null,
+                    a.notes ? `Notas: ${a.notes}` : null,
+                ].filter((line): line is string => line !== null)
+            );
+        }
+        doc.end();
+    }
+
+    /**
+     * Asistentes CONFIRMED/PAID del camp con su perfil de salud, a través
+     * de la asociación camp → attendees
+     */
+    private async load(
+        campId: string
+    ): Promise<{ camp: ReportCamp; rows: AttendeeWithProfile[] }> {
+        const camp = await Camp.findOne({
+            where: { id: campId },
+            include: [
+                {
+                    model: CampAttendee,
+                    as: "attendees",
+                    required: false,
+                    where: { registrationStatus: REPORT_STATUSES },
+                    attributes: ["id", "firstName", "lastName", "age", "birthDate"],
+                    include: [{ model: HealthProfile, as: "healthProfile" }],
+                },
+            ],
+            order: [
+                [{ model: CampAttendee, as: "attendees" }, "lastName", "ASC"],
+                [{ model: CampAttendee, as: "attendees" }, "firstName", "ASC"],
+            ],
+        });
+        if (!camp) {
+            throw new AppError("Camp no encontrado", 404);
+        }
+        const attendees = (camp.get("attendees") ?? []) as CampAttendee[];
+        const rows = attendees.map((attendee) => ({
+            attendee: {
+                id: attendee.id,
+                firstName: attendee.firstName,
+                lastName: attendee.lastName,
+                age: attendee.age,
+            },
+            profile: (attendee.get("healthProfile") ??
+                null) as HealthProfile | null,
+        }));
+        return {
+            camp: {
+                id: camp.id,
+                name: camp.name,
+                code: camp.code,
+                startDate: camp.startDate,
+                endDate: camp.endDate,
+            },
+            rows,
+        };
+    }
+
+    /**
+     * Agrupa las alergias por nombre sin distinguir mayúsculas ni tildes
+     * ("Maní" y "mani" son la misma); las más frecuentes primero
+     */
+    private groupAllergies(rows: AttendeeWithProfile[]): AllergyGroup[] {
+        const groups = new Map<string, AllergyGroup>();
+        for (const { attendee, profile } of rows) {
+            for (const allergy of profile?.allergies ?? []) {
+                const key = this.groupKey(allergy.name);
+                const group = groups.get(key) ?? {
+                    name: allergy.name.trim(),
+                    count: 0,
+                    attendees: [],
+                };
+                group.attendees.push({
+                    ...attendee,
+                    severity: allergy.severity,
+                    reaction: allergy.reaction ?? null,
+                });
+                group.count = group.attendees.length;
+                groups.set(key, group);
+            }
+        }
+        const rank = (s: AllergySeverity) => ALLERGY_SEVERITIES.indexOf(s);
+        for (const group of groups.values()) {
+            group.attendees.sort((a, b) => rank(b.severity) - rank(a.severity));
+        }
+        return Array.from(groups.values()).sort(
+            (a, b) => b.count - a.count || a.name.localeCompare(b.name, "es")
+        );
+    }
+
+    private groupKey(name: string): string {
+        return name
+            .trim()
+            .toLowerCase()
+            .normalize("NFD")
+            .replace(/[\u0300-\u036f]/g, "");
+    }
+
+    private fullName(a: ReportAttendee): string {
+        return `${a.lastName}, ${a.firstName}`;
+    }
+
+    private joinText(parts: (string | null)[], separator = " / "): string {
+        return parts.filter((part) => !!part).join(separator);
+    }
+
+    private allergyDetail(a: AllergyGroup["attendees"][number]): string {
+        return this.joinText(
+            [SEVERITY_LABELS[a.severity], a.reaction],
+            " - "
+        );
+    }
+
+    private describeAllergies(allergies: HealthProfile["allergies"]): string {
+        return allergies
+            .map((a) => `${a.name} (${SEVERITY_LABELS[a.severity]})`)
+            .join("; ");
+    }
+
+    private describeMedications(
+        medications: HealthProfile["medications"]
+    ): string {
+        return medications
+            .map((m) => this.joinText([m.name, m.dosage ?? null, m.schedule ?? null], " "))
+            .join("; ");
+    }
+
+    private describeConditions(conditions: HealthProfile["conditions"]): string {
+        return conditions
+            .map((c) => (c.notes ? `${c.name} (${c.notes})` : c.name))
+            .join("; ");
+    }
+
+    private filename(prefix: string, camp: ReportCamp, format: string): string {
+        const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+        return `${prefix}-${camp.code}-${date}.${format}`;
+    }
+
+    private sendCsv(res: Response, filename: string, lines: string[]): void {
+        res.status(200);
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        res.setHeader("Cache-Control", "no-store");
+        res.end(CSV_BOM + lines.join(""));
+    }
+
+    private startPdf(res: Response, filename: string): PDFKit.PDFDocument {
+        const doc = new PDFDocument({ size: "LETTER", margin: 40 });
+        res.status(200);
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+        res.setHeader("Cache-Control", "no-store");
+        doc.on("error", (error) => {
+            logger.error("Error generating report PDF", {
+                filename,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            res.destroy();
+        });
+        doc.pipe(res);
+        return doc;
+    }
+
+    private pdfHeader(
+        doc: PDFKit.PDFDocument,
+        title: string,
+        report: { camp: ReportCamp; generatedAt: Date; totalAttendees: number }
+    ): void {
+        const day = (value: Date | string) =>
+            new Date(value).toISOString().slice(0, 10);
+        doc.font("Helvetica-Bold").fontSize(16).text(title);
+        doc.font("Helvetica")
+            .fontSize(10)
+            .text(
+                `${report.camp.name} (${report.camp.code}) · ${day(report.camp.startDate)} a ${day(report.camp.endDate)}`
+            )
+            .text(
+                `Asistentes confirmados o pagados: ${report.totalAttendees} · Generado: ${report.generatedAt.toISOString().slice(0, 16).replace("T", " ")} UTC`
+            )
+            .moveDown();
+    }
+
+    private pdfHeading(doc: PDFKit.PDFDocument, text: string): void {
+        doc.moveDown(0.5).font("Helvetica-Bold").fontSize(13).text(text);
+        doc.font("Helvetica").fontSize(10).moveDown(0.25);
+    }
+
+    private pdfGroup(
+        doc: PDFKit.PDFDocument,
+        title: string,
+        lines: string[]
+    ): void {
+        doc.font("Helvetica-Bold").fontSize(10).text(title);
+        doc.font("Helvetica");
+        for (const line of lines) {
+            doc.text(`•  ${line}`, { indent: 12 });
+        }
+        doc.moveDown(0.3);
+    }
+
+    private pdfLine(doc: PDFKit.PDFDocument, text: string): void {
+        doc.font("Helvetica").fontSize(10).text(text);
+    }
+
+    private pdfAllergies(doc: PDFKit.PDFDocument, groups: AllergyGroup[]): void {
+        if (groups.length === 0) {
+            this.pdfLine(doc, "Sin alergias registradas");
+        }
+        for (const group of groups) {
+            this.pdfGroup(
+                doc,
+                `${group.name} (${group.count})`,
+                group.attendees.map(
+                    (a) => `${this.fullName(a)} - ${this.allergyDetail(a)}`
+                )
+            );
+        }
+    }
+}
+
+// Exportar instancia singleton
+export const campReportService = new CampReportService();
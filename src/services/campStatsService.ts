@@ -0,0 +1,166 @@
+import Camp from "../models/Camp";
+import CampAttendee, {
+    RegistrationStatus,
+    StatsCount,
+} from "../models/CampAttendee";
+import { AppError } from "../utils/handleError";
+import { SEAT_HOLDING_STATUSES } from "./registrationService";
+
+const REGISTRATION_STATUSES: RegistrationStatus[] = [
+    "PENDING_PAYMENT",
+    "PAID",
+    "CONFIRMED",
+    "CANCELLED",
+    "WAITING_LIST",
+];
+const ASSISTANT_SUB_ROLES = ["NONE", "MONITOR", "GROUP_LEADER"];
+const GENDERS = ["M", "F"];
+const SHIRT_SIZES = ["XS", "S", "M", "L", "XL"];
+
+export interface CampStatsOptions {
+    // Cantidad de ciudades e iglesias en los tops
+    top: number;
+}
+
+/**
+ * Completa con 0 los valores conocidos sin inscritos y agrupa NULL
+ * como "unknown", manteniendo el orden de `values`
+ */
+const withAllValues = (
+    rows: StatsCount[],
+    values: string[]
+): Record<string, number> => {
+    const result: Record<string, number> = {};
+    for (const value of values) result[value] = 0;
+    for (const row of rows) {
+        const key = row.value ?? "unknown";
+        result[key] = (result[key] ?? 0) + row.count;
+    }
+    return result;
+};
+
+/**
+ * Rellena con 0 los días sin inscripciones entre el primero y el último
+ * con datos (fechas YYYY-MM-DD)
+ */
+const fillDays = (rows: StatsCount<string>[]): StatsCount<string>[] => {
+    if (rows.length === 0) return [];
+    const counts = new Map(rows.map((row) => [row.value, row.count]));
+    const days: StatsCount<string>[] = [];
+    const last = new Date(`${rows[rows.length - 1].value}T00:00:00Z`);
+    for (
+        let day = new Date(`${rows[0].value}T00:00:00Z`);
+        day <= last;
+        day.setUTCDate(day.getUTCDate() + 1)
+    ) {
+        const value = day.toISOString().slice(0, 10);
+        days.push({ value, count: counts.get(value) ?? 0 });
+    }
+    return days;
+};
+
+class CampStatsService {
+    /**
+     * Estadísticas del camp para el dashboard, calculadas con agregados
+     * SQL. byRegistrationStatus y registrationsPerDay cuentan todas las
+     * inscripciones; el resto solo las que ocupan cupo (sin cancelados
+     * ni lista de espera).
+     */
+    async getStats(campId: string, options: CampStatsOptions) {
+        const camp = await Camp.findOne({ where: { id: campId } });
+        if (!camp) {
+            throw new AppError("Camp no encontrado", 404);
+        }
+        const statuses = SEAT_HOLDING_STATUSES;
+
+        const [
+            byStatus,
+            byRole,
+            bySubRole,
+            byGender,
+            byAge,
+            byShirtSize,
+            topCities,
+            topChurches,
+            perDay,
+        ] = await Promise.all([
+            CampAttendee.countGroupedBy(campId, "registrationStatus"),
+            CampAttendee.countByRole(campId, statuses),
+            CampAttendee.countGroupedBy(campId, "assistantSubRole", { statuses }),
+            CampAttendee.countGroupedBy(campId, "gender", { statuses }),
+            CampAttendee.countByAge(campId, statuses),
+            CampAttendee.countGroupedBy(campId, "shirtSize", { statuses }),
+            CampAttendee.countGroupedBy(campId, "city", {
+                statuses,
+                limit: options.top,
+                excludeEmpty: true,
+            }),
+            CampAttendee.countGroupedBy(campId, "churchPastor", {
+                statuses,
+                limit: options.top,
+                excludeEmpty: true,
+            }),
+            CampAttendee.countRegistrationsPerDay(
+                campId,
+                camp.registrationOpensAt
+            ),
+        ]);
+
+        const registrationStatus = withAllValues(
+            byStatus,
+            REGISTRATION_STATUSES
+        );
+        const occupied = statuses.reduce(
+            (total, status) => total + registrationStatus[status],
+            0
+        );
+        const totalRegistrations = byStatus.reduce(
+            (total, row) => total + row.count,
+            0
+        );
+
+        return {
+            campId: camp.id,
+            generatedAt: new Date(),
+            totalRegistrations,
+            capacity: {
+                maxAttendees: camp.maxAttendees,
+                occupied,
+                remaining:
+                    camp.maxAttendees === null
+                        ? null
+                        : Math.max(camp.maxAttendees - occupied, 0),
+                waitingList: registrationStatus.WAITING_LIST,
+                isFull:
+                    camp.maxAttendees !== null && occupied >= camp.maxAttendees,
+            },
+            byRegistrationStatus: registrationStatus,
+            byRole,
+            byAssistantSubRole: withAllValues(bySubRole, ASSISTANT_SUB_ROLES),
+            byGender: withAllValues(byGender, GENDERS),
+            ageHistogram: byAge.map((row) => ({
+                age: row.value,
+                count: row.count,
+            })),
+            byShirtSize: withAllValues(byShirtSize, SHIRT_SIZES),
+            topCities: topCities.map((row) => ({
+                city: row.value,
+                count: row.count,
+            })),
+            topChurches: topChurches.map((row) => ({
+                churchPastor: row.value,
+                count: row.count,
+            })),
+            registrationsPerDay: {
+                since: camp.registrationOpensAt,
+                days: fillDays(perDay).map((row) => ({
+                    date: row.value,
+                    count: row.count,
+                })),
+            },
+        };
+    }
+}
+
+// Exportar instancia singleton
+export const campStatsService = new CampStatsService();
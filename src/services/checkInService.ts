@@ -0,0 +1,314 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import QRCode from "qrcode";
+import { sequelize } from "../config/database";
+import { authConfig } from "../config/env";
+import Camp from "../models/Camp";
+import CampAttendee from "../models/CampAttendee";
+import CheckIn, { CheckInMethod } from "../models/CheckIn";
+import Guardian from "../models/Guardian";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+import { emailService } from "./emailService";
+
+// Claims del QR: el camp queda firmado para que un código no sirva en otro
+// camp. Vence al terminar el día siguiente al fin del camp y solo se acepta
+// mientras el asistente siga CONFIRMED.
+interface CheckInTokenPayload {
+    sub: string;
+    campId: string;
+    type: "check_in";
+}
+
+const CHECK_IN_AUDIENCE = "check-in";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Llave propia de los QR, derivada de JWT_SECRET: un QR nunca valida como
+// access token ni al revés
+const CHECK_IN_SECRET = crypto
+    .createHmac("sha256", authConfig.jwtSecret)
+    .update("check-in-token")
+    .digest();
+
+// Se identifica con el QR o, si no lo trae, por su número de identificación
+export interface CheckInInput {
+    token?: string;
+    identificationNumber?: string;
+    device?: string | null;
+}
+
+export interface CheckInActor {
+    userId?: string | null;
+    requestId?: string;
+}
+
+class CheckInService {
+    /**
+     * Token firmado que se codifica en el QR del asistente
+     */
+    issueToken(attendee: CampAttendee, camp: Camp): string {
+        const payload: CheckInTokenPayload = {
+            sub: attendee.id,
+            campId: camp.id,
+            type: "check_in",
+        };
+        const expiresAt = new Date(camp.endDate).getTime() + 2 * DAY_MS;
+        return jwt.sign(
+            { ...payload, exp: Math.floor(expiresAt / 1000) },
+            CHECK_IN_SECRET,
+            { audience: CHECK_IN_AUDIENCE }
+        );
+    }
+
+    /**
+     * QR de check-in en PNG; solo para asistentes CONFIRMED
+     */
+    async getQrPng(attendeeId: string) {
+        const attendee = await CampAttendee.findOne({
+            where: { id: attendeeId },
+        });
+        if (!attendee) {
+            throw new AppError("Asistente no encontrado", 404);
+        }
+        this.assertConfirmed(attendee);
+        const camp = await Camp.findByPk(attendee.campId);
+        if (!camp) {
+            throw new AppError("Camp no encontrado", 404);
+        }
+        return {
+            filename: `check-in-${attendee.identificationNumber}.png`,
+            png: await this.renderQr(attendee, camp),
+        };
+    }
+
+    /**
+     * Envía la confirmación de asistencia con el QR al asistente, con
+     * copia a sus acudientes
+     */
+    async sendConfirmation(
+        attendee: CampAttendee,
+        requestId?: string
+    ): Promise<boolean> {
+        const guardianEmails = await Guardian.findEmails(attendee.id);
+        const to = attendee.email ?? guardianEmails[0] ?? null;
+        if (!to || attendee.registrationStatus !== "CONFIRMED") {
+            return false;
+        }
+        const camp = await Camp.findByPk(attendee.campId);
+        if (!camp) {
+            return false;
+        }
+        const day = (value: Date | string) =>
+            new Date(value).toISOString().slice(0, 10);
+
+        const sent = await emailService.sendAttendanceConfirmationEmail({
+            firstName: attendee.firstName,
+            lastName: attendee.lastName,
+            email: to,
+            cc: guardianEmails.filter((email) => email !== to),
+            campName: camp.name,
+            campDates: `${day(camp.startDate)} a ${day(camp.endDate)}`,
+            qrPng: await this.renderQr(attendee, camp),
+        });
+        logger.info("Attendance confirmation sent", {
+            requestId,
+            id: attendee.id,
+            sent,
+        });
+        return sent;
+    }
+
+    /**
+     * Igual que sendConfirmation pero sin bloquear la respuesta
+     */
+    sendConfirmationInBackground(
+        attendee: CampAttendee,
+        requestId?: string
+    ): void {
+        this.sendConfirmation(attendee, requestId).catch((error) => {
+            logger.error("Error sending attendance confirmation", {
+                requestId,
+                id: attendee.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        });
+    }
+
+    /**
+     * Registra la llegada de un asistente CONFIRMED del camp. Cada asistente
+     * hace check-in una sola vez por camp (409 ALREADY_CHECKED_IN).
+     */
+    async checkIn(
+        campId: string,
+        input: CheckInInput,
+        actor: CheckInActor = {}
+    ) {
+        const camp = await Camp.findOne({ where: { id: campId } });
+        if (!camp) {
+            throw new AppError("Camp no encontrado", 404);
+        }
+        const method: CheckInMethod = input.token ? "QR" : "MANUAL";
+        const attendeeId = input.token
+            ? this.verifyToken(input.token, campId)
+            : await this.findByIdentification(
+                  campId,
+                  input.identificationNumber ?? ""
+              );
+
+        const result = await sequelize.transaction(async (transaction) => {
+            const attendee = await CampAttendee.findOne({
+                where: { id: attendeeId },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+            if (!attendee) {
+                throw new AppError("Asistente no encontrado", 404);
+            }
+            // Se cambió de camp después de recibir el QR
+            if (attendee.campId !== campId) {
+                throw new AppError(
+                    "El asistente no está inscrito en este camp",
+                    409,
+                    true,
+                    "CHECK_IN_WRONG_CAMP"
+                );
+            }
+            this.assertConfirmed(attendee);
+            const existing = await CheckIn.findByAttendee(
+                attendee.id,
+                campId,
+                transaction
+            );
+            if (existing) {
+                throw new AppError(
+                    `El asistente ya hizo check-in (${existing.checkedInAt.toISOString()})`,
+                    409,
+                    true,
+                    "ALREADY_CHECKED_IN"
+                );
+            }
+            const checkIn = await CheckIn.create(
+                {
+                    attendeeId: attendee.id,
+                    campId,
+                    method,
+                    device: input.device ?? null,
+                    checkedInBy: actor.userId ?? null,
+                },
+                { transaction }
+            );
+            return { checkIn, attendee };
+        });
+
+        logger.info("CampAttendee checked in", {
+            requestId: actor.requestId,
+            id: result.attendee.id,
+            campId,
+            method,
+        });
+        const { attendee } = result;
+        return {
+            checkIn: result.checkIn,
+            attendee: {
+                id: attendee.id,
+                firstName: attendee.firstName,
+                lastName: attendee.lastName,
+                identificationType: attendee.identificationType,
+                identificationNumber: attendee.identificationNumber,
+                registrationStatus: attendee.registrationStatus,
+            },
+        };
+    }
+
+    private verifyToken(token: string, campId: string): string {
+        let payload: CheckInTokenPayload | null;
+        try {
+            payload = this.toPayload(
+                jwt.verify(token, CHECK_IN_SECRET, {
+                    audience: CHECK_IN_AUDIENCE,
+                })
+            );
+        } catch (error) {
+            throw new AppError(
+                error instanceof jwt.TokenExpiredError
+                    ? "Código QR vencido"
+                    : "Código QR inválido",
+                400,
+                true,
+                "INVALID_CHECK_IN_TOKEN"
+            );
+        }
+        if (!payload) {
+            throw new AppError(
+                "Código QR inválido",
+                400,
+                true,
+                "INVALID_CHECK_IN_TOKEN"
+            );
+        }
+        if (payload.campId !== campId) {
+            throw new AppError(
+                "El código QR es de otro camp",
+                409,
+                true,
+                "CHECK_IN_WRONG_CAMP"
+            );
+        }
+        return payload.sub;
+    }
+
+    private async findByIdentification(
+        campId: string,
+        identificationNumber: string
+    ): Promise<string> {
+        const attendee = await CampAttendee.findOne({
+            where: { campId, identificationNumber },
+            attributes: ["id"],
+        });
+        if (!attendee) {
+            throw new AppError(
+                "No hay un asistente con ese número de identificación en este camp",
+                404
+            );
+        }
+        return attendee.id;
+    }
+
+    private assertConfirmed(attendee: CampAttendee): void {
+        if (attendee.registrationStatus !== "CONFIRMED") {
+            throw new AppError(
+                `El asistente no está confirmado (estado: ${attendee.registrationStatus})`,
+                409,
+                true,
+                "CHECK_IN_NOT_CONFIRMED"
+            );
+        }
+    }
+
+    // Claims verificados → payload del QR, o null si no tiene la forma esperada
+    private toPayload(
+        decoded: string | jwt.JwtPayload
+    ): CheckInTokenPayload | null {
+        if (
+            typeof decoded === "string" ||
+            decoded.type !== "check_in" ||
+            typeof decoded.sub !== "string" ||
+            typeof decoded.campId !== "string"
+        ) {
+            return null;
+        }
+        return { sub: decoded.sub, campId: decoded.campId, type: "check_in" };
+    }
+
+    private renderQr(attendee: CampAttendee, camp: Camp): Promise<Buffer> {
+        return QRCode.toBuffer(this.issueToken(attendee, camp), {
+            type: "png",
+            errorCorrectionLevel: "M",
+            margin: 2,
+            width: 400,
+        });
+    }
+}
+
+// Exportar instancia singleton
+export const checkInService = new CheckInService();
@@ -0,0 +1,289 @@
+import crypto from "crypto";
+import { sequelize } from "../config/database";
+import { authConfig, consentConfig } from "../config/env";
+import Camp from "../models/Camp";
+import CampAttendee from "../models/CampAttendee";
+import Guardian from "../models/Guardian";
+import ParentalConsent from "../models/ParentalConsent";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+import { emailService } from "./emailService";
+import { guardianService } from "./guardianService";
+
+// Versión del texto del formulario; cambiarla si cambian las declaraciones
+export const CONSENT_FORM_VERSION = "2025-01";
+
+// Declaraciones que el acudiente acepta al firmar
+const CONSENT_STATEMENTS = [
+    "Autorizo al menor a participar en todas las actividades del campamento.",
+    "Autorizo al equipo del campamento a buscar atención médica para el menor en caso de emergencia si no es posible contactarme.",
+    "Declaro que la información médica y de contacto registrada es verdadera y está completa.",
+    "Autorizo el uso de fotografías y videos del campamento en los canales de la organización.",
+];
+
+// Estado mostrado con el asistente (NOT_REQUIRED, MISSING y EXPIRED se calculan)
+export type ConsentSummaryStatus =
+    | "NOT_REQUIRED"
+    | "MISSING"
+    | "PENDING"
+    | "EXPIRED"
+    | "SIGNED"
+    | "REVOKED";
+
+export interface ConsentSummary {
+    required: boolean;
+    status: ConsentSummaryStatus;
+    consentId: string | null;
+    guardianId: string | null;
+    sentTo: string | null;
+    requestedAt: Date | null;
+    expiresAt: Date | null;
+    signedAt: Date | null;
+    signedName: string | null;
+    formVersion: string | null;
+}
+
+export interface ConsentSignMetadata {
+    ip?: string;
+    userAgent?: string;
+}
+
+class ConsentService {
+    /**
+     * Estado del consentimiento del asistente para su camp actual. Un
+     * consentimiento firmado prevalece sobre solicitudes posteriores.
+     */
+    async getStatus(attendee: CampAttendee): Promise<ConsentSummary> {
+        const required = guardianService.isMinor(attendee);
+        const consents = await ParentalConsent.findForAttendee(
+            attendee.id,
+            attendee.campId
+        );
+        const consent =
+            consents.find((c) => c.status === "SIGNED") ?? consents[0];
+        if (!consent) {
+            return {
+                required,
+                status: required ? "MISSING" : "NOT_REQUIRED",
+                consentId: null,
+                guardianId: null,
+                sentTo: null,
+                requestedAt: null,
+                expiresAt: null,
+                signedAt: null,
+                signedName: null,
+                formVersion: null,
+            };
+        }
+        return {
+            required,
+            status: consent.isExpired() ? "EXPIRED" : consent.status,
+            consentId: consent.id,
+            guardianId: consent.guardianId,
+            sentTo: consent.sentTo,
+            requestedAt: consent.createdAt,
+            expiresAt: consent.expiresAt,
+            signedAt: consent.signedAt,
+            signedName: consent.signedName,
+            formVersion: consent.formVersion,
+        };
+    }
+
+    /**
+     * Envía al acudiente un enlace de un solo uso para firmar el
+     * consentimiento del camp actual del asistente. Solo queda vigente
+     * la última solicitud.
+     */
+    async requestConsent(
+        attendeeId: string,
+        guardianId: string,
+        requestId?: string
+    ): Promise<{ consent: ConsentSummary; emailSent: boolean }> {
+        const attendee = await CampAttendee.findOne({
+            where: { id: attendeeId },
+        });
+        if (!attendee) {
+            throw new AppError("Asistente no encontrado", 404);
+        }
+        if (!guardianService.isMinor(attendee)) {
+            throw new AppError(
+                "El asistente no es menor de edad: no requiere consentimiento",
+                409,
+                true,
+                "CONSENT_NOT_REQUIRED"
+            );
+        }
+        const guardian = await guardianService.findGuardian(
+            attendeeId,
+            guardianId
+        );
+        if (!guardian.email) {
+            throw new AppError(
+                "El acudiente no tiene email registrado",
+                422,
+                true,
+                "GUARDIAN_EMAIL_REQUIRED"
+            );
+        }
+        const camp = await Camp.findOne({ where: { id: attendee.campId } });
+        if (!camp) {
+            throw new AppError("Camp no encontrado", 404);
+        }
+        const current = await this.getStatus(attendee);
+        if (current.status === "SIGNED") {
+            throw new AppError(
+                "El consentimiento para este camp ya fue firmado",
+                409,
+                true,
+                "CONSENT_ALREADY_SIGNED"
+            );
+        }
+
+        const token = crypto.randomBytes(32).toString("hex");
+        const expiresInHours = consentConfig.expiresHours;
+        await sequelize.transaction(async (transaction) => {
+            await ParentalConsent.revokePending({ attendeeId }, transaction);
+            await ParentalConsent.createRequest(
+                {
+                    attendeeId,
+                    campId: camp.id,
+                    guardianId: guardian.id,
+                    sentTo: guardian.email!,
+                    tokenHash: this.hashToken(token),
+                    expiresAt: new Date(
+                        Date.now() + expiresInHours * 60 * 60 * 1000
+                    ),
+                    formVersion: CONSENT_FORM_VERSION,
+                },
+                transaction
+            );
+        });
+
+        const emailSent = await emailService.sendConsentRequestEmail({
+            firstName: guardian.firstName,
+            lastName: guardian.lastName,
+            email: guardian.email,
+            attendeeName: `${attendee.firstName} ${attendee.lastName}`,
+            campName: camp.name,
+            consentUrl: `${authConfig.frontendUrl}/consent?token=${token}`,
+            expiresInHours,
+        });
+        logger.info("Parental consent requested", {
+            requestId,
+            attendeeId,
+            guardianId,
+            emailSent,
+        });
+
+        return { consent: await this.getStatus(attendee), emailSent };
+    }
+
+    /**
+     * Datos que ve el acudiente antes de firmar
+     */
+    async getForm(token: string) {
+        const consent = await ParentalConsent.findByHash(
+            this.hashToken(token)
+        );
+        this.assertUsable(consent);
+        const [attendee, camp, guardian] = await Promise.all([
+            CampAttendee.findOne({ where: { id: consent!.attendeeId } }),
+            Camp.findOne({ where: { id: consent!.campId } }),
+            consent!.guardianId
+                ? Guardian.findOne({ where: { id: consent!.guardianId } })
+                : null,
+        ]);
+        if (!attendee || !camp || attendee.campId !== camp.id) {
+            throw new AppError("Enlace inválido o expirado", 400);
+        }
+
+        return {
+            formVersion: consent!.formVersion,
+            expiresAt: consent!.expiresAt,
+            attendee: {
+                firstName: attendee.firstName,
+                lastName: attendee.lastName,
+                birthDate: attendee.birthDate,
+            },
+            camp: {
+                name: camp.name,
+                startDate: camp.startDate,
+                endDate: camp.endDate,
+                city: camp.city,
+                venue: camp.venue,
+            },
+            guardian: guardian
+                ? {
+                      firstName: guardian.firstName,
+                      lastName: guardian.lastName,
+                      relationship: guardian.relationship,
+                  }
+                : null,
+            statements: CONSENT_STATEMENTS,
+        };
+    }
+
+    /**
+     * Firma el consentimiento: consume el token y guarda nombre, IP y
+     * navegador del firmante como evidencia.
+     */
+    async sign(
+        token: string,
+        signedName: string,
+        metadata: ConsentSignMetadata = {}
+    ): Promise<ConsentSummary> {
+        const attendeeId = await sequelize.transaction(async (transaction) => {
+            const consent = await ParentalConsent.findByHash(
+                this.hashToken(token),
+                transaction
+            );
+            this.assertUsable(consent);
+            const attendee = await CampAttendee.findOne({
+                where: { id: consent!.attendeeId },
+                transaction,
+            });
+            // Si el asistente cambió de camp la solicitud ya no aplica
+            if (!attendee || attendee.campId !== consent!.campId) {
+                throw new AppError("Enlace inválido o expirado", 400);
+            }
+            await consent!.update(
+                {
+                    status: "SIGNED",
+                    signedAt: new Date(),
+                    signedName,
+                    signedIp: metadata.ip ?? null,
+                    signedUserAgent: metadata.userAgent?.slice(0, 500) ?? null,
+                },
+                { transaction }
+            );
+            return attendee.id;
+        });
+
+        logger.info("Parental consent signed", { attendeeId });
+        const attendee = await CampAttendee.findOne({
+            where: { id: attendeeId },
+        });
+        return await this.getStatus(attendee!);
+    }
+
+    private assertUsable(consent: ParentalConsent | null): void {
+        if (consent?.status === "SIGNED") {
+            throw new AppError(
+                "El consentimiento ya fue firmado",
+                409,
+                true,
+                "CONSENT_ALREADY_SIGNED"
+            );
+        }
+        if (!consent || !consent.isUsable()) {
+            throw new AppError("Enlace inválido o expirado", 400);
+        }
+    }
+
+    private hashToken(token: string): string {
+        return crypto.createHash("sha256").update(token).digest("hex");
+    }
+}
+
+// Exportar instancia singleton
+export const consentService = new ConsentService();
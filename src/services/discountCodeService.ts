@@ -0,0 +1,272 @@
+import { Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import Camp from "../models/Camp";
+import DiscountCode, { DiscountCodeInput } from "../models/DiscountCode";
+import DiscountRedemption from "../models/DiscountRedemption";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+import { PaymentActor, paymentService } from "./paymentService";
+
+class DiscountCodeService {
+    /**
+     * Códigos del camp con sus usos
+     */
+    async listByCamp(campId: string) {
+        await this.findCamp(campId);
+        const [codes, uses] = await Promise.all([
+            DiscountCode.findByCamp(campId),
+            DiscountRedemption.countByCamp(campId),
+        ]);
+        return codes.map((code) => this.withUses(code, uses.get(code.id) ?? 0));
+    }
+
+    async create(
+        campId: string,
+        input: DiscountCodeInput,
+        actor: PaymentActor = {}
+    ) {
+        await this.findCamp(campId);
+        await this.assertUniqueCode(campId, input.code);
+        const code = await DiscountCode.create({
+            campId,
+            code: input.code.toUpperCase(),
+            description: input.description ?? null,
+            discountType: input.discountType,
+            value: input.value,
+            maxUses: input.maxUses ?? null,
+            expiresAt: input.expiresAt ?? null,
+            isActive: input.isActive ?? true,
+            createdBy: actor.userId ?? null,
+        });
+        logger.info("Discount code created", {
+            requestId: actor.requestId,
+            campId,
+            id: code.id,
+            code: code.code,
+        });
+        return this.withUses(code, 0);
+    }
+
+    /**
+     * Modifica un código. Los asistentes que ya lo redimieron conservan el
+     * descuento con los valores nuevos.
+     */
+    async update(
+        campId: string,
+        codeId: string,
+        input: Partial<DiscountCodeInput>,
+        actor: PaymentActor = {}
+    ) {
+        const code = await DiscountCode.findOne({
+            where: { id: codeId, campId },
+        });
+        if (!code) {
+            throw new AppError("Código de descuento no encontrado", 404);
+        }
+        const uses = await DiscountRedemption.countByCode(code.id);
+        if (
+            input.maxUses !== undefined &&
+            input.maxUses !== null &&
+            input.maxUses < uses
+        ) {
+            throw new AppError(
+                `maxUses no puede ser menor a los usos actuales (${uses})`,
+                409
+            );
+        }
+        const discountType = input.discountType ?? code.discountType;
+        const value = input.value ?? code.value;
+        if (discountType === "PERCENTAGE" && value > 100) {
+            throw new AppError(
+                "value no puede ser mayor a 100 en un descuento PERCENTAGE",
+                400
+            );
+        }
+        if (input.code && input.code.toUpperCase() !== code.code) {
+            await this.assertUniqueCode(campId, input.code);
+        }
+        await code.update({
+            ...input,
+            code: input.code ? input.code.toUpperCase() : undefined,
+        });
+        logger.info("Discount code updated", {
+            requestId: actor.requestId,
+            campId,
+            id: code.id,
+            fields: Object.keys(input),
+        });
+        return this.withUses(code, uses);
+    }
+
+    /**
+     * Aplica un código del camp al asistente (uno por camp). Si con el
+     * descuento queda cubierto el saldo, pasa a PAID.
+     */
+    async redeem(attendeeId: string, rawCode: string, actor: PaymentActor = {}) {
+        const result = await sequelize.transaction(async (transaction) => {
+            const { camp, attendee } = await paymentService.lockAttendee(
+                attendeeId,
+                transaction
+            );
+            if (attendee.registrationStatus === "CANCELLED") {
+                throw new AppError(
+                    "No se pueden aplicar descuentos a una inscripción cancelada",
+                    409
+                );
+            }
+            const existing = await DiscountRedemption.findByAttendee(
+                attendee.id,
+                camp.id,
+                transaction
+            );
+            if (existing) {
+                throw new AppError(
+                    `Ya tiene aplicado el código ${existing.discountCode?.code}`,
+                    409,
+                    true,
+                    "DISCOUNT_ALREADY_REDEEMED"
+                );
+            }
+            const code = await this.findRedeemable(
+                camp.id,
+                rawCode,
+                transaction
+            );
+
+            await DiscountRedemption.create(
+                {
+                    discountCodeId: code.id,
+                    attendeeId: attendee.id,
+                    campId: camp.id,
+                    redeemedBy: actor.userId ?? null,
+                },
+                { transaction }
+            );
+            const { balance } = await paymentService.settle(
+                attendee,
+                camp,
+                actor,
+                transaction
+            );
+            return { code, balance, attendee };
+        });
+
+        logger.info("Discount code redeemed", {
+            requestId: actor.requestId,
+            attendeeId,
+            code: result.code.code,
+            amount: result.balance.fee?.discount?.amount,
+        });
+        return {
+            balance: result.balance,
+            registrationStatus: result.attendee.registrationStatus,
+        };
+    }
+
+    /**
+     * Quita el código aplicado al asistente y libera su uso
+     */
+    async removeRedemption(attendeeId: string, actor: PaymentActor = {}) {
+        const balance = await sequelize.transaction(async (transaction) => {
+            const { camp, attendee } = await paymentService.lockAttendee(
+                attendeeId,
+                transaction
+            );
+            const removed = await DiscountRedemption.destroy({
+                where: { attendeeId: attendee.id, campId: camp.id },
+                transaction,
+            });
+            if (removed === 0) {
+                throw new AppError(
+                    "El asistente no tiene un código de descuento aplicado",
+                    404
+                );
+            }
+            const { balance } = await paymentService.settle(
+                attendee,
+                camp,
+                actor,
+                transaction
+            );
+            return balance;
+        });
+
+        logger.info("Discount code removed", {
+            requestId: actor.requestId,
+            attendeeId,
+        });
+        return { balance };
+    }
+
+    // Código del camp que todavía se puede redimir (bloqueado para contar usos)
+    private async findRedeemable(
+        campId: string,
+        rawCode: string,
+        transaction: Transaction
+    ): Promise<DiscountCode> {
+        const code = await DiscountCode.findByCode(campId, rawCode, transaction);
+        if (!code) {
+            throw new AppError("Código de descuento no válido", 404);
+        }
+        if (!code.isActive) {
+            throw new AppError(
+                "El código de descuento no está activo",
+                409,
+                true,
+                "DISCOUNT_CODE_INACTIVE"
+            );
+        }
+        if (code.expiresAt && code.expiresAt <= new Date()) {
+            throw new AppError(
+                "El código de descuento está vencido",
+                409,
+                true,
+                "DISCOUNT_CODE_EXPIRED"
+            );
+        }
+        if (code.maxUses !== null) {
+            const uses = await DiscountRedemption.countByCode(
+                code.id,
+                transaction
+            );
+            if (uses >= code.maxUses) {
+                throw new AppError(
+                    "El código de descuento ya no tiene usos disponibles",
+                    409,
+                    true,
+                    "DISCOUNT_CODE_EXHAUSTED"
+                );
+            }
+        }
+        return code;
+    }
+
+    private withUses(code: DiscountCode, uses: number) {
+        return {
+            ...code.toJSON(),
+            uses,
+            remainingUses:
+                code.maxUses === null ? null : Math.max(code.maxUses - uses, 0),
+        };
+    }
+
+    private async assertUniqueCode(campId: string, code: string) {
+        if (await DiscountCode.findByCode(campId, code)) {
+            throw new AppError(
+                `Ya existe el código ${code.toUpperCase()} en este camp`,
+                409
+            );
+        }
+    }
+
+    private async findCamp(campId: string): Promise<Camp> {
+        const camp = await Camp.findOne({ where: { id: campId } });
+        if (!camp) {
+            throw new AppError("Camp no encontrado", 404);
+        }
+        return camp;
+    }
+}
+
+// Exportar instancia singleton
+export const discountCodeService = new DiscountCodeService();
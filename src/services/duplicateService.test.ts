@@ -0,0 +1,231 @@
+import { Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import Camp from "../models/Camp";
+import CampAttendee, { RegistrationStatus } from "../models/CampAttendee";
+import AttendeeStatusHistory from "../models/AttendeeStatusHistory";
+import RefreshToken from "../models/RefreshToken";
+import Guardian from "../models/Guardian";
+import ParentalConsent from "../models/ParentalConsent";
+import HealthProfile from "../models/HealthProfile";
+import Payment from "../models/Payment";
+import PaymentCheckout from "../models/PaymentCheckout";
+import Scholarship from "../models/Scholarship";
+import DiscountRedemption from "../models/DiscountRedemption";
+import CheckIn from "../models/CheckIn";
+import { duplicateService } from "./duplicateService";
+import { paymentService } from "./paymentService";
+import { registrationService } from "./registrationService";
+
+const CAMP_ID = "7f1d5c9e-0a3b-4c2d-8e6f-1a2b3c4d5e6f";
+const SURVIVOR_ID = "2b7e9a41-5c3d-4f8e-9a1b-3c5d7e9f1a2b";
+const DUPLICATE_ID = "6e5d4c3b-2a19-4f8e-8d7c-6b5a4f3e2d1c";
+
+const transaction = {
+    LOCK: { UPDATE: "UPDATE" },
+    afterCommit: jest.fn(),
+} as unknown as Transaction;
+
+const buildAttendee = (
+    id: string,
+    values: Partial<CampAttendee> & { registrationStatus: RegistrationStatus }
+) => {
+    const attendee = CampAttendee.build({
+        id,
+        firstName: "Ana",
+        lastName: "Pérez",
+        identificationType: "CC",
+        identificationNumber: "1020304050",
+        campId: CAMP_ID,
+        roleId: "5d6e7f80-1a2b-4c3d-8e9f-0a1b2c3d4e5f",
+        ...values,
+    });
+    jest.spyOn(attendee, "update").mockImplementation(async (changes) => {
+        attendee.set(changes as Partial<CampAttendee>);
+        return attendee;
+    });
+    jest.spyOn(attendee, "destroy").mockResolvedValue();
+    return attendee;
+};
+
+describe("duplicateService.merge", () => {
+    let survivor: CampAttendee;
+    let duplicate: CampAttendee;
+    // Otro asistente que ya usa el email o la identificación consultados
+    let taken: CampAttendee | null;
+    let record: jest.SpyInstance;
+    let movePayments: jest.SpyInstance;
+    let settle: jest.SpyInstance;
+    let promote: jest.SpyInstance;
+
+    beforeEach(() => {
+        survivor = buildAttendee(SURVIVOR_ID, {
+            registrationStatus: "PENDING_PAYMENT",
+            phone: null,
+            city: "Bogotá",
+        });
+        duplicate = buildAttendee(DUPLICATE_ID, {
+            registrationStatus: "PAID",
+            identificationNumber: "1020304051",
+            phone: "3001234567",
+            city: "Medellín",
+            email: "ana@example.com",
+            emailVerifiedAt: new Date("2026-01-10T10:00:00Z"),
+        });
+        taken = null;
+
+        jest.spyOn(sequelize, "transaction").mockImplementation(((
+            callback: (t: Transaction) => Promise<unknown>
+        ) => callback(transaction)) as never);
+        jest.spyOn(Camp, "findOne").mockResolvedValue(
+            Camp.build({ id: CAMP_ID } as never)
+        );
+        jest.spyOn(CampAttendee, "findOne").mockImplementation((async (
+            options: { where: Record<string, unknown> }
+        ) => {
+            const { where } = options;
+            if ("email" in where || "identificationNumber" in where) {
+                return taken;
+            }
+            return where.id === SURVIVOR_ID ? survivor : duplicate;
+        }) as never);
+
+        jest.spyOn(RefreshToken, "revokeAllForAttendee").mockResolvedValue(
+            undefined as never
+        );
+        for (const model of [
+            Guardian,
+            ParentalConsent,
+            PaymentCheckout,
+            Scholarship,
+            DiscountRedemption,
+            CheckIn,
+            HealthProfile,
+        ]) {
+            jest.spyOn(model, "update").mockResolvedValue([0] as never);
+        }
+        movePayments = jest
+            .spyOn(Payment, "update")
+            .mockResolvedValue([1] as never);
+        jest.spyOn(DiscountRedemption, "findAll").mockResolvedValue([]);
+        jest.spyOn(CheckIn, "findAll").mockResolvedValue([]);
+        jest.spyOn(HealthProfile, "findByAttendee").mockResolvedValue(null);
+        record = jest
+            .spyOn(AttendeeStatusHistory, "record")
+            .mockResolvedValue({} as AttendeeStatusHistory);
+        settle = jest
+            .spyOn(paymentService, "settle")
+            .mockResolvedValue({ balance: {} as never, statusChanged: true });
+        promote = jest
+            .spyOn(registrationService, "promoteFromWaitlist")
+            .mockResolvedValue(null);
+    });
+
+    it("completa los campos vacíos del sobreviviente y elimina el duplicado", async () => {
+        const { attendee, takenFromDuplicate } = await duplicateService.merge({
+            survivorId: SURVIVOR_ID,
+            duplicateId: DUPLICATE_ID,
+            changedBy: "admin",
+        });
+
+        expect(attendee).toBe(survivor);
+        expect(takenFromDuplicate).toEqual(["phone", "email"]);
+        // email arrastra su verificación; city conserva el del sobreviviente
+        expect(survivor.update).toHaveBeenCalledWith(
+            {
+                phone: "3001234567",
+                email: "ana@example.com",
+                emailVerifiedAt: duplicate.emailVerifiedAt,
+            },
+            { transaction }
+        );
+        expect(survivor.city).toBe("Bogotá");
+        expect(duplicate.destroy).toHaveBeenCalledWith({ transaction });
+        expect(RefreshToken.revokeAllForAttendee).toHaveBeenCalledWith(
+            DUPLICATE_ID,
+            transaction
+        );
+        expect(movePayments).toHaveBeenCalledWith(
+            { attendeeId: SURVIVOR_ID },
+            { where: { attendeeId: DUPLICATE_ID }, transaction }
+        );
+        expect(record).toHaveBeenCalledTimes(2);
+    });
+
+    it("recalcula el saldo del sobreviviente con los pagos recibidos", async () => {
+        await duplicateService.merge({
+            survivorId: SURVIVOR_ID,
+            duplicateId: DUPLICATE_ID,
+            changedBy: "admin",
+            requestId: "req-1",
+        });
+
+        expect(settle).toHaveBeenCalledWith(
+            survivor,
+            expect.objectContaining({ id: CAMP_ID }),
+            { userId: "admin", requestId: "req-1" },
+            transaction
+        );
+        // Los pagos se mueven antes de recalcular
+        expect(movePayments.mock.invocationCallOrder[0]).toBeLessThan(
+            settle.mock.invocationCallOrder[0]
+        );
+    });
+
+    it("libera el cupo del duplicado para la lista de espera", async () => {
+        await duplicateService.merge({
+            survivorId: SURVIVOR_ID,
+            duplicateId: DUPLICATE_ID,
+        });
+
+        expect(promote).toHaveBeenCalledWith(CAMP_ID, undefined);
+    });
+
+    it("fields permite tomar un valor del duplicado aunque el sobreviviente tenga uno", async () => {
+        const { takenFromDuplicate } = await duplicateService.merge({
+            survivorId: SURVIVOR_ID,
+            duplicateId: DUPLICATE_ID,
+            fields: { city: "duplicate", phone: "survivor" },
+        });
+
+        expect(takenFromDuplicate).toEqual(["city", "email"]);
+        expect(survivor.city).toBe("Medellín");
+        expect(survivor.phone).toBeNull();
+    });
+
+    it("rechaza un email tomado que ya usa otro asistente", async () => {
+        taken = buildAttendee("0f1e2d3c-4b5a-4968-8776-655443322110", {
+            registrationStatus: "PAID",
+        });
+
+        await expect(
+            duplicateService.merge({
+                survivorId: SURVIVOR_ID,
+                duplicateId: DUPLICATE_ID,
+            })
+        ).rejects.toMatchObject({ statusCode: 409 });
+        expect(duplicate.destroy).not.toHaveBeenCalled();
+        expect(survivor.update).not.toHaveBeenCalled();
+        expect(settle).not.toHaveBeenCalled();
+    });
+
+    it("rechaza fusionar asistentes de camps distintos", async () => {
+        duplicate.campId = "1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d";
+
+        await expect(
+            duplicateService.merge({
+                survivorId: SURVIVOR_ID,
+                duplicateId: DUPLICATE_ID,
+            })
+        ).rejects.toMatchObject({ statusCode: 409 });
+        expect(duplicate.destroy).not.toHaveBeenCalled();
+    });
+
+    it("rechaza fusionar un asistente consigo mismo", async () => {
+        await expect(
+            duplicateService.merge({
+                survivorId: SURVIVOR_ID,
+                duplicateId: SURVIVOR_ID,
+            })
+        ).rejects.toMatchObject({ statusCode: 400 });
+    });
+});
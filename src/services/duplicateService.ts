@@ -0,0 +1,444 @@
+import { Op } from "sequelize";
+import { sequelize } from "../config/database";
+import Camp from "../models/Camp";
+import CampAttendee from "../models/CampAttendee";
+import AttendeeStatusHistory from "../models/AttendeeStatusHistory";
+import RefreshToken from "../models/RefreshToken";
+import Guardian from "../models/Guardian";
+import ParentalConsent from "../models/ParentalConsent";
+import HealthProfile from "../models/HealthProfile";
+import Payment from "../models/Payment";
+import Scholarship from "../models/Scholarship";
+import DiscountRedemption from "../models/DiscountRedemption";
+import PaymentCheckout from "../models/PaymentCheckout";
+import CheckIn from "../models/CheckIn";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+import { registrationService } from "./registrationService";
+import { paymentService } from "./paymentService";
+
+export type DuplicateReason = "NAME_BIRTHDATE" | "PHONE" | "IDENTIFICATION";
+
+// Peso de cada coincidencia para ordenar los candidatos
+const REASON_WEIGHTS: Record<DuplicateReason, number> = {
+    IDENTIFICATION: 3,
+    NAME_BIRTHDATE: 3,
+    PHONE: 1,
+};
+
+// Grupos más grandes (p. ej. el teléfono de la iglesia) no se reportan
+const MAX_GROUP_SIZE = 10;
+
+// Campos que se pueden tomar del registro duplicado al fusionar.
+// documentKey arrastra mimeType y bucket; email arrastra emailVerifiedAt.
+export const MERGEABLE_FIELDS = [
+    "firstName",
+    "lastName",
+    "gender",
+    "identificationType",
+    "identificationNumber",
+    "age",
+    "birthDate",
+    "country",
+    "city",
+    "churchPastor",
+    "phone",
+    "email",
+    "skills",
+    "allergies",
+    "shirtSize",
+    "documentKey",
+] as const;
+export type MergeableField = (typeof MERGEABLE_FIELDS)[number];
+export type MergeSource = "survivor" | "duplicate";
+
+const LINKED_FIELDS: Partial<Record<MergeableField, string[]>> = {
+    email: ["emailVerifiedAt"],
+    documentKey: ["mimeType", "bucket"],
+};
+
+const CANDIDATE_ATTRIBUTES = [
+    "id",
+    "firstName",
+    "lastName",
+    "identificationType",
+    "identificationNumber",
+    "birthDate",
+    "phone",
+    "email",
+    "campId",
+    "registrationStatus",
+    "createdAt",
+];
+
+export interface DuplicateCandidate {
+    attendees: CampAttendee[];
+    reasons: DuplicateReason[];
+    score: number;
+}
+
+export interface MergeOptions {
+    survivorId: string;
+    duplicateId: string;
+    fields?: Partial<Record<MergeableField, MergeSource>>;
+    reason?: string | null;
+    changedBy?: string | null;
+    requestId?: string;
+}
+
+const normalizeText = (value: string): string =>
+    value
+        .normalize("NFD")
+        .replace(/[̀-ͯ]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9 ]/g, " ")
+        .split(/\s+/)
+        .filter(Boolean)
+        .sort()
+        .join(" ");
+
+// Últimos 10 dígitos: ignora indicativo de país y separadores
+const normalizePhone = (value: string): string =>
+    value.replace(/\D/g, "").slice(-10);
+
+const normalizeIdentification = (value: string): string =>
+    value.toUpperCase().replace(/[^A-Z0-9]/g, "").replace(/^0+/, "");
+
+/**
+ * Claves para comparar identificaciones con distancia de edición ≤ 1
+ * (un dígito de más, de menos, cambiado o dos dígitos invertidos):
+ * el valor completo más cada variante con un carácter eliminado.
+ */
+const identificationKeys = (value: string): string[] => {
+    const keys = new Set([value]);
+    for (let i = 0; i < value.length; i++) {
+        keys.add(value.slice(0, i) + value.slice(i + 1));
+    }
+    return Array.from(keys);
+};
+
+class DuplicateService {
+    /**
+     * Busca pares de asistentes activos del mismo camp que probablemente
+     * son la misma persona: mismo nombre normalizado y fecha de nacimiento,
+     * mismo teléfono o número de identificación casi igual.
+     */
+    async findCandidates(
+        options: { campId?: string; limit?: number } = {}
+    ): Promise<DuplicateCandidate[]> {
+        const attendees = await CampAttendee.findAll({
+            where: options.campId ? { campId: options.campId } : {},
+            attributes: CANDIDATE_ATTRIBUTES,
+            order: [["createdAt", "ASC"]],
+        });
+        const byId = new Map(attendees.map((a) => [a.id, a]));
+
+        // pares "idA|idB" -> motivos
+        const pairs = new Map<string, Set<DuplicateReason>>();
+        const addGroup = (ids: string[], reason: DuplicateReason) => {
+            if (ids.length < 2 || ids.length > MAX_GROUP_SIZE) return;
+            for (let i = 0; i < ids.length; i++) {
+                for (let j = i + 1; j < ids.length; j++) {
+                    const key = [ids[i], ids[j]].sort().join("|");
+                    if (!pairs.has(key)) pairs.set(key, new Set());
+                    pairs.get(key)!.add(reason);
+                }
+            }
+        };
+
+        const groups: Record<DuplicateReason, Map<string, Set<string>>> = {
+            NAME_BIRTHDATE: new Map(),
+            PHONE: new Map(),
+            IDENTIFICATION: new Map(),
+        };
+        const push = (reason: DuplicateReason, key: string, id: string) => {
+            const group = groups[reason];
+            if (!group.has(key)) group.set(key, new Set());
+            group.get(key)!.add(id);
+        };
+
+        for (const attendee of attendees) {
+            const scope = attendee.campId;
+            if (attendee.birthDate) {
+                const name = normalizeText(
+                    `${attendee.firstName} ${attendee.lastName}`
+                );
+                const birthDate = String(attendee.birthDate).slice(0, 10);
+                push("NAME_BIRTHDATE", `${scope}|${name}|${birthDate}`, attendee.id);
+            }
+            if (attendee.phone) {
+                const phone = normalizePhone(attendee.phone);
+                if (phone.length >= 7) {
+                    push("PHONE", `${scope}|${phone}`, attendee.id);
+                }
+            }
+            const identification = normalizeIdentification(
+                attendee.identificationNumber
+            );
+            // Con números muy cortos casi todo estaría a un carácter
+            if (identification.length >= 5) {
+                for (const key of identificationKeys(identification)) {
+                    push("IDENTIFICATION", `${scope}|${key}`, attendee.id);
+                }
+            }
+        }
+
+        for (const reason of Object.keys(groups) as DuplicateReason[]) {
+            for (const ids of groups[reason].values()) {
+                addGroup(Array.from(ids), reason);
+            }
+        }
+
+        const candidates: DuplicateCandidate[] = [];
+        for (const [key, reasons] of pairs) {
+            const [a, b] = key.split("|").map((id) => byId.get(id)!);
+            const list = Array.from(reasons);
+            candidates.push({
+                // El más antiguo primero: suele ser el mejor sobreviviente
+                attendees: a.createdAt <= b.createdAt ? [a, b] : [b, a],
+                reasons: list,
+                score: list.reduce((sum, r) => sum + REASON_WEIGHTS[r], 0),
+            });
+        }
+        candidates.sort((x, y) => y.score - x.score);
+        return candidates.slice(0, options.limit ?? candidates.length);
+    }
+
+    /**
+     * Fusiona dos asistentes del mismo camp. Por cada campo se conserva el
+     * valor del sobreviviente, salvo que esté vacío o que `fields` indique
+     * tomar el del duplicado. El duplicado queda eliminado (soft delete),
+     * sus sesiones se revocan, sus acudientes y consentimientos (y su perfil
+     * médico, si el sobreviviente no tiene) pasan al sobreviviente y la
+     * fusión queda en el historial de ambos. Con los pagos recibidos se
+     * recalcula el saldo del sobreviviente (puede pasar a PAID).
+     */
+    async merge(options: MergeOptions): Promise<{
+        attendee: CampAttendee;
+        takenFromDuplicate: MergeableField[];
+    }> {
+        const { survivorId, duplicateId } = options;
+        if (survivorId === duplicateId) {
+            throw new AppError(
+                "survivorId y duplicateId deben ser asistentes distintos",
+                400
+            );
+        }
+        const current = await CampAttendee.findOne({
+            where: { id: survivorId },
+        });
+        if (!current) {
+            throw new AppError("Asistente sobreviviente no encontrado", 404);
+        }
+
+        const result = await sequelize.transaction(async (transaction) => {
+            // Mismo orden de bloqueo que el resto del flujo: camp y luego asistentes
+            const camp = await Camp.findOne({
+                where: { id: current.campId },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+            const survivor = await CampAttendee.findOne({
+                where: { id: survivorId },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+            const duplicate = await CampAttendee.findOne({
+                where: { id: duplicateId },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+            if (!survivor) {
+                throw new AppError("Asistente sobreviviente no encontrado", 404);
+            }
+            if (!duplicate) {
+                throw new AppError("Asistente duplicado no encontrado", 404);
+            }
+            if (survivor.campId !== duplicate.campId) {
+                throw new AppError(
+                    "Solo se pueden fusionar asistentes del mismo camp",
+                    409
+                );
+            }
+
+            const takenFromDuplicate: MergeableField[] = [];
+            const updates: Record<string, unknown> = {};
+            for (const field of MERGEABLE_FIELDS) {
+                const survivorValue = survivor.get(field);
+                const duplicateValue = duplicate.get(field);
+                const source: MergeSource =
+                    options.fields?.[field] ??
+                    (this.isEmpty(survivorValue) &&
+                    !this.isEmpty(duplicateValue)
+                        ? "duplicate"
+                        : "survivor");
+                if (source !== "duplicate") continue;
+                takenFromDuplicate.push(field);
+                updates[field] = duplicateValue;
+                for (const linked of LINKED_FIELDS[field] ?? []) {
+                    updates[linked] = duplicate.get(linked);
+                }
+            }
+
+            const duplicateHeldSeat = registrationService.holdsSeat(
+                duplicate.registrationStatus
+            );
+            const note = options.reason ? `: ${options.reason}` : "";
+
+            // Lo que se toma del duplicado debe seguir siendo único entre los
+            // demás asistentes, igual que al crear o editar
+            const others = { [Op.notIn]: [survivor.id, duplicate.id] };
+            if (typeof updates.identificationNumber === "string") {
+                const dupId = await CampAttendee.findOne({
+                    where: {
+                        identificationNumber: updates.identificationNumber,
+                        id: others,
+                    },
+                    transaction,
+                });
+                if (dupId) {
+                    throw new AppError(
+                        "Ya existe otro asistente con el mismo número de identificación",
+                        409
+                    );
+                }
+            }
+            if (typeof updates.email === "string") {
+                const dupEmail = await CampAttendee.findOne({
+                    where: { email: updates.email, id: others },
+                    transaction,
+                });
+                if (dupEmail) {
+                    throw new AppError(
+                        "Ya existe otro asistente con el mismo email",
+                        409
+                    );
+                }
+            }
+
+            // Soft delete: la fila del duplicado conserva sus datos (restaurar
+            // vuelve a validar email e identificación)
+            await duplicate.destroy({ transaction });
+            await RefreshToken.revokeAllForAttendee(duplicate.id, transaction);
+            // Acudientes, consentimientos, pagos y becas pertenecen a la misma persona
+            const moved = { where: { attendeeId: duplicate.id }, transaction };
+            await Guardian.update({ attendeeId: survivor.id }, moved);
+            await ParentalConsent.update({ attendeeId: survivor.id }, moved);
+            await Payment.update({ attendeeId: survivor.id }, moved);
+            await PaymentCheckout.update({ attendeeId: survivor.id }, moved);
+            await Scholarship.update({ attendeeId: survivor.id }, moved);
+            // Un código por camp: en los camps donde el sobreviviente ya
+            // tiene uno, el del duplicado se descarta y libera su uso
+            const survivorCodes = await DiscountRedemption.findAll({
+                where: { attendeeId: survivor.id },
+                attributes: ["campId"],
+                transaction,
+            });
+            if (survivorCodes.length > 0) {
+                await DiscountRedemption.destroy({
+                    where: {
+                        attendeeId: duplicate.id,
+                        campId: { [Op.in]: survivorCodes.map((r) => r.campId) },
+                    },
+                    transaction,
+                });
+            }
+            await DiscountRedemption.update({ attendeeId: survivor.id }, moved);
+            // Igual con las llegadas: una por camp
+            const survivorCheckIns = await CheckIn.findAll({
+                where: { attendeeId: survivor.id },
+                attributes: ["campId"],
+                transaction,
+            });
+            if (survivorCheckIns.length > 0) {
+                await CheckIn.destroy({
+                    where: {
+                        attendeeId: duplicate.id,
+                        campId: {
+                            [Op.in]: survivorCheckIns.map((c) => c.campId),
+                        },
+                    },
+                    transaction,
+                });
+            }
+            await CheckIn.update({ attendeeId: survivor.id }, moved);
+            // El perfil médico solo se mueve si el sobreviviente no tiene uno
+            const survivorProfile = await HealthProfile.findByAttendee(
+                survivor.id,
+                transaction
+            );
+            if (!survivorProfile) {
+                await HealthProfile.update({ attendeeId: survivor.id }, moved);
+            }
+            if (Object.keys(updates).length > 0) {
+                await survivor.update(updates, { transaction });
+            }
+
+            await AttendeeStatusHistory.record(
+                {
+                    attendeeId: survivor.id,
+                    fromStatus: survivor.registrationStatus,
+                    toStatus: survivor.registrationStatus,
+                    reason: `Fusionado con el asistente ${duplicate.id}${note}`,
+                    changedBy: options.changedBy ?? null,
+                },
+                transaction
+            );
+            await AttendeeStatusHistory.record(
+                {
+                    attendeeId: duplicate.id,
+                    fromStatus: duplicate.registrationStatus,
+                    toStatus: duplicate.registrationStatus,
+                    reason: `Fusionado en el asistente ${survivor.id} y eliminado${note}`,
+                    changedBy: options.changedBy ?? null,
+                },
+                transaction
+            );
+            // Con los pagos y becas del duplicado el saldo puede quedar cubierto
+            if (camp) {
+                await paymentService.settle(
+                    survivor,
+                    camp,
+                    {
+                        userId: options.changedBy,
+                        requestId: options.requestId,
+                    },
+                    transaction
+                );
+            }
+
+            return { survivor, takenFromDuplicate, duplicateHeldSeat };
+        });
+
+        logger.info("CampAttendees merged", {
+            requestId: options.requestId,
+            survivorId,
+            duplicateId,
+            takenFromDuplicate: result.takenFromDuplicate,
+        });
+
+        // El cupo del duplicado queda libre
+        if (result.duplicateHeldSeat) {
+            await registrationService.promoteFromWaitlist(
+                result.survivor.campId,
+                options.requestId
+            );
+        }
+
+        return {
+            attendee: result.survivor,
+            takenFromDuplicate: result.takenFromDuplicate,
+        };
+    }
+
+    private isEmpty(value: unknown): boolean {
+        return (
+            value === null ||
+            typeof value === "undefined" ||
+            (typeof value === "string" && value.trim() === "")
+        );
+    }
+}
+
+// Exportar instancia singleton
+export const duplicateService = new DuplicateService();
@@ -1,4 +1,5 @@
 import nodemailer, { Transporter } from "nodemailer";
+import Mail from "nodemailer/lib/mailer";
 import { smtpConfig } from "../config/env";
 import logger from "../utils/logger";
 import path from "path";
@@ -12,13 +13,77 @@ export interface EmailOptions {
     text?: string;
     cc?: string | string[];
     bcc?: string | string[];
+    attachments?: Mail.Attachment[];
 }
 
 export interface WelcomeEmailData {
     firstName: string;
     lastName: string;
     email: string;
-    identificationNumber: string;
+    setPasswordUrl: string;
+    expiresInHours: number;
+}
+
+export interface WelcomeTemporaryPasswordEmailData {
+    firstName: string;
+    lastName: string;
+    email: string;
+    temporaryPassword: string;
+}
+
+export interface WaitlistPromotionEmailData {
+    firstName: string;
+    lastName: string;
+    email: string;
+    campName: string;
+}
+
+export interface EmailVerificationEmailData {
+    firstName: string;
+    lastName: string;
+    email: string;
+    verifyUrl: string;
+    expiresIn: string;
+}
+
+export interface ConsentRequestEmailData {
+    firstName: string;
+    lastName: string;
+    email: string;
+    attendeeName: string;
+    campName: string;
+    consentUrl: string;
+    expiresInHours: number;
+}
+
+export interface PaymentReceiptEmailData {
+    firstName: string;
+    lastName: string;
+    email: string;
+    cc?: string[];
+    campName: string;
+    receiptNumber: string;
+    amount: string; // ya formateado en COP
+    filename: string;
+    pdf: Buffer;
+}
+
+export interface AttendanceConfirmationEmailData {
+    firstName: string;
+    lastName: string;
+    email: string;
+    cc?: string[];
+    campName: string;
+    campDates: string;
+    qrPng: Buffer;
+}
+
+export interface PasswordResetEmailData {
+    firstName: string;
+    lastName: string;
+    email: string;
+    resetUrl: string;
+    expiresInMinutes: number;
 }
 
 class EmailService {
@@ -98,6 +163,7 @@ class EmailService {
                         ? options.bcc.join(", ")
                         : options.bcc
                     : undefined,
+                attachments: options.attachments,
             };
 
             const info = await this.transporter.sendMail(mailOptions);
@@ -186,7 +252,7 @@ class EmailService {
     }
 
     /**
-     * Envía email de bienvenida cuando un usuario es activado
+     * Envía email de bienvenida con el enlace para crear la contraseña
      */
     async sendWelcomeEmail(data: WelcomeEmailData): Promise<boolean> {
         try {
@@ -200,7 +266,41 @@ class EmailService {
                 lastName: data.lastName,
                 fullName: `${data.firstName} ${data.lastName}`,
                 email: data.email,
-                password: data.identificationNumber,
+                setPasswordUrl: data.setPasswordUrl,
+                expiresInHours: data.expiresInHours,
+            });
+
+            return await this.sendEmail({
+                to: data.email,
+                subject: "¡Bienvenido a Jóvenes con Un Propósito!",
+                html,
+            });
+        } catch (error) {
+            logger.error("Error sending welcome email", {
+                error: error instanceof Error ? error.message : String(error),
+                email: data.email,
+            });
+            return false;
+        }
+    }
+
+    /**
+     * Envía el email de bienvenida con una contraseña temporal aleatoria
+     */
+    async sendWelcomeTemporaryPasswordEmail(
+        data: WelcomeTemporaryPasswordEmailData
+    ): Promise<boolean> {
+        try {
+            const template = await this.loadTemplate(
+                "welcome-temporary-password"
+            );
+
+            const html = this.replacePlaceholders(template, {
+                firstName: data.firstName.split(" ")[0],
+                lastName: data.lastName,
+                fullName: `${data.firstName} ${data.lastName}`,
+                email: data.email,
+                temporaryPassword: data.temporaryPassword,
             });
 
             return await this.sendEmail({
@@ -217,6 +317,218 @@ class EmailService {
         }
     }
 
+    /**
+     * Notifica a un asistente que salió de la lista de espera
+     */
+    async sendWaitlistPromotionEmail(
+        data: WaitlistPromotionEmailData
+    ): Promise<boolean> {
+        try {
+            const template = await this.loadTemplate("waitlist-promotion");
+
+            const html = this.replacePlaceholders(template, {
+                firstName: data.firstName.split(" ")[0],
+                lastName: data.lastName,
+                fullName: `${data.firstName} ${data.lastName}`,
+                email: data.email,
+                campName: data.campName,
+            });
+
+            return await this.sendEmail({
+                to: data.email,
+                subject: "¡Tienes un cupo en el campamento!",
+                html,
+            });
+        } catch (error) {
+            logger.error("Error sending waitlist promotion email", {
+                error: error instanceof Error ? error.message : String(error),
+                email: data.email,
+            });
+            return false;
+        }
+    }
+
+    /**
+     * Envía el enlace de un solo uso para restablecer la contraseña
+     */
+    async sendPasswordResetEmail(
+        data: PasswordResetEmailData
+    ): Promise<boolean> {
+        try {
+            const template = await this.loadTemplate("reset-password");
+
+            const html = this.replacePlaceholders(template, {
+                firstName: data.firstName.split(" ")[0],
+                lastName: data.lastName,
+                fullName: `${data.firstName} ${data.lastName}`,
+                email: data.email,
+                resetUrl: data.resetUrl,
+                expiresInMinutes: data.expiresInMinutes,
+            });
+
+            return await this.sendEmail({
+                to: data.email,
+                subject: "Restablece tu contraseña",
+                html,
+            });
+        } catch (error) {
+            logger.error("Error sending password reset email", {
+                error: error instanceof Error ? error.message : String(error),
+                email: data.email,
+            });
+            return false;
+        }
+    }
+
+    /**
+     * Envía el enlace para verificar la dirección de email
+     */
+    async sendEmailVerificationEmail(
+        data: EmailVerificationEmailData
+    ): Promise<boolean> {
+        try {
+            const template = await this.loadTemplate("verify-email");
+
+            const html = this.replacePlaceholders(template, {
+                firstName: data.firstName.split(" ")[0],
+                lastName: data.lastName,
+                fullName: `${data.firstName} ${data.lastName}`,
+                email: data.email,
+                verifyUrl: data.verifyUrl,
+                expiresIn: data.expiresIn,
+            });
+
+            return await this.sendEmail({
+                to: data.email,
+                subject: "Verifica tu correo electrónico",
+                html,
+            });
+        } catch (error) {
+            logger.error("Error sending email verification email", {
+                error: error instanceof Error ? error.message : String(error),
+                email: data.email,
+            });
+            return false;
+        }
+    }
+
+    /**
+     * Envía al acudiente el enlace para firmar el consentimiento de un menor
+     */
+    async sendConsentRequestEmail(
+        data: ConsentRequestEmailData
+    ): Promise<boolean> {
+        try {
+            const template = await this.loadTemplate("consent-request");
+
+            const html = this.replacePlaceholders(template, {
+                firstName: data.firstName.split(" ")[0],
+                lastName: data.lastName,
+                fullName: `${data.firstName} ${data.lastName}`,
+                email: data.email,
+                attendeeName: data.attendeeName,
+                campName: data.campName,
+                consentUrl: data.consentUrl,
+                expiresInHours: data.expiresInHours,
+            });
+
+            return await this.sendEmail({
+                to: data.email,
+                subject: `Consentimiento para ${data.attendeeName}`,
+                html,
+            });
+        } catch (error) {
+            logger.error("Error sending consent request email", {
+                error: error instanceof Error ? error.message : String(error),
+                email: data.email,
+            });
+            return false;
+        }
+    }
+
+    /**
+     * Envía el recibo de pago en PDF cuando el asistente completa su saldo
+     */
+    async sendPaymentReceiptEmail(
+        data: PaymentReceiptEmailData
+    ): Promise<boolean> {
+        try {
+            const template = await this.loadTemplate("payment-receipt");
+
+            const html = this.replacePlaceholders(template, {
+                firstName: data.firstName.split(" ")[0],
+                lastName: data.lastName,
+                fullName: `${data.firstName} ${data.lastName}`,
+                email: data.email,
+                campName: data.campName,
+                receiptNumber: data.receiptNumber,
+                amount: data.amount,
+            });
+
+            return await this.sendEmail({
+                to: data.email,
+                cc: data.cc?.length ? data.cc : undefined,
+                subject: `Recibo de pago ${data.receiptNumber} - ${data.campName}`,
+                html,
+                attachments: [
+                    {
+                        filename: data.filename,
+                        content: data.pdf,
+                        contentType: "application/pdf",
+                    },
+                ],
+            });
+        } catch (error) {
+            logger.error("Error sending payment receipt email", {
+                error: error instanceof Error ? error.message : String(error),
+                email: data.email,
+            });
+            return false;
+        }
+    }
+
+    /**
+     * Confirma la asistencia al camp con el QR para el check-in (en línea
+     * en el cuerpo y como adjunto para imprimirlo)
+     */
+    async sendAttendanceConfirmationEmail(
+        data: AttendanceConfirmationEmailData
+    ): Promise<boolean> {
+        try {
+            const template = await this.loadTemplate("attendance-confirmation");
+
+            const html = this.replacePlaceholders(template, {
+                firstName: data.firstName.split(" ")[0],
+                lastName: data.lastName,
+                fullName: `${data.firstName} ${data.lastName}`,
+                email: data.email,
+                campName: data.campName,
+                campDates: data.campDates,
+            });
+
+            return await this.sendEmail({
+                to: data.email,
+                cc: data.cc?.length ? data.cc : undefined,
+                subject: `Tu asistencia a ${data.campName} está confirmada`,
+                html,
+                attachments: [
+                    {
+                        filename: "check-in-qr.png",
+                        content: data.qrPng,
+                        contentType: "image/png",
+                        cid: "check-in-qr",
+                    },
+                ],
+            });
+        } catch (error) {
+            logger.error("Error sending attendance confirmation email", {
+                error: error instanceof Error ? error.message : String(error),
+                email: data.email,
+            });
+            return false;
+        }
+    }
+
     /**
      * Extrae texto plano del HTML para email en modo texto
      */
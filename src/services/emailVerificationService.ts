@@ -0,0 +1,121 @@
+import jwt from "jsonwebtoken";
+import { authConfig } from "../config/env";
+import CampAttendee from "../models/CampAttendee";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+import { emailService } from "./emailService";
+
+// Claims del token de verificación: el email queda firmado para que un
+// cambio de email invalide los enlaces enviados a la dirección anterior
+interface EmailVerificationPayload {
+    sub: string;
+    email: string;
+    type: "email_verification";
+}
+
+class EmailVerificationService {
+    /**
+     * Firma un token de verificación y lo envía al email del asistente.
+     * No hace nada si el asistente no tiene email o ya está verificado.
+     */
+    async sendVerification(
+        attendee: CampAttendee,
+        requestId?: string
+    ): Promise<boolean> {
+        if (!attendee.email || attendee.emailVerifiedAt) {
+            return false;
+        }
+
+        const payload: EmailVerificationPayload = {
+            sub: attendee.id,
+            email: attendee.email,
+            type: "email_verification",
+        };
+        const token = jwt.sign(payload, authConfig.jwtSecret, {
+            expiresIn:
+                authConfig.emailVerificationExpiresIn as jwt.SignOptions["expiresIn"],
+        });
+
+        const sent = await emailService.sendEmailVerificationEmail({
+            firstName: attendee.firstName,
+            lastName: attendee.lastName,
+            email: attendee.email,
+            verifyUrl: `${authConfig.frontendUrl}/verify-email?token=${token}`,
+            expiresIn: authConfig.emailVerificationExpiresIn,
+        });
+        logger.info("Email verification sent", {
+            requestId,
+            id: attendee.id,
+            sent,
+        });
+        return sent;
+    }
+
+    /**
+     * Igual que sendVerification pero sin bloquear la respuesta
+     */
+    sendVerificationInBackground(
+        attendee: CampAttendee,
+        requestId?: string
+    ): void {
+        this.sendVerification(attendee, requestId).catch((error) => {
+            logger.error("Error sending email verification", {
+                requestId,
+                id: attendee.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        });
+    }
+
+    /**
+     * Valida el token y marca emailVerifiedAt (idempotente)
+     */
+    async verify(token: string): Promise<CampAttendee> {
+        let payload: string | jwt.JwtPayload;
+        try {
+            payload = jwt.verify(token, authConfig.jwtSecret);
+        } catch (error) {
+            throw new AppError(
+                error instanceof jwt.TokenExpiredError
+                    ? "El enlace de verificación expiró"
+                    : "Token de verificación inválido",
+                400
+            );
+        }
+        if (
+            typeof payload === "string" ||
+            payload.type !== "email_verification" ||
+            typeof payload.sub !== "string" ||
+            typeof payload.email !== "string"
+        ) {
+            throw new AppError("Token de verificación inválido", 400);
+        }
+
+        const attendee = await CampAttendee.findOne({
+            where: { id: payload.sub },
+        });
+        // El email cambió después de emitir el token
+        if (!attendee || attendee.email !== payload.email) {
+            throw new AppError("Token de verificación inválido", 400);
+        }
+
+        if (!attendee.emailVerifiedAt) {
+            await attendee.update({ emailVerifiedAt: new Date() });
+        }
+        return attendee;
+    }
+
+    /**
+     * Reenvía la verificación a un email. No revela si el email existe.
+     */
+    async resend(email: string, requestId?: string): Promise<void> {
+        const attendee = await CampAttendee.findOne({ where: { email } });
+        if (!attendee) {
+            return;
+        }
+        this.sendVerificationInBackground(attendee, requestId);
+    }
+}
+
+// Exportar instancia singleton
+export const emailVerificationService = new EmailVerificationService();
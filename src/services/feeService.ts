@@ -0,0 +1,173 @@
+import { Transaction } from "sequelize";
+import Camp, { FeeRule } from "../models/Camp";
+import CampAttendee from "../models/CampAttendee";
+import Role from "../models/Role";
+import DiscountCode, { DiscountType } from "../models/DiscountCode";
+import DiscountRedemption from "../models/DiscountRedemption";
+import Scholarship from "../models/Scholarship";
+import { localDate } from "../utils/dates";
+
+export interface FeeAdjustment {
+    discountType: DiscountType;
+    value: number;
+    // COP descontados del valor a pagar
+    amount: number;
+}
+
+export interface FeeBreakdown {
+    // Tarifa general del camp (feeAmount)
+    baseAmount: number | null;
+    // Regla de tarifa aplicada (null = tarifa general)
+    rule: FeeRule | null;
+    // Tarifa tras la regla, antes de descuentos
+    subtotal: number;
+    discount: (FeeAdjustment & { code: string; discountCodeId: string }) | null;
+    scholarships: (FeeAdjustment & { scholarshipId: string })[];
+    amountDue: number;
+}
+
+// Datos del asistente que determinan su tarifa
+export interface FeeContext {
+    roleCode: string | null;
+    assistantSubRole: CampAttendee["assistantSubRole"];
+    registeredAt: Date;
+    discountCode: DiscountCode | null;
+    scholarships: Scholarship[];
+}
+
+// Descuento en COP sobre `amount` (nunca mayor que amount)
+const adjustmentAmount = (
+    amount: number,
+    discountType: DiscountType,
+    value: number
+): number =>
+    Math.min(
+        amount,
+        discountType === "PERCENTAGE" ? Math.round((amount * value) / 100) : value
+    );
+
+const matchesRule = (rule: FeeRule, context: FeeContext): boolean => {
+    if (
+        rule.roleCodes &&
+        !(context.roleCode && rule.roleCodes.includes(context.roleCode))
+    ) {
+        return false;
+    }
+    if (
+        rule.assistantSubRoles &&
+        !rule.assistantSubRoles.includes(context.assistantSubRole)
+    ) {
+        return false;
+    }
+    if (
+        rule.registeredUntil &&
+        localDate(context.registeredAt) > rule.registeredUntil
+    ) {
+        return false;
+    }
+    return true;
+};
+
+class FeeService {
+    /**
+     * Valor a pagar: la primera regla de tarifa que aplica (o feeAmount),
+     * menos el código de descuento redimido y luego las becas aprobadas,
+     * cada uno sobre lo que queda. null si el asistente no tiene cobro.
+     */
+    computeFee(camp: Camp, context: FeeContext): FeeBreakdown | null {
+        const rule =
+            camp.feeRules?.find((item) => matchesRule(item, context)) ?? null;
+        const subtotal = rule ? rule.amount : camp.feeAmount;
+        if (subtotal === null) {
+            return null;
+        }
+
+        let remaining = subtotal;
+        let discount: FeeBreakdown["discount"] = null;
+        if (context.discountCode) {
+            const { id, code, discountType, value } = context.discountCode;
+            const amount = adjustmentAmount(remaining, discountType, value);
+            remaining -= amount;
+            discount = { discountCodeId: id, code, discountType, value, amount };
+        }
+        const scholarships: FeeBreakdown["scholarships"] = [];
+        for (const scholarship of context.scholarships) {
+            const { id, discountType, value } = scholarship;
+            const amount = adjustmentAmount(remaining, discountType, value);
+            remaining -= amount;
+            scholarships.push({ scholarshipId: id, discountType, value, amount });
+        }
+
+        return {
+            baseAmount: camp.feeAmount,
+            rule,
+            subtotal,
+            discount,
+            scholarships,
+            amountDue: remaining,
+        };
+    }
+
+    /**
+     * Valor a pagar del asistente en el camp
+     */
+    async getFee(
+        attendee: CampAttendee,
+        camp: Camp,
+        transaction?: Transaction
+    ): Promise<FeeBreakdown | null> {
+        const [role, redemption, scholarships] = await Promise.all([
+            Role.findOne({
+                where: { id: attendee.roleId },
+                attributes: ["code"],
+                paranoid: false,
+                transaction,
+            }),
+            DiscountRedemption.findByAttendee(attendee.id, camp.id, transaction),
+            Scholarship.findApproved(attendee.id, camp.id, transaction),
+        ]);
+        return this.computeFee(camp, {
+            roleCode: role?.code ?? null,
+            assistantSubRole: attendee.assistantSubRole,
+            registeredAt: attendee.createdAt,
+            discountCode: redemption?.discountCode ?? null,
+            scholarships,
+        });
+    }
+
+    /**
+     * Valor a pagar de varios asistentes del camp, por attendeeId (para
+     * resúmenes sin una consulta por asistente)
+     */
+    async getFees(
+        camp: Camp,
+        attendees: CampAttendee[]
+    ): Promise<Map<string, FeeBreakdown | null>> {
+        const ids = attendees.map((attendee) => attendee.id);
+        const [roles, redemptions, scholarships] = await Promise.all([
+            Role.findAll({ attributes: ["id", "code"], paranoid: false }),
+            DiscountRedemption.findByAttendees(camp.id, ids),
+            Scholarship.findApprovedByAttendees(camp.id, ids),
+        ]);
+        const roleCodes = new Map(roles.map((role) => [role.id, role.code]));
+
+        const fees = new Map<string, FeeBreakdown | null>();
+        for (const attendee of attendees) {
+            fees.set(
+                attendee.id,
+                this.computeFee(camp, {
+                    roleCode: roleCodes.get(attendee.roleId) ?? null,
+                    assistantSubRole: attendee.assistantSubRole,
+                    registeredAt: attendee.createdAt,
+                    discountCode:
+                        redemptions.get(attendee.id)?.discountCode ?? null,
+                    scholarships: scholarships.get(attendee.id) ?? [],
+                })
+            );
+        }
+        return fees;
+    }
+}
+
+// Exportar instancia singleton
+export const feeService = new FeeService();
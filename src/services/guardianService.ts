@@ -0,0 +1,198 @@
+import { Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import CampAttendee from "../models/CampAttendee";
+import Guardian, { GuardianInput } from "../models/Guardian";
+import ParentalConsent from "../models/ParentalConsent";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+
+// Edad desde la que no se exige acudiente
+export const ADULT_AGE = 18;
+// Acudientes por asistente
+export const MAX_GUARDIANS = 5;
+
+interface AgeSource {
+    birthDate?: Date | string | null;
+    age?: number | null;
+}
+
+class GuardianService {
+    /**
+     * Edad a la fecha indicada: se calcula con birthDate y, si no hay,
+     * se usa la edad declarada. null si no se conoce ninguna.
+     */
+    computeAge(source: AgeSource, at: Date = new Date()): number | null {
+        if (source.birthDate) {
+            const birth =
+                typeof source.birthDate === "string"
+                    ? new Date(source.birthDate)
+                    : source.birthDate;
+            let age = at.getFullYear() - birth.getFullYear();
+            const m = at.getMonth() - birth.getMonth();
+            if (m < 0 || (m === 0 && at.getDate() < birth.getDate())) {
+                age--;
+            }
+            return age;
+        }
+        return typeof source.age === "number" ? source.age : null;
+    }
+
+    // Sin edad conocida no se exige acudiente
+    isMinor(source: AgeSource): boolean {
+        const age = this.computeAge(source);
+        return age !== null && age < ADULT_AGE;
+    }
+
+    /**
+     * Exige al menos un acudiente cuando el asistente es menor de edad
+     */
+    assertGuardianForMinor(source: AgeSource, guardianCount: number): void {
+        if (this.isMinor(source) && guardianCount === 0) {
+            throw new AppError(
+                `Los asistentes menores de ${ADULT_AGE} años requieren al menos un acudiente`,
+                422,
+                true,
+                "GUARDIAN_REQUIRED"
+            );
+        }
+    }
+
+    async list(attendeeId: string): Promise<Guardian[]> {
+        await this.findAttendee(attendeeId);
+        return await Guardian.findByAttendee(attendeeId);
+    }
+
+    async add(attendeeId: string, data: GuardianInput): Promise<Guardian> {
+        return await sequelize.transaction(async (transaction) => {
+            // Bloquear el asistente serializa los cambios de sus acudientes
+            await this.findAttendee(attendeeId, transaction);
+            const count = await Guardian.countByAttendee(
+                attendeeId,
+                transaction
+            );
+            if (count >= MAX_GUARDIANS) {
+                throw new AppError(
+                    `Un asistente puede tener máximo ${MAX_GUARDIANS} acudientes`,
+                    409
+                );
+            }
+            return await Guardian.createForAttendee(
+                attendeeId,
+                data,
+                transaction
+            );
+        });
+    }
+
+    /**
+     * Reemplaza los datos de un acudiente. Si cambia su email, las
+     * solicitudes de consentimiento pendientes dejan de valer.
+     */
+    async update(
+        attendeeId: string,
+        guardianId: string,
+        data: GuardianInput
+    ): Promise<Guardian> {
+        return await sequelize.transaction(async (transaction) => {
+            const guardian = await this.findGuardian(
+                attendeeId,
+                guardianId,
+                transaction
+            );
+            const email = data.email ?? null;
+            if (email !== guardian.email) {
+                await ParentalConsent.revokePending(
+                    { attendeeId, guardianId },
+                    transaction
+                );
+            }
+            return await guardian.update(
+                {
+                    firstName: data.firstName,
+                    lastName: data.lastName,
+                    relationship: data.relationship,
+                    phone: data.phone,
+                    email,
+                    identificationType: data.identificationType ?? null,
+                    identificationNumber: data.identificationNumber ?? null,
+                },
+                { transaction }
+            );
+        });
+    }
+
+    /**
+     * Elimina un acudiente; un menor no puede quedarse sin ninguno.
+     * Los consentimientos ya firmados se conservan sin referencia.
+     */
+    async remove(
+        attendeeId: string,
+        guardianId: string,
+        requestId?: string
+    ): Promise<void> {
+        await sequelize.transaction(async (transaction) => {
+            const attendee = await this.findAttendee(attendeeId, transaction);
+            const guardian = await this.findGuardian(
+                attendeeId,
+                guardianId,
+                transaction
+            );
+            const count = await Guardian.countByAttendee(
+                attendeeId,
+                transaction
+            );
+            if (this.isMinor(attendee) && count <= 1) {
+                throw new AppError(
+                    "No se puede eliminar el único acudiente de un menor de edad",
+                    409,
+                    true,
+                    "GUARDIAN_REQUIRED"
+                );
+            }
+            await ParentalConsent.revokePending(
+                { attendeeId, guardianId },
+                transaction
+            );
+            await ParentalConsent.update(
+                { guardianId: null },
+                { where: { guardianId }, transaction }
+            );
+            await guardian.destroy({ transaction });
+        });
+        logger.info("Guardian removed", { requestId, attendeeId, guardianId });
+    }
+
+    async findGuardian(
+        attendeeId: string,
+        guardianId: string,
+        transaction?: Transaction
+    ): Promise<Guardian> {
+        const guardian = await Guardian.findOne({
+            where: { id: guardianId, attendeeId },
+            lock: transaction ? transaction.LOCK.UPDATE : undefined,
+            transaction,
+        });
+        if (!guardian) {
+            throw new AppError("Acudiente no encontrado", 404);
+        }
+        return guardian;
+    }
+
+    private async findAttendee(
+        attendeeId: string,
+        transaction?: Transaction
+    ): Promise<CampAttendee> {
+        const attendee = await CampAttendee.findOne({
+            where: { id: attendeeId },
+            lock: transaction ? transaction.LOCK.UPDATE : undefined,
+            transaction,
+        });
+        if (!attendee) {
+            throw new AppError("Asistente no encontrado", 404);
+        }
+        return attendee;
+    }
+}
+
+// Exportar instancia singleton
+export const guardianService = new GuardianService();
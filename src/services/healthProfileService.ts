@@ -0,0 +1,185 @@
+import { Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import CampAttendee from "../models/CampAttendee";
+import HealthProfile, {
+    HealthProfileInput,
+    HealthProfileQueryOptions,
+} from "../models/HealthProfile";
+import { AuthUser } from "../middlewares/authenticate";
+import { hasPermissions } from "../middlewares/authorize";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+
+/**
+ * full: perfil completo (el propio asistente y el equipo médico)
+ * dietary: solo alergias, dieta y notas (equipo de cocina)
+ */
+export type HealthProfileView = "full" | "dietary";
+
+// Campos visibles para la cocina; notes conserva el texto libre de allergies
+const DIETARY_FIELDS = [
+    "attendeeId",
+    "allergies",
+    "dietaryRestrictions",
+    "dietaryNotes",
+    "notes",
+    "updatedAt",
+] as const;
+
+class HealthProfileService {
+    /**
+     * Vista que puede consultar el usuario sobre el perfil de un asistente,
+     * o null si no tiene acceso
+     */
+    resolveView(
+        user: AuthUser | undefined,
+        attendeeId?: string
+    ): HealthProfileView | null {
+        if (!user) return null;
+        if (user.id === attendeeId || hasPermissions(user, ["health:read"])) {
+            return "full";
+        }
+        if (hasPermissions(user, ["dietary:read"])) {
+            return "dietary";
+        }
+        return null;
+    }
+
+    toView(profile: HealthProfile, view: HealthProfileView) {
+        const data: Record<string, unknown> = { ...profile.toJSON() };
+        if (view === "full") {
+            return data;
+        }
+        const attendee = data.attendee;
+        const limited: Record<string, unknown> = {};
+        for (const field of DIETARY_FIELDS) {
+            limited[field] = data[field];
+        }
+        return attendee ? { ...limited, attendee } : limited;
+    }
+
+    /**
+     * Perfil del asistente (null si todavía no tiene uno)
+     */
+    async get(attendeeId: string): Promise<HealthProfile | null> {
+        const attendee = await CampAttendee.findOne({
+            where: { id: attendeeId },
+            attributes: ["id"],
+        });
+        if (!attendee) {
+            throw new AppError("Asistente no encontrado", 404);
+        }
+        return await HealthProfile.findByAttendee(attendeeId);
+    }
+
+    /**
+     * Crea o reemplaza por completo el perfil del asistente
+     */
+    async save(
+        attendeeId: string,
+        input: HealthProfileInput
+    ): Promise<{ profile: HealthProfile; created: boolean }> {
+        const values = {
+            allergies: input.allergies ?? [],
+            dietaryRestrictions: input.dietaryRestrictions ?? [],
+            dietaryNotes: input.dietaryNotes ?? null,
+            medications: input.medications ?? [],
+            conditions: input.conditions ?? [],
+            emergencyContactName: input.emergencyContactName ?? null,
+            emergencyContactPhone: input.emergencyContactPhone ?? null,
+            emergencyContactRelationship:
+                input.emergencyContactRelationship ?? null,
+            insuranceProvider: input.insuranceProvider ?? null,
+            insurancePolicyNumber: input.insurancePolicyNumber ?? null,
+            notes: input.notes ?? null,
+        };
+        return await sequelize.transaction(async (transaction) => {
+            const attendee = await CampAttendee.findOne({
+                where: { id: attendeeId },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+            if (!attendee) {
+                throw new AppError("Asistente no encontrado", 404);
+            }
+            const existing = await HealthProfile.findByAttendee(
+                attendeeId,
+                transaction
+            );
+            if (existing) {
+                await existing.update(values, { transaction });
+                return { profile: existing, created: false };
+            }
+            const profile = await HealthProfile.create(
+                { attendeeId, ...values },
+                { transaction }
+            );
+            return { profile, created: true };
+        });
+    }
+
+    async list(options: HealthProfileQueryOptions) {
+        return await HealthProfile.findPaginated(options);
+    }
+
+    /**
+     * Lleva a `notes` el texto libre de allergies que sigue llegando por
+     * la API de asistentes. Solo reemplaza notes si no fue editado aparte
+     * (vacío o igual al texto anterior); si no, agrega el texto nuevo.
+     */
+    async syncLegacyAllergies(
+        attendeeId: string,
+        previous: string | null,
+        next: string | null,
+        transaction?: Transaction
+    ): Promise<void> {
+        // Vaciar allergies no borra las notas: nada se pierde
+        const text = next?.trim() || null;
+        if (!text || text === (previous?.trim() || null)) {
+            return;
+        }
+        const profile = await HealthProfile.findByAttendee(
+            attendeeId,
+            transaction
+        );
+        if (!profile) {
+            await HealthProfile.create(
+                {
+                    attendeeId,
+                    allergies: [],
+                    dietaryRestrictions: [],
+                    medications: [],
+                    conditions: [],
+                    notes: text,
+                },
+                { transaction }
+            );
+            return;
+        }
+        const notes = profile.notes?.trim() || null;
+        if (!notes || notes === (previous?.trim() || null)) {
+            await profile.update({ notes: text }, { transaction });
+        } else if (!notes.includes(text)) {
+            await profile.update(
+                { notes: `${notes}\n${text}` },
+                { transaction }
+            );
+        }
+    }
+
+    /**
+     * Migra a perfiles el texto de allergies de los asistentes que aún no
+     * tienen uno. Se ejecuta al iniciar la app.
+     */
+    async backfillLegacyAllergies(): Promise<void> {
+        const created = await HealthProfile.backfillFromLegacyAllergies();
+        if (created > 0) {
+            logger.info("Health profiles created from legacy allergies", {
+                created,
+            });
+        }
+    }
+}
+
+// Exportar instancia singleton
+export const healthProfileService = new HealthProfileService();
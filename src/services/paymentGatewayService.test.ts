@@ -0,0 +1,175 @@
+import { Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import Camp from "../models/Camp";
+import CampAttendee from "../models/CampAttendee";
+import Payment, { PAYMENT_CURRENCY, PaymentStatus } from "../models/Payment";
+import PaymentCheckout from "../models/PaymentCheckout";
+import { FakePaymentProvider } from "../providers/fake/FakePaymentProvider";
+import { paymentGatewayService } from "./paymentGatewayService";
+import { paymentService } from "./paymentService";
+
+const CAMP_ID = "7f1d5c9e-0a3b-4c2d-8e6f-1a2b3c4d5e6f";
+const ATTENDEE_ID = "2b7e9a41-5c3d-4f8e-9a1b-3c5d7e9f1a2b";
+const CHECKOUT_ID = "4c5d6e7f-8a9b-4c0d-9e1f-2a3b4c5d6e7f";
+
+const transaction = {
+    LOCK: { UPDATE: "UPDATE" },
+    afterCommit: jest.fn(),
+} as unknown as Transaction;
+
+describe("paymentGatewayService.handleWebhook", () => {
+    const provider = new FakePaymentProvider();
+    // Pagos por transacción de la pasarela (índice único en la tabla)
+    let payments: Map<string, Payment>;
+    let checkout: PaymentCheckout;
+    let create: jest.SpyInstance;
+    let settle: jest.SpyInstance;
+
+    const event = (status: PaymentStatus, transactionId = "tx-1") =>
+        provider.simulateEvent({
+            checkoutId: "fake_checkout",
+            reference: CHECKOUT_ID,
+            amount: 150000,
+            currency: PAYMENT_CURRENCY,
+            status,
+            transactionId,
+        });
+
+    beforeEach(() => {
+        payments = new Map();
+        checkout = PaymentCheckout.build({
+            id: CHECKOUT_ID,
+            attendeeId: ATTENDEE_ID,
+            campId: CAMP_ID,
+            provider: provider.type,
+            providerCheckoutId: "fake_checkout",
+            amount: 150000,
+            currency: PAYMENT_CURRENCY,
+            url: "https://example.com/pay",
+            expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        });
+        jest.spyOn(checkout, "update").mockImplementation(async (values) => {
+            checkout.set(values as Partial<PaymentCheckout>);
+            return checkout;
+        });
+
+        jest.spyOn(sequelize, "transaction").mockImplementation(((
+            callback: (t: Transaction) => Promise<unknown>
+        ) => callback(transaction)) as never);
+        jest.spyOn(PaymentCheckout, "findForEvent").mockResolvedValue(
+            checkout
+        );
+        jest.spyOn(paymentService, "lockAttendee").mockResolvedValue({
+            camp: Camp.build({ id: CAMP_ID } as never),
+            attendee: CampAttendee.build({
+                id: ATTENDEE_ID,
+                campId: CAMP_ID,
+                registrationStatus: "PENDING_PAYMENT",
+            } as never),
+        });
+        jest.spyOn(Payment, "findByProviderTransaction").mockImplementation(
+            async (_provider, transactionId) =>
+                payments.get(transactionId) ?? null
+        );
+        create = jest.spyOn(Payment, "create").mockImplementation((async (
+            values: Partial<Payment>
+        ) => {
+            const payment = Payment.build(values as never);
+            jest.spyOn(payment, "update").mockImplementation(
+                async (changes) => {
+                    payment.set(changes as Partial<Payment>);
+                    return payment;
+                }
+            );
+            payments.set(String(values.providerTransactionId), payment);
+            return payment;
+        }) as never);
+        settle = jest
+            .spyOn(paymentService, "settle")
+            .mockResolvedValue({ balance: {} as never, statusChanged: true });
+    });
+
+    it("crea el pago aprobado y recalcula el saldo", async () => {
+        const result = await paymentGatewayService.handleWebhook(
+            event("APPROVED")
+        );
+
+        expect(result.outcome).toBe("created");
+        expect(result.status).toBe("APPROVED");
+        expect(create).toHaveBeenCalledTimes(1);
+        expect(create.mock.calls[0][0]).toMatchObject({
+            attendeeId: ATTENDEE_ID,
+            campId: CAMP_ID,
+            amount: 150000,
+            method: "CARD",
+            providerTransactionId: "tx-1",
+            checkoutId: CHECKOUT_ID,
+        });
+        expect(checkout.status).toBe("COMPLETED");
+        expect(settle).toHaveBeenCalledTimes(1);
+    });
+
+    it("un reintento del mismo evento no duplica el abono", async () => {
+        await paymentGatewayService.handleWebhook(event("APPROVED"));
+        const retry = await paymentGatewayService.handleWebhook(
+            event("APPROVED")
+        );
+
+        expect(retry.outcome).toBe("duplicate");
+        expect(retry.paymentId).toBe(payments.get("tx-1")?.id);
+        expect(create).toHaveBeenCalledTimes(1);
+        expect(settle).toHaveBeenCalledTimes(1);
+    });
+
+    it("PENDING → APPROVED actualiza el mismo pago y recalcula", async () => {
+        const pending = await paymentGatewayService.handleWebhook(
+            event("PENDING")
+        );
+        expect(pending.outcome).toBe("created");
+        expect(settle).not.toHaveBeenCalled();
+
+        const approved = await paymentGatewayService.handleWebhook(
+            event("APPROVED")
+        );
+
+        expect(approved.outcome).toBe("updated");
+        expect(approved.paymentId).toBe(pending.paymentId);
+        expect(approved.status).toBe("APPROVED");
+        expect(create).toHaveBeenCalledTimes(1);
+        expect(settle).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignora un evento atrasado que retrocede el estado", async () => {
+        await paymentGatewayService.handleWebhook(event("APPROVED"));
+        const late = await paymentGatewayService.handleWebhook(
+            event("PENDING")
+        );
+
+        expect(late.outcome).toBe("ignored");
+        expect(payments.get("tx-1")?.status).toBe("APPROVED");
+        expect(settle).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignora eventos de enlaces desconocidos", async () => {
+        jest.spyOn(PaymentCheckout, "findForEvent").mockResolvedValue(null);
+
+        const result = await paymentGatewayService.handleWebhook(
+            event("APPROVED")
+        );
+
+        expect(result.outcome).toBe("ignored");
+        expect(create).not.toHaveBeenCalled();
+    });
+
+    it("rechaza una firma inválida con 401", async () => {
+        const request = event("APPROVED");
+        request.rawBody = Buffer.from(
+            request.rawBody.toString("utf8").replace("150000", "1")
+        );
+
+        await expect(
+            paymentGatewayService.handleWebhook(request)
+        ).rejects.toMatchObject({ statusCode: 401 });
+        expect(create).not.toHaveBeenCalled();
+    });
+});
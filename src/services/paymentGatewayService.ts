@@ -0,0 +1,324 @@
+import { sequelize } from "../config/database";
+import { paymentConfig } from "../config/env";
+import Camp from "../models/Camp";
+import CampAttendee from "../models/CampAttendee";
+import Payment, { PAYMENT_CURRENCY, PaymentMethod } from "../models/Payment";
+import PaymentCheckout from "../models/PaymentCheckout";
+import { PaymentProviderFactory } from "../providers/PaymentProviderFactory";
+import {
+    InvalidWebhookSignatureError,
+    PaymentProvider,
+} from "../providers/payment/PaymentProvider";
+import {
+    PaymentEvent,
+    PaymentEventStatus,
+    WebhookRequest,
+} from "../providers/payment/types";
+import { FakePaymentProvider } from "../providers/fake/FakePaymentProvider";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+import { feeService } from "./feeService";
+import { PaymentActor, paymentService } from "./paymentService";
+
+export type WebhookOutcome = "created" | "updated" | "duplicate" | "ignored";
+
+export interface WebhookResult {
+    outcome: WebhookOutcome;
+    paymentId: string | null;
+    status: PaymentEventStatus | null;
+    registrationStatus: string | null;
+}
+
+// Cambios de estado que puede reportar la pasarela sobre un pago ya conciliado
+const EVENT_TRANSITIONS: Record<PaymentEventStatus, PaymentEventStatus[]> = {
+    PENDING: ["APPROVED", "DECLINED", "VOIDED"],
+    APPROVED: ["VOIDED"],
+    DECLINED: [],
+    VOIDED: [],
+};
+
+const METHOD_MAP: Record<string, PaymentMethod> = {
+    CARD: "CARD",
+    NEQUI: "NEQUI",
+    DAVIPLATA: "DAVIPLATA",
+    PSE: "BANK_TRANSFER",
+    BANCOLOMBIA_TRANSFER: "BANK_TRANSFER",
+    BANCOLOMBIA_COLLECT: "BANK_TRANSFER",
+};
+
+class PaymentGatewayService {
+    /**
+     * Crea un enlace de pago en la pasarela configurada por el saldo
+     * pendiente (o un abono menor)
+     */
+    async createCheckout(
+        attendeeId: string,
+        amount: number | undefined,
+        actor: PaymentActor = {}
+    ) {
+        const attendee = await CampAttendee.findByPk(attendeeId);
+        if (!attendee) {
+            throw new AppError("Asistente no encontrado", 404);
+        }
+        if (attendee.registrationStatus === "CANCELLED") {
+            throw new AppError(
+                "No se pueden generar pagos de una inscripción cancelada",
+                409
+            );
+        }
+        const camp = await Camp.findByPk(attendee.campId);
+        if (!camp) {
+            throw new AppError("Camp no encontrado", 404);
+        }
+        const [paid, fee] = await Promise.all([
+            Payment.sumApproved(attendee.id, camp.id),
+            feeService.getFee(attendee, camp),
+        ]);
+        const balance = paymentService.computeBalance(fee, paid, camp);
+        if (balance.balance === null || balance.balance <= 0) {
+            throw new AppError(
+                "El asistente no tiene saldo pendiente",
+                409,
+                true,
+                "NO_OUTSTANDING_BALANCE"
+            );
+        }
+        const chargeAmount = amount ?? balance.balance;
+        if (chargeAmount > balance.balance) {
+            throw new AppError(
+                `El monto no puede superar el saldo pendiente (${balance.balance} ${PAYMENT_CURRENCY})`,
+                400
+            );
+        }
+
+        const provider = PaymentProviderFactory.getProvider();
+        const checkout = PaymentCheckout.build({
+            attendeeId: attendee.id,
+            campId: camp.id,
+            provider: provider.type,
+            providerCheckoutId: "",
+            amount: chargeAmount,
+            currency: PAYMENT_CURRENCY,
+            url: "",
+            expiresAt: new Date(
+                Date.now() + paymentConfig.checkoutExpiresMinutes * 60 * 1000
+            ),
+            createdBy: actor.userId ?? null,
+        });
+        const result = await provider.createCheckout({
+            reference: checkout.id,
+            amount: chargeAmount,
+            currency: PAYMENT_CURRENCY,
+            description: `Inscripción ${camp.name}`,
+            redirectUrl: paymentConfig.redirectUrl,
+            expiresAt: checkout.expiresAt,
+        });
+        checkout.providerCheckoutId = result.checkoutId;
+        checkout.url = result.url;
+        await checkout.save();
+
+        logger.info("Payment checkout created", {
+            requestId: actor.requestId,
+            attendeeId,
+            checkoutId: checkout.id,
+            provider: provider.type,
+            amount: chargeAmount,
+        });
+        return { checkout, balance };
+    }
+
+    /**
+     * Concilia un evento de la pasarela. Idempotente: la transacción de la
+     * pasarela identifica al pago, así que los reintentos del mismo evento
+     * no duplican abonos. Eventos de enlaces desconocidos se ignoran (200)
+     * para que la pasarela no los reintente.
+     */
+    async handleWebhook(
+        request: WebhookRequest,
+        requestId?: string
+    ): Promise<WebhookResult> {
+        const provider = PaymentProviderFactory.getProvider();
+        const event = this.parseEvent(provider, request);
+
+        const ignored: WebhookResult = {
+            outcome: "ignored",
+            paymentId: null,
+            status: event?.status ?? null,
+            registrationStatus: null,
+        };
+        if (!event) {
+            return ignored;
+        }
+        const checkout = await PaymentCheckout.findForEvent(
+            provider.type,
+            event.checkoutId,
+            event.reference
+        );
+        if (!checkout || event.currency !== PAYMENT_CURRENCY) {
+            logger.warn("Payment webhook ignored", {
+                requestId,
+                provider: provider.type,
+                transactionId: event.transactionId,
+                checkoutId: event.checkoutId,
+                currency: event.currency,
+            });
+            return ignored;
+        }
+
+        const result = await sequelize.transaction(async (transaction) => {
+            const { camp, attendee } = await paymentService.lockAttendee(
+                checkout.attendeeId,
+                transaction
+            );
+            let payment = await Payment.findByProviderTransaction(
+                provider.type,
+                event.transactionId,
+                transaction
+            );
+            let outcome: WebhookOutcome;
+            if (!payment) {
+                payment = await Payment.create(
+                    {
+                        attendeeId: checkout.attendeeId,
+                        campId: checkout.campId,
+                        amount: event.amount,
+                        currency: event.currency,
+                        method: METHOD_MAP[event.methodType ?? ""] ?? "OTHER",
+                        status: event.status,
+                        reference: event.transactionId,
+                        paidAt: event.occurredAt,
+                        provider: provider.type,
+                        providerTransactionId: event.transactionId,
+                        checkoutId: checkout.id,
+                        ...(event.status === "VOIDED" && {
+                            voidedAt: event.occurredAt,
+                            voidReason: "Anulado en la pasarela",
+                        }),
+                    },
+                    { transaction }
+                );
+                outcome = "created";
+            } else if (payment.status === event.status) {
+                outcome = "duplicate";
+            } else if (
+                EVENT_TRANSITIONS[payment.status].includes(event.status)
+            ) {
+                await payment.update(
+                    {
+                        status: event.status,
+                        paidAt: event.occurredAt,
+                        ...(event.status === "VOIDED" && {
+                            voidedAt: event.occurredAt,
+                            voidReason: "Anulado en la pasarela",
+                        }),
+                    },
+                    { transaction }
+                );
+                outcome = "updated";
+            } else {
+                outcome = "ignored";
+            }
+
+            // Solo se recalcula si el pago quedó aprobado en el camp actual
+            let statusChanged = false;
+            if (
+                outcome !== "duplicate" &&
+                outcome !== "ignored" &&
+                payment.status === "APPROVED"
+            ) {
+                await checkout.update(
+                    { status: "COMPLETED", paymentId: payment.id },
+                    { transaction }
+                );
+                if (camp.id === checkout.campId) {
+                    ({ statusChanged } = await paymentService.settle(
+                        attendee,
+                        camp,
+                        { requestId },
+                        transaction,
+                        payment
+                    ));
+                }
+            }
+            return { payment, outcome, statusChanged, attendee };
+        });
+
+        logger.info("Payment webhook processed", {
+            requestId,
+            provider: provider.type,
+            transactionId: event.transactionId,
+            checkoutId: checkout.id,
+            paymentId: result.payment.id,
+            status: event.status,
+            outcome: result.outcome,
+            statusChanged: result.statusChanged,
+        });
+        return {
+            outcome: result.outcome,
+            paymentId: result.payment.id,
+            status: result.payment.status,
+            registrationStatus: result.attendee.registrationStatus,
+        };
+    }
+
+    /**
+     * Genera y procesa un webhook firmado de la pasarela simulada, para
+     * probar el flujo completo sin red. Repetir el transactionId simula los
+     * reintentos y cambios de estado de una misma transacción.
+     */
+    async simulate(
+        checkoutId: string,
+        status: PaymentEventStatus,
+        transactionId: string | undefined,
+        actor: PaymentActor = {}
+    ) {
+        const provider = PaymentProviderFactory.getProvider();
+        if (!(provider instanceof FakePaymentProvider)) {
+            throw new AppError(
+                "La simulación solo está disponible con la pasarela fake",
+                409
+            );
+        }
+        const checkout = await PaymentCheckout.findOne({
+            where: { id: checkoutId, provider: provider.type },
+        });
+        if (!checkout) {
+            throw new AppError("Enlace de pago no encontrado", 404);
+        }
+        const request = provider.simulateEvent({
+            checkoutId: checkout.providerCheckoutId,
+            reference: checkout.id,
+            amount: checkout.amount,
+            currency: checkout.currency,
+            status,
+            transactionId,
+        });
+        return this.handleWebhook(request, actor.requestId);
+    }
+
+    // Firma inválida → 401 (la pasarela reintenta); cuerpo ilegible → 400
+    private parseEvent(
+        provider: PaymentProvider,
+        request: WebhookRequest
+    ): PaymentEvent | null {
+        try {
+            return provider.parseWebhook(request);
+        } catch (error) {
+            if (error instanceof InvalidWebhookSignatureError) {
+                throw new AppError(
+                    error.message,
+                    401,
+                    true,
+                    "INVALID_WEBHOOK_SIGNATURE"
+                );
+            }
+            if (error instanceof SyntaxError) {
+                throw new AppError("Cuerpo del webhook inválido", 400);
+            }
+            throw error;
+        }
+    }
+}
+
+// Exportar instancia singleton
+export const paymentGatewayService = new PaymentGatewayService();
@@ -0,0 +1,194 @@
+import { Transaction } from "sequelize";
+import Camp from "../models/Camp";
+import CampAttendee, { RegistrationStatus } from "../models/CampAttendee";
+import AttendeeStatusHistory from "../models/AttendeeStatusHistory";
+import Payment from "../models/Payment";
+import { FeeBreakdown, feeService } from "./feeService";
+import { paymentService } from "./paymentService";
+import { receiptService } from "./receiptService";
+
+const CAMP_ID = "7f1d5c9e-0a3b-4c2d-8e6f-1a2b3c4d5e6f";
+const ATTENDEE_ID = "2b7e9a41-5c3d-4f8e-9a1b-3c5d7e9f1a2b";
+
+const fee = (amountDue: number): FeeBreakdown => ({
+    baseAmount: amountDue,
+    rule: null,
+    subtotal: amountDue,
+    discount: null,
+    scholarships: [],
+    amountDue,
+});
+
+const buildCamp = (installmentPlan: Camp["installmentPlan"] = null) =>
+    Camp.build({
+        id: CAMP_ID,
+        name: "Camp de prueba",
+        code: "CAMP-TEST",
+        installmentPlan,
+    } as never);
+
+const buildAttendee = (status: RegistrationStatus) => {
+    const attendee = CampAttendee.build({
+        id: ATTENDEE_ID,
+        firstName: "Ana",
+        lastName: "Pérez",
+        identificationType: "CC",
+        identificationNumber: "1020304050",
+        campId: CAMP_ID,
+        roleId: "5d6e7f80-1a2b-4c3d-8e9f-0a1b2c3d4e5f",
+        registrationStatus: status,
+    });
+    jest.spyOn(attendee, "update").mockImplementation(async (values) => {
+        attendee.set(values as Partial<CampAttendee>);
+        return attendee;
+    });
+    return attendee;
+};
+
+describe("paymentService.settle", () => {
+    let transaction: Transaction;
+    let afterCommit: jest.Mock;
+    let record: jest.SpyInstance;
+    let issueReceipt: jest.SpyInstance;
+
+    beforeEach(() => {
+        afterCommit = jest.fn((callback: () => unknown) => callback());
+        transaction = { afterCommit } as unknown as Transaction;
+        record = jest
+            .spyOn(AttendeeStatusHistory, "record")
+            .mockResolvedValue({} as AttendeeStatusHistory);
+        issueReceipt = jest
+            .spyOn(receiptService, "issueOnSettlement")
+            .mockResolvedValue(undefined);
+    });
+
+    const settle = (
+        attendee: CampAttendee,
+        paid: number,
+        amountDue: number | null,
+        payment: Payment | null = null
+    ) => {
+        jest.spyOn(Payment, "sumApproved").mockResolvedValue(paid);
+        jest.spyOn(feeService, "getFee").mockResolvedValue(
+            amountDue === null ? null : fee(amountDue)
+        );
+        return paymentService.settle(
+            attendee,
+            buildCamp(),
+            { userId: "admin", requestId: "req-1" },
+            transaction,
+            payment
+        );
+    };
+
+    it("pasa a PAID cuando el saldo queda cubierto", async () => {
+        const attendee = buildAttendee("PENDING_PAYMENT");
+        const payment = Payment.build({
+            id: "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d",
+            reference: "TX-1",
+        } as never);
+
+        const { balance, statusChanged } = await settle(
+            attendee,
+            300000,
+            300000,
+            payment
+        );
+
+        expect(statusChanged).toBe(true);
+        expect(balance.balance).toBe(0);
+        expect(attendee.registrationStatus).toBe("PAID");
+        expect(record).toHaveBeenCalledWith(
+            expect.objectContaining({
+                attendeeId: ATTENDEE_ID,
+                fromStatus: "PENDING_PAYMENT",
+                toStatus: "PAID",
+                changedBy: "admin",
+                amount: 300000,
+                reference: "TX-1",
+            }),
+            transaction
+        );
+        // El recibo se emite después del commit
+        expect(afterCommit).toHaveBeenCalledTimes(1);
+        expect(issueReceipt).toHaveBeenCalledWith(
+            ATTENDEE_ID,
+            CAMP_ID,
+            payment.id,
+            "req-1"
+        );
+    });
+
+    it("no cambia el estado con saldo pendiente", async () => {
+        const attendee = buildAttendee("PENDING_PAYMENT");
+
+        const { balance, statusChanged } = await settle(
+            attendee,
+            100000,
+            300000
+        );
+
+        expect(statusChanged).toBe(false);
+        expect(balance.balance).toBe(200000);
+        expect(attendee.update).not.toHaveBeenCalled();
+        expect(record).not.toHaveBeenCalled();
+        expect(afterCommit).not.toHaveBeenCalled();
+    });
+
+    it("no cambia el estado sin tarifa definida", async () => {
+        const attendee = buildAttendee("PENDING_PAYMENT");
+
+        const { balance, statusChanged } = await settle(attendee, 0, null);
+
+        expect(statusChanged).toBe(false);
+        expect(balance.balance).toBeNull();
+        expect(attendee.update).not.toHaveBeenCalled();
+    });
+
+    it.each(["PAID", "CONFIRMED", "WAITING_LIST", "CANCELLED"] as const)(
+        "no toca un asistente en %s aunque el saldo esté cubierto",
+        async (status) => {
+            const attendee = buildAttendee(status);
+
+            const { statusChanged } = await settle(attendee, 300000, 300000);
+
+            expect(statusChanged).toBe(false);
+            expect(attendee.registrationStatus).toBe(status);
+            expect(record).not.toHaveBeenCalled();
+        }
+    );
+
+    it("llamarlo de nuevo tras pasar a PAID no repite la transición", async () => {
+        const attendee = buildAttendee("PENDING_PAYMENT");
+
+        await settle(attendee, 300000, 300000);
+        const second = await settle(attendee, 300000, 300000);
+
+        expect(second.statusChanged).toBe(false);
+        expect(record).toHaveBeenCalledTimes(1);
+        expect(issueReceipt).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("paymentService.computeBalance", () => {
+    it("marca cuotas pagadas, vencidas y pendientes", () => {
+        const camp = buildCamp([
+            { dueDate: "2000-01-01", percentage: 50 },
+            { dueDate: "2000-02-01", percentage: 30 },
+            { dueDate: "2999-01-01", percentage: 20 },
+        ]);
+
+        const balance = paymentService.computeBalance(fee(100000), 60000, camp);
+
+        expect(balance.balance).toBe(40000);
+        expect(balance.installments.map((i) => i.status)).toEqual([
+            "PAID",
+            "OVERDUE",
+            "PENDING",
+        ]);
+        expect(balance.installments.map((i) => i.amount)).toEqual([
+            50000, 30000, 20000,
+        ]);
+        expect(balance.overdueAmount).toBe(20000);
+    });
+});
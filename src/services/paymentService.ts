@@ -0,0 +1,428 @@
+import { Op, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import Camp from "../models/Camp";
+import CampAttendee from "../models/CampAttendee";
+import AttendeeStatusHistory from "../models/AttendeeStatusHistory";
+import Payment, {
+    PAYMENT_CURRENCY,
+    PaymentInput,
+    PaymentMethod,
+} from "../models/Payment";
+import { AppError } from "../utils/handleError";
+import { localDate } from "../utils/dates";
+import logger from "../utils/logger";
+import { SEAT_HOLDING_STATUSES } from "./registrationService";
+import { FeeBreakdown, feeService } from "./feeService";
+import { receiptService } from "./receiptService";
+
+export type InstallmentState = "PAID" | "PENDING" | "OVERDUE";
+
+export interface InstallmentStatus {
+    dueDate: string;
+    percentage: number;
+    amount: number;
+    // Total que debe estar pagado al vencer esta cuota
+    cumulativeAmount: number;
+    status: InstallmentState;
+}
+
+export interface PaymentBalance {
+    currency: string;
+    // null si el asistente no tiene cobro
+    amountDue: number | null;
+    // Cómo se llegó a amountDue (tarifa, descuento y becas)
+    fee: FeeBreakdown | null;
+    paid: number;
+    // Negativo = saldo a favor
+    balance: number | null;
+    overdueAmount: number;
+    installments: InstallmentStatus[];
+}
+
+export interface PaymentActor {
+    userId?: string | null;
+    requestId?: string;
+}
+
+class PaymentService {
+    /**
+     * Saldo a partir del valor a pagar y lo aprobado. Con plan de cuotas,
+     * cada cuota se da por pagada cuando lo abonado cubre el acumulado.
+     */
+    computeBalance(fee: FeeBreakdown | null, paid: number, camp: Camp) {
+        const amountDue = fee ? fee.amountDue : null;
+        const installments: InstallmentStatus[] = [];
+        let overdueAmount = 0;
+        if (amountDue !== null && camp.installmentPlan?.length) {
+            const now = localDate();
+            let cumulative = 0;
+            let percentage = 0;
+            for (const item of camp.installmentPlan) {
+                percentage += item.percentage;
+                // La última cuota absorbe el redondeo
+                const target = Math.round((amountDue * percentage) / 100);
+                const amount = target - cumulative;
+                cumulative = target;
+                const status: InstallmentState =
+                    paid >= cumulative
+                        ? "PAID"
+                        : item.dueDate < now
+                          ? "OVERDUE"
+                          : "PENDING";
+                if (status === "OVERDUE") {
+                    overdueAmount = cumulative - paid;
+                }
+                installments.push({
+                    dueDate: item.dueDate,
+                    percentage: item.percentage,
+                    amount,
+                    cumulativeAmount: cumulative,
+                    status,
+                });
+            }
+        }
+        const balance: PaymentBalance = {
+            currency: PAYMENT_CURRENCY,
+            amountDue,
+            fee,
+            paid,
+            balance: amountDue === null ? null : amountDue - paid,
+            overdueAmount,
+            installments,
+        };
+        return balance;
+    }
+
+    /**
+     * Pagos del asistente en su camp actual con el saldo
+     */
+    async getAttendeePayments(attendeeId: string) {
+        const attendee = await this.findAttendee(attendeeId);
+        const camp = await this.findCamp(attendee.campId);
+        const [payments, paid, fee] = await Promise.all([
+            Payment.findByAttendee(attendee.id, camp.id),
+            Payment.sumApproved(attendee.id, camp.id),
+            feeService.getFee(attendee, camp),
+        ]);
+        return { payments, balance: this.computeBalance(fee, paid, camp) };
+    }
+
+    /**
+     * Registra un pago recibido por tesorería. Si con él se cubre el valor
+     * a pagar, un asistente en PENDING_PAYMENT pasa automáticamente a PAID.
+     */
+    async recordPayment(
+        attendeeId: string,
+        input: PaymentInput,
+        actor: PaymentActor = {}
+    ) {
+        const result = await sequelize.transaction(async (transaction) => {
+            const { camp, attendee } = await this.lockAttendee(
+                attendeeId,
+                transaction
+            );
+            if (attendee.registrationStatus === "CANCELLED") {
+                throw new AppError(
+                    "No se pueden registrar pagos de una inscripción cancelada",
+                    409
+                );
+            }
+            if (input.reference) {
+                await this.assertUniqueReference(
+                    camp.id,
+                    input.method,
+                    input.reference,
+                    transaction
+                );
+            }
+
+            const payment = await Payment.create(
+                {
+                    attendeeId: attendee.id,
+                    campId: camp.id,
+                    amount: input.amount,
+                    currency: PAYMENT_CURRENCY,
+                    method: input.method,
+                    status: "APPROVED",
+                    reference: input.reference ?? null,
+                    paidAt: input.paidAt ?? new Date(),
+                    notes: input.notes ?? null,
+                    documentKey: input.documentKey ?? null,
+                    mimeType: input.mimeType ?? null,
+                    bucket: input.bucket ?? null,
+                    recordedBy: actor.userId ?? null,
+                },
+                { transaction }
+            );
+            const { balance, statusChanged } = await this.settle(
+                attendee,
+                camp,
+                actor,
+                transaction,
+                payment
+            );
+            return { payment, balance, statusChanged, attendee };
+        });
+
+        logger.info("Payment recorded", {
+            requestId: actor.requestId,
+            attendeeId,
+            paymentId: result.payment.id,
+            amount: result.payment.amount,
+            balance: result.balance.balance,
+            statusChanged: result.statusChanged,
+        });
+        return {
+            payment: result.payment,
+            balance: result.balance,
+            registrationStatus: result.attendee.registrationStatus,
+        };
+    }
+
+    /**
+     * Anula un pago (queda en el libro como VOIDED). No revierte el estado
+     * PAID: la máquina de estados no permite volver a PENDING_PAYMENT.
+     */
+    async voidPayment(
+        attendeeId: string,
+        paymentId: string,
+        reason: string,
+        actor: PaymentActor = {}
+    ) {
+        const result = await sequelize.transaction(async (transaction) => {
+            const { camp, attendee } = await this.lockAttendee(
+                attendeeId,
+                transaction
+            );
+            const payment = await Payment.findOne({
+                where: { id: paymentId, attendeeId },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+            if (!payment) {
+                throw new AppError("Pago no encontrado", 404);
+            }
+            if (payment.status === "VOIDED") {
+                throw new AppError("El pago ya está anulado", 409);
+            }
+            await payment.update(
+                {
+                    status: "VOIDED",
+                    voidedAt: new Date(),
+                    voidedBy: actor.userId ?? null,
+                    voidReason: reason,
+                },
+                { transaction }
+            );
+            const paid = await Payment.sumApproved(
+                attendee.id,
+                camp.id,
+                transaction
+            );
+            const fee = await feeService.getFee(attendee, camp, transaction);
+            return { payment, balance: this.computeBalance(fee, paid, camp) };
+        });
+
+        logger.info("Payment voided", {
+            requestId: actor.requestId,
+            attendeeId,
+            paymentId,
+        });
+        return result;
+    }
+
+    /**
+     * Bloquea el camp del asistente y luego al asistente (mismo orden que
+     * registrationService) para cambios que afectan su saldo
+     */
+    async lockAttendee(
+        attendeeId: string,
+        transaction: Transaction
+    ): Promise<{ camp: Camp; attendee: CampAttendee }> {
+        const current = await this.findAttendee(attendeeId);
+        const camp = await this.findCamp(current.campId, transaction);
+        const attendee = await this.findAttendee(attendeeId, transaction);
+        return { camp, attendee };
+    }
+
+    /**
+     * Recalcula el saldo y pasa a PAID al asistente en PENDING_PAYMENT que
+     * ya cubrió el valor a pagar (tras un pago, un descuento o una beca).
+     * Debe llamarse con camp y asistente bloqueados dentro de la transacción.
+     * La transición guarda el total pagado y la referencia del pago que
+     * completó el saldo; el recibo se emite después del commit.
+     */
+    async settle(
+        attendee: CampAttendee,
+        camp: Camp,
+        actor: PaymentActor,
+        transaction: Transaction,
+        payment: Payment | null = null
+    ): Promise<{ balance: PaymentBalance; statusChanged: boolean }> {
+        const paid = await Payment.sumApproved(
+            attendee.id,
+            camp.id,
+            transaction
+        );
+        const fee = await feeService.getFee(attendee, camp, transaction);
+        const balance = this.computeBalance(fee, paid, camp);
+        if (
+            attendee.registrationStatus !== "PENDING_PAYMENT" ||
+            balance.balance === null ||
+            balance.balance > 0
+        ) {
+            return { balance, statusChanged: false };
+        }
+        await attendee.update({ registrationStatus: "PAID" }, { transaction });
+        await AttendeeStatusHistory.record(
+            {
+                attendeeId: attendee.id,
+                fromStatus: "PENDING_PAYMENT",
+                toStatus: "PAID",
+                reason: "Saldo pagado en su totalidad",
+                changedBy: actor.userId ?? null,
+                amount: balance.paid,
+                reference: payment?.reference ?? null,
+            },
+            transaction
+        );
+        transaction.afterCommit(() =>
+            receiptService.issueOnSettlement(
+                attendee.id,
+                camp.id,
+                payment?.id ?? null,
+                actor.requestId
+            )
+        );
+        logger.info("CampAttendee registration status changed", {
+            requestId: actor.requestId,
+            id: attendee.id,
+            fromStatus: "PENDING_PAYMENT",
+            toStatus: "PAID",
+        });
+        return { balance, statusChanged: true };
+    }
+
+    /**
+     * Resumen de recaudo del camp. Esperado y pendiente se calculan sobre
+     * las inscripciones que ocupan cupo; lo recaudado incluye todo pago
+     * aprobado del camp.
+     */
+    async getCampSummary(campId: string) {
+        const camp = await this.findCamp(campId);
+        const [attendees, paidByAttendee, byMethod] = await Promise.all([
+            CampAttendee.findAll({
+                where: {
+                    campId,
+                    registrationStatus: { [Op.in]: SEAT_HOLDING_STATUSES },
+                },
+            }),
+            Payment.sumApprovedByAttendee(campId),
+            Payment.sumApprovedByMethod(campId),
+        ]);
+
+        const fees = await feeService.getFees(camp, attendees);
+
+        const totals = {
+            expected: 0,
+            collected: byMethod.reduce((sum, row) => sum + row.total, 0),
+            outstanding: 0,
+            overdue: 0,
+            discounts: 0,
+            scholarships: 0,
+        };
+        const counts = {
+            attendees: attendees.length,
+            fullyPaid: 0,
+            partiallyPaid: 0,
+            unpaid: 0,
+            withOverdue: 0,
+        };
+        for (const attendee of attendees) {
+            const paid = paidByAttendee.get(attendee.id) ?? 0;
+            const fee = fees.get(attendee.id) ?? null;
+            const balance = this.computeBalance(fee, paid, camp);
+            if (!fee || balance.balance === null) {
+                continue;
+            }
+            totals.expected += fee.amountDue;
+            totals.outstanding += Math.max(balance.balance, 0);
+            totals.overdue += balance.overdueAmount;
+            totals.discounts += fee.discount?.amount ?? 0;
+            totals.scholarships += fee.scholarships.reduce(
+                (sum, item) => sum + item.amount,
+                0
+            );
+            if (balance.balance <= 0) counts.fullyPaid++;
+            else if (paid > 0) counts.partiallyPaid++;
+            else counts.unpaid++;
+            if (balance.overdueAmount > 0) counts.withOverdue++;
+        }
+
+        return {
+            campId: camp.id,
+            currency: PAYMENT_CURRENCY,
+            feeAmount: camp.feeAmount,
+            feeRules: camp.feeRules,
+            installmentPlan: camp.installmentPlan,
+            totals,
+            attendees: counts,
+            byMethod,
+        };
+    }
+
+    private async assertUniqueReference(
+        campId: string,
+        method: PaymentMethod,
+        reference: string,
+        transaction: Transaction
+    ): Promise<void> {
+        const duplicate = await Payment.findDuplicateReference(
+            campId,
+            method,
+            reference,
+            transaction
+        );
+        if (duplicate) {
+            throw new AppError(
+                `Ya existe un pago ${method} con la referencia ${reference} en este camp`,
+                409,
+                true,
+                "PAYMENT_DUPLICATE_REFERENCE"
+            );
+        }
+    }
+
+    private async findAttendee(
+        attendeeId: string,
+        transaction?: Transaction
+    ): Promise<CampAttendee> {
+        const attendee = await CampAttendee.findOne({
+            where: { id: attendeeId },
+            lock: transaction ? transaction.LOCK.UPDATE : undefined,
+            transaction,
+        });
+        if (!attendee) {
+            throw new AppError("Asistente no encontrado", 404);
+        }
+        return attendee;
+    }
+
+    private async findCamp(
+        campId: string,
+        transaction?: Transaction
+    ): Promise<Camp> {
+        const camp = await Camp.findOne({
+            where: { id: campId },
+            lock: transaction ? transaction.LOCK.UPDATE : undefined,
+            transaction,
+        });
+        if (!camp) {
+            throw new AppError("Camp no encontrado", 404);
+        }
+        return camp;
+    }
+}
+
+// Exportar instancia singleton
+export const paymentService = new PaymentService();
@@ -0,0 +1,94 @@
+import { Op } from "sequelize";
+import { sequelize } from "../config/database";
+import { authConfig } from "../config/env";
+import Permission from "../models/Permission";
+import Role from "../models/Role";
+import RolePermission from "../models/RolePermission";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+
+class PermissionService {
+    /**
+     * Crea el catálogo de permisos y asegura que el rol administrador
+     * (ADMIN_ROLE_CODE) los tenga todos. Se ejecuta al iniciar la app.
+     */
+    async syncDefaults(): Promise<void> {
+        await Permission.syncDefaults();
+
+        const adminRole = await Role.findByCode(authConfig.adminRoleCode);
+        if (!adminRole) {
+            logger.warn("Admin role not found, permissions not granted", {
+                code: authConfig.adminRoleCode,
+            });
+            return;
+        }
+
+        const [permissions, granted] = await Promise.all([
+            Permission.findAll({ attributes: ["id"] }),
+            RolePermission.findAll({
+                where: { roleId: adminRole.id },
+                attributes: ["permissionId"],
+            }),
+        ]);
+        const grantedIds = new Set(granted.map((rp) => rp.permissionId));
+        const missing = permissions.filter((p) => !grantedIds.has(p.id));
+        if (missing.length > 0) {
+            await RolePermission.bulkCreate(
+                missing.map((p) => ({
+                    roleId: adminRole.id,
+                    permissionId: p.id,
+                }))
+            );
+            logger.info("Permissions granted to admin role", {
+                code: adminRole.code,
+                granted: missing.length,
+            });
+        }
+    }
+
+    /**
+     * Códigos de permiso de un rol
+     */
+    async getRolePermissions(roleId: string): Promise<string[]> {
+        return await RolePermission.findPermissionCodes(roleId);
+    }
+
+    /**
+     * Reemplaza los permisos de un rol por el conjunto indicado
+     */
+    async setRolePermissions(
+        roleId: string,
+        codes: string[]
+    ): Promise<string[]> {
+        const role = await Role.findOne({ where: { id: roleId } });
+        if (!role) {
+            throw new AppError("Rol no encontrado", 404);
+        }
+
+        const uniqueCodes = [...new Set(codes)];
+        const permissions = await Permission.findAll({
+            where: { code: { [Op.in]: uniqueCodes } },
+            attributes: ["id", "code"],
+        });
+        if (permissions.length !== uniqueCodes.length) {
+            const known = new Set(permissions.map((p) => p.code));
+            const unknown = uniqueCodes.filter((code) => !known.has(code));
+            throw new AppError(
+                `Permisos desconocidos: ${unknown.join(", ")}`,
+                400
+            );
+        }
+
+        await sequelize.transaction(async (transaction) => {
+            await RolePermission.replaceForRole(
+                roleId,
+                permissions.map((p) => p.id),
+                transaction
+            );
+        });
+        return permissions.map((p) => p.code).sort();
+    }
+}
+
+// Exportar instancia singleton
+export const permissionService = new PermissionService();
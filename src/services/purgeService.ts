@@ -0,0 +1,237 @@
+import { Op } from "sequelize";
+import { sequelize } from "../config/database";
+import { r2Config } from "../config/env";
+import CampAttendee from "../models/CampAttendee";
+import Camp from "../models/Camp";
+import Role from "../models/Role";
+import AttendeeStatusHistory from "../models/AttendeeStatusHistory";
+import RefreshToken from "../models/RefreshToken";
+import PasswordResetToken from "../models/PasswordResetToken";
+import RolePermission from "../models/RolePermission";
+import Guardian from "../models/Guardian";
+import ParentalConsent from "../models/ParentalConsent";
+import HealthProfile from "../models/HealthProfile";
+import Payment from "../models/Payment";
+import DiscountCode from "../models/DiscountCode";
+import DiscountRedemption from "../models/DiscountRedemption";
+import Scholarship from "../models/Scholarship";
+import PaymentCheckout from "../models/PaymentCheckout";
+import CheckIn from "../models/CheckIn";
+import { StorageProvider } from "../providers/storage/StorageProvider";
+import { StorageProviderFactory } from "../providers/StorageProviderFactory";
+import logger from "../utils/logger";
+
+// Asistentes eliminados definitivamente por transacción
+const PURGE_BATCH_SIZE = 200;
+
+export interface PurgeSummary {
+    olderThanDays: number;
+    cutoff: Date;
+    attendees: { purged: number; skipped: number };
+    documents: { deleted: number; failed: number };
+    camps: { purged: number; skipped: number };
+    roles: { purged: number; skipped: number };
+}
+
+class PurgeService {
+    /**
+     * Elimina definitivamente asistentes, camps y roles borrados (soft
+     * delete) hace más de `olderThanDays` días.
+     *
+     * - Antes de borrar un asistente se elimina su documento en R2; si no se
+     *   puede, el asistente se conserva para no perder la referencia.
+     * - Con el asistente se borran su historial, tokens, acudientes,
+     *   consentimientos, perfil médico, becas y código de descuento.
+     * - Los asistentes con pagos registrados se conservan: el libro de pagos
+     *   no se borra.
+     * - Camps y roles solo se purgan si ningún asistente (ni siquiera uno
+     *   eliminado) los referencia todavía; los camps, además, si no tienen
+     *   pagos.
+     */
+    async purgeDeleted(
+        olderThanDays: number,
+        requestId?: string
+    ): Promise<PurgeSummary> {
+        const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+        const summary: PurgeSummary = {
+            olderThanDays,
+            cutoff,
+            attendees: { purged: 0, skipped: 0 },
+            documents: { deleted: 0, failed: 0 },
+            camps: { purged: 0, skipped: 0 },
+            roles: { purged: 0, skipped: 0 },
+        };
+
+        await this.purgeAttendees(cutoff, summary, requestId);
+        await this.purgeCamps(cutoff, summary);
+        await this.purgeRoles(cutoff, summary);
+
+        logger.info("Soft-deleted records purged", {
+            requestId,
+            ...summary,
+        });
+        return summary;
+    }
+
+    private async purgeAttendees(
+        cutoff: Date,
+        summary: PurgeSummary,
+        requestId?: string
+    ): Promise<void> {
+        let storage: StorageProvider | null = null;
+        // Asistentes conservados por tener pagos o no poder borrar su documento
+        const kept: string[] = [];
+
+        while (true) {
+            const batch = await CampAttendee.findAll({
+                where: {
+                    deletedAt: { [Op.lt]: cutoff },
+                    ...(kept.length ? { id: { [Op.notIn]: kept } } : {}),
+                },
+                paranoid: false,
+                order: [["id", "ASC"]],
+                limit: PURGE_BATCH_SIZE,
+            });
+            if (batch.length === 0) {
+                return;
+            }
+
+            const withPayments = new Set(
+                (
+                    await Payment.findAll({
+                        where: {
+                            attendeeId: { [Op.in]: batch.map((a) => a.id) },
+                        },
+                        attributes: ["attendeeId"],
+                        group: ["attendeeId"],
+                    })
+                ).map((payment) => payment.attendeeId)
+            );
+
+            const purgeable: CampAttendee[] = [];
+            for (const attendee of batch) {
+                if (withPayments.has(attendee.id)) {
+                    summary.attendees.skipped++;
+                    kept.push(attendee.id);
+                    continue;
+                }
+                if (attendee.documentKey) {
+                    try {
+                        if (!r2Config.enabled) {
+                            throw new Error("R2 no está habilitado");
+                        }
+                        storage ??= StorageProviderFactory.getProvider();
+                        await storage.deleteObject(
+                            attendee.bucket || r2Config.bucket,
+                            attendee.documentKey
+                        );
+                        summary.documents.deleted++;
+                    } catch (error) {
+                        logger.error("Error deleting attendee document", {
+                            requestId,
+                            id: attendee.id,
+                            documentKey: attendee.documentKey,
+                            error:
+                                error instanceof Error
+                                    ? error.message
+                                    : String(error),
+                        });
+                        summary.documents.failed++;
+                        summary.attendees.skipped++;
+                        kept.push(attendee.id);
+                        continue;
+                    }
+                }
+                purgeable.push(attendee);
+            }
+
+            if (purgeable.length > 0) {
+                await sequelize.transaction(async (transaction) => {
+                    const where = {
+                        attendeeId: { [Op.in]: purgeable.map((a) => a.id) },
+                    };
+                    await AttendeeStatusHistory.destroy({ where, transaction });
+                    await RefreshToken.destroy({ where, transaction });
+                    await PasswordResetToken.destroy({ where, transaction });
+                    await ParentalConsent.destroy({ where, transaction });
+                    await Guardian.destroy({ where, transaction });
+                    await HealthProfile.destroy({ where, transaction });
+                    await Scholarship.destroy({ where, transaction });
+                    await DiscountRedemption.destroy({ where, transaction });
+                    await PaymentCheckout.destroy({ where, transaction });
+                    await CheckIn.destroy({ where, transaction });
+                    // Por instancia para que la auditoría guarde cada registro
+                    for (const attendee of purgeable) {
+                        await attendee.destroy({ force: true, transaction });
+                    }
+                });
+                summary.attendees.purged += purgeable.length;
+            }
+        }
+    }
+
+    private async purgeCamps(
+        cutoff: Date,
+        summary: PurgeSummary
+    ): Promise<void> {
+        const camps = await Camp.findAll({
+            where: { deletedAt: { [Op.lt]: cutoff } },
+            paranoid: false,
+        });
+        for (const camp of camps) {
+            const referenced =
+                (await CampAttendee.count({
+                    where: { campId: camp.id },
+                    paranoid: false,
+                })) + (await Payment.count({ where: { campId: camp.id } }));
+            if (referenced > 0) {
+                summary.camps.skipped++;
+                continue;
+            }
+            // Consentimientos, becas, códigos, enlaces de pago y llegadas de
+            // asistentes que luego cambiaron de camp
+            await sequelize.transaction(async (transaction) => {
+                const where = { campId: camp.id };
+                await ParentalConsent.destroy({ where, transaction });
+                await Scholarship.destroy({ where, transaction });
+                await DiscountRedemption.destroy({ where, transaction });
+                await DiscountCode.destroy({ where, transaction });
+                await PaymentCheckout.destroy({ where, transaction });
+                await CheckIn.destroy({ where, transaction });
+                await camp.destroy({ force: true, transaction });
+            });
+            summary.camps.purged++;
+        }
+    }
+
+    private async purgeRoles(
+        cutoff: Date,
+        summary: PurgeSummary
+    ): Promise<void> {
+        const roles = await Role.findAll({
+            where: { deletedAt: { [Op.lt]: cutoff } },
+            paranoid: false,
+        });
+        for (const role of roles) {
+            const referenced = await CampAttendee.count({
+                where: { roleId: role.id },
+                paranoid: false,
+            });
+            if (referenced > 0) {
+                summary.roles.skipped++;
+                continue;
+            }
+            await sequelize.transaction(async (transaction) => {
+                await RolePermission.destroy({
+                    where: { roleId: role.id },
+                    transaction,
+                });
+                await role.destroy({ force: true, transaction });
+            });
+            summary.roles.purged++;
+        }
+    }
+}
+
+// Exportar instancia singleton
+export const purgeService = new PurgeService();
@@ -0,0 +1,338 @@
+import fs from "fs";
+import path from "path";
+import PDFDocument from "pdfkit";
+import { r2Config } from "../config/env";
+import Camp from "../models/Camp";
+import CampAttendee from "../models/CampAttendee";
+import Guardian from "../models/Guardian";
+import Payment, { PaymentMethod } from "../models/Payment";
+import { StorageProviderFactory } from "../providers/StorageProviderFactory";
+import { AppError } from "../utils/handleError";
+import { localDate } from "../utils/dates";
+import logger from "../utils/logger";
+import { emailService } from "./emailService";
+import { feeService } from "./feeService";
+
+// Fuente de marca para los títulos del recibo
+const HEADING_FONT = "Sailors";
+const HEADING_FONT_FILE = "sailors-webfont.ttf";
+const BRAND_COLOR = "#4c6cff";
+
+const IDENTIFICATION_LABELS: Record<CampAttendee["identificationType"], string> = {
+    CC: "Cédula de ciudadanía",
+    PP: "Pasaporte",
+    TI: "Tarjeta de identidad",
+};
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+    CASH: "Efectivo",
+    BANK_TRANSFER: "Transferencia bancaria",
+    CARD: "Tarjeta",
+    NEQUI: "Nequi",
+    DAVIPLATA: "Daviplata",
+    OTHER: "Otro",
+};
+
+const copFormat = new Intl.NumberFormat("es-CO", {
+    style: "currency",
+    currency: "COP",
+    maximumFractionDigits: 0,
+});
+
+interface ReceiptData {
+    receiptNumber: string;
+    payment: Payment;
+    attendee: CampAttendee;
+    camp: Camp;
+    // Totales del asistente en el camp al emitir el recibo
+    paid: number;
+    amountDue: number | null;
+}
+
+class ReceiptService {
+    private fontPath: string | null = null;
+
+    /**
+     * Emite el recibo cuando el asistente pasa a PAID: se adjunta al pago
+     * que completó el saldo o, si fue un descuento o una beca, al último
+     * pago aprobado. Corre después del commit y nunca lanza errores.
+     */
+    async issueOnSettlement(
+        attendeeId: string,
+        campId: string,
+        paymentId: string | null,
+        requestId?: string
+    ): Promise<void> {
+        try {
+            const payment = paymentId
+                ? await Payment.findByPk(paymentId)
+                : await Payment.findLatestApproved(attendeeId, campId);
+            if (!payment || payment.status !== "APPROVED") {
+                logger.info("No approved payment to attach receipt", {
+                    requestId,
+                    attendeeId,
+                    campId,
+                });
+                return;
+            }
+            await this.issue(payment, requestId);
+        } catch (error) {
+            logger.error("Error issuing payment receipt", {
+                requestId,
+                attendeeId,
+                paymentId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    /**
+     * Vuelve a generar, almacenar y enviar el recibo de un pago aprobado
+     */
+    async reissue(attendeeId: string, paymentId: string, requestId?: string) {
+        const payment = await this.findPayment(attendeeId, paymentId);
+        return await this.issue(payment, requestId);
+    }
+
+    /**
+     * PDF del recibo generado al momento (no depende de R2)
+     */
+    async render(attendeeId: string, paymentId: string) {
+        const payment = await this.findPayment(attendeeId, paymentId);
+        const data = await this.loadData(payment);
+        return {
+            filename: this.filename(data.receiptNumber),
+            pdf: await this.buildPdf(data),
+        };
+    }
+
+    private async issue(payment: Payment, requestId?: string) {
+        const data = await this.loadData(payment);
+        const pdf = await this.buildPdf(data);
+        const filename = this.filename(data.receiptNumber);
+
+        // Sin R2 el recibo igual se envía por email y se puede descargar
+        let stored: { receiptKey: string; receiptBucket: string } | null = null;
+        if (r2Config.enabled) {
+            try {
+                const storage = StorageProviderFactory.getProvider();
+                const result = await storage.uploadObject({
+                    bucket: r2Config.bucket,
+                    key: `receipts/${data.camp.id}/${filename}`,
+                    body: pdf,
+                    contentType: "application/pdf",
+                    metadata: { paymentId: payment.id },
+                });
+                stored = { receiptKey: result.key, receiptBucket: result.bucket };
+            } catch (error) {
+                logger.error("Error uploading payment receipt", {
+                    requestId,
+                    paymentId: payment.id,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        } else {
+            logger.warn("R2 no habilitado: el recibo no se almacena", {
+                requestId,
+                paymentId: payment.id,
+            });
+        }
+        await payment.update({
+            receiptNumber: data.receiptNumber,
+            receiptIssuedAt: new Date(),
+            ...stored,
+        });
+
+        // Al asistente y con copia a sus acudientes
+        const guardianEmails = await Guardian.findEmails(data.attendee.id);
+        const to = data.attendee.email ?? guardianEmails[0] ?? null;
+        const cc = guardianEmails.filter((email) => email !== to);
+        const emailed = to
+            ? await emailService.sendPaymentReceiptEmail({
+                  firstName: data.attendee.firstName,
+                  lastName: data.attendee.lastName,
+                  email: to,
+                  cc,
+                  campName: data.camp.name,
+                  receiptNumber: data.receiptNumber,
+                  amount: copFormat.format(data.paid),
+                  filename,
+                  pdf,
+              })
+            : false;
+
+        logger.info("Payment receipt issued", {
+            requestId,
+            paymentId: payment.id,
+            receiptNumber: data.receiptNumber,
+            stored: !!stored,
+            emailed,
+        });
+        return { payment, stored: !!stored, emailed };
+    }
+
+    private async findPayment(
+        attendeeId: string,
+        paymentId: string
+    ): Promise<Payment> {
+        const payment = await Payment.findOne({
+            where: { id: paymentId, attendeeId },
+        });
+        if (!payment) {
+            throw new AppError("Pago no encontrado", 404);
+        }
+        if (payment.status !== "APPROVED") {
+            throw new AppError(
+                "Solo los pagos aprobados tienen recibo",
+                409
+            );
+        }
+        return payment;
+    }
+
+    private async loadData(payment: Payment): Promise<ReceiptData> {
+        const [attendee, camp] = await Promise.all([
+            CampAttendee.findByPk(payment.attendeeId, { paranoid: false }),
+            Camp.findByPk(payment.campId, { paranoid: false }),
+        ]);
+        if (!attendee) {
+            throw new AppError("Asistente no encontrado", 404);
+        }
+        if (!camp) {
+            throw new AppError("Camp no encontrado", 404);
+        }
+        const [paid, fee] = await Promise.all([
+            Payment.sumApproved(attendee.id, camp.id),
+            feeService.getFee(attendee, camp),
+        ]);
+        return {
+            receiptNumber: payment.receiptNumber ?? this.receiptNumber(payment),
+            payment,
+            attendee,
+            camp,
+            paid,
+            amountDue: fee ? fee.amountDue : null,
+        };
+    }
+
+    // RC-AAAAMMDD-XXXXXXXX: fecha del pago y prefijo del id
+    private receiptNumber(payment: Payment): string {
+        const date = localDate(payment.paidAt).replace(/-/g, "");
+        return `RC-${date}-${payment.id.slice(0, 8).toUpperCase()}`;
+    }
+
+    private filename(receiptNumber: string): string {
+        return `recibo-${receiptNumber}.pdf`;
+    }
+
+    private buildPdf(data: ReceiptData): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const doc = new PDFDocument({ size: "LETTER", margin: 50 });
+            const chunks: Buffer[] = [];
+            doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+            doc.on("end", () => resolve(Buffer.concat(chunks)));
+            doc.on("error", reject);
+
+            const { payment, attendee, camp } = data;
+            const day = (value: Date | string) =>
+                new Date(value).toISOString().slice(0, 10);
+
+            doc.registerFont(HEADING_FONT, this.resolveFontPath());
+            doc.font(HEADING_FONT)
+                .fontSize(26)
+                .fillColor(BRAND_COLOR)
+                .text("Jóvenes con Un Propósito", { align: "center" });
+            doc.fontSize(18)
+                .text("Recibo de pago", { align: "center" })
+                .moveDown(0.3);
+            doc.fillColor("black")
+                .font("Helvetica")
+                .fontSize(10)
+                .text(
+                    `No. ${data.receiptNumber} · Emitido: ${localDate()}`,
+                    { align: "center" }
+                )
+                .moveDown(1.5);
+
+            this.section(doc, "Asistente", [
+                ["Nombre", `${attendee.firstName} ${attendee.lastName}`],
+                [
+                    "Identificación",
+                    `${IDENTIFICATION_LABELS[attendee.identificationType]} ${attendee.identificationNumber}`,
+                ],
+            ]);
+            this.section(doc, "Campamento", [
+                ["Nombre", `${camp.name} (${camp.code})`],
+                ["Fechas", `${day(camp.startDate)} a ${day(camp.endDate)}`],
+                ["Lugar", [camp.venue, camp.city, camp.country].filter(Boolean).join(", ")],
+            ]);
+            this.section(doc, "Pago", [
+                ["Valor", copFormat.format(payment.amount)],
+                ["Método", METHOD_LABELS[payment.method]],
+                ["Referencia", payment.reference ?? "—"],
+                ["Fecha", localDate(payment.paidAt)],
+            ]);
+            this.section(doc, "Resumen de la inscripción", [
+                [
+                    "Valor a pagar",
+                    data.amountDue === null ? "Sin cobro" : copFormat.format(data.amountDue),
+                ],
+                ["Total pagado", copFormat.format(data.paid)],
+                [
+                    "Saldo",
+                    copFormat.format(Math.max((data.amountDue ?? 0) - data.paid, 0)),
+                ],
+            ]);
+
+            doc.moveDown(2)
+                .font("Helvetica-Oblique")
+                .fontSize(9)
+                .fillColor("#666666")
+                .text(
+                    "Este recibo se generó automáticamente y sirve como comprobante de pago.",
+                    { align: "center" }
+                );
+            doc.end();
+        });
+    }
+
+    private section(
+        doc: PDFKit.PDFDocument,
+        title: string,
+        rows: [string, string][]
+    ): void {
+        doc.font(HEADING_FONT).fontSize(14).fillColor(BRAND_COLOR).text(title);
+        doc.fillColor("black").moveDown(0.25);
+        for (const [label, value] of rows) {
+            doc.font("Helvetica-Bold").fontSize(10).text(`${label}: `, {
+                continued: true,
+            });
+            doc.font("Helvetica").text(value);
+        }
+        doc.moveDown(0.8);
+    }
+
+    /**
+     * La fuente está en src/assets (no la copia tsc): se busca junto al
+     * código y, en producción compilada, desde process.cwd()
+     */
+    private resolveFontPath(): string {
+        if (this.fontPath) {
+            return this.fontPath;
+        }
+        const candidates = [
+            path.join(__dirname, "..", "assets", "fonts", HEADING_FONT_FILE),
+            path.join(process.cwd(), "src", "assets", "fonts", HEADING_FONT_FILE),
+            path.join(process.cwd(), "dist", "assets", "fonts", HEADING_FONT_FILE),
+        ];
+        const found = candidates.find((candidate) => fs.existsSync(candidate));
+        if (!found) {
+            throw new Error(`Fuente ${HEADING_FONT_FILE} no encontrada`);
+        }
+        this.fontPath = found;
+        return found;
+    }
+}
+
+// Exportar instancia singleton
+export const receiptService = new ReceiptService();
@@ -0,0 +1,233 @@
+import { Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import Camp from "../models/Camp";
+import CampAttendee, { RegistrationStatus } from "../models/CampAttendee";
+import AttendeeStatusHistory from "../models/AttendeeStatusHistory";
+import { AppError } from "../utils/handleError";
+import { checkInService } from "./checkInService";
+import {
+    REGISTRATION_TRANSITIONS,
+    registrationService,
+} from "./registrationService";
+
+const CAMP_ID = "7f1d5c9e-0a3b-4c2d-8e6f-1a2b3c4d5e6f";
+const ATTENDEE_ID = "2b7e9a41-5c3d-4f8e-9a1b-3c5d7e9f1a2b";
+
+const transaction = {
+    LOCK: { UPDATE: "UPDATE" },
+    afterCommit: jest.fn(),
+} as unknown as Transaction;
+
+const buildCamp = (maxAttendees: number | null = null) =>
+    Camp.build({
+        id: CAMP_ID,
+        name: "Camp de prueba",
+        code: "CAMP-TEST",
+        maxAttendees,
+    } as never);
+
+const buildAttendee = (status: RegistrationStatus, isActive = false) => {
+    const attendee = CampAttendee.build({
+        id: ATTENDEE_ID,
+        firstName: "Ana",
+        lastName: "Pérez",
+        identificationType: "CC",
+        identificationNumber: "1020304050",
+        campId: CAMP_ID,
+        roleId: "5d6e7f80-1a2b-4c3d-8e9f-0a1b2c3d4e5f",
+        registrationStatus: status,
+        isActive,
+    });
+    jest.spyOn(attendee, "update").mockImplementation(async (values) => {
+        attendee.set(values as Partial<CampAttendee>);
+        return attendee;
+    });
+    return attendee;
+};
+
+const mockLocks = (attendee: CampAttendee, camp: Camp = buildCamp()) => {
+    jest.spyOn(sequelize, "transaction").mockImplementation(((
+        callback: (t: Transaction) => Promise<unknown>
+    ) => callback(transaction)) as never);
+    jest.spyOn(CampAttendee, "findOne").mockResolvedValue(attendee);
+    jest.spyOn(Camp, "findOne").mockResolvedValue(camp);
+    return jest
+        .spyOn(AttendeeStatusHistory, "record")
+        .mockResolvedValue({} as AttendeeStatusHistory);
+};
+
+describe("registrationService", () => {
+    let sendConfirmation: jest.SpyInstance;
+    let promote: jest.SpyInstance;
+
+    beforeEach(() => {
+        sendConfirmation = jest
+            .spyOn(checkInService, "sendConfirmationInBackground")
+            .mockImplementation(() => undefined);
+        promote = jest
+            .spyOn(registrationService, "promoteFromWaitlist")
+            .mockResolvedValue(null);
+    });
+
+    describe("canTransition", () => {
+        const statuses = Object.keys(
+            REGISTRATION_TRANSITIONS
+        ) as RegistrationStatus[];
+
+        it.each([
+            ["PENDING_PAYMENT", "PAID"],
+            ["PAID", "CONFIRMED"],
+            ["CONFIRMED", "CANCELLED"],
+            ["WAITING_LIST", "PENDING_PAYMENT"],
+            ["CANCELLED", "WAITING_LIST"],
+        ] as [RegistrationStatus, RegistrationStatus][])(
+            "permite %s → %s",
+            (from, to) => {
+                expect(registrationService.canTransition(from, to)).toBe(true);
+            }
+        );
+
+        it.each([
+            ["PENDING_PAYMENT", "CONFIRMED"],
+            ["WAITING_LIST", "CONFIRMED"],
+            ["CANCELLED", "PENDING_PAYMENT"],
+            ["CONFIRMED", "PAID"],
+        ] as [RegistrationStatus, RegistrationStatus][])(
+            "rechaza %s → %s",
+            (from, to) => {
+                expect(registrationService.canTransition(from, to)).toBe(false);
+            }
+        );
+
+        it("ningún estado transiciona a sí mismo", () => {
+            for (const status of statuses) {
+                expect(registrationService.canTransition(status, status)).toBe(
+                    false
+                );
+            }
+        });
+    });
+
+    describe("transitionStatus", () => {
+        it("aplica la transición y la registra en el historial", async () => {
+            const attendee = buildAttendee("PENDING_PAYMENT");
+            const record = mockLocks(attendee);
+
+            const result = await registrationService.transitionStatus(
+                ATTENDEE_ID,
+                "PAID",
+                { reason: "Pago en efectivo", changedBy: "admin" }
+            );
+
+            expect(result.registrationStatus).toBe("PAID");
+            expect(attendee.update).toHaveBeenCalledWith(
+                { registrationStatus: "PAID" },
+                { transaction }
+            );
+            expect(record).toHaveBeenCalledWith(
+                {
+                    attendeeId: ATTENDEE_ID,
+                    fromStatus: "PENDING_PAYMENT",
+                    toStatus: "PAID",
+                    reason: "Pago en efectivo",
+                    changedBy: "admin",
+                },
+                transaction
+            );
+            expect(sendConfirmation).not.toHaveBeenCalled();
+        });
+
+        it("rechaza una transición no permitida con 409", async () => {
+            const attendee = buildAttendee("PENDING_PAYMENT");
+            const record = mockLocks(attendee);
+
+            await expect(
+                registrationService.transitionStatus(ATTENDEE_ID, "CONFIRMED")
+            ).rejects.toMatchObject({ statusCode: 409 });
+            expect(attendee.update).not.toHaveBeenCalled();
+            expect(record).not.toHaveBeenCalled();
+        });
+
+        it("rechaza pasar al mismo estado", async () => {
+            mockLocks(buildAttendee("PAID"));
+
+            await expect(
+                registrationService.transitionStatus(ATTENDEE_ID, "PAID")
+            ).rejects.toBeInstanceOf(AppError);
+        });
+
+        it("no saca de la lista de espera si el camp está lleno", async () => {
+            const attendee = buildAttendee("WAITING_LIST");
+            mockLocks(attendee, buildCamp(10));
+            jest.spyOn(CampAttendee, "countOccupyingSeats").mockResolvedValue(
+                10
+            );
+
+            await expect(
+                registrationService.transitionStatus(
+                    ATTENDEE_ID,
+                    "PENDING_PAYMENT"
+                )
+            ).rejects.toMatchObject({ statusCode: 409 });
+            expect(attendee.update).not.toHaveBeenCalled();
+        });
+
+        it("cancelar un cupo ocupado promueve la lista de espera", async () => {
+            mockLocks(buildAttendee("PAID"));
+
+            await registrationService.transitionStatus(ATTENDEE_ID, "CANCELLED");
+
+            expect(promote).toHaveBeenCalledWith(CAMP_ID, undefined);
+        });
+
+        it("confirmar envía el QR de check-in", async () => {
+            const attendee = buildAttendee("PAID");
+            mockLocks(attendee);
+
+            await registrationService.transitionStatus(ATTENDEE_ID, "CONFIRMED");
+
+            expect(sendConfirmation).toHaveBeenCalledWith(attendee, undefined);
+        });
+    });
+
+    describe("setActive", () => {
+        it("activar un asistente PAID lo confirma en la misma transacción", async () => {
+            const attendee = buildAttendee("PAID");
+            const record = mockLocks(attendee);
+
+            await registrationService.setActive(ATTENDEE_ID, true);
+
+            expect(attendee.registrationStatus).toBe("CONFIRMED");
+            expect(attendee.isActive).toBe(true);
+            expect(attendee.update).toHaveBeenCalledWith(
+                { isActive: true },
+                { transaction }
+            );
+            expect(record).toHaveBeenCalledTimes(1);
+            expect(sendConfirmation).toHaveBeenCalledTimes(1);
+        });
+
+        it("activar sin pago no fuerza CONFIRMED", async () => {
+            const attendee = buildAttendee("PENDING_PAYMENT");
+            const record = mockLocks(attendee);
+
+            await registrationService.setActive(ATTENDEE_ID, true);
+
+            expect(attendee.registrationStatus).toBe("PENDING_PAYMENT");
+            expect(attendee.isActive).toBe(true);
+            expect(record).not.toHaveBeenCalled();
+            expect(sendConfirmation).not.toHaveBeenCalled();
+        });
+
+        it("desactivar no cambia el estado de la inscripción", async () => {
+            const attendee = buildAttendee("PAID", true);
+            mockLocks(attendee);
+
+            await registrationService.setActive(ATTENDEE_ID, false);
+
+            expect(attendee.registrationStatus).toBe("PAID");
+            expect(attendee.isActive).toBe(false);
+            expect(sendConfirmation).not.toHaveBeenCalled();
+        });
+    });
+});
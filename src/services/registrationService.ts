@@ -0,0 +1,753 @@
+import bcrypt from "bcrypt";
+import { Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import Camp from "../models/Camp";
+import CampAttendee, {
+    CampAttendeeCreationAttributes,
+    CampAttendeeInput,
+    RegistrationStatus,
+} from "../models/CampAttendee";
+import AttendeeStatusHistory from "../models/AttendeeStatusHistory";
+import Role from "../models/Role";
+import Guardian, { GuardianInput } from "../models/Guardian";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+import { emailService } from "./emailService";
+import { authService } from "./authService";
+import { guardianService } from "./guardianService";
+import { healthProfileService } from "./healthProfileService";
+import { checkInService } from "./checkInService";
+
+// Criterios para ubicar el camp de una inscripción
+export interface CampReference {
+    campId?: string | null;
+    campCode?: string | null;
+}
+
+// Opciones comunes para registrar una transición de estado
+export interface StatusChangeOptions {
+    reason?: string | null;
+    changedBy?: string | null;
+    requestId?: string;
+}
+
+// Transiciones permitidas de registrationStatus
+export const REGISTRATION_TRANSITIONS: Record<
+    RegistrationStatus,
+    RegistrationStatus[]
+> = {
+    PENDING_PAYMENT: ["PAID", "CANCELLED"],
+    PAID: ["CONFIRMED", "CANCELLED"],
+    CONFIRMED: ["CANCELLED"],
+    WAITING_LIST: ["PENDING_PAYMENT", "CANCELLED"],
+    // Un cancelado solo puede volver a la cola de espera
+    CANCELLED: ["WAITING_LIST"],
+};
+
+// Estados que ocupan cupo en el camp
+export const SEAT_HOLDING_STATUSES: RegistrationStatus[] = [
+    "PENDING_PAYMENT",
+    "PAID",
+    "CONFIRMED",
+];
+
+// Único rol que se asigna desde el registro público
+const SELF_REGISTRATION_ROLE = "ASISTENTE";
+
+class RegistrationService {
+    /**
+     * Resuelve el camp destino de una inscripción:
+     * 1. campId explícito
+     * 2. código del camp (Camp.code)
+     * 3. el único camp con status OPEN
+     */
+    async resolveCamp(reference: CampReference): Promise<Camp> {
+        if (reference.campId) {
+            const camp = await Camp.findOne({
+                where: { id: reference.campId },
+            });
+            if (!camp) {
+                throw new AppError(
+                    "Camp no encontrado para el campId proporcionado",
+                    422
+                );
+            }
+            return camp;
+        }
+
+        if (reference.campCode) {
+            const camp = await Camp.findByCode(reference.campCode);
+            if (!camp) {
+                throw new AppError(
+                    "Camp no encontrado para el código proporcionado",
+                    422
+                );
+            }
+            return camp;
+        }
+
+        const openCamps = await Camp.findOpenCamps();
+        if (openCamps.length === 0) {
+            throw new AppError(
+                "No hay ningún camp con inscripciones abiertas",
+                409
+            );
+        }
+        if (openCamps.length > 1) {
+            throw new AppError(
+                "Hay varios camps abiertos: indica campId o campCode",
+                422
+            );
+        }
+        return openCamps[0];
+    }
+
+    /**
+     * Verifica que el camp acepte inscripciones en este momento
+     */
+    assertRegistrationOpen(camp: Camp, now: Date = new Date()): void {
+        if (camp.status !== "OPEN") {
+            throw new AppError(
+                `El camp ${camp.code} no tiene inscripciones abiertas (status ${camp.status})`,
+                409
+            );
+        }
+        if (camp.registrationOpensAt && now < new Date(camp.registrationOpensAt)) {
+            throw new AppError(
+                "Las inscripciones para este camp aún no han abierto",
+                409
+            );
+        }
+        if (
+            camp.registrationClosesAt &&
+            now > new Date(camp.registrationClosesAt)
+        ) {
+            throw new AppError(
+                "Las inscripciones para este camp ya cerraron",
+                409
+            );
+        }
+    }
+
+    /**
+     * Aplica las reglas de negocio de una inscripción nueva sobre datos ya
+     * validados (express-validator): estado inicial, reglas de rol y
+     * assistantSubRole, birthDate/age, acudiente de menores, duplicados y
+     * hash de la contraseña.
+     * Con selfRegistration (registro público) el rol siempre es ASISTENTE y
+     * la cuenta queda inactiva hasta que el staff la active.
+     * Modifica y devuelve el mismo objeto; lanza AppError si no es válido.
+     */
+    async prepareNewAttendee(
+        body: CampAttendeeInput,
+        options: { hashPassword?: boolean; selfRegistration?: boolean } = {}
+    ): Promise<CampAttendeeInput> {
+        // Campos nuevos y reglas:
+        // - emailVerifiedAt: ignorar del body, siempre null al crear
+        body.emailVerifiedAt = null;
+        // - mustChangePassword: inyectar true (1)
+        body.mustChangePassword = true;
+        // - registrationStatus: siempre PENDING_PAYMENT (WAITING_LIST si el camp
+        //   está lleno); los cambios posteriores pasan por transitionStatus
+        body.registrationStatus = "PENDING_PAYMENT";
+        if (options.selfRegistration) {
+            const role = await Role.findByCode(SELF_REGISTRATION_ROLE);
+            if (!role) {
+                throw new AppError(
+                    `Rol ${SELF_REGISTRATION_ROLE} no configurado`,
+                    500
+                );
+            }
+            body.roleId = role.id;
+            body.assistantSubRole = "NONE";
+            body.isActive = false;
+            delete body.password;
+        } else if (!body.roleId) {
+            throw new AppError("roleId es requerido", 400);
+        }
+        // Validar que el roleId exista para evitar error de FK
+        if (body.roleId) {
+            const role = await Role.findOne({ where: { id: body.roleId } });
+            if (!role) {
+                throw new AppError(
+                    "Rol no encontrado para roleId proporcionado",
+                    400
+                );
+            }
+            // Reglas de assistantSubRole dependiendo del rol
+            if (role.code === "ASISTENTE") {
+                if (!body.assistantSubRole) {
+                    body.assistantSubRole = "NONE";
+                }
+            } else {
+                if (body.assistantSubRole) {
+                    throw new AppError(
+                        "assistantSubRole no permitido si el rol no es ASISTENTE",
+                        400
+                    );
+                }
+                body.assistantSubRole = "NONE";
+            }
+        }
+        // birthDate no futura
+        if (body.birthDate && body.birthDate > new Date()) {
+            throw new AppError(
+                "birthDate no puede ser una fecha futura",
+                400
+            );
+        }
+        // Consistencia age vs birthDate (tolerancia ±1)
+        if (body.birthDate && typeof body.age === "number") {
+            const today = new Date();
+            let calcAge =
+                today.getFullYear() - body.birthDate.getFullYear();
+            const m = today.getMonth() - body.birthDate.getMonth();
+            if (
+                m < 0 ||
+                (m === 0 && today.getDate() < body.birthDate.getDate())
+            ) {
+                calcAge--;
+            }
+            if (Math.abs(calcAge - body.age) > 1) {
+                throw new AppError(
+                    "age es inconsistente con birthDate",
+                    400
+                );
+            }
+        }
+        // Menores de edad: al menos un acudiente en guardians
+        guardianService.assertGuardianForMinor(
+            body,
+            Array.isArray(body.guardians) ? body.guardians.length : 0
+        );
+        // Duplicidad identificación por número (único en el sistema, sin importar tipo)
+        if (body.identificationNumber) {
+            const dupId = await CampAttendee.findOne({
+                where: { identificationNumber: body.identificationNumber },
+            });
+            if (dupId) {
+                throw new AppError(
+                    "Ya existe un asistente con el mismo número de identificación",
+                    409
+                );
+            }
+        }
+        // Duplicidad email
+        if (body.email) {
+            const dupEmail = await CampAttendee.findOne({
+                where: { email: body.email },
+            });
+            if (dupEmail) {
+                throw new AppError(
+                    "Ya existe un asistente con el mismo email",
+                    409
+                );
+            }
+        }
+        // Asegurar isActive por defecto en false si no se indica
+        if (typeof body.isActive === "undefined") {
+            body.isActive = false;
+        }
+        // Hash de password: si no se pasa password, usar una aleatoria
+        // (las credenciales se entregan al activar, ver updateActivationStatus)
+        if (options.hashPassword === false) {
+            delete body.password;
+            return body;
+        }
+        const plainPassword: string =
+            typeof body.password === "string" && body.password.length > 0
+                ? body.password
+                : authService.generateRandomPassword();
+        const saltRounds = 10;
+        body.passwordHash = await bcrypt.hash(plainPassword, saltRounds);
+        delete body.password;
+        return body;
+    }
+
+    /**
+     * Crea la inscripción respetando el cupo del camp.
+     * La fila del camp se bloquea (SELECT ... FOR UPDATE) para que las
+     * inscripciones concurrentes cuenten los cupos de forma serializada;
+     * si el camp está lleno el asistente queda en WAITING_LIST.
+     */
+    async registerAttendee(
+        data: CampAttendeeInput,
+        camp: Camp,
+        changedBy?: string | null
+    ): Promise<{ attendee: CampAttendee; waitlistPosition: number | null }> {
+        const attendee = await sequelize.transaction((transaction) =>
+            this.registerAttendeeInTransaction(
+                data,
+                camp.id,
+                changedBy,
+                transaction
+            )
+        );
+
+        const waitlistPosition = await CampAttendee.getWaitlistPosition(
+            attendee
+        );
+        return { attendee, waitlistPosition };
+    }
+
+    /**
+     * Igual que registerAttendee pero dentro de una transacción existente
+     * (p. ej. un lote de importación). Bloquea la fila del camp.
+     */
+    async registerAttendeeInTransaction(
+        data: CampAttendeeInput,
+        campId: string,
+        changedBy: string | null | undefined,
+        transaction: Transaction
+    ): Promise<CampAttendee> {
+        const lockedCamp = await Camp.findOne({
+            where: { id: campId },
+            lock: transaction.LOCK.UPDATE,
+            transaction,
+        });
+        if (!lockedCamp) {
+            throw new AppError("Camp no encontrado", 422);
+        }
+
+        if (lockedCamp.maxAttendees !== null) {
+            const occupied = await CampAttendee.countOccupyingSeats(
+                lockedCamp.id,
+                transaction
+            );
+            if (occupied >= lockedCamp.maxAttendees) {
+                data.registrationStatus = "WAITING_LIST";
+            }
+        }
+
+        // prepareNewAttendee ya garantizó los campos requeridos
+        const created = await CampAttendee.createCampAttendee(
+            {
+                ...data,
+                campId: lockedCamp.id,
+            } as CampAttendeeCreationAttributes,
+            transaction
+        );
+        const guardians: GuardianInput[] = data.guardians ?? [];
+        for (const guardian of guardians) {
+            await Guardian.createForAttendee(created.id, guardian, transaction);
+        }
+        // El texto libre de allergies queda en las notas del perfil médico
+        await healthProfileService.syncLegacyAllergies(
+            created.id,
+            null,
+            created.allergies,
+            transaction
+        );
+        await AttendeeStatusHistory.record(
+            {
+                attendeeId: created.id,
+                fromStatus: null,
+                toStatus: created.registrationStatus,
+                reason:
+                    created.registrationStatus === "WAITING_LIST"
+                        ? "Inscripción en lista de espera: camp sin cupos"
+                        : "Inscripción",
+                changedBy: changedBy ?? null,
+            },
+            transaction
+        );
+        return created;
+    }
+
+    /**
+     * Si hay cupo disponible, pasa al asistente más antiguo de la lista de
+     * espera a PENDING_PAYMENT y le notifica por email.
+     */
+    async promoteFromWaitlist(
+        campId: string,
+        requestId?: string
+    ): Promise<CampAttendee | null> {
+        const promoted = await sequelize.transaction(async (transaction) => {
+            const camp = await Camp.findOne({
+                where: { id: campId },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+            if (!camp) {
+                return null;
+            }
+            if (camp.maxAttendees !== null) {
+                const occupied = await CampAttendee.countOccupyingSeats(
+                    camp.id,
+                    transaction
+                );
+                if (occupied >= camp.maxAttendees) {
+                    return null;
+                }
+            }
+            const next = await CampAttendee.findNextWaitlisted(
+                camp.id,
+                transaction
+            );
+            if (!next) {
+                return null;
+            }
+            await next.update(
+                { registrationStatus: "PENDING_PAYMENT" },
+                { transaction }
+            );
+            await AttendeeStatusHistory.record(
+                {
+                    attendeeId: next.id,
+                    fromStatus: "WAITING_LIST",
+                    toStatus: "PENDING_PAYMENT",
+                    reason: "Cupo liberado: promovido desde la lista de espera",
+                },
+                transaction
+            );
+            return { attendee: next, campName: camp.name };
+        });
+
+        if (!promoted) {
+            return null;
+        }
+
+        const { attendee, campName } = promoted;
+        logger.info("CampAttendee promoted from waiting list", {
+            requestId,
+            id: attendee.id,
+            campId,
+        });
+
+        if (attendee.email) {
+            // Enviar email de forma asíncrona sin bloquear la respuesta
+            emailService
+                .sendWaitlistPromotionEmail({
+                    firstName: attendee.firstName,
+                    lastName: attendee.lastName,
+                    email: attendee.email,
+                    campName,
+                })
+                .catch((error) => {
+                    logger.error("Error sending waitlist promotion email", {
+                        requestId,
+                        id: attendee.id,
+                        error:
+                            error instanceof Error
+                                ? error.message
+                                : String(error),
+                    });
+                });
+        }
+
+        return attendee;
+    }
+
+    canTransition(from: RegistrationStatus, to: RegistrationStatus): boolean {
+        return REGISTRATION_TRANSITIONS[from].includes(to);
+    }
+
+    /**
+     * Aplica una transición de registrationStatus validando la máquina de
+     * estados y la deja registrada en attendee_status_history.
+     * Se bloquea primero el camp y luego el asistente (mismo orden que
+     * promoteFromWaitlist) para evitar interbloqueos.
+     */
+    async transitionStatus(
+        attendeeId: string,
+        toStatus: RegistrationStatus,
+        options: StatusChangeOptions = {}
+    ): Promise<CampAttendee> {
+        const current = await CampAttendee.findOne({
+            where: { id: attendeeId },
+        });
+        if (!current) {
+            throw new AppError("Asistente no encontrado", 404);
+        }
+
+        const { attendee, fromStatus } = await sequelize.transaction(
+            async (transaction) => {
+                const camp = await Camp.findOne({
+                    where: { id: current.campId },
+                    lock: transaction.LOCK.UPDATE,
+                    transaction,
+                });
+                const locked = await CampAttendee.findOne({
+                    where: { id: attendeeId },
+                    lock: transaction.LOCK.UPDATE,
+                    transaction,
+                });
+                if (!locked) {
+                    throw new AppError("Asistente no encontrado", 404);
+                }
+
+                const from = await this.applyTransition(
+                    locked,
+                    camp,
+                    toStatus,
+                    options,
+                    transaction
+                );
+                return { attendee: locked, fromStatus: from };
+            }
+        );
+
+        logger.info("CampAttendee registration status changed", {
+            requestId: options.requestId,
+            id: attendee.id,
+            fromStatus,
+            toStatus,
+        });
+
+        // Un cupo liberado (o un regreso a la cola) puede promover a alguien
+        if (
+            (toStatus === "CANCELLED" &&
+                SEAT_HOLDING_STATUSES.includes(fromStatus)) ||
+            toStatus === "WAITING_LIST"
+        ) {
+            await this.promoteFromWaitlist(attendee.campId, options.requestId);
+        }
+        // La confirmación lleva el QR para el check-in
+        if (toStatus === "CONFIRMED") {
+            checkInService.sendConfirmationInBackground(
+                attendee,
+                options.requestId
+            );
+        }
+
+        return attendee;
+    }
+
+    /**
+     * Activa o desactiva la cuenta de un asistente. Activar confirma la
+     * inscripción solo si la máquina de estados lo permite (PAID →
+     * CONFIRMED); en otro estado se activa la cuenta sin tocar el estado.
+     * El cambio de estado y de isActive se guardan en la misma transacción.
+     */
+    async setActive(
+        attendeeId: string,
+        isActive: boolean,
+        options: StatusChangeOptions = {}
+    ): Promise<CampAttendee> {
+        const current = await CampAttendee.findOne({
+            where: { id: attendeeId },
+        });
+        if (!current) {
+            throw new AppError("Asistente no encontrado", 404);
+        }
+
+        const { attendee, confirmed } = await sequelize.transaction(
+            async (transaction) => {
+                const camp = await Camp.findOne({
+                    where: { id: current.campId },
+                    lock: transaction.LOCK.UPDATE,
+                    transaction,
+                });
+                const locked = await CampAttendee.findOne({
+                    where: { id: attendeeId },
+                    lock: transaction.LOCK.UPDATE,
+                    transaction,
+                });
+                if (!locked) {
+                    throw new AppError("Asistente no encontrado", 404);
+                }
+                const confirm =
+                    isActive &&
+                    this.canTransition(locked.registrationStatus, "CONFIRMED");
+                if (confirm) {
+                    await this.applyTransition(
+                        locked,
+                        camp,
+                        "CONFIRMED",
+                        {
+                            ...options,
+                            reason: options.reason ?? "Activación del asistente",
+                        },
+                        transaction
+                    );
+                }
+                await locked.update({ isActive }, { transaction });
+                return { attendee: locked, confirmed: confirm };
+            }
+        );
+
+        logger.info("CampAttendee activation changed", {
+            requestId: options.requestId,
+            id: attendee.id,
+            isActive,
+            confirmed,
+        });
+        if (confirmed) {
+            checkInService.sendConfirmationInBackground(
+                attendee,
+                options.requestId
+            );
+        }
+        return attendee;
+    }
+
+    /**
+     * Restaura un asistente eliminado (soft delete). Se rechaza si su camp o
+     * su rol siguen eliminados, o si otro asistente activo ya usa su email o
+     * número de identificación. Si su estado ocupa cupo y el camp está lleno
+     * responde 409 (CAMP_FULL) y conserva el estado.
+     */
+    async restoreAttendee(
+        attendeeId: string,
+        options: StatusChangeOptions = {}
+    ): Promise<CampAttendee> {
+        const current = await CampAttendee.findWithDeleted(attendeeId);
+        if (!current) {
+            throw new AppError("Asistente no encontrado", 404);
+        }
+
+        const attendee = await sequelize.transaction(async (transaction) => {
+            const camp = await Camp.findOne({
+                where: { id: current.campId },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+            const locked = await CampAttendee.findWithDeleted(
+                attendeeId,
+                transaction
+            );
+            if (!locked) {
+                throw new AppError("Asistente no encontrado", 404);
+            }
+            if (!locked.deletedAt) {
+                throw new AppError("El asistente no está eliminado", 409);
+            }
+            if (!camp) {
+                throw new AppError(
+                    "El camp del asistente está eliminado: restáuralo primero",
+                    409
+                );
+            }
+            const role = await Role.findOne({
+                where: { id: locked.roleId },
+                transaction,
+            });
+            if (!role) {
+                throw new AppError(
+                    "El rol del asistente está eliminado: restáuralo primero",
+                    409
+                );
+            }
+            const dupId = await CampAttendee.findOne({
+                where: { identificationNumber: locked.identificationNumber },
+                transaction,
+            });
+            if (dupId) {
+                throw new AppError(
+                    "Ya existe un asistente con el mismo número de identificación",
+                    409
+                );
+            }
+            if (locked.email) {
+                const dupEmail = await CampAttendee.findOne({
+                    where: { email: locked.email },
+                    transaction,
+                });
+                if (dupEmail) {
+                    throw new AppError(
+                        "Ya existe un asistente con el mismo email",
+                        409
+                    );
+                }
+            }
+
+            // El cupo pudo ocuparse mientras estuvo eliminado. Un estado que
+            // ocupa cupo no puede pasar a WAITING_LIST (máquina de estados) y
+            // puede tener pagos, así que se rechaza en vez de degradarlo
+            if (
+                SEAT_HOLDING_STATUSES.includes(locked.registrationStatus) &&
+                camp.maxAttendees !== null
+            ) {
+                const occupied = await CampAttendee.countOccupyingSeats(
+                    camp.id,
+                    transaction
+                );
+                if (occupied >= camp.maxAttendees) {
+                    throw new AppError(
+                        `El camp no tiene cupos para restaurar al asistente en ${locked.registrationStatus}: amplía maxAttendees primero`,
+                        409,
+                        true,
+                        "CAMP_FULL"
+                    );
+                }
+            }
+
+            await locked.restore({ transaction });
+            return locked;
+        });
+
+        logger.info("CampAttendee restored", {
+            requestId: options.requestId,
+            id: attendee.id,
+            registrationStatus: attendee.registrationStatus,
+        });
+        return attendee;
+    }
+
+    /**
+     * Indica si el estado ocupa un cupo del camp
+     */
+    holdsSeat(status: RegistrationStatus): boolean {
+        return SEAT_HOLDING_STATUSES.includes(status);
+    }
+
+    /**
+     * Valida y aplica una transición sobre el asistente ya bloqueado (junto
+     * con su camp) y la registra en el historial. Devuelve el estado previo.
+     */
+    private async applyTransition(
+        locked: CampAttendee,
+        camp: Camp | null,
+        toStatus: RegistrationStatus,
+        options: StatusChangeOptions,
+        transaction: Transaction
+    ): Promise<RegistrationStatus> {
+        const from = locked.registrationStatus;
+        if (from === toStatus) {
+            throw new AppError(
+                `El asistente ya se encuentra en estado ${toStatus}`,
+                409
+            );
+        }
+        if (!this.canTransition(from, toStatus)) {
+            const allowed = REGISTRATION_TRANSITIONS[from];
+            throw new AppError(
+                `Transición no permitida: ${from} → ${toStatus}. Permitidas desde ${from}: ${
+                    allowed.length ? allowed.join(", ") : "ninguna"
+                }`,
+                409
+            );
+        }
+        // Salir de la lista de espera requiere un cupo libre
+        if (
+            from === "WAITING_LIST" &&
+            SEAT_HOLDING_STATUSES.includes(toStatus) &&
+            camp &&
+            camp.maxAttendees !== null
+        ) {
+            const occupied = await CampAttendee.countOccupyingSeats(
+                camp.id,
+                transaction
+            );
+            if (occupied >= camp.maxAttendees) {
+                throw new AppError("El camp no tiene cupos disponibles", 409);
+            }
+        }
+
+        await locked.update({ registrationStatus: toStatus }, { transaction });
+        await AttendeeStatusHistory.record(
+            {
+                attendeeId: locked.id,
+                fromStatus: from,
+                toStatus,
+                reason: options.reason ?? null,
+                changedBy: options.changedBy ?? null,
+            },
+            transaction
+        );
+        return from;
+    }
+}
+
+// Exportar instancia singleton
+export const registrationService = new RegistrationService();
@@ -0,0 +1,147 @@
+import { sequelize } from "../config/database";
+import Camp from "../models/Camp";
+import CampAttendee from "../models/CampAttendee";
+import Scholarship, {
+    SCHOLARSHIP_TRANSITIONS,
+    ScholarshipInput,
+    ScholarshipStatus,
+} from "../models/Scholarship";
+import { AppError } from "../utils/handleError";
+import logger from "../utils/logger";
+import { PaymentActor, paymentService } from "./paymentService";
+
+// Decisiones de un administrador sobre una beca
+export type ScholarshipDecision = Exclude<ScholarshipStatus, "PENDING">;
+
+class ScholarshipService {
+    /**
+     * Becas del asistente en su camp actual
+     */
+    async listByAttendee(attendeeId: string) {
+        const attendee = await CampAttendee.findOne({
+            where: { id: attendeeId },
+            attributes: ["id", "campId"],
+        });
+        if (!attendee) {
+            throw new AppError("Asistente no encontrado", 404);
+        }
+        return await Scholarship.findByAttendee(attendee.id, attendee.campId);
+    }
+
+    async listByCamp(campId: string, status?: ScholarshipStatus) {
+        const camp = await Camp.findOne({
+            where: { id: campId },
+            attributes: ["id"],
+        });
+        if (!camp) {
+            throw new AppError("Camp no encontrado", 404);
+        }
+        return await Scholarship.findByCamp(campId, status);
+    }
+
+    /**
+     * Solicita una beca para el camp actual del asistente. No descuenta
+     * nada hasta que un administrador la apruebe.
+     */
+    async request(
+        attendeeId: string,
+        input: ScholarshipInput,
+        actor: PaymentActor = {}
+    ) {
+        const attendee = await CampAttendee.findOne({
+            where: { id: attendeeId },
+        });
+        if (!attendee) {
+            throw new AppError("Asistente no encontrado", 404);
+        }
+        if (attendee.registrationStatus === "CANCELLED") {
+            throw new AppError(
+                "No se pueden solicitar becas para una inscripción cancelada",
+                409
+            );
+        }
+        const scholarship = await Scholarship.create({
+            attendeeId: attendee.id,
+            campId: attendee.campId,
+            discountType: input.discountType,
+            value: input.value,
+            reason: input.reason,
+            requestedBy: actor.userId ?? null,
+        });
+        logger.info("Scholarship requested", {
+            requestId: actor.requestId,
+            attendeeId,
+            id: scholarship.id,
+        });
+        return scholarship;
+    }
+
+    /**
+     * Aprueba, rechaza o revoca una beca. Al aprobarla se recalcula el saldo
+     * y, si queda cubierto, el asistente pasa a PAID; revocarla no revierte
+     * ese estado.
+     */
+    async review(
+        attendeeId: string,
+        scholarshipId: string,
+        decision: ScholarshipDecision,
+        notes: string | null,
+        actor: PaymentActor = {}
+    ) {
+        const result = await sequelize.transaction(async (transaction) => {
+            const { camp, attendee } = await paymentService.lockAttendee(
+                attendeeId,
+                transaction
+            );
+            const scholarship = await Scholarship.findOne({
+                where: { id: scholarshipId, attendeeId },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+            if (!scholarship) {
+                throw new AppError("Beca no encontrada", 404);
+            }
+            const fromStatus = scholarship.status;
+            if (!SCHOLARSHIP_TRANSITIONS[fromStatus].includes(decision)) {
+                throw new AppError(
+                    `No se puede pasar una beca de ${fromStatus} a ${decision}`,
+                    409,
+                    true,
+                    "INVALID_SCHOLARSHIP_TRANSITION"
+                );
+            }
+            await scholarship.update(
+                {
+                    status: decision,
+                    reviewedBy: actor.userId ?? null,
+                    reviewedAt: new Date(),
+                    reviewNotes: notes,
+                },
+                { transaction }
+            );
+            const { balance } = await paymentService.settle(
+                attendee,
+                camp,
+                actor,
+                transaction
+            );
+            return { scholarship, fromStatus, balance, attendee };
+        });
+
+        logger.info("Scholarship reviewed", {
+            requestId: actor.requestId,
+            attendeeId,
+            id: scholarshipId,
+            fromStatus: result.fromStatus,
+            toStatus: decision,
+        });
+        return {
+            scholarship: result.scholarship,
+            balance: result.balance,
+            registrationStatus: result.attendee.registrationStatus,
+        };
+    }
+}
+
+// Exportar instancia singleton
+export const scholarshipService = new ScholarshipService();
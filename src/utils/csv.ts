@@ -0,0 +1,21 @@
+export type CsvValue = string | number | boolean | null;
+
+// BOM para que Excel reconozca UTF-8 (tildes y ñ)
+export const CSV_BOM = "\uFEFF";
+
+export const csvCell = (value: CsvValue): string => {
+    if (value === null) return "";
+    let text = String(value);
+    // Evitar que Excel interprete el texto como fórmula (inyección CSV);
+    // teléfonos y números negativos ("+57 300...", "-5") se dejan igual
+    if (
+        typeof value === "string" &&
+        /^(?:[=@\t\r]|[+-](?![\d\s().-]*$))/.test(text)
+    ) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvRow = (values: CsvValue[]): string =>
+    values.map((value) => csvCell(value)).join(",") + "\r\n";
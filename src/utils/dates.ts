@@ -0,0 +1,11 @@
+// Zona horaria en la que se interpretan las fechas sin hora (YYYY-MM-DD)
+const LOCAL_TIME_ZONE = "America/Bogota";
+
+/**
+ * Fecha (YYYY-MM-DD) en Colombia, para comparar con fechas sin hora como
+ * vencimientos de cuotas o reglas de tarifa
+ */
+export const localDate = (date: Date = new Date()): string =>
+    new Intl.DateTimeFormat("en-CA", { timeZone: LOCAL_TIME_ZONE }).format(
+        date
+    );
@@ -14,15 +14,18 @@ export const handleHttpError = (
 export class AppError extends Error {
     public statusCode: number;
     public isOperational: boolean;
+    public code?: string; // Código legible por máquina (ej. PASSWORD_CHANGE_REQUIRED)
 
     constructor(
         message: string,
         statusCode: number,
-        isOperational: boolean = true
+        isOperational: boolean = true,
+        code?: string
     ) {
         super(message);
         this.statusCode = statusCode;
         this.isOperational = isOperational;
+        this.code = code;
         Error.captureStackTrace(this, this.constructor);
     }
 }
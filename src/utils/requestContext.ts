@@ -0,0 +1,38 @@
+import { AsyncLocalStorage, AsyncResource } from "async_hooks";
+import { Request, Response, NextFunction, RequestHandler } from "express";
+
+// Datos de la petición en curso disponibles en cualquier punto del flujo
+// asíncrono (p. ej. hooks de Sequelize), sin tener que pasarlos por parámetro
+export interface RequestContext {
+    requestId?: string;
+    actorId: string | null; // asistente autenticado (null = anónimo o sistema)
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const requestContext = {
+    run<T>(context: RequestContext, callback: () => T): T {
+        return storage.run(context, callback);
+    },
+
+    get(): RequestContext | undefined {
+        return storage.getStore();
+    },
+
+    // Lo llama authenticate una vez validado el token
+    setActor(actorId: string): void {
+        const context = storage.getStore();
+        if (context) {
+            context.actorId = actorId;
+        }
+    },
+};
+
+/**
+ * Algunos middlewares (p. ej. multer) llaman a next() desde eventos del
+ * stream y pierden el contexto; este wrapper lo conserva.
+ */
+export const preserveRequestContext =
+    (middleware: RequestHandler): RequestHandler =>
+    (req: Request, res: Response, next: NextFunction) =>
+        middleware(req, res, AsyncResource.bind(next));
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import { randomUUID } from "crypto";
 import logger from "./logger";
+import { requestContext } from "./requestContext";
 
 // Extender la interfaz Request para este archivo
 interface ExtendedRequest extends Request {
@@ -35,7 +36,8 @@ const requestLogger = (
         return originalSend.call(this, body);
     };
 
-    next();
+    // El resto de la cadena corre dentro del contexto de la petición
+    requestContext.run({ requestId: req.requestId, actorId: null }, next);
 };
 
 export default requestLogger;
@@ -0,0 +1,16 @@
+import { Request, Response, NextFunction } from "express";
+import { check } from "express-validator";
+import validateResults from "../utils/handleValidator";
+
+// Purga definitiva de registros eliminados (soft delete)
+export const validatorPurgeDeleted = [
+  check("olderThanDays")
+    .exists()
+    .withMessage("olderThanDays es requerido")
+    .isInt({ min: 1, max: 3650 })
+    .withMessage("olderThanDays debe ser un entero entre 1 y 3650")
+    .toInt(),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from "express";
+import { check } from "express-validator";
+import validateResults from "../utils/handleValidator";
+import { AUDIT_ACTIONS, AUDITED_ENTITIES } from "../models/AuditLog";
+
+export const validatorQueryAuditLogs = [
+  check("entity")
+    .optional()
+    .isIn(AUDITED_ENTITIES)
+    .withMessage(`entity debe ser uno de: ${AUDITED_ENTITIES.join(", ")}`),
+  check("entityId")
+    .optional()
+    .isUUID()
+    .withMessage("entityId debe ser un UUID válido"),
+  check("actorId")
+    .optional()
+    .isUUID()
+    .withMessage("actorId debe ser un UUID válido"),
+  check("action")
+    .optional()
+    .isIn(AUDIT_ACTIONS)
+    .withMessage(`action debe ser uno de: ${AUDIT_ACTIONS.join(", ")}`),
+  check("from")
+    .optional()
+    .isISO8601()
+    .withMessage("from debe ser una fecha válida (ISO 8601)")
+    .toDate(),
+  check("to")
+    .optional()
+    .isISO8601()
+    .withMessage("to debe ser una fecha válida (ISO 8601)")
+    .toDate()
+    .custom((value, { req }) => {
+      const from = req.query?.from;
+      if (from && new Date(from) > value) {
+        throw new Error("to debe ser posterior o igual a from");
+      }
+      return true;
+    }),
+  check("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("page debe ser un entero mayor o igual a 1")
+    .toInt(),
+  check("pageSize")
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage("pageSize debe ser un entero entre 1 y 200")
+    .toInt(),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
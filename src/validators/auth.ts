@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from "express";
+import { check } from "express-validator";
+import validateResults from "../utils/handleValidator";
+
+export const validatorLogin = [
+  check("email")
+    .optional()
+    .isEmail()
+    .withMessage("email debe ser un correo válido")
+    .normalizeEmail(),
+  check("identificationNumber")
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("identificationNumber no debe estar vacío"),
+  check("email").custom((value, { req }) => {
+    if (!value && !req.body?.identificationNumber) {
+      throw new Error("Debe enviar email o identificationNumber");
+    }
+    return true;
+  }),
+  check("password")
+    .exists({ checkFalsy: true })
+    .withMessage("password es requerido")
+    .isString(),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorRefreshToken = [
+  check("refreshToken")
+    .exists({ checkFalsy: true })
+    .withMessage("refreshToken es requerido")
+    .isString()
+    .isLength({ max: 255 })
+    .withMessage("refreshToken inválido"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorAuthEmail = [
+  check("email")
+    .exists({ checkFalsy: true })
+    .withMessage("email es requerido")
+    .trim()
+    .isEmail()
+    .withMessage("email debe ser un correo válido")
+    .normalizeEmail(),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorResetPassword = [
+  check("token")
+    .exists({ checkFalsy: true })
+    .withMessage("token es requerido")
+    .isString()
+    .isLength({ max: 255 })
+    .withMessage("token inválido"),
+  check("newPassword")
+    .exists({ checkFalsy: true })
+    .withMessage("newPassword es requerido")
+    .isString()
+    .isLength({ min: 6, max: 255 })
+    .withMessage("newPassword debe tener entre 6 y 255 caracteres"),
+  check("confirmPassword")
+    .exists({ checkFalsy: true })
+    .withMessage("confirmPassword es requerido")
+    .custom((value, { req }) => {
+      if (value !== req.body?.newPassword) {
+        throw new Error("confirmPassword no coincide con newPassword");
+      }
+      return true;
+    }),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorVerifyEmail = [
+  check("token")
+    .exists({ checkFalsy: true })
+    .withMessage("token es requerido")
+    .isString()
+    .isJWT()
+    .withMessage("token inválido"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
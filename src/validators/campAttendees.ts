@@ -1,6 +1,75 @@
 import { Request, Response, NextFunction } from "express";
 import { check } from "express-validator";
 import validateResults from "../utils/handleValidator";
+import { SORTABLE_FIELDS, EXPORTABLE_COLUMNS } from "../models/CampAttendee";
+import { CREDENTIAL_MODES } from "../services/authService";
+import { EXPORT_FORMATS } from "../services/attendeeExportService";
+import { MERGEABLE_FIELDS } from "../services/duplicateService";
+import {
+  GUARDIAN_IDENTIFICATION_TYPES,
+  GUARDIAN_RELATIONSHIPS,
+} from "../models/Guardian";
+import { MAX_GUARDIANS } from "../services/guardianService";
+
+// Mensaje con la ruta del campo (p. ej. "guardians[0].phone es requerido")
+const fieldMessage =
+  (text: string) =>
+  (_value: unknown, { path }: { path: string }) =>
+    `${path} ${text}`;
+
+// Validaciones de un acudiente; `prefix` ubica los campos ("" o "guardians.*.")
+const guardianChains = (prefix: string) => [
+  check(`${prefix}firstName`)
+    .exists({ checkFalsy: true })
+    .withMessage(fieldMessage("es requerido"))
+    .bail()
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage(fieldMessage("debe tener máximo 100 caracteres"))
+    .matches(/^[A-Za-zÁÉÍÓÚÜÑáéíóúüñ ]+$/)
+    .withMessage(fieldMessage("solo debe contener letras y espacios")),
+  check(`${prefix}lastName`)
+    .exists({ checkFalsy: true })
+    .withMessage(fieldMessage("es requerido"))
+    .bail()
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage(fieldMessage("debe tener máximo 100 caracteres"))
+    .matches(/^[A-Za-zÁÉÍÓÚÜÑáéíóúüñ ]+$/)
+    .withMessage(fieldMessage("solo debe contener letras y espacios")),
+  check(`${prefix}relationship`)
+    .exists({ checkFalsy: true })
+    .withMessage(fieldMessage("es requerido"))
+    .bail()
+    .isIn([...GUARDIAN_RELATIONSHIPS])
+    .withMessage(fieldMessage(`debe ser ${GUARDIAN_RELATIONSHIPS.join(", ")}`)),
+  check(`${prefix}phone`)
+    .exists({ checkFalsy: true })
+    .withMessage(fieldMessage("es requerido"))
+    .bail()
+    .isString()
+    .trim()
+    .matches(/^\+?\d{1,15}$/)
+    .withMessage(fieldMessage("debe contener solo números, opcional '+' al inicio, máximo 15 dígitos")),
+  check(`${prefix}email`)
+    .optional({ nullable: true })
+    .trim()
+    .isEmail()
+    .withMessage(fieldMessage("debe ser válido"))
+    .normalizeEmail(),
+  check(`${prefix}identificationType`)
+    .optional({ nullable: true })
+    .isIn([...GUARDIAN_IDENTIFICATION_TYPES])
+    .withMessage(fieldMessage(`debe ser ${GUARDIAN_IDENTIFICATION_TYPES.join(", ")}`)),
+  check(`${prefix}identificationNumber`)
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .matches(/^[A-Za-z0-9]{1,20}$/)
+    .withMessage(fieldMessage("debe ser alfanumérico, máximo 20 caracteres")),
+];
 
 export const validatorCreateCampAttendee = [
   check("firstName")
@@ -128,9 +197,9 @@ export const validatorCreateCampAttendee = [
     .optional({ nullable: true })
     .isIn(["XS", "S", "M", "L", "XL"]) 
     .withMessage("shirtSize debe ser XS, S, M, L o XL"),
+  // Requerido en la importación; el registro público siempre usa ASISTENTE
   check("roleId")
-    .exists({ checkFalsy: true })
-    .withMessage("roleId es requerido")
+    .optional({ nullable: true })
     .isUUID()
     .withMessage("roleId debe ser un UUID válido"),
   check("assistantSubRole")
@@ -162,17 +231,42 @@ export const validatorCreateCampAttendee = [
     .withMessage("bucket debe tener máximo 255 caracteres")
     .matches(/^[A-Za-z0-9._-]+$/)
     .withMessage("bucket solo puede contener letras, números, punto, guion y guion bajo"),
-  // Nuevos campos controlados por backend:
-  // registrationStatus opcional en create; si viene, validar valores permitidos
-  check("registrationStatus")
+  // Camp destino: si no se envía ninguno se usa el único camp con status OPEN
+  check("campId")
     .optional({ nullable: true })
-    .isIn(["PENDING_PAYMENT", "PAID", "CONFIRMED", "CANCELLED", "WAITING_LIST"])
-    .withMessage("registrationStatus debe ser PENDING_PAYMENT, PAID, CONFIRMED, CANCELLED o WAITING_LIST"),
+    .isUUID()
+    .withMessage("campId debe ser un UUID válido"),
+  check("campCode")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage("campCode debe tener entre 2 y 50 caracteres"),
+  // Acudientes: obligatorio al menos uno si el asistente es menor de edad
+  check("guardians")
+    .optional({ nullable: true })
+    .isArray({ max: MAX_GUARDIANS })
+    .withMessage(`guardians debe ser un arreglo de máximo ${MAX_GUARDIANS} acudientes`),
+  ...guardianChains("guardians.*."),
   (req: Request, res: Response, next: NextFunction) => {
     return validateResults(req, res, next);
   },
 ];
 
+// Registro público (sin autenticación): la contraseña y la activación solo
+// las define el staff, así que no se aceptan en el body
+export const validatorRegisterCampAttendee = [
+  check("password")
+    .not()
+    .exists()
+    .withMessage("password no está permitido en el registro público"),
+  check("isActive")
+    .not()
+    .exists()
+    .withMessage("isActive no está permitido en el registro público"),
+  ...validatorCreateCampAttendee,
+];
+
 export const validatorUpdateCampAttendee = [
   check("firstName")
     .optional({ nullable: true })
@@ -310,10 +404,13 @@ export const validatorUpdateCampAttendee = [
     .trim()
     .isLength({ max: 255 })
     .matches(/^[A-Za-z0-9._-]+$/),
-  // Nuevos campos editables: permitir actualizar registrationStatus
+  // registrationStatus solo cambia mediante la máquina de estados
   check("registrationStatus")
-    .optional({ nullable: true })
-    .isIn(["PENDING_PAYMENT", "PAID", "CONFIRMED", "CANCELLED", "WAITING_LIST"]),
+    .not()
+    .exists()
+    .withMessage(
+      "registrationStatus no se puede editar aquí: usa POST /api/camp-attendees/:id/status"
+    ),
   (req: Request, res: Response, next: NextFunction) => {
     return validateResults(req, res, next);
   },
@@ -330,12 +427,131 @@ export const validatorGetCampAttendee = [
   },
 ];
 
+const REGISTRATION_STATUSES = [
+  "PENDING_PAYMENT",
+  "PAID",
+  "CONFIRMED",
+  "CANCELLED",
+  "WAITING_LIST",
+];
+
+// Convierte "a,b,c" (o ?x=a&x=b) en un arreglo sin vacíos
+export const toList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : String(value).split(","))
+    .map((item) => String(item).trim())
+    .filter((item) => item.length > 0);
+
 export const validatorQueryCampAttendees = [
   check("includeInactive")
     .optional()
     .isBoolean()
     .withMessage("includeInactive debe ser boolean")
     .toBoolean(),
+  check("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("page debe ser un entero mayor o igual a 1")
+    .toInt(),
+  check("pageSize")
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage("pageSize debe ser un entero entre 1 y 200")
+    .toInt(),
+  check("campId")
+    .optional()
+    .isUUID()
+    .withMessage("campId debe ser un UUID válido"),
+  check("roleId")
+    .optional()
+    .isUUID()
+    .withMessage("roleId debe ser un UUID válido"),
+  check("registrationStatus")
+    .optional()
+    .customSanitizer(toList)
+    .custom((value: string[]) => {
+      const invalid = value.filter((s) => !REGISTRATION_STATUSES.includes(s));
+      if (invalid.length > 0) {
+        throw new Error(`registrationStatus inválido: ${invalid.join(", ")}`);
+      }
+      return true;
+    }),
+  check("assistantSubRole")
+    .optional()
+    .isIn(["NONE", "MONITOR", "GROUP_LEADER"])
+    .withMessage("assistantSubRole debe ser NONE, MONITOR o GROUP_LEADER"),
+  check("gender")
+    .optional()
+    .isIn(["M", "F"])
+    .withMessage("gender debe ser M o F"),
+  check("shirtSize")
+    .optional()
+    .isIn(["XS", "S", "M", "L", "XL"])
+    .withMessage("shirtSize debe ser XS, S, M, L o XL"),
+  check("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive debe ser boolean")
+    .toBoolean(),
+  check("city")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("city debe tener máximo 100 caracteres"),
+  check("churchPastor")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 150 })
+    .withMessage("churchPastor debe tener máximo 150 caracteres"),
+  check("ageMin")
+    .optional()
+    .isInt({ min: 0, max: 255 })
+    .withMessage("ageMin debe ser un entero entre 0 y 255")
+    .toInt(),
+  check("ageMax")
+    .optional()
+    .isInt({ min: 0, max: 255 })
+    .withMessage("ageMax debe ser un entero entre 0 y 255")
+    .toInt()
+    .custom((value, { req }) => {
+      const min = req.query?.ageMin;
+      if (typeof min !== "undefined" && Number(value) < Number(min)) {
+        throw new Error("ageMax debe ser mayor o igual a ageMin");
+      }
+      return true;
+    }),
+  check("createdFrom")
+    .optional()
+    .isISO8601()
+    .withMessage("createdFrom debe ser una fecha válida (ISO 8601)")
+    .toDate(),
+  check("createdTo")
+    .optional()
+    .isISO8601()
+    .withMessage("createdTo debe ser una fecha válida (ISO 8601)")
+    .toDate(),
+  check("q")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("q debe tener entre 1 y 100 caracteres"),
+  check("sort")
+    .optional()
+    .customSanitizer(toList)
+    .custom((value: string[]) => {
+      const invalid = value.filter(
+        (field) =>
+          !(SORTABLE_FIELDS as readonly string[]).includes(field.replace(/^-/, ""))
+      );
+      if (invalid.length > 0) {
+        throw new Error(
+          `sort contiene campos no permitidos: ${invalid.join(", ")}. Permitidos: ${SORTABLE_FIELDS.join(", ")}`
+        );
+      }
+      return true;
+    }),
   (req: Request, res: Response, next: NextFunction) => {
     return validateResults(req, res, next);
   },
@@ -354,6 +570,38 @@ export const validatorActivationStatus = [
     .isBoolean()
     .withMessage("isActive debe ser boolean")
     .toBoolean(),
+  check("credentialMode")
+    .optional()
+    .isIn(CREDENTIAL_MODES)
+    .withMessage(`credentialMode debe ser uno de: ${CREDENTIAL_MODES.join(", ")}`),
+  check("sendCredentials")
+    .optional()
+    .isBoolean()
+    .withMessage("sendCredentials debe ser boolean")
+    .toBoolean(),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+// Transición de estado de inscripción
+export const validatorRegistrationStatusChange = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("status")
+    .exists({ checkFalsy: true })
+    .withMessage("status es requerido")
+    .isIn(["PENDING_PAYMENT", "PAID", "CONFIRMED", "CANCELLED", "WAITING_LIST"])
+    .withMessage("status debe ser PENDING_PAYMENT, PAID, CONFIRMED, CANCELLED o WAITING_LIST"),
+  check("reason")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("reason debe tener máximo 500 caracteres"),
   (req: Request, res: Response, next: NextFunction) => {
     return validateResults(req, res, next);
   },
@@ -419,4 +667,192 @@ export const validatorCheckIdentificationUnique = [
   (req: Request, res: Response, next: NextFunction) => {
     return validateResults(req, res, next);
   },
-];
\ No newline at end of file
+];
+// Importación masiva desde CSV/XLSX (query params; el archivo llega en "file")
+export const validatorImportCampAttendees = [
+  check("dryRun")
+    .optional()
+    .isBoolean()
+    .withMessage("dryRun debe ser boolean")
+    .toBoolean(),
+  check("campId")
+    .optional({ checkFalsy: true })
+    .isUUID()
+    .withMessage("campId debe ser un UUID válido"),
+  check("campCode")
+    .optional({ checkFalsy: true })
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage("campCode debe tener entre 2 y 50 caracteres"),
+  check("roleId")
+    .optional({ checkFalsy: true })
+    .isUUID()
+    .withMessage("roleId debe ser un UUID válido"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+// Exportación de asistentes (CSV, XLSX o JSON)
+export const validatorExportCampAttendees = [
+  check("format")
+    .optional()
+    .isIn(EXPORT_FORMATS)
+    .withMessage(`format debe ser uno de: ${EXPORT_FORMATS.join(", ")}`),
+  check("columns")
+    .optional()
+    .customSanitizer(toList)
+    .custom((value: string[]) => {
+      const invalid = value.filter(
+        (column) => !(EXPORTABLE_COLUMNS as readonly string[]).includes(column)
+      );
+      if (invalid.length > 0) {
+        throw new Error(
+          `columns contiene columnas no permitidas: ${invalid.join(", ")}. Permitidas: ${EXPORTABLE_COLUMNS.join(", ")}`
+        );
+      }
+      if (value.length === 0) {
+        throw new Error("columns no puede estar vacío");
+      }
+      return true;
+    }),
+  check("campId")
+    .optional()
+    .isUUID()
+    .withMessage("campId debe ser un UUID válido"),
+  check("roleId")
+    .optional()
+    .isUUID()
+    .withMessage("roleId debe ser un UUID válido"),
+  check("registrationStatus")
+    .optional()
+    .customSanitizer(toList)
+    .custom((value: string[]) => {
+      const invalid = value.filter((s) => !REGISTRATION_STATUSES.includes(s));
+      if (invalid.length > 0) {
+        throw new Error(`registrationStatus inválido: ${invalid.join(", ")}`);
+      }
+      return true;
+    }),
+  check("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive debe ser boolean")
+    .toBoolean(),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+// Candidatos a duplicado
+export const validatorQueryDuplicates = [
+  check("campId")
+    .optional()
+    .isUUID()
+    .withMessage("campId debe ser un UUID válido"),
+  check("limit")
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage("limit debe ser un entero entre 1 y 500")
+    .toInt(),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+// Fusión de dos asistentes
+export const validatorMergeCampAttendees = [
+  check("survivorId")
+    .exists({ checkFalsy: true })
+    .withMessage("survivorId es requerido")
+    .isUUID()
+    .withMessage("survivorId debe ser un UUID válido"),
+  check("duplicateId")
+    .exists({ checkFalsy: true })
+    .withMessage("duplicateId es requerido")
+    .isUUID()
+    .withMessage("duplicateId debe ser un UUID válido")
+    .custom((value, { req }) => {
+      if (value === req.body?.survivorId) {
+        throw new Error("duplicateId debe ser distinto de survivorId");
+      }
+      return true;
+    }),
+  check("fields")
+    .optional()
+    .isObject()
+    .withMessage("fields debe ser un objeto { campo: 'survivor' | 'duplicate' }")
+    .custom((value: Record<string, unknown>) => {
+      for (const [field, source] of Object.entries(value)) {
+        if (!(MERGEABLE_FIELDS as readonly string[]).includes(field)) {
+          throw new Error(
+            `fields.${field} no se puede fusionar. Permitidos: ${MERGEABLE_FIELDS.join(", ")}`
+          );
+        }
+        if (source !== "survivor" && source !== "duplicate") {
+          throw new Error(`fields.${field} debe ser 'survivor' o 'duplicate'`);
+        }
+      }
+      return true;
+    }),
+  check("reason")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 300 })
+    .withMessage("reason debe tener máximo 300 caracteres"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+// Crear o reemplazar un acudiente del asistente
+export const validatorSaveGuardian = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("guardianId")
+    .optional()
+    .isUUID()
+    .withMessage("guardianId debe ser un UUID válido"),
+  ...guardianChains(""),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorGuardianParams = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("guardianId")
+    .exists({ checkFalsy: true })
+    .withMessage("guardianId es requerido")
+    .isUUID()
+    .withMessage("guardianId debe ser un UUID válido"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+// Solicitud de consentimiento al acudiente
+export const validatorRequestConsent = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("guardianId")
+    .exists({ checkFalsy: true })
+    .withMessage("guardianId es requerido")
+    .isUUID()
+    .withMessage("guardianId debe ser un UUID válido"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
@@ -0,0 +1,383 @@
+import { Request, Response, NextFunction } from "express";
+import { check } from "express-validator";
+import validateResults from "../utils/handleValidator";
+import { REPORT_FORMATS } from "../services/campReportService";
+
+const CAMP_STATUSES = ["DRAFT", "OPEN", "CLOSED", "FINISHED", "CANCELLED"];
+const ASSISTANT_SUB_ROLES = ["NONE", "MONITOR", "GROUP_LEADER"];
+
+// Tarifa, plan de cuotas y tarifas diferenciales (iguales en creación y actualización)
+const feeChains = () => [
+  check("feeAmount")
+    .optional({ nullable: true })
+    .isInt({ min: 0 })
+    .withMessage("feeAmount debe ser un entero mayor o igual a 0 (COP sin decimales)")
+    .toInt(),
+  check("installmentPlan")
+    .optional({ nullable: true })
+    .isArray({ min: 1, max: 12 })
+    .withMessage("installmentPlan debe ser un arreglo de 1 a 12 cuotas")
+    .bail()
+    .custom((plan: { dueDate?: unknown; percentage?: unknown }[]) => {
+      const total = plan.reduce(
+        (sum, item) => sum + (Number(item?.percentage) || 0),
+        0
+      );
+      if (Math.abs(total - 100) > 0.001) {
+        throw new Error("Los porcentajes de installmentPlan deben sumar 100");
+      }
+      const dates = plan.map((item) => String(item?.dueDate));
+      if (dates.some((date, i) => i > 0 && date <= dates[i - 1])) {
+        throw new Error(
+          "Las fechas de installmentPlan deben ir en orden y sin repetirse"
+        );
+      }
+      return true;
+    }),
+  check("installmentPlan.*.dueDate")
+    .exists({ checkFalsy: true })
+    .withMessage("Cada cuota requiere dueDate")
+    .bail()
+    .isISO8601({ strict: true })
+    .withMessage("dueDate debe ser una fecha válida (YYYY-MM-DD)")
+    .matches(/^\d{4}-\d{2}-\d{2}$/)
+    .withMessage("dueDate debe tener formato YYYY-MM-DD"),
+  check("installmentPlan.*.percentage")
+    .exists()
+    .withMessage("Cada cuota requiere percentage")
+    .bail()
+    .isFloat({ gt: 0, max: 100 })
+    .withMessage("percentage debe ser mayor a 0 y máximo 100")
+    .toFloat(),
+  check("feeRules")
+    .optional({ nullable: true })
+    .isArray({ max: 20 })
+    .withMessage("feeRules debe ser un arreglo de máximo 20 reglas")
+    .bail()
+    .custom(
+      (
+        rules: {
+          roleCodes?: unknown;
+          assistantSubRoles?: unknown;
+          registeredUntil?: unknown;
+        }[]
+      ) => {
+        rules.forEach((rule, i) => {
+          if (
+            rule?.roleCodes === undefined &&
+            rule?.assistantSubRoles === undefined &&
+            rule?.registeredUntil === undefined
+          ) {
+            throw new Error(
+              `La regla ${i + 1} de feeRules requiere al menos un criterio: roleCodes, assistantSubRoles o registeredUntil`
+            );
+          }
+        });
+        return true;
+      }
+    ),
+  check("feeRules.*.label")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("label debe tener máximo 100 caracteres"),
+  check("feeRules.*.roleCodes")
+    .optional()
+    .isArray({ min: 1, max: 20 })
+    .withMessage("roleCodes debe ser un arreglo de 1 a 20 códigos de rol"),
+  check("feeRules.*.roleCodes.*")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Cada código de roleCodes debe tener entre 1 y 50 caracteres"),
+  check("feeRules.*.assistantSubRoles")
+    .optional()
+    .isArray({ min: 1, max: ASSISTANT_SUB_ROLES.length })
+    .withMessage("assistantSubRoles debe ser un arreglo no vacío"),
+  check("feeRules.*.assistantSubRoles.*")
+    .isIn(ASSISTANT_SUB_ROLES)
+    .withMessage(
+      `assistantSubRoles solo admite: ${ASSISTANT_SUB_ROLES.join(", ")}`
+    ),
+  check("feeRules.*.registeredUntil")
+    .optional()
+    .isISO8601({ strict: true })
+    .withMessage("registeredUntil debe ser una fecha válida (YYYY-MM-DD)")
+    .matches(/^\d{4}-\d{2}-\d{2}$/)
+    .withMessage("registeredUntil debe tener formato YYYY-MM-DD"),
+  check("feeRules.*.amount")
+    .exists()
+    .withMessage("Cada regla requiere amount")
+    .bail()
+    .isInt({ min: 0 })
+    .withMessage("amount debe ser un entero mayor o igual a 0 (COP sin decimales)")
+    .toInt(),
+];
+
+export const validatorCreateCamp = [
+  check("name")
+    .exists({ checkFalsy: true })
+    .withMessage("name es requerido")
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("name no debe estar vacío")
+    .isLength({ max: 150 })
+    .withMessage("name debe tener máximo 150 caracteres"),
+  check("code")
+    .exists({ checkFalsy: true })
+    .withMessage("code es requerido")
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage("code debe tener entre 2 y 50 caracteres")
+    .matches(/^[A-Za-z0-9_-]+$/)
+    .withMessage("code solo puede contener letras, números, guiones y guion bajo"),
+  check("theme")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 150 })
+    .withMessage("theme debe tener máximo 150 caracteres"),
+  check("description")
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 5000 })
+    .withMessage("description debe tener máximo 5000 caracteres"),
+  check("startDate")
+    .exists({ checkFalsy: true })
+    .withMessage("startDate es requerido")
+    .isISO8601()
+    .withMessage("startDate debe ser una fecha válida (YYYY-MM-DD)"),
+  check("endDate")
+    .exists({ checkFalsy: true })
+    .withMessage("endDate es requerido")
+    .isISO8601()
+    .withMessage("endDate debe ser una fecha válida (YYYY-MM-DD)")
+    .custom((value, { req }) => {
+      const start = req.body?.startDate;
+      if (start && new Date(value) < new Date(start)) {
+        throw new Error("endDate debe ser igual o posterior a startDate");
+      }
+      return true;
+    }),
+  check("city")
+    .exists({ checkFalsy: true })
+    .withMessage("city es requerido")
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("city debe tener máximo 100 caracteres"),
+  check("country")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("country debe tener máximo 50 caracteres")
+    .matches(/^[A-Za-zÁÉÍÓÚÜÑáéíóúüñ ]+$/)
+    .withMessage("country solo debe contener letras"),
+  check("venue")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 150 })
+    .withMessage("venue debe tener máximo 150 caracteres"),
+  check("maxAttendees")
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage("maxAttendees debe ser un entero mayor a 0")
+    .toInt(),
+  check("registrationOpensAt")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("registrationOpensAt debe ser una fecha válida (ISO 8601)")
+    .toDate(),
+  check("registrationClosesAt")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("registrationClosesAt debe ser una fecha válida (ISO 8601)")
+    .toDate()
+    .custom((value, { req }) => {
+      const opensAt = req.body?.registrationOpensAt;
+      if (opensAt && value && new Date(value) <= new Date(opensAt)) {
+        throw new Error(
+          "registrationClosesAt debe ser posterior a registrationOpensAt"
+        );
+      }
+      return true;
+    }),
+  ...feeChains(),
+  check("status")
+    .optional({ nullable: true })
+    .isIn(CAMP_STATUSES)
+    .withMessage("status debe ser DRAFT, OPEN, CLOSED, FINISHED o CANCELLED"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+// En actualización las reglas de orden entre fechas se validan aquí solo si
+// ambas llegan en el body; el controlador completa la validación con los
+// valores ya persistidos.
+export const validatorUpdateCamp = [
+  check("name")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("name no debe estar vacío")
+    .isLength({ max: 150 })
+    .withMessage("name debe tener máximo 150 caracteres"),
+  check("code")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage("code debe tener entre 2 y 50 caracteres")
+    .matches(/^[A-Za-z0-9_-]+$/)
+    .withMessage("code solo puede contener letras, números, guiones y guion bajo"),
+  check("theme")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 150 }),
+  check("description")
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 5000 }),
+  check("startDate")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("startDate debe ser una fecha válida (YYYY-MM-DD)"),
+  check("endDate")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("endDate debe ser una fecha válida (YYYY-MM-DD)")
+    .custom((value, { req }) => {
+      const start = req.body?.startDate;
+      if (start && new Date(value) < new Date(start)) {
+        throw new Error("endDate debe ser igual o posterior a startDate");
+      }
+      return true;
+    }),
+  check("city")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("city no debe estar vacío")
+    .isLength({ max: 100 }),
+  check("country")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .matches(/^[A-Za-zÁÉÍÓÚÜÑáéíóúüñ ]+$/)
+    .withMessage("country solo debe contener letras"),
+  check("venue")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 150 }),
+  check("maxAttendees")
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage("maxAttendees debe ser un entero mayor a 0")
+    .toInt(),
+  check("registrationOpensAt")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("registrationOpensAt debe ser una fecha válida (ISO 8601)")
+    .toDate(),
+  check("registrationClosesAt")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("registrationClosesAt debe ser una fecha válida (ISO 8601)")
+    .toDate()
+    .custom((value, { req }) => {
+      const opensAt = req.body?.registrationOpensAt;
+      if (opensAt && value && new Date(value) <= new Date(opensAt)) {
+        throw new Error(
+          "registrationClosesAt debe ser posterior a registrationOpensAt"
+        );
+      }
+      return true;
+    }),
+  ...feeChains(),
+  check("status")
+    .optional({ nullable: true })
+    .isIn(CAMP_STATUSES)
+    .withMessage("status debe ser DRAFT, OPEN, CLOSED, FINISHED o CANCELLED"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorGetCamp = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorGetCampByCode = [
+  check("code")
+    .exists({ checkFalsy: true })
+    .withMessage("code es requerido")
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage("code debe tener entre 2 y 50 caracteres")
+    .matches(/^[A-Za-z0-9_-]+$/)
+    .withMessage("code solo puede contener letras, números, guiones y guion bajo"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorQueryCamps = [
+  check("includeInactive")
+    .optional()
+    .isBoolean()
+    .withMessage("includeInactive debe ser boolean")
+    .toBoolean(),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorCampReport = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("format")
+    .optional()
+    .isIn(REPORT_FORMATS)
+    .withMessage(`format debe ser uno de: ${REPORT_FORMATS.join(", ")}`),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorCampStats = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("top")
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage("top debe ser un entero entre 1 y 50")
+    .toInt(),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
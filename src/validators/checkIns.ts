@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from "express";
+import { check } from "express-validator";
+import validateResults from "../utils/handleValidator";
+
+// Check-in con el QR (token) o, como respaldo, por número de identificación
+export const validatorCheckIn = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("token")
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("token no puede estar vacío")
+    .isJWT()
+    .withMessage("token debe ser el contenido del código QR"),
+  check("identificationNumber")
+    .optional()
+    .isString()
+    .trim()
+    .matches(/^[A-Za-z0-9]{1,20}$/)
+    .withMessage("identificationNumber debe ser alfanumérico, máximo 20 caracteres"),
+  check("device")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 255 })
+    .withMessage("device debe tener máximo 255 caracteres"),
+  check("token").custom((token, { req }) => {
+    const byIdentification = req.body?.identificationNumber !== undefined;
+    if ((token === undefined) === !byIdentification) {
+      throw new Error("Envíe token o identificationNumber (solo uno)");
+    }
+    return true;
+  }),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
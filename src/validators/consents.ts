@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from "express";
+import { check } from "express-validator";
+import validateResults from "../utils/handleValidator";
+
+// Formulario de consentimiento (enlace enviado al acudiente)
+export const validatorConsentForm = [
+  check("token")
+    .exists({ checkFalsy: true })
+    .withMessage("token es requerido")
+    .isString()
+    .isLength({ max: 255 })
+    .withMessage("token inválido"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+// Firma del consentimiento por el acudiente
+export const validatorSignConsent = [
+  check("token")
+    .exists({ checkFalsy: true })
+    .withMessage("token es requerido")
+    .isString()
+    .isLength({ max: 255 })
+    .withMessage("token inválido"),
+  check("signedName")
+    .exists({ checkFalsy: true })
+    .withMessage("signedName es requerido")
+    .isString()
+    .trim()
+    .isLength({ min: 3, max: 200 })
+    .withMessage("signedName debe tener entre 3 y 200 caracteres"),
+  check("accept")
+    .exists()
+    .withMessage("accept es requerido")
+    .isBoolean({ strict: true })
+    .withMessage("accept debe ser boolean")
+    .custom((value) => {
+      if (value !== true) {
+        throw new Error("Debe aceptar las declaraciones para firmar");
+      }
+      return true;
+    }),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from "express";
+import { check } from "express-validator";
+import validateResults from "../utils/handleValidator";
+import { DISCOUNT_TYPES } from "../models/DiscountCode";
+
+const CODE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// En creación todos los campos de valor son requeridos; en edición, opcionales
+const discountCodeChains = (required: boolean) => {
+  const field = (name: string) =>
+    required
+      ? check(name)
+          .exists({ checkFalsy: true })
+          .withMessage(`${name} es requerido`)
+          .bail()
+      : check(name).optional();
+  return [
+    check("id")
+      .exists({ checkFalsy: true })
+      .withMessage("id es requerido")
+      .isUUID()
+      .withMessage("id debe ser un UUID válido"),
+    field("code")
+      .isString()
+      .trim()
+      .isLength({ min: 3, max: 50 })
+      .withMessage("code debe tener entre 3 y 50 caracteres")
+      .matches(CODE_PATTERN)
+      .withMessage("code solo puede contener letras, números, guiones y guion bajo")
+      .toUpperCase(),
+    check("description")
+      .optional({ nullable: true })
+      .isString()
+      .trim()
+      .isLength({ max: 255 })
+      .withMessage("description debe tener máximo 255 caracteres"),
+    field("discountType")
+      .isIn([...DISCOUNT_TYPES])
+      .withMessage(`discountType debe ser ${DISCOUNT_TYPES.join(" o ")}`),
+    field("value")
+      .isInt({ min: 1 })
+      .withMessage("value debe ser un entero mayor a 0")
+      .bail()
+      .custom((value, { req }) => {
+        if (req.body?.discountType === "PERCENTAGE" && Number(value) > 100) {
+          throw new Error("value no puede ser mayor a 100 en un descuento PERCENTAGE");
+        }
+        return true;
+      })
+      .toInt(),
+    check("maxUses")
+      .optional({ nullable: true })
+      .isInt({ min: 1 })
+      .withMessage("maxUses debe ser un entero mayor a 0 (null = sin límite)")
+      .toInt(),
+    check("expiresAt")
+      .optional({ nullable: true })
+      .isISO8601()
+      .withMessage("expiresAt debe ser una fecha válida (ISO 8601)")
+      .toDate(),
+    check("isActive")
+      .optional()
+      .isBoolean()
+      .withMessage("isActive debe ser boolean")
+      .toBoolean(),
+  ];
+};
+
+export const validatorCreateDiscountCode = [
+  ...discountCodeChains(true),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorUpdateDiscountCode = [
+  check("codeId")
+    .exists({ checkFalsy: true })
+    .withMessage("codeId es requerido")
+    .isUUID()
+    .withMessage("codeId debe ser un UUID válido"),
+  ...discountCodeChains(false),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+// Código que el asistente (o tesorería) aplica a una inscripción
+export const validatorRedeemDiscountCode = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("code")
+    .exists({ checkFalsy: true })
+    .withMessage("code es requerido")
+    .bail()
+    .isString()
+    .trim()
+    .isLength({ min: 3, max: 50 })
+    .withMessage("code debe tener entre 3 y 50 caracteres")
+    .matches(CODE_PATTERN)
+    .withMessage("code solo puede contener letras, números, guiones y guion bajo"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
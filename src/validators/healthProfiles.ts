@@ -0,0 +1,194 @@
+import { Request, Response, NextFunction } from "express";
+import { check } from "express-validator";
+import validateResults from "../utils/handleValidator";
+import {
+  ALLERGY_SEVERITIES,
+  DIETARY_RESTRICTIONS,
+} from "../models/HealthProfile";
+import { toList } from "./campAttendees";
+
+// Reemplazo completo del perfil médico de un asistente
+export const validatorSaveHealthProfile = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("allergies")
+    .optional({ nullable: true })
+    .isArray({ max: 30 })
+    .withMessage("allergies debe ser un arreglo de máximo 30 alergias"),
+  check("allergies.*.name")
+    .exists({ checkFalsy: true })
+    .withMessage("Cada alergia requiere name")
+    .bail()
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("El name de una alergia debe tener máximo 100 caracteres"),
+  check("allergies.*.severity")
+    .exists({ checkFalsy: true })
+    .withMessage("Cada alergia requiere severity")
+    .bail()
+    .isIn([...ALLERGY_SEVERITIES])
+    .withMessage(`severity debe ser ${ALLERGY_SEVERITIES.join(", ")}`),
+  check("allergies.*.reaction")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 300 })
+    .withMessage("reaction debe tener máximo 300 caracteres"),
+  check("dietaryRestrictions")
+    .optional({ nullable: true })
+    .isArray({ max: DIETARY_RESTRICTIONS.length })
+    .withMessage("dietaryRestrictions debe ser un arreglo")
+    .bail()
+    .custom((value: unknown[]) => {
+      const invalid = value.filter(
+        (item) => !(DIETARY_RESTRICTIONS as readonly unknown[]).includes(item)
+      );
+      if (invalid.length > 0) {
+        throw new Error(
+          `dietaryRestrictions inválidas: ${invalid.join(", ")}. Permitidas: ${DIETARY_RESTRICTIONS.join(", ")}`
+        );
+      }
+      return true;
+    })
+    .customSanitizer((value: string[]) => Array.from(new Set(value))),
+  check("dietaryNotes")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("dietaryNotes debe tener máximo 500 caracteres"),
+  check("medications")
+    .optional({ nullable: true })
+    .isArray({ max: 30 })
+    .withMessage("medications debe ser un arreglo de máximo 30 medicamentos"),
+  check("medications.*.name")
+    .exists({ checkFalsy: true })
+    .withMessage("Cada medicamento requiere name")
+    .bail()
+    .isString()
+    .trim()
+    .isLength({ max: 150 })
+    .withMessage("El name de un medicamento debe tener máximo 150 caracteres"),
+  check("medications.*.dosage")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("dosage debe tener máximo 100 caracteres"),
+  check("medications.*.schedule")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 150 })
+    .withMessage("schedule debe tener máximo 150 caracteres"),
+  check("conditions")
+    .optional({ nullable: true })
+    .isArray({ max: 30 })
+    .withMessage("conditions debe ser un arreglo de máximo 30 condiciones"),
+  check("conditions.*.name")
+    .exists({ checkFalsy: true })
+    .withMessage("Cada condición requiere name")
+    .bail()
+    .isString()
+    .trim()
+    .isLength({ max: 150 })
+    .withMessage("El name de una condición debe tener máximo 150 caracteres"),
+  check("conditions.*.notes")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("notes de una condición debe tener máximo 500 caracteres"),
+  check("emergencyContactName")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage("emergencyContactName debe tener máximo 200 caracteres"),
+  check("emergencyContactPhone")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .matches(/^\+?\d{1,15}$/)
+    .withMessage("emergencyContactPhone debe contener solo números, opcional '+' al inicio, máximo 15 dígitos"),
+  check("emergencyContactRelationship")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("emergencyContactRelationship debe tener máximo 50 caracteres"),
+  check("insuranceProvider")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 150 })
+    .withMessage("insuranceProvider debe tener máximo 150 caracteres"),
+  check("insurancePolicyNumber")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("insurancePolicyNumber debe tener máximo 50 caracteres"),
+  check("notes")
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 5000 })
+    .withMessage("notes debe tener máximo 5000 caracteres"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+// Listado de perfiles para los equipos médico y de cocina
+export const validatorQueryHealthProfiles = [
+  check("campId")
+    .optional()
+    .isUUID()
+    .withMessage("campId debe ser un UUID válido"),
+  check("allergen")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage("allergen debe tener entre 2 y 100 caracteres"),
+  check("severity")
+    .optional()
+    .isIn([...ALLERGY_SEVERITIES])
+    .withMessage(`severity debe ser ${ALLERGY_SEVERITIES.join(", ")}`),
+  check("dietaryRestriction")
+    .optional()
+    .customSanitizer(toList)
+    .custom((value: string[]) => {
+      const invalid = value.filter(
+        (item) => !(DIETARY_RESTRICTIONS as readonly string[]).includes(item)
+      );
+      if (invalid.length > 0) {
+        throw new Error(
+          `dietaryRestriction inválida: ${invalid.join(", ")}. Permitidas: ${DIETARY_RESTRICTIONS.join(", ")}`
+        );
+      }
+      return true;
+    }),
+  check("withMedications")
+    .optional()
+    .isBoolean()
+    .withMessage("withMedications debe ser boolean")
+    .toBoolean(),
+  check("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("page debe ser un entero mayor o igual a 1")
+    .toInt(),
+  check("pageSize")
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage("pageSize debe ser un entero entre 1 y 200")
+    .toInt(),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
@@ -0,0 +1,157 @@
+import { Request, Response, NextFunction } from "express";
+import { check } from "express-validator";
+import validateResults from "../utils/handleValidator";
+import { PAYMENT_METHODS, PAYMENT_STATUSES } from "../models/Payment";
+
+// Registro manual de un pago por tesorería
+export const validatorRecordPayment = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("amount")
+    .exists({ checkFalsy: true })
+    .withMessage("amount es requerido")
+    .bail()
+    .isInt({ min: 1 })
+    .withMessage("amount debe ser un entero mayor a 0 (COP sin decimales)")
+    .toInt(),
+  check("method")
+    .exists({ checkFalsy: true })
+    .withMessage("method es requerido")
+    .bail()
+    .isIn([...PAYMENT_METHODS])
+    .withMessage(`method debe ser uno de: ${PAYMENT_METHODS.join(", ")}`),
+  check("reference")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("reference debe tener entre 1 y 100 caracteres"),
+  check("paidAt")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("paidAt debe ser una fecha válida (ISO 8601)")
+    .bail()
+    .custom((value: string) => {
+      if (new Date(value) > new Date()) {
+        throw new Error("paidAt no puede ser una fecha futura");
+      }
+      return true;
+    })
+    .toDate(),
+  check("notes")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("notes debe tener máximo 500 caracteres"),
+  // Soporte del pago subido previamente a R2
+  check("documentKey")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 512 })
+    .withMessage("documentKey debe tener máximo 512 caracteres"),
+  check("mimeType")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("mimeType debe tener máximo 100 caracteres")
+    .matches(/^[a-zA-Z0-9]+\/[a-zA-Z0-9.+-]+$/)
+    .withMessage("mimeType debe tener formato tipo/subtipo, ej: application/pdf"),
+  check("bucket")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 255 })
+    .withMessage("bucket debe tener máximo 255 caracteres")
+    .matches(/^[A-Za-z0-9._-]+$/)
+    .withMessage("bucket solo puede contener letras, números, punto, guion y guion bajo"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorVoidPayment = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("paymentId")
+    .exists({ checkFalsy: true })
+    .withMessage("paymentId es requerido")
+    .isUUID()
+    .withMessage("paymentId debe ser un UUID válido"),
+  check("reason")
+    .exists({ checkFalsy: true })
+    .withMessage("reason es requerido")
+    .bail()
+    .isString()
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage("reason debe tener entre 3 y 500 caracteres"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+// Enlace de pago en línea; sin amount se cobra todo el saldo pendiente
+export const validatorCreateCheckout = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("amount")
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage("amount debe ser un entero mayor a 0 (COP sin decimales)")
+    .toInt(),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorSimulateCheckout = [
+  check("checkoutId")
+    .exists({ checkFalsy: true })
+    .withMessage("checkoutId es requerido")
+    .isUUID()
+    .withMessage("checkoutId debe ser un UUID válido"),
+  check("status")
+    .exists({ checkFalsy: true })
+    .withMessage("status es requerido")
+    .bail()
+    .isIn([...PAYMENT_STATUSES])
+    .withMessage(`status debe ser uno de: ${PAYMENT_STATUSES.join(", ")}`),
+  // Repetir un transactionId simula reintentos o cambios de estado
+  check("transactionId")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("transactionId debe tener entre 1 y 100 caracteres"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorPaymentReceipt = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("paymentId")
+    .exists({ checkFalsy: true })
+    .withMessage("paymentId es requerido")
+    .isUUID()
+    .withMessage("paymentId debe ser un UUID válido"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
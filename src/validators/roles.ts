@@ -1,6 +1,7 @@
 import { check } from "express-validator";
 import { Request, Response, NextFunction } from "express";
 import validateResults from "../utils/handleValidator";
+import { PERMISSION_CODES } from "../models/Permission";
 
 // Validar creación de rol
 export const validatorCreateRole = [
@@ -102,4 +103,22 @@ export const validatorQueryRoles = [
     .toBoolean(),
 
   (req: Request, res: Response, next: NextFunction) => validateResults(req, res, next),
-];
\ No newline at end of file
+];
+// Validar reemplazo de permisos de un rol
+export const validatorUpdateRolePermissions = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+
+  check("permissions")
+    .isArray()
+    .withMessage("permissions debe ser un arreglo de códigos"),
+
+  check("permissions.*")
+    .isIn(PERMISSION_CODES)
+    .withMessage(`Permiso inválido. Valores permitidos: ${PERMISSION_CODES.join(", ")}`),
+
+  (req: Request, res: Response, next: NextFunction) => validateResults(req, res, next),
+];
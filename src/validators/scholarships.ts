@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from "express";
+import { check } from "express-validator";
+import validateResults from "../utils/handleValidator";
+import { DISCOUNT_TYPES } from "../models/DiscountCode";
+import { SCHOLARSHIP_STATUSES } from "../models/Scholarship";
+
+export const validatorRequestScholarship = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("discountType")
+    .exists({ checkFalsy: true })
+    .withMessage("discountType es requerido")
+    .bail()
+    .isIn([...DISCOUNT_TYPES])
+    .withMessage(`discountType debe ser ${DISCOUNT_TYPES.join(" o ")}`),
+  check("value")
+    .exists({ checkFalsy: true })
+    .withMessage("value es requerido")
+    .bail()
+    .isInt({ min: 1 })
+    .withMessage("value debe ser un entero mayor a 0")
+    .bail()
+    .custom((value, { req }) => {
+      if (req.body?.discountType === "PERCENTAGE" && Number(value) > 100) {
+        throw new Error("value no puede ser mayor a 100 en una beca PERCENTAGE");
+      }
+      return true;
+    })
+    .toInt(),
+  check("reason")
+    .exists({ checkFalsy: true })
+    .withMessage("reason es requerido")
+    .bail()
+    .isString()
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage("reason debe tener entre 3 y 500 caracteres"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+export const validatorReviewScholarship = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("scholarshipId")
+    .exists({ checkFalsy: true })
+    .withMessage("scholarshipId es requerido")
+    .isUUID()
+    .withMessage("scholarshipId debe ser un UUID válido"),
+  check("decision")
+    .exists({ checkFalsy: true })
+    .withMessage("decision es requerido")
+    .bail()
+    .isIn(["APPROVED", "REJECTED", "REVOKED"])
+    .withMessage("decision debe ser APPROVED, REJECTED o REVOKED"),
+  check("notes")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("notes debe tener máximo 500 caracteres"),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];
+
+// Becas de un camp para revisión
+export const validatorQueryCampScholarships = [
+  check("id")
+    .exists({ checkFalsy: true })
+    .withMessage("id es requerido")
+    .isUUID()
+    .withMessage("id debe ser un UUID válido"),
+  check("status")
+    .optional()
+    .isIn([...SCHOLARSHIP_STATUSES])
+    .withMessage(`status debe ser uno de: ${SCHOLARSHIP_STATUSES.join(", ")}`),
+  (req: Request, res: Response, next: NextFunction) => {
+    return validateResults(req, res, next);
+  },
+];